@@ -1,5 +1,7 @@
-import { DatabaseSchema, Violation, ComplianceScore, AnalysisReport } from '../types/schema';
+import { DatabaseSchema, Violation, ComplianceScore, AnalysisReport, NormalForm, SchemaContext } from '../types/schema';
 import { NormalizationRule, RuleResult } from '../rules/normalizationRule';
+import { buildSchemaContext } from './schemaContext';
+import { qualifiedName } from '../rules/naming';
 
 export class ComplianceCalculator {
   private rules: Map<string, NormalizationRule> = new Map();
@@ -8,44 +10,60 @@ export class ComplianceCalculator {
     this.rules.set(`${rule.normalForm}-${rule.name}`, rule);
   }
   
-  calculateCompliance(schema: DatabaseSchema): AnalysisReport {
-    const violations = this.evaluateAllRules(schema);
+  /**
+   * Score the tables of `schema`; rules see the tables of `context` as well,
+   * by default only those of `schema`
+   */
+  calculateCompliance(schema: DatabaseSchema, context: SchemaContext = buildSchemaContext(Object.values(schema.tables))): AnalysisReport {
+    const violations = this.evaluateAllRules(schema, context);
     
     const compliance1NF = this.calculateNormalFormCompliance('1NF', violations['1NF'], schema);
     const compliance2NF = this.calculateNormalFormCompliance('2NF', violations['2NF'], schema);
     const compliance3NF = this.calculateNormalFormCompliance('3NF', violations['3NF'], schema);
+    const complianceBCNF = this.calculateNormalFormCompliance('BCNF', violations['BCNF'], schema);
+    const compliance4NF = this.calculateNormalFormCompliance('4NF', violations['4NF'], schema);
     
+    // BCNF and 4NF are scored on their own; the overall score keeps the 1NF-3NF weights
     const overallScore = this.calculateOverallScore(compliance1NF, compliance2NF, compliance3NF);
     
     const summary = this.generateSummary(violations);
+    const scored = new Set(Object.values(schema.tables).map(qualifiedName));
+    const impliedRelationships = context.impliedRelationships.filter(relationship => scored.has(relationship.from));
     
     return {
       schema,
       compliance: {
         '1NF': compliance1NF,
         '2NF': compliance2NF,
-        '3NF': compliance3NF
+        '3NF': compliance3NF,
+        'BCNF': complianceBCNF,
+        '4NF': compliance4NF
       },
       overallScore,
-      summary
+      summary,
+      ...(impliedRelationships.length > 0 ? { impliedRelationships } : {})
     };
   }
   
-  private evaluateAllRules(schema: DatabaseSchema): {
+  private evaluateAllRules(schema: DatabaseSchema, context: SchemaContext): {
     '1NF': Violation[];
     '2NF': Violation[];
     '3NF': Violation[];
+    'BCNF': Violation[];
+    '4NF': Violation[];
   } {
     const result = {
       '1NF': [] as Violation[],
       '2NF': [] as Violation[],
-      '3NF': [] as Violation[]
+      '3NF': [] as Violation[],
+      'BCNF': [] as Violation[],
+      '4NF': [] as Violation[]
     };
     
     for (const rule of this.rules.values()) {
       try {
-        const ruleResult: RuleResult = rule.evaluate(schema);
-        result[rule.normalForm].push(...ruleResult.violations);
+        const ruleResult: RuleResult = rule.evaluate(schema, context);
+        result[rule.normalForm].push(...ruleResult.violations.map(violation => this.locateViolation(violation, schema)));
       } catch (error) {
         console.error(`Error in rule ${rule.name}:`, error);
       }
@@ -54,8 +72,19 @@ export class ComplianceCalculator {
     return result;
   }
   
+  /**
+   * Point a violation at its column's declaration, or else its table's
+   */
+  private locateViolation(violation: Violation, schema: DatabaseSchema): Violation {
+    const table = schema.tables[violation.table];
+    const location = violation.location ||
+      (violation.column ? table?.columns[violation.column]?.location : undefined) ||
+      table?.location;
+    return location ? { ...violation, location } : violation;
+  }
+
   private calculateNormalFormCompliance(
-    normalForm: '1NF' | '2NF' | '3NF',
+    normalForm: NormalForm,
     violations: Violation[],
     schema: DatabaseSchema
   ): ComplianceScore {
@@ -81,7 +110,7 @@ export class ComplianceCalculator {
     };
   }
   
-  private calculateWeightedViolations(violations: Violation[], normalForm: '1NF' | '2NF' | '3NF'): number {
+  private calculateWeightedViolations(violations: Violation[], normalForm: NormalForm): number {
     // Calculate weight based on the specific rules violated
     let totalWeight = 0;
     
@@ -142,15 +171,35 @@ export class ComplianceCalculator {
       if (ruleName === 'no transitive dependencies') {
         return message.includes('determinant') || message.includes('transitive');
       }
+      if (ruleName === 'enumerated domain') {
+        return message.includes('lookup table');
+      }
+      if (ruleName === 'check constraint dependencies') {
+        return message.includes('check constraint relates');
+      }
+      if (ruleName === 'redundant columns') {
+        return message.includes('duplicates');
+      }
+    }
+    
+    // BCNF rule matching
+    if (rule.normalForm === 'BCNF') {
       if (ruleName === 'boyce-codd normal form check') {
-        return message.includes('determinant') || message.includes('candidate key');
+        return message.includes('determinant');
+      }
+    }
+    
+    // 4NF rule matching
+    if (rule.normalForm === '4NF') {
+      if (ruleName === 'no multivalued dependencies') {
+        return message.includes('multivalued dependency');
       }
     }
     
     return false;
   }
   
-  private getUniqueRuleCount(violations: Violation[], normalForm: '1NF' | '2NF' | '3NF'): number {
+  private getUniqueRuleCount(violations: Violation[], normalForm: NormalForm): number {
     const ruleNames = new Set();
     for (const violation of violations) {
       if (violation.normalForm === normalForm) {
@@ -186,11 +235,15 @@ export class ComplianceCalculator {
     '1NF': Violation[];
     '2NF': Violation[];
     '3NF': Violation[];
+    'BCNF': Violation[];
+    '4NF': Violation[];
   }) {
     const allViolations = [
       ...violations['1NF'],
       ...violations['2NF'],
-      ...violations['3NF']
+      ...violations['3NF'],
+      ...violations['BCNF'],
+      ...violations['4NF']
     ];
     
     const criticalViolations = allViolations.filter(v => v.severity === 'ERROR').length;
@@ -204,7 +257,7 @@ export class ComplianceCalculator {
   }
   
   // Explainability methods
-  getRuleExplanation(normalForm: '1NF' | '2NF' | '3NF', ruleName: string) {
+  getRuleExplanation(normalForm: NormalForm, ruleName: string) {
     const rule = this.rules.get(`${normalForm}-${ruleName}`);
     return rule ? rule.getExplanation() : null;
   }
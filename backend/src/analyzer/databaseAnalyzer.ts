@@ -1,29 +1,88 @@
-import { DatabaseSchema, AnalysisReport, Table } from '../types/schema';
+import { DatabaseSchema, AnalysisReport, Table, UserDefinedType, NormalForm, SchemaContext, ImpliedRelationship } from '../types/schema';
 import { DatabaseAnalysisResult, SchemaAnalysisResult, NormalizationViolation } from '../types/analysis';
-import { ExtractedTable, DumpParseResult, AnalysisInput } from '../types/dumpParser';
+import { ExtractedTable, DumpParseResult, AnalysisInput, SQLDialect, DialectDetection, DialectTableParser, TableRows } from '../types/dumpParser';
+import { MigrationScript, MigrationStep, MigrationAnalysisReport } from '../types/migration';
+import { OrmKind, OrmSourceFile } from '../types/orm';
+import { DeclaredDependencies, DataProfileOptions, FunctionalDependency, MultivaluedDependency } from '../types/dependency';
 import { SQLParser } from '../parser/sqlParser';
 import { DumpParser } from '../parser/dumpParser';
+import { MySQLParser } from '../parser/mysqlParser';
+import { SQLiteParser } from '../parser/sqliteParser';
+import { TSQLParser } from '../parser/tsqlParser';
+import { PrismaParser } from '../parser/prismaParser';
+import { DrizzleParser } from '../parser/drizzleParser';
+import { TypeORMParser } from '../parser/typeormParser';
+import { DBMLParser } from '../parser/dbmlParser';
+import { detectDialect, DIALECT_NAMES } from '../parser/dialectDetector';
+import { extractCommentDependencies, mergeDependencies } from '../parser/dependencyDeclarations';
+import { DIALECT_SYNTAX, SQLSyntax } from '../parser/sqlStatementSplitter';
+import { readTableRows, readArchiveRows } from '../parser/dumpDataReader';
+import { PgArchiveReader } from '../parser/pgArchiveReader';
+import { discoverDependencies, discoverMultivaluedDependencies } from '../rules/dependencyDiscovery';
 import { ComplianceCalculator } from './complianceCalculator';
+import { buildSchemaContext } from './schemaContext';
+import { qualifiedName } from '../rules/naming';
 import { NoRepeatingGroupsRule, AtomicValuesRule, PrimaryKeyRule } from '../rules/firstNormalFormRules';
 import { NoPartialDependencyRule, FullFunctionalDependencyRule } from '../rules/secondNormalFormRules';
-import { NoTransitiveDependencyRule, BoyceCoddRule } from '../rules/thirdNormalFormRules';
+import { NoTransitiveDependencyRule, EnumeratedDomainRule, CheckConstraintDependencyRule, RedundantColumnRule } from '../rules/thirdNormalFormRules';
+import { BoyceCoddRule } from '../rules/boyceCoddNormalFormRules';
+import { NoMultivaluedDependencyRule } from '../rules/fourthNormalFormRules';
+
+// Rows read per table when profiling row data
+const DEFAULT_SAMPLE_ROWS = 10000;
 
 export class DatabaseAnalyzer {
   private parser: SQLParser;
+  private dialectParsers: Record<Exclude<SQLDialect, 'postgres'>, DialectTableParser>;
   private complianceCalculator: ComplianceCalculator;
+  private declaredDependencies: DeclaredDependencies = {};
+  private dataProfile: DataProfileOptions | null = null;
   
   constructor() {
     this.parser = new SQLParser();
+    this.dialectParsers = {
+      mysql: new MySQLParser(),
+      sqlite: new SQLiteParser(),
+      tsql: new TSQLParser()
+    };
     this.complianceCalculator = new ComplianceCalculator();
     
     this.initializeRules();
   }
 
+  /**
+   * Declare functional dependencies for the schemas analyzed from now on, by
+   * "table" or "schema.table". Declared tables get exact 2NF/3NF/BCNF checks,
+   * and multivalued dependencies a 4NF check.
+   */
+  declareDependencies(dependencies: DeclaredDependencies): void {
+    this.declaredDependencies = dependencies;
+  }
+
+  /**
+   * Profile the row data (COPY blocks and INSERTs) of the SQL, text dumps and
+   * pg_dump archives analyzed from now on. Tables with rows get the
+   * dependencies that hold in them in place of the name heuristics; violations
+   * cite the rows as evidence.
+   */
+  profileData(options: DataProfileOptions = {}): void {
+    this.dataProfile = options;
+  }
+
   /**
    * Analyze SQL content with multi-schema support
+   * @param file Name reported in violation source locations
+   * @param dialect Skips dialect detection when given
    */
-  analyzeSQLWithSchemas(sqlContent: string): DatabaseAnalysisResult {
+  analyzeSQLWithSchemas(sqlContent: string, file?: string, dialect?: SQLDialect): DatabaseAnalysisResult {
     try {
+      const detection = detectDialect(sqlContent, dialect);
+      if (detection.dialect !== 'postgres') {
+        const tables = this.extractDialectTables(sqlContent, detection.dialect, file);
+        const { dependencies } = this.scriptDependencies(sqlContent, DIALECT_SYNTAX[detection.dialect], tables.map(table => this.buildCanonicalTable(table)));
+        return { ...this.analyze({ tables, metadata: { dialect: detection.dialect, sourceType: 'sql' }, dependencies }), dialect: detection };
+      }
+
       // Check if this is a dump file
       const dumpInfo = DumpParser.getDumpInfo(sqlContent);
       
@@ -32,18 +91,20 @@ export class DatabaseAnalyzer {
       
       if (dumpInfo.format !== 'text' && dumpInfo.format !== 'unknown') {
         // This is a dump file, extract schema first
-        const dumpResult = DumpParser.parseDumpFile(sqlContent);
+        const dumpResult = DumpParser.parseDumpFile(sqlContent, file);
         
         if (!dumpResult.success) {
           throw new Error(`Failed to parse dump file: ${dumpResult.errors.join(', ')}`);
         }
         
         // Use new dump parser - extract tables directly
-        return this.analyzeExtractedTables(dumpResult.tables);
+        const { dependencies } = this.scriptDependencies(sqlContent, DIALECT_SYNTAX.postgres, dumpResult.tables.map(table => this.buildCanonicalTable(table)));
+        return { ...this.analyzeExtractedTables(dumpResult.tables, dependencies), dialect: detection };
       } else {
         // Regular SQL file
-        schema = this.parser.parse(sqlContent);
-        return this.analyzeSchemas(schema, []);
+        schema = this.parser.parse(sqlContent, file);
+        const { dependencies } = this.scriptDependencies(sqlContent, DIALECT_SYNTAX.postgres, Object.values(schema.tables));
+        return { ...this.analyzeSchemas(schema, [], dependencies), dialect: detection };
       }
       
     } catch (error) {
@@ -53,12 +114,14 @@ export class DatabaseAnalyzer {
 
   /**
    * Analyze dump file with multi-schema support
+   * @param dialect Skips dialect detection when given
    */
-  analyzeDumpFileWithSchemas(dumpContent: string): DatabaseAnalysisResult & {
+  analyzeDumpFileWithSchemas(dumpContent: string | Buffer, file?: string, dialect?: SQLDialect): DatabaseAnalysisResult & {
     dumpParseResult: DumpParseResult;
     analysisNotes: string[];
   } {
-    const dumpResult = DumpParser.parseDumpFile(dumpContent);
+    const detection = detectDialect(dumpContent, dialect);
+    const dumpResult = DumpParser.parseDumpFile(dumpContent, file, detection.dialect);
     
     if (!dumpResult.success) {
       throw new Error(`Failed to parse dump file: ${dumpResult.errors.join(', ')}`);
@@ -69,9 +132,10 @@ export class DatabaseAnalyzer {
     
     return {
       ...analysisResult,
+      dialect: detection,
       dumpParseResult: dumpResult,
       analysisNotes: [
-        `Analyzed PostgreSQL dump file (${dumpResult.metadata.detectedFormat} format)`,
+        `Analyzed ${DIALECT_NAMES[detection.dialect]} dump file (${dumpResult.metadata.detectedFormat} format)`,
         `Extracted ${dumpResult.tables.length} tables from dump`,
         `Dump size: ${(dumpResult.metadata.totalSize / 1024).toFixed(2)}KB, Extracted: ${(dumpResult.metadata.extractedSize / 1024).toFixed(2)}KB`,
         ...(dumpResult.errors.length > 0 ? [`Warnings: ${dumpResult.errors.join(', ')}`] : [])
@@ -82,7 +146,7 @@ export class DatabaseAnalyzer {
   /**
    * Core schema analysis logic
    */
-  private analyzeSchemas(schema: DatabaseSchema, dumpTables: string[]): DatabaseAnalysisResult {
+  private analyzeSchemas(schema: DatabaseSchema, dumpTables: string[], dependencies?: DeclaredDependencies): DatabaseAnalysisResult {
     // Step A: Group tables by schema
     const tablesBySchema = new Map<string, any[]>();
     
@@ -105,13 +169,15 @@ export class DatabaseAnalyzer {
       tablesBySchema.get(schemaName)!.push({ name: actualTableName, ...table });
     }
     
-    // Step B: Analyze tables UNCHANGED (use existing rule engine)
+    // Step B: Analyze tables one at a time, with every schema's tables in context
+    const context = buildSchemaContext(Array.from(tablesBySchema.values()).flat());
+    this.attachDependencies({ tables: context.tables }, dependencies);
     const schemaResults: SchemaAnalysisResult[] = [];
     let totalTables = 0;
     let totalScore = 0;
     
     for (const [schemaName, tables] of tablesBySchema.entries()) {
-      const schemaResult = this.analyzeSchema(schemaName, tables);
+      const schemaResult = this.analyzeSchema(schemaName, tables, context);
       schemaResults.push(schemaResult);
       totalTables += tables.length;
       totalScore += schemaResult.overallScore;
@@ -131,15 +197,18 @@ export class DatabaseAnalyzer {
   /**
    * Analyze a single schema
    */
-  private analyzeSchema(schemaName: string, tables: any[]): SchemaAnalysisResult {
+  private analyzeSchema(schemaName: string, tables: any[], context: SchemaContext): SchemaAnalysisResult {
     const violations: NormalizationViolation[] = [];
+    const impliedRelationships: ImpliedRelationship[] = [];
     const tableScores: number[] = [];
     
     // Initialize normalization tracking
     const normalization = {
       "1NF": { score: 0, violatedTables: 0, totalTables: tables.length },
       "2NF": { score: 0, violatedTables: 0, totalTables: tables.length },
-      "3NF": { score: 0, violatedTables: 0, totalTables: tables.length }
+      "3NF": { score: 0, violatedTables: 0, totalTables: tables.length },
+      "BCNF": { score: 0, violatedTables: 0, totalTables: tables.length },
+      "4NF": { score: 0, violatedTables: 0, totalTables: tables.length }
     };
     
     // Analyze each table using existing rule engine
@@ -147,13 +216,14 @@ export class DatabaseAnalyzer {
       // Use the original table name without schema prefix for analysis
       const tableName = table.name.includes('.') ? table.name.split('.')[1] : table.name;
       const tableSchema = { tables: { [tableName]: table } };
-      const report = this.complianceCalculator.calculateCompliance(tableSchema);
+      const report = this.complianceCalculator.calculateCompliance(tableSchema, context);
       
       // Track table score
       tableScores.push(report.overallScore);
+      impliedRelationships.push(...(report.impliedRelationships || []));
       
       // Collect violations and normalize table names
-      ['1NF', '2NF', '3NF'].forEach(nf => {
+      ['1NF', '2NF', '3NF', 'BCNF', '4NF'].forEach(nf => {
         const nfScore = report.compliance[nf as keyof typeof report.compliance];
         if (nfScore.violations.length > 0) {
           normalization[nf as keyof typeof normalization].violatedTables++;
@@ -162,14 +232,16 @@ export class DatabaseAnalyzer {
         // Convert violations to NormalizationViolation format
         nfScore.violations.forEach(v => {
           violations.push({
-            normalForm: nf as '1NF' | '2NF' | '3NF',
+            normalForm: nf as NormalForm,
             table: table.name,
             column: v.column,
             severity: v.severity,
             message: v.message,
             explanation: v.explanation,
             suggestion: v.suggestion,
-            confidence: v.confidence
+            confidence: v.confidence,
+            ...(v.location ? { location: v.location } : {}),
+            ...(v.decomposition ? { decomposition: v.decomposition } : {})
           });
         });
       });
@@ -182,6 +254,10 @@ export class DatabaseAnalyzer {
       (100 - (normalization["2NF"].violatedTables / normalization["2NF"].totalTables) * 100);
     normalization["3NF"].score = normalization["3NF"].violatedTables === 0 ? 100 : 
       (100 - (normalization["3NF"].violatedTables / normalization["3NF"].totalTables) * 100);
+    normalization["BCNF"].score = normalization["BCNF"].violatedTables === 0 ? 100 : 
+      (100 - (normalization["BCNF"].violatedTables / normalization["BCNF"].totalTables) * 100);
+    normalization["4NF"].score = normalization["4NF"].violatedTables === 0 ? 100 : 
+      (100 - (normalization["4NF"].violatedTables / normalization["4NF"].totalTables) * 100);
     
     // Calculate overall schema score
     const schemaScore = tableScores.length > 0 ? tableScores.reduce((a, b) => a + b, 0) / tableScores.length : 0;
@@ -194,6 +270,7 @@ export class DatabaseAnalyzer {
       tableCount: tables.length,
       normalization,
       violations,
+      ...(impliedRelationships.length > 0 ? { impliedRelationships } : {}),
       overallScore: schemaScore,
       status
     };
@@ -204,14 +281,14 @@ export class DatabaseAnalyzer {
    * NO SQL PARSING - ONLY ANALYSIS
    */
   analyze(input: AnalysisInput): DatabaseAnalysisResult {
-    return this.analyzeExtractedTables(input.tables);
+    return this.analyzeExtractedTables(input.tables, input.dependencies);
   }
 
   /**
    * Analyze extracted tables directly from dump parser
    * NO RE-PARSING - use facts from dump parser
    */
-  private analyzeExtractedTables(extractedTables: ExtractedTable[]): DatabaseAnalysisResult {
+  private analyzeExtractedTables(extractedTables: ExtractedTable[], dependencies?: DeclaredDependencies): DatabaseAnalysisResult {
     // Group tables by schema using dump parser facts
     const tablesBySchema = new Map<string, ExtractedTable[]>();
     
@@ -227,18 +304,18 @@ export class DatabaseAnalyzer {
       tablesBySchema.get(table.schema)!.push(table);
     });
     
+    // Every schema's tables are in context while each table is scored
+    const analyzed = Array.from(tablesBySchema.entries()).filter(([schemaName]) => !this.isSystemSchema(schemaName));
+    const context = buildSchemaContext(analyzed.flatMap(([, tables]) => tables.map(table => this.buildCanonicalTable(table))));
+    this.attachDependencies({ tables: context.tables }, dependencies);
+    
     // Analyze each schema
     const schemaResults: SchemaAnalysisResult[] = [];
     let totalTables = 0;
     let totalScore = 0;
     
-    for (const [schemaName, tables] of tablesBySchema.entries()) {
-      // Skip system schemas
-      if (this.isSystemSchema(schemaName)) {
-        continue;
-      }
-      
-      const schemaResult = this.analyzeExtractedSchema(schemaName, tables);
+    for (const [schemaName, tables] of analyzed) {
+      const schemaResult = this.analyzeExtractedSchema(schemaName, tables, context);
       schemaResults.push(schemaResult);
       totalTables += tables.length;
       totalScore += schemaResult.overallScore;
@@ -266,10 +343,18 @@ export class DatabaseAnalyzer {
         acc[col.name] = {
           name: col.name,
           type: col.type,
+          ...(col.resolvedType ? { resolvedType: col.resolvedType } : {}),
+          ...(col.resolvedKind ? { resolvedKind: col.resolvedKind } : {}),
           nullable: col.nullable,
           primaryKey: col.primaryKey || false,
           unique: col.unique || false,
-          foreignKey: col.foreignKey || undefined
+          foreignKey: col.foreignKey ? {
+            table: col.foreignKey.referencesTable,
+            column: col.foreignKey.referencesColumn
+          } : undefined,
+          ...(col.autoIncrement ? { autoIncrement: true } : {}),
+          ...(col.note ? { note: col.note } : {}),
+          ...(col.location ? { location: col.location } : {})
         };
         return acc;
       }, {}) : {},
@@ -277,41 +362,60 @@ export class DatabaseAnalyzer {
       foreignKeys: extracted.constraints.filter(c => c.type === 'foreign_key').map(c => ({
         column: c.columns[0],
         referencesTable: c.references?.table || '',
-        referencesColumn: c.references?.columns[0] || ''
+        referencesColumn: c.references?.columns[0] || '',
+        columns: c.columns,
+        referencesSchema: c.references?.schema || 'public',
+        referencesColumns: c.references?.columns || [],
+        ...(c.name ? { name: c.name } : {}),
+        ...(c.onDelete ? { onDelete: c.onDelete } : {}),
+        ...(c.onUpdate ? { onUpdate: c.onUpdate } : {})
+      })),
+      uniqueConstraints: extracted.constraints.filter(c => c.type === 'unique').map(c => c.columns),
+      checkConstraints: extracted.constraints.filter(c => c.type === 'check').map(c => ({
+        ...(c.name ? { name: c.name } : {}),
+        expression: c.expression || '',
+        columns: c.columns,
+        ...(c.allowedValues ? { allowedValues: c.allowedValues } : {})
       })),
-      uniqueConstraints: extracted.constraints.filter(c => c.type === 'unique').map(c => c.columns)
+      ...(extracted.location ? { location: extracted.location } : {})
     };
   }
 
   /**
    * Analyze a single schema from extracted tables
    */
-  private analyzeExtractedSchema(schemaName: string, extractedTables: ExtractedTable[]): SchemaAnalysisResult {
+  private analyzeExtractedSchema(
+    schemaName: string,
+    extractedTables: ExtractedTable[],
+    context: SchemaContext
+  ): SchemaAnalysisResult {
     const violations: NormalizationViolation[] = [];
+    const impliedRelationships: ImpliedRelationship[] = [];
     const tableScores: number[] = [];
     
     // Initialize normalization tracking
     const normalization = {
       "1NF": { score: 0, violatedTables: 0, totalTables: extractedTables.length },
       "2NF": { score: 0, violatedTables: 0, totalTables: extractedTables.length },
-      "3NF": { score: 0, violatedTables: 0, totalTables: extractedTables.length }
+      "3NF": { score: 0, violatedTables: 0, totalTables: extractedTables.length },
+      "BCNF": { score: 0, violatedTables: 0, totalTables: extractedTables.length },
+      "4NF": { score: 0, violatedTables: 0, totalTables: extractedTables.length }
     };
     
     // Analyze each table using dump parser facts (NO RE-PARSING!)
     for (const extractedTable of extractedTables) {
-      // Build canonical table directly from ExtractedTable facts
-      const canonicalTable = this.buildCanonicalTable(extractedTable);
-      
-      // Create minimal schema for compliance calculator
+      // Canonical table built from ExtractedTable facts, scored on its own
+      const canonicalTable = context.tables[`${schemaName}.${extractedTable.tableName}`];
       const tableSchema = { tables: { [extractedTable.tableName]: canonicalTable } };
       
-      const report = this.complianceCalculator.calculateCompliance(tableSchema);
+      const report = this.complianceCalculator.calculateCompliance(tableSchema, context);
       
       // Track table score
       tableScores.push(report.overallScore);
+      impliedRelationships.push(...(report.impliedRelationships || []));
       
       // Collect violations and normalize table names
-      ['1NF', '2NF', '3NF'].forEach(nf => {
+      ['1NF', '2NF', '3NF', 'BCNF', '4NF'].forEach(nf => {
         const nfScore = report.compliance[nf as keyof typeof report.compliance];
         if (nfScore.violations.length > 0) {
           normalization[nf as keyof typeof normalization].violatedTables++;
@@ -320,14 +424,16 @@ export class DatabaseAnalyzer {
         // Convert violations to NormalizationViolation format
         nfScore.violations.forEach(v => {
           violations.push({
-            normalForm: nf as '1NF' | '2NF' | '3NF',
+            normalForm: nf as NormalForm,
             table: extractedTable.tableName,
             column: v.column,
             severity: v.severity,
             message: v.message,
             explanation: v.explanation,
             suggestion: v.suggestion,
-            confidence: v.confidence
+            confidence: v.confidence,
+            ...(v.location ? { location: v.location } : {}),
+            ...(v.decomposition ? { decomposition: v.decomposition } : {})
           });
         });
       });
@@ -340,6 +446,10 @@ export class DatabaseAnalyzer {
       (100 - (normalization["2NF"].violatedTables / normalization["2NF"].totalTables) * 100);
     normalization["3NF"].score = normalization["3NF"].violatedTables === 0 ? 100 : 
       (100 - (normalization["3NF"].violatedTables / normalization["3NF"].totalTables) * 100);
+    normalization["BCNF"].score = normalization["BCNF"].violatedTables === 0 ? 100 : 
+      (100 - (normalization["BCNF"].violatedTables / normalization["BCNF"].totalTables) * 100);
+    normalization["4NF"].score = normalization["4NF"].violatedTables === 0 ? 100 : 
+      (100 - (normalization["4NF"].violatedTables / normalization["4NF"].totalTables) * 100);
     
     // Calculate overall schema score
     const schemaScore = tableScores.length > 0 ? tableScores.reduce((a, b) => a + b, 0) / tableScores.length : 0;
@@ -352,6 +462,7 @@ export class DatabaseAnalyzer {
       tableCount: extractedTables.length,
       normalization,
       violations,
+      ...(impliedRelationships.length > 0 ? { impliedRelationships } : {}),
       overallScore: schemaScore,
       status
     };
@@ -374,41 +485,62 @@ export class DatabaseAnalyzer {
     const systemSchemas = ['pg_catalog', 'information_schema', 'pg_toast'];
     return systemSchemas.includes(schemaName);
   }
-  analyzeSQL(sqlContent: string): AnalysisReport {
+  analyzeSQL(sqlContent: string, file?: string, dialect?: SQLDialect): AnalysisReport {
     try {
+      const detection = detectDialect(sqlContent, dialect);
+      if (detection.dialect !== 'postgres') {
+        const syntax = DIALECT_SYNTAX[detection.dialect];
+        const schema = this.buildSchema(this.extractDialectTables(sqlContent, detection.dialect, file));
+        const profile = this.scriptDependencies(sqlContent, syntax, Object.values(schema.tables));
+        return {
+          ...this.scoreSchema(schema, profile.dependencies),
+          dialect: detection,
+          analysisNotes: [`Analyzed ${DIALECT_NAMES[detection.dialect]} SQL file`, ...profile.notes]
+        } as AnalysisReport;
+      }
+
       // Check if this is a dump file
       const dumpInfo = DumpParser.getDumpInfo(sqlContent);
       
       if (dumpInfo.format !== 'text' && dumpInfo.format !== 'unknown') {
         // This is a dump file - use the clean architecture path
-        const dumpResult = DumpParser.parseDumpFile(sqlContent);
+        const dumpResult = DumpParser.parseDumpFile(sqlContent, file);
         
         if (!dumpResult.success) {
           throw new Error(`Failed to parse dump file: ${dumpResult.errors.join(', ')}`);
         }
         
+        const profile = this.scriptDependencies(sqlContent, DIALECT_SYNTAX.postgres, dumpResult.tables.map(table => this.buildCanonicalTable(table)));
+
         // Use the new clean architecture - single entry point
         const analysisInput = {
           tables: dumpResult.tables,
           metadata: {
             dialect: 'postgres' as const,
             sourceType: 'dump' as const
-          }
+          },
+          dependencies: profile.dependencies
         };
         
         const report = this.analyze(analysisInput);
         
         // Convert to legacy format for backward compatibility
-        return this.convertToLegacyFormat(report, dumpInfo);
+        return {
+          ...this.convertToLegacyFormat(report, dumpResult.tables, dumpInfo),
+          dialect: detection,
+          ...(profile.notes.length > 0 ? { analysisNotes: profile.notes } : {})
+        };
         
       } else {
         // Regular SQL file - use SQL parser
-        const schema = this.parser.parse(sqlContent);
-        const report = this.complianceCalculator.calculateCompliance(schema);
+        const schema = this.parser.parse(sqlContent, file);
+        const profile = this.scriptDependencies(sqlContent, DIALECT_SYNTAX.postgres, Object.values(schema.tables));
+        const report = this.scoreSchema(schema, profile.dependencies);
         
         // Add analysis notes to the report
-        (report as any).analysisNotes = ['Analyzed regular SQL file'];
+        report.analysisNotes = ['Analyzed regular SQL file', ...profile.notes];
         (report as any).dumpInfo = dumpInfo;
+        report.dialect = detection;
         
         return report;
       }
@@ -418,15 +550,181 @@ export class DatabaseAnalyzer {
     }
   }
 
+  /**
+   * Analyze a migration folder: scripts are applied in the given order and
+   * the final schema state is scored. With `perMigration`, the score after
+   * each script is recorded so regressions can be traced to a migration.
+   */
+  analyzeMigrations(migrations: MigrationScript[], perMigration = false): MigrationAnalysisReport {
+    const steps: MigrationStep[] = [];
+
+    try {
+      const declared = mergeDependencies(...migrations.map(migration => extractCommentDependencies(migration.sql)));
+      const schema = this.parser.parseMigrations(migrations, perMigration ? (migration, state) => {
+        const report = this.scoreSchema(state, declared, true);
+        const previous = steps.length > 0 ? steps[steps.length - 1].overallScore : report.overallScore;
+        steps.push({
+          migration,
+          overallScore: report.overallScore,
+          scores: {
+            '1NF': report.compliance['1NF'].score,
+            '2NF': report.compliance['2NF'].score,
+            '3NF': report.compliance['3NF'].score,
+            'BCNF': report.compliance['BCNF'].score,
+            '4NF': report.compliance['4NF'].score
+          },
+          delta: report.overallScore - previous
+        });
+      } : undefined);
+
+      const report = this.scoreSchema(schema, declared);
+      return {
+        ...report,
+        migrations: migrations.map(migration => migration.name),
+        steps
+      };
+    } catch (error) {
+      throw new Error(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Analyze dump file specifically
+   * @param file Name reported in violation source locations (plain-text dumps only)
+   * @param dialect Skips dialect detection when given
    */
-  analyzeDumpFile(dumpContent: string): AnalysisReport & {
+  analyzeDumpFile(dumpContent: string | Buffer, file?: string, dialect?: SQLDialect): AnalysisReport & {
     dumpParseResult: DumpParseResult;
     analysisNotes: string[];
   } {
-    const dumpResult = DumpParser.parseDumpFile(dumpContent);
-    
+    const detection = detectDialect(dumpContent, dialect);
+    const dumpResult = DumpParser.parseDumpFile(dumpContent, file, detection.dialect);
+    const tables = dumpResult.tables.map(table => this.buildCanonicalTable(table));
+
+    const profile = dumpResult.metadata.detectedFormat === 'text'
+      ? this.scriptDependencies(dumpContent.toString(), DIALECT_SYNTAX[detection.dialect], tables)
+      : this.profileArchive(DumpParser.openArchive(dumpContent), dumpResult.metadata.detectedFormat, tables);
+    return this.reportDump(dumpResult, detection, profile);
+  }
+
+  /**
+   * Analyze a pg_dump directory archive (-Fd)
+   */
+  analyzeDumpDirectory(dirPath: string): AnalysisReport & {
+    dumpParseResult: DumpParseResult;
+    analysisNotes: string[];
+  } {
+    const dumpResult = DumpParser.parseDumpDirectory(dirPath);
+    const tables = dumpResult.tables.map(table => this.buildCanonicalTable(table));
+    return this.reportDump(dumpResult, undefined, this.profileArchive(DumpParser.openDumpDirectory(dirPath), 'directory', tables));
+  }
+
+  /**
+   * Analyze the tables of a SQLite database file, read from its sqlite_master table
+   */
+  analyzeSQLiteDatabase(database: Buffer): AnalysisReport & { analysisNotes: string[] } {
+    try {
+      const errors: string[] = [];
+      const tables = new SQLiteParser().extractTablesFromDatabase(database, { errors });
+      const report = this.analyze({
+        tables,
+        metadata: {
+          dialect: 'sqlite',
+          sourceType: 'dump'
+        }
+      });
+
+      return {
+        ...this.convertToLegacyFormat(report, tables, { format: 'sqlite', size: database.length }),
+        dialect: detectDialect(database),
+        analysisNotes: [
+          'Analyzed SQLite database file',
+          `Extracted ${tables.length} tables from sqlite_master`,
+          ...(errors.length > 0 ? [`Warnings: ${errors.join(', ')}`] : [])
+        ]
+      };
+    } catch (error) {
+      throw new Error(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Analyze the models of a Prisma schema (schema.prisma). Violations name
+   * the models and fields, and point at their lines in the schema.
+   */
+  analyzePrismaSchema(schemaContent: string, file?: string): AnalysisReport & { analysisNotes: string[] } {
+    try {
+      const errors: string[] = [];
+      const tables = new PrismaParser().extractTables(schemaContent, { errors, file });
+
+      return {
+        ...this.calculateTableCompliance(tables),
+        analysisNotes: [
+          'Analyzed Prisma schema',
+          `Extracted ${tables.length} models`,
+          ...(errors.length > 0 ? [`Warnings: ${errors.join(', ')}`] : [])
+        ]
+      };
+    } catch (error) {
+      throw new Error(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Analyze a DBML design. Violations name its tables and columns, and point
+   * at their lines in the document.
+   */
+  analyzeDBML(content: string, file?: string): AnalysisReport & { analysisNotes: string[] } {
+    try {
+      const errors: string[] = [];
+      const { tables, types } = new DBMLParser().extractSchema(content, { errors, file });
+
+      return {
+        ...this.calculateTableCompliance(tables, types),
+        analysisNotes: [
+          'Analyzed DBML design',
+          `Extracted ${tables.length} tables`,
+          ...(errors.length > 0 ? [`Warnings: ${errors.join(', ')}`] : [])
+        ]
+      };
+    } catch (error) {
+      throw new Error(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Analyze Drizzle table definitions or TypeORM entities in TypeScript sources.
+   * Violations point at the table variables, entity classes and properties.
+   */
+  analyzeOrmSources(sources: OrmSourceFile[], orm: OrmKind): AnalysisReport & { analysisNotes: string[] } {
+    try {
+      const errors: string[] = [];
+      const parser = orm === 'drizzle' ? new DrizzleParser() : new TypeORMParser();
+      const tables = parser.extractTables(sources, { errors });
+
+      return {
+        ...this.calculateTableCompliance(tables),
+        analysisNotes: [
+          `Analyzed ${orm === 'drizzle' ? 'Drizzle' : 'TypeORM'} sources (${sources.length} files)`,
+          `Extracted ${tables.length} tables`,
+          ...(errors.length > 0 ? [`Warnings: ${errors.join(', ')}`] : [])
+        ]
+      };
+    } catch (error) {
+      throw new Error(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private reportDump(
+    dumpResult: DumpParseResult,
+    detection?: DialectDetection,
+    profile?: { dependencies: DeclaredDependencies; notes: string[] }
+  ): AnalysisReport & {
+    dumpParseResult: DumpParseResult;
+    analysisNotes: string[];
+  } {
+    const dialect = detection ? detection.dialect : 'postgres';
+
     if (!dumpResult.success) {
       throw new Error(`Failed to parse dump file: ${dumpResult.errors.join(', ')}`);
     }
@@ -435,35 +733,39 @@ export class DatabaseAnalyzer {
     const analysisInput = {
       tables: dumpResult.tables,
       metadata: {
-        dialect: 'postgres' as const,
+        dialect,
         sourceType: 'dump' as const
-      }
+      },
+      dependencies: profile?.dependencies
     };
     
     const report = this.analyze(analysisInput);
     
     // Convert to legacy format for backward compatibility
-    const legacyReport = this.convertToLegacyFormat(report, {
+    const legacyReport = this.convertToLegacyFormat(report, dumpResult.tables, {
       format: dumpResult.metadata.detectedFormat,
       size: dumpResult.metadata.totalSize
     });
     
     return {
       ...legacyReport,
+      ...(detection ? { dialect: detection } : {}),
       dumpParseResult: dumpResult,
       analysisNotes: [
-        `Analyzed PostgreSQL dump file (${dumpResult.metadata.detectedFormat} format)`,
+        `Analyzed ${DIALECT_NAMES[dialect]} dump file (${dumpResult.metadata.detectedFormat} format)`,
         `Extracted ${dumpResult.tables.length} tables from dump`,
         `Dump size: ${(dumpResult.metadata.totalSize / 1024).toFixed(2)}KB, Extracted: ${(dumpResult.metadata.extractedSize / 1024).toFixed(2)}KB`,
-        ...(dumpResult.errors.length > 0 ? [`Warnings: ${dumpResult.errors.join(', ')}`] : [])
+        ...(dumpResult.errors.length > 0 ? [`Warnings: ${dumpResult.errors.join(', ')}`] : []),
+        ...(profile ? profile.notes : [])
       ]
     };
   }
 
   /**
-   * Convert new DatabaseAnalysisResult to legacy AnalysisReport format
+   * Convert new DatabaseAnalysisResult to legacy AnalysisReport format.
+   * The report's schema is the one built from `tables`, so it can be exported.
    */
-  private convertToLegacyFormat(report: DatabaseAnalysisResult, dumpInfo: any): AnalysisReport {
+  private convertToLegacyFormat(report: DatabaseAnalysisResult, tables: ExtractedTable[], dumpInfo: any): AnalysisReport {
     // Combine all violations from all schemas
     const allViolations = report.schemas.flatMap(schema => schema.violations);
     
@@ -505,15 +807,30 @@ export class DatabaseAnalyzer {
       message: v.message,
       explanation: v.explanation,
       suggestion: v.suggestion,
-      confidence: v.confidence
+      confidence: v.confidence,
+      ...(v.location ? { location: v.location } : {}),
+      ...(v.decomposition ? { decomposition: v.decomposition } : {})
     }));
     
-    // Update compliance report with our violations
+    // Update compliance report with our violations and per-schema scores
+    (['1NF', '2NF', '3NF', 'BCNF', '4NF'] as const).forEach(nf => {
+      complianceReport.compliance[nf].violations = legacyViolations.filter(v => v.normalForm === nf);
+      if (report.schemas.length > 0) {
+        complianceReport.compliance[nf].score =
+          report.schemas.reduce((sum, schema) => sum + schema.normalization[nf].score, 0) / report.schemas.length;
+      }
+    });
     complianceReport.summary.totalViolations = legacyViolations.length;
     complianceReport.summary.criticalViolations = legacyViolations.filter(v => v.severity === 'ERROR').length;
+    complianceReport.summary.warnings = legacyViolations.filter(v => v.severity === 'WARNING').length;
+    const impliedRelationships = report.schemas.flatMap(schema => schema.impliedRelationships || []);
+    if (impliedRelationships.length > 0) {
+      complianceReport.impliedRelationships = impliedRelationships;
+    }
     
     // Add dump info
     (complianceReport as any).dumpInfo = dumpInfo;
+    complianceReport.schema = this.buildSchema(tables);
     
     return complianceReport;
   }
@@ -532,13 +849,25 @@ export class DatabaseAnalyzer {
     
     const thirdNormalFormRules = [
       new NoTransitiveDependencyRule(),
+      new EnumeratedDomainRule(),
+      new CheckConstraintDependencyRule(),
+      new RedundantColumnRule()
+    ];
+    
+    const boyceCoddNormalFormRules = [
       new BoyceCoddRule()
     ];
     
+    const fourthNormalFormRules = [
+      new NoMultivaluedDependencyRule()
+    ];
+    
     // Add all rules to the compliance calculator
     firstNormalFormRules.forEach(rule => this.complianceCalculator.addRule(rule));
     secondNormalFormRules.forEach(rule => this.complianceCalculator.addRule(rule));
     thirdNormalFormRules.forEach(rule => this.complianceCalculator.addRule(rule));
+    boyceCoddNormalFormRules.forEach(rule => this.complianceCalculator.addRule(rule));
+    fourthNormalFormRules.forEach(rule => this.complianceCalculator.addRule(rule));
   }
   
   getSupportedFeatures(): {
@@ -547,13 +876,17 @@ export class DatabaseAnalyzer {
     normalForms: string[];
   } {
     return {
-      dialects: ['PostgreSQL'],
-      statements: ['CREATE TABLE', 'Column definitions', 'PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE'],
-      normalForms: ['1NF', '2NF', '3NF']
+      dialects: Object.values(DIALECT_NAMES),
+      statements: ['CREATE TABLE', 'ALTER TABLE', 'CREATE TYPE', 'CREATE DOMAIN', 'Column definitions', 'PRIMARY KEY', 'FOREIGN KEY', 'UNIQUE', 'CHECK'],
+      normalForms: ['1NF', '2NF', '3NF', 'BCNF', '4NF']
     };
   }
   
-  validateSQL(sqlContent: string): {
+  /**
+   * Check that SQL parses and report structural warnings
+   * @param dialect Skips dialect detection when given
+   */
+  validateSQL(sqlContent: string, dialect?: SQLDialect): {
     isValid: boolean;
     errors: string[];
     warnings: string[];
@@ -562,6 +895,11 @@ export class DatabaseAnalyzer {
     const warnings: string[] = [];
     
     try {
+      const detection = detectDialect(sqlContent, dialect);
+      if (detection.dialect !== 'postgres') {
+        return { isValid: true, errors, warnings: this.validateDialectTables(sqlContent, detection.dialect) };
+      }
+
       const schema = this.parser.parse(sqlContent);
       
       if (Object.keys(schema.tables).length === 0) {
@@ -587,4 +925,178 @@ export class DatabaseAnalyzer {
       warnings
     };
   }
+
+  /**
+   * Structure warnings for tables read by a MySQL, SQLite or T-SQL parser
+   */
+  private validateDialectTables(sqlContent: string, dialect: Exclude<SQLDialect, 'postgres'>): string[] {
+    const tables = this.extractDialectTables(sqlContent, dialect);
+    const warnings: string[] = [];
+
+    if (tables.length === 0) {
+      warnings.push('No CREATE TABLE statements found in the SQL file');
+    }
+
+    for (const table of tables) {
+      if (!table.constraints.some(constraint => constraint.type === 'primary_key')) {
+        warnings.push(`Table '${table.tableName}' has no primary key`);
+      }
+
+      if (table.columns.length === 0) {
+        warnings.push(`Table '${table.tableName}' has no columns defined`);
+      }
+    }
+    return warnings;
+  }
+
+  /**
+   * Score extracted tables with the compliance calculator, as for parsed SQL
+   */
+  private calculateTableCompliance(
+    tables: ExtractedTable[],
+    types?: Record<string, UserDefinedType>,
+    declared?: DeclaredDependencies
+  ): AnalysisReport {
+    return this.scoreSchema(this.buildSchema(tables, types), declared);
+  }
+
+  /**
+   * Attach declared dependencies (from declareDependencies and `declared`) to
+   * the schema's tables, then score it
+   * @param partial The schema may lack declared tables, as before a later migration creates them
+   */
+  private scoreSchema(schema: DatabaseSchema, declared: DeclaredDependencies = {}, partial = false): AnalysisReport {
+    this.attachDependencies(schema, declared, partial);
+    return this.complianceCalculator.calculateCompliance(schema);
+  }
+
+  /**
+   * Set the functional and multivalued dependencies declared for each table.
+   * Declared table names match case-insensitively; names matching no table
+   * are rejected unless the schema is `partial`.
+   */
+  private attachDependencies(schema: DatabaseSchema, declared: DeclaredDependencies = {}, partial = false): void {
+    const dependencies: DeclaredDependencies = {};
+    const declaredNames = new Map<string, string>();
+    for (const [name, list] of Object.entries(mergeDependencies(this.declaredDependencies, declared))) {
+      const key = name.toLowerCase();
+      dependencies[key] = [...(dependencies[key] || []), ...list];
+      declaredNames.set(key, declaredNames.get(key) || name);
+    }
+
+    for (const [key, table] of Object.entries(schema.tables)) {
+      const names = Array.from(new Set([key, table.name, qualifiedName(table)].map(name => name.toLowerCase())));
+      names.forEach(name => declaredNames.delete(name));
+      const tableDependencies = names.flatMap(name => dependencies[name] || []);
+      for (const dependency of tableDependencies) {
+        const unknown = [...dependency.determinant, ...dependency.dependent].find(column => !table.columns[column]);
+        if (unknown) {
+          throw new Error(`Declared dependency '${dependency.determinant.join(', ')} ${'multivalued' in dependency ? '->>' : '->'} ${dependency.dependent.join(', ')}' names unknown column '${unknown}' of table '${key}'`);
+        }
+      }
+      // A table listed with no dependencies still has known ones: none beyond its keys
+      if (names.some(name => dependencies[name])) {
+        table.functionalDependencies = tableDependencies.filter((dependency): dependency is FunctionalDependency => !('multivalued' in dependency));
+        table.multivaluedDependencies = tableDependencies.filter((dependency): dependency is MultivaluedDependency => 'multivalued' in dependency);
+      }
+    }
+
+    const [unknown] = Array.from(declaredNames.values());
+    if (unknown && !partial) {
+      throw new Error(`Declared dependencies name unknown table '${unknown}'`);
+    }
+  }
+
+  /**
+   * Dependencies of a SQL script for its tables: those declared in `@fd`
+   * comments and, with profiling on, those found in its rows
+   */
+  private scriptDependencies(sql: string, syntax: SQLSyntax, tables: Table[]): { dependencies: DeclaredDependencies; notes: string[] } {
+    const profile = this.profileRows(sql, syntax, tables);
+    return { dependencies: mergeDependencies(extractCommentDependencies(sql, syntax), profile.dependencies), notes: profile.notes };
+  }
+
+  /**
+   * With profiling on, discover the dependencies that hold in the rows each
+   * table has in the script, by "schema.table"; tables without rows are left out
+   */
+  private profileRows(sql: string, syntax: SQLSyntax, tables: Table[]): { dependencies: DeclaredDependencies; notes: string[] } {
+    if (!this.dataProfile) {
+      return { dependencies: {}, notes: [] };
+    }
+    return this.profileTableRows(readTableRows(sql, { syntax, maxRows: this.dataProfile.sampleRows ?? DEFAULT_SAMPLE_ROWS }), tables);
+  }
+
+  /**
+   * With profiling on, discover dependencies from the TABLE DATA entries of a
+   * pg_dump archive; dumps that are neither text nor an archive are noted
+   */
+  private profileArchive(archive: PgArchiveReader | null, format: string, tables: Table[]): { dependencies: DeclaredDependencies; notes: string[] } {
+    if (!this.dataProfile) {
+      return { dependencies: {}, notes: [] };
+    }
+    if (!archive) {
+      return { dependencies: {}, notes: [`Row data not profiled: ${format} dumps carry no readable rows; use a plain-text dump or a pg_dump archive`] };
+    }
+    try {
+      return this.profileTableRows(readArchiveRows(archive, { maxRows: this.dataProfile.sampleRows ?? DEFAULT_SAMPLE_ROWS }), tables);
+    } catch (error) {
+      return { dependencies: {}, notes: [`Row data not profiled: ${error instanceof Error ? error.message : 'Unknown error'}`] };
+    }
+  }
+
+  private profileTableRows(data: TableRows[], tables: Table[]): { dependencies: DeclaredDependencies; notes: string[] } {
+    const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const dependencies: DeclaredDependencies = {};
+    let sampled = 0;
+    let total = 0;
+    let multivalued = 0;
+
+    for (const table of tables) {
+      const entries = data.filter(entry => sameName(entry.tableName, table.name) &&
+        (!entry.schema || sameName(entry.schema, table.schemaName || 'public')));
+      if (entries.length === 0) {
+        continue;
+      }
+
+      // Rows in the table's column order; rows with the wrong number of values are skipped
+      const columns = Object.keys(table.columns);
+      const rows = entries.flatMap(entry => {
+        const listed = entry.columns || columns;
+        const positions = columns.map(column => listed.findIndex(name => sameName(name, column)));
+        return entry.rows
+          .filter(row => row.length === listed.length)
+          .map(row => positions.map(position => position >= 0 ? row[position] : null));
+      });
+      const functional = discoverDependencies(columns, rows, this.dataProfile);
+      const independent = discoverMultivaluedDependencies(columns, rows, functional, this.dataProfile);
+      dependencies[`${table.schemaName || 'public'}.${table.name}`] = [...functional, ...independent];
+      multivalued += independent.length;
+      sampled += rows.length;
+      total += entries.reduce((sum, entry) => sum + entry.totalRows, 0);
+    }
+
+    const profiled = Object.values(dependencies);
+    const found = profiled.reduce((sum, list) => sum + list.length, 0) - multivalued;
+    return {
+      dependencies,
+      notes: [profiled.length > 0
+        ? `Profiled row data of ${profiled.length} tables (${sampled} of ${total} rows sampled): ${found} functional dependencies discovered` +
+          (multivalued > 0 ? `, ${multivalued} multivalued` : '')
+        : 'Profiled row data: no COPY or INSERT rows found']
+    };
+  }
+
+  private buildSchema(tables: ExtractedTable[], types?: Record<string, UserDefinedType>): DatabaseSchema {
+    const schema: DatabaseSchema = { tables: {}, ...(types && Object.keys(types).length > 0 ? { types } : {}) };
+    tables.forEach(table => schema.tables[table.tableName] = this.buildCanonicalTable(table));
+    return schema;
+  }
+
+  /**
+   * Parse SQL with the parser for a dialect other than PostgreSQL
+   */
+  private extractDialectTables(sqlContent: string, dialect: Exclude<SQLDialect, 'postgres'>, file?: string): ExtractedTable[] {
+    return this.dialectParsers[dialect].extractTables(sqlContent, { file });
+  }
 }
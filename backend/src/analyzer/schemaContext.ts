@@ -0,0 +1,52 @@
+/**
+ * Schema Context
+ *
+ * Indexes the tables of every analyzed schema for the rules: the foreign key
+ * graph, the tables referencing each table, and the tables holding each
+ * column name. Tables are keyed "schema.table"; foreign keys to tables that
+ * were not analyzed keep their edge but have no table behind it. Foreign keys
+ * inferred from column names join the graph after the declared ones, marked
+ * `inferred`.
+ *
+ * NO: Scoring, violation attribution
+ */
+
+import { Table, SchemaContext, ForeignKeyEdge } from '../types/schema';
+import { inferForeignKeys } from '../rules/foreignKeyInference';
+import { qualifiedName } from '../rules/naming';
+
+export function buildSchemaContext(tables: Table[]): SchemaContext {
+  const context: SchemaContext = { tables: {}, foreignKeys: {}, references: {}, impliedRelationships: [], columns: {} };
+
+  for (const table of tables) {
+    const name = qualifiedName(table);
+    context.tables[name] = table;
+    context.foreignKeys[name] = [];
+    for (const column of Object.values(table.columns)) {
+      const key = column.name.toLowerCase();
+      (context.columns[key] = context.columns[key] || []).push({ table: name, column });
+    }
+  }
+
+  for (const [name, table] of Object.entries(context.tables)) {
+    for (const foreignKey of table.foreignKeys) {
+      const edge: ForeignKeyEdge = {
+        from: name,
+        columns: foreignKey.columns,
+        to: `${foreignKey.referencesSchema || 'public'}.${foreignKey.referencesTable}`,
+        referencesColumns: foreignKey.referencesColumns,
+        ...(foreignKey.name ? { name: foreignKey.name } : {})
+      };
+      context.foreignKeys[name].push(edge);
+      (context.references[edge.to] = context.references[edge.to] || []).push(edge);
+    }
+  }
+
+  context.impliedRelationships = inferForeignKeys(context);
+  for (const edge of context.impliedRelationships) {
+    context.foreignKeys[edge.from].push(edge);
+    (context.references[edge.to] = context.references[edge.to] || []).push(edge);
+  }
+
+  return context;
+}
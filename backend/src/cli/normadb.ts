@@ -1,9 +1,22 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { readFile, readdir } from 'fs/promises';
+import { writeFileSync } from 'fs';
 import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
-import { resolve } from 'path';
+import { DumpParser } from '../parser/dumpParser';
+import { PgArchiveReader, isTarArchive } from '../parser/pgArchiveReader';
+import { SQLiteFileReader } from '../parser/sqliteFileReader';
+import { resolve, relative } from 'path';
+import { sortMigrationFiles } from '../parser/migrationSorter';
+import { SQL_DIALECTS, DIALECT_NAMES } from '../parser/dialectDetector';
+import { exportDBML } from '../export/dbmlExporter';
+import { parseDependencyFile } from '../parser/dependencyDeclarations';
+import { SourceLocation } from '../types/schema';
+import { OrmKind, OrmSourceFile } from '../types/orm';
+import { DataProfileOptions, DecompositionProposal } from '../types/dependency';
+
+const ORM_KINDS: OrmKind[] = ['drizzle', 'typeorm'];
 
 const program = new Command();
 const analyzer = new DatabaseAnalyzer();
@@ -16,16 +29,54 @@ program
 program
   .command('analyze')
   .description('Analyze SQL schema file(s)')
-  .argument('<file>', 'SQL file or directory to analyze')
+  .argument('[file]', 'SQL file, pg_dump archive, pg_dump directory, SQLite database, Prisma schema, DBML design or directory of SQL files')
+  .option('-m, --migrations <dir>', 'Apply a migration folder in version order and analyze the final schema')
+  .option('-s, --steps', 'With --migrations, also report the score after each migration')
   .option('-j, --json', 'Output as JSON')
   .option('-v, --verbose', 'Verbose output with explanations')
   .option('-d, --debug', 'Show debug scoring information')
+  .addOption(new Option('--dialect <dialect>', 'SQL dialect of the input instead of detecting it').choices(SQL_DIALECTS))
+  .option('--dependencies <file>', 'Functional dependencies per table (JSON or YAML), e.g. customers: [zip -> city, state]')
+  .option('--profile-data', 'Discover functional dependencies from the COPY and INSERT rows of SQL files, text dumps and pg_dump archives')
+  .option('--sample-rows <n>', 'With --profile-data, rows read per table (default 10000)')
+  .option('--fd-error <ratio>', 'With --profile-data, share of rows allowed to break a dependency (default 0)')
+  .option('--export-dbml <file>', 'Also write the analyzed schema as DBML, with violations as table and column notes')
+  .addOption(new Option('--orm <orm>', 'Read Drizzle tables or TypeORM entities from a TypeScript source file or directory').choices(ORM_KINDS))
   .action(async (file, options) => {
     try {
+      if (options.dependencies) {
+        await declareDependencies(resolve(options.dependencies));
+      }
+      if (options.profileData) {
+        analyzer.profileData(profileOptions(options));
+      }
+      if (options.orm) {
+        if (!file) {
+          throw new Error('Specify the source file or directory to read with --orm');
+        }
+        await analyzeOrmSources(resolve(file), options);
+        return;
+      }
+      if (options.migrations) {
+        if (options.dialect && options.dialect !== 'postgres') {
+          throw new Error('--migrations only supports PostgreSQL scripts');
+        }
+        await analyzeMigrations(resolve(options.migrations), options);
+        return;
+      }
+      if (!file) {
+        throw new Error('Specify a file or directory to analyze, or --migrations <dir>');
+      }
+
       const filePath = resolve(file);
       const isDirectory = await isDirectoryPath(filePath);
       
-      if (isDirectory) {
+      if (isDirectory && DumpParser.isDumpDirectory(filePath)) {
+        outputReport(analyzer.analyzeDumpDirectory(filePath), options);
+      } else if (isDirectory) {
+        if (options.exportDbml) {
+          throw new Error('--export-dbml needs a single file, dump directory, --migrations or --orm input');
+        }
         await analyzeDirectory(filePath, options);
       } else {
         await analyzeFile(filePath, options);
@@ -36,6 +87,29 @@ program
     }
   });
 
+/**
+ * Read a sidecar file of functional dependencies; .yaml/.yml files are YAML, others JSON
+ */
+async function declareDependencies(path: string) {
+  const content = await readFile(path, 'utf-8');
+  analyzer.declareDependencies(parseDependencyFile(content, /\.ya?ml$/i.test(path) ? 'yaml' : 'json'));
+}
+
+/**
+ * --sample-rows and --fd-error, checked
+ */
+function profileOptions(options: any): DataProfileOptions {
+  const sampleRows = options.sampleRows !== undefined ? Number(options.sampleRows) : undefined;
+  const maxError = options.fdError !== undefined ? Number(options.fdError) : undefined;
+  if (sampleRows !== undefined && !(Number.isInteger(sampleRows) && sampleRows > 1)) {
+    throw new Error(`--sample-rows must be a whole number above 1, got '${options.sampleRows}'`);
+  }
+  if (maxError !== undefined && !(maxError >= 0 && maxError < 1)) {
+    throw new Error(`--fd-error must be a ratio from 0 up to 1, got '${options.fdError}'`);
+  }
+  return { ...(sampleRows !== undefined ? { sampleRows } : {}), ...(maxError !== undefined ? { maxError } : {}) };
+}
+
 async function isDirectoryPath(path: string): Promise<boolean> {
   try {
     const stats = await import('fs').then(fs => fs.promises.stat(path));
@@ -70,12 +144,114 @@ async function analyzeDirectory(dirPath: string, options: any) {
   }
 }
 
+async function analyzeMigrations(dirPath: string, options: any) {
+  if (!(await isDirectoryPath(dirPath))) {
+    throw new Error(`Migration folder not found: ${dirPath}`);
+  }
+
+  const files = (await readdir(dirPath)).filter(file => file.endsWith('.sql'));
+  const { migrations, skipped } = sortMigrationFiles(files);
+
+  if (migrations.length === 0) {
+    console.log('⚠️  No versioned migration files found in directory');
+    return;
+  }
+
+  const scripts = await Promise.all(migrations.map(async migration => ({
+    name: migration.fileName,
+    sql: await readFile(resolve(dirPath, migration.fileName), 'utf-8'),
+    path: relative(process.cwd(), resolve(dirPath, migration.fileName))
+  })));
+
+  const report = analyzer.analyzeMigrations(scripts, options.steps);
+
+  if (options.json) {
+    if (options.exportDbml) {
+      exportReportDBML(report, options.exportDbml);
+    }
+    outputJson({ ...report, skipped });
+    return;
+  }
+
+  console.log(`🔍 Applied ${migrations.length} migration(s) from: ${dirPath}`);
+  if (skipped.length > 0) {
+    console.log(`⏭️  Skipped ${skipped.length} file(s): ${skipped.join(', ')}`);
+  }
+
+  if (options.steps) {
+    console.log('\n📈 Score after each migration:');
+    for (const step of report.steps) {
+      const change = step.delta === 0 ? '' : ` (${step.delta > 0 ? '+' : ''}${step.delta.toFixed(2)})`;
+      const marker = step.delta < 0 ? '  ⚠️  regression' : '';
+      console.log(`   ${step.overallScore.toFixed(2)}%${change}  ${step.migration}${marker}`);
+    }
+  }
+
+  console.log('\n📋 Final schema state:');
+  outputReport(report, options);
+}
+
+async function analyzeOrmSources(path: string, options: any) {
+  const paths = (await isDirectoryPath(path)) ? await findSourceFiles(path) : [path];
+  const sources: OrmSourceFile[] = await Promise.all(paths.map(async sourcePath => ({
+    path: relative(process.cwd(), sourcePath),
+    content: await readFile(sourcePath, 'utf-8')
+  })));
+
+  if (sources.length === 0) {
+    console.log('⚠️  No TypeScript files found in directory');
+    return;
+  }
+
+  outputReport(analyzer.analyzeOrmSources(sources, options.orm), options);
+}
+
+/**
+ * TypeScript sources under a directory, skipping node_modules and declaration files
+ */
+async function findSourceFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = resolve(dirPath, entry.name);
+    if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+      files.push(...await findSourceFiles(entryPath));
+    } else if (entry.isFile() && /\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
 async function analyzeFile(filePath: string, options: any) {
   try {
-    const sqlContent = await readFile(filePath, 'utf-8');
+    const content = await readFile(filePath);
+    const displayPath = relative(process.cwd(), filePath);
+    
+    // pg_dump custom (-Fc) and tar (-Ft) archives skip SQL validation
+    if (PgArchiveReader.isArchive(content) || isTarArchive(content)) {
+      outputReport(analyzer.analyzeDumpFile(content), options);
+      return;
+    }
+    
+    if (SQLiteFileReader.isDatabase(content)) {
+      outputReport(analyzer.analyzeSQLiteDatabase(content), options);
+      return;
+    }
+    
+    if (filePath.endsWith('.prisma')) {
+      outputReport(analyzer.analyzePrismaSchema(content.toString('utf-8'), displayPath), options);
+      return;
+    }
+    
+    if (filePath.endsWith('.dbml')) {
+      outputReport(analyzer.analyzeDBML(content.toString('utf-8'), displayPath), options);
+      return;
+    }
+    
+    const sqlContent = content.toString('utf-8');
     
     // Validate SQL first
-    const validation = analyzer.validateSQL(sqlContent);
+    const validation = analyzer.validateSQL(sqlContent, options.dialect);
     
     if (!validation.isValid) {
       console.error('❌ Invalid SQL:');
@@ -84,24 +260,44 @@ async function analyzeFile(filePath: string, options: any) {
     }
     
     // Analyze schema
-    const report = analyzer.analyzeSQL(sqlContent);
-    
-    if (options.debug) {
-      outputDebugInfo(report);
-    } else if (options.json) {
-      outputJson(report);
-    } else if (options.verbose) {
-      outputVerbose(report);
-    } else {
-      outputSummary(report);
-    }
+    const report = analyzer.analyzeSQL(sqlContent, displayPath, options.dialect);
+    outputReport(report, options);
     
   } catch (error) {
     throw new Error(`Failed to analyze file: ${error}`);
   }
 }
 
+function outputReport(report: any, options: any) {
+  if (options.exportDbml) {
+    exportReportDBML(report, options.exportDbml);
+  }
+  if (options.debug) {
+    outputDebugInfo(report);
+  } else if (options.json) {
+    outputJson(report);
+  } else if (options.verbose) {
+    outputVerbose(report);
+  } else {
+    outputSummary(report);
+  }
+}
+
+/**
+ * Write the report's schema as DBML, with its violations as notes
+ */
+function exportReportDBML(report: any, outputPath: string) {
+  const violations = ['1NF', '2NF', '3NF', 'BCNF', '4NF'].flatMap(form => report.compliance[form].violations);
+  writeFileSync(resolve(outputPath), exportDBML(report.schema, violations));
+  // Keep --json output parseable
+  console.error(`📝 Wrote DBML to ${outputPath}`);
+}
+
 function outputSummary(report: any) {
+  if (report.dialect) {
+    const how = report.dialect.forced ? 'forced' : `detected, ${Math.round(report.dialect.confidence * 100)}% confidence`;
+    console.log(`🗄️  Dialect: ${DIALECT_NAMES[report.dialect.dialect]} (${how})`);
+  }
   console.log(`📊 Overall Compliance: ${report.overallScore.toFixed(2)}%`);
   
   // Status indicators
@@ -114,6 +310,8 @@ function outputSummary(report: any) {
   console.log(`\n🔹 1NF: ${report.compliance['1NF'].score.toFixed(2)}% ${getStatus(report.compliance['1NF'].score)}`);
   console.log(`🔹 2NF: ${report.compliance['2NF'].score.toFixed(2)}% ${getStatus(report.compliance['2NF'].score)}`);
   console.log(`🔹 3NF: ${report.compliance['3NF'].score.toFixed(2)}% ${getStatus(report.compliance['3NF'].score)}`);
+  console.log(`🔹 BCNF: ${report.compliance['BCNF'].score.toFixed(2)}% ${getStatus(report.compliance['BCNF'].score)}`);
+  console.log(`🔹 4NF: ${report.compliance['4NF'].score.toFixed(2)}% ${getStatus(report.compliance['4NF'].score)}`);
   
   if (report.summary.totalViolations > 0) {
     console.log(`\n⚠️  ${report.summary.totalViolations} violation(s) found`);
@@ -126,6 +324,7 @@ function outputSummary(report: any) {
 
 function outputVerbose(report: any) {
   outputSummary(report);
+  const shownDecompositions = new Set<string>();
   
   console.log('\n📋 Detailed Analysis:');
   
@@ -135,6 +334,7 @@ function outputVerbose(report: any) {
     report.compliance['1NF'].violations.forEach((v: any, i: number) => {
       console.log(`  ${i + 1}. [${v.severity}] ${v.message}`);
       console.log(`     Table: ${v.table}${v.column ? `, Column: ${v.column}` : ''}`);
+      if (v.location) console.log(`     Location: ${formatLocation(v.location)}`);
       console.log(`     Confidence: ${v.confidence}`);
     });
   } else {
@@ -147,7 +347,9 @@ function outputVerbose(report: any) {
     report.compliance['2NF'].violations.forEach((v: any, i: number) => {
       console.log(`  ${i + 1}. [${v.severity}] ${v.message}`);
       console.log(`     Table: ${v.table}${v.column ? `, Column: ${v.column}` : ''}`);
+      if (v.location) console.log(`     Location: ${formatLocation(v.location)}`);
       console.log(`     Confidence: ${v.confidence}`);
+      if (v.decomposition) outputDecomposition(v.decomposition, shownDecompositions);
     });
   } else {
     console.log('  ✅ No 2NF violations');
@@ -159,11 +361,70 @@ function outputVerbose(report: any) {
     report.compliance['3NF'].violations.forEach((v: any, i: number) => {
       console.log(`  ${i + 1}. [${v.severity}] ${v.message}`);
       console.log(`     Table: ${v.table}${v.column ? `, Column: ${v.column}` : ''}`);
+      if (v.location) console.log(`     Location: ${formatLocation(v.location)}`);
       console.log(`     Confidence: ${v.confidence}`);
+      if (v.decomposition) outputDecomposition(v.decomposition, shownDecompositions);
     });
   } else {
     console.log('  ✅ No 3NF violations');
   }
+  
+  // BCNF Details
+  console.log('\nBCNF Analysis:');
+  if (report.compliance['BCNF'].violations.length > 0) {
+    report.compliance['BCNF'].violations.forEach((v: any, i: number) => {
+      console.log(`  ${i + 1}. [${v.severity}] ${v.message}`);
+      console.log(`     Table: ${v.table}${v.column ? `, Column: ${v.column}` : ''}`);
+      if (v.location) console.log(`     Location: ${formatLocation(v.location)}`);
+      console.log(`     Confidence: ${v.confidence}`);
+      if (v.decomposition) outputDecomposition(v.decomposition, shownDecompositions);
+    });
+  } else {
+    console.log('  ✅ No BCNF violations');
+  }
+  
+  // 4NF Details
+  console.log('\n4NF Analysis:');
+  if (report.compliance['4NF'].violations.length > 0) {
+    report.compliance['4NF'].violations.forEach((v: any, i: number) => {
+      console.log(`  ${i + 1}. [${v.severity}] ${v.message}`);
+      console.log(`     Table: ${v.table}${v.column ? `, Column: ${v.column}` : ''}`);
+      if (v.location) console.log(`     Location: ${formatLocation(v.location)}`);
+      console.log(`     Confidence: ${v.confidence}`);
+      if (v.decomposition) outputDecomposition(v.decomposition, shownDecompositions);
+    });
+  } else {
+    console.log('  ✅ No 4NF violations');
+  }
+  
+  // Foreign keys inferred from column names and types
+  if (report.impliedRelationships?.length > 0) {
+    console.log('\nImplied Relationships:');
+    report.impliedRelationships.forEach((r: any, i: number) => {
+      console.log(`  ${i + 1}. ${r.from} (${r.columns.join(', ')}) -> ${r.to} (${r.referencesColumns.join(', ')}), not declared`);
+      console.log(`     Confidence: ${r.confidence}`);
+      console.log(`     ${r.sql}`);
+    });
+  }
+}
+
+/**
+ * A violation's proposed decomposition; later violations of the same table refer back to it
+ */
+function outputDecomposition(decomposition: DecompositionProposal, shown: Set<string>) {
+  if (shown.has(decomposition.sql)) {
+    console.log(`     Decomposition: ${decomposition.normalForm} proposal above`);
+    return;
+  }
+  shown.add(decomposition.sql);
+  console.log(`     Proposed ${decomposition.normalForm} decomposition:`);
+  decomposition.sql.split('\n').forEach(line => console.log(line ? `       ${line}` : ''));
+  decomposition.lostDependencies.forEach(dependency =>
+    console.log(`     Not preserved: ${dependency.determinant.join(', ')} -> ${dependency.dependent.join(', ')}`));
+}
+
+function formatLocation(location: SourceLocation): string {
+  return `${location.file ? `${location.file}:` : 'line '}${location.line}:${location.column}`;
 }
 
 function outputJson(report: any) {
@@ -192,6 +453,18 @@ function outputDebugInfo(report: any) {
   console.log(`  Rules Evaluated: ${report.compliance['3NF'].rulesEvaluated}`);
   console.log(`  Score: ${report.compliance['3NF'].score}%`);
   
+  console.log('\nBCNF Scoring (not part of the overall score):');
+  console.log(`  Max Weight: ${report.compliance['BCNF'].maxWeight}`);
+  console.log(`  Violated Weight: ${report.compliance['BCNF'].violatedWeight}`);
+  console.log(`  Rules Evaluated: ${report.compliance['BCNF'].rulesEvaluated}`);
+  console.log(`  Score: ${report.compliance['BCNF'].score}%`);
+  
+  console.log('\n4NF Scoring (not part of the overall score):');
+  console.log(`  Max Weight: ${report.compliance['4NF'].maxWeight}`);
+  console.log(`  Violated Weight: ${report.compliance['4NF'].violatedWeight}`);
+  console.log(`  Rules Evaluated: ${report.compliance['4NF'].rulesEvaluated}`);
+  console.log(`  Score: ${report.compliance['4NF'].score}%`);
+  
   console.log('\nOverall Calculation:');
   console.log(`  Formula: (1NF * 0.5) + (2NF * 0.3) + (3NF * 0.2)`);
   console.log(`  Result: (${report.compliance['1NF'].score} * 0.5) + (${report.compliance['2NF'].score} * 0.3) + (${report.compliance['3NF'].score} * 0.2) = ${report.overallScore}%`);
@@ -0,0 +1,148 @@
+/**
+ * DBML Exporter
+ *
+ * Writes an analyzed DatabaseSchema back out as DBML, so a design can be
+ * scored, annotated and reopened in dbdiagram.io or re-read by the DBML parser:
+ * - enums, tables and columns with pk, increment, not null, unique and note settings
+ * - composite primary keys and unique constraints as indexes
+ * - CHECK constraints as checks, foreign keys as Refs with their actions
+ * - violations as notes on their column, or on the table when they name none
+ *
+ * Tables in `public` are written without their schema.
+ *
+ * NO: Defaults, indexes that are not keys, domains and composite types
+ */
+
+import { DatabaseSchema, Table, Violation } from '../types/schema';
+
+const DEFAULT_SCHEMA = 'public';
+
+export function exportDBML(schema: DatabaseSchema, violations: Violation[] = []): string {
+  const blocks: string[] = [];
+
+  for (const type of Object.values(schema.types || {})) {
+    if (type.kind === 'enum') {
+      const values = (type.values || []).map(value => `  ${name(value)}`);
+      blocks.push([`enum ${qualifiedName(type.schemaName, type.name)} {`, ...values, '}'].join('\n'));
+    }
+  }
+
+  for (const [key, table] of Object.entries(schema.tables)) {
+    blocks.push(tableBlock(table, violations.filter(violation => violation.table === key)));
+  }
+
+  const refs = Object.values(schema.tables).flatMap(refLines);
+  if (refs.length > 0) {
+    blocks.push(refs.join('\n'));
+  }
+
+  return blocks.length > 0 ? `${blocks.join('\n\n')}\n` : '';
+}
+
+function tableBlock(table: Table, violations: Violation[]): string {
+  const columns = Object.values(table.columns);
+  const columnNames = new Set(columns.map(column => column.name));
+  const lines = [`Table ${qualifiedName(table.schemaName, table.name)} {`];
+
+  const compositeKey = table.primaryKeys.length > 1;
+  for (const column of columns) {
+    const settings: string[] = [];
+    const isKey = !compositeKey && table.primaryKeys.includes(column.name);
+    if (isKey) {
+      settings.push('pk');
+    } else if (!column.nullable) {
+      settings.push('not null');
+    }
+    if (column.autoIncrement) {
+      settings.push('increment');
+    }
+    if (!isKey && (column.unique || table.uniqueConstraints.some(unique => unique.length === 1 && unique[0] === column.name))) {
+      settings.push('unique');
+    }
+    const notes = [
+      ...(column.note ? [column.note] : []),
+      ...violations.filter(violation => violation.column === column.name).map(violationNote)
+    ];
+    if (notes.length > 0) {
+      settings.push(`note: ${quote(Array.from(new Set(notes)).join('; '))}`);
+    }
+    lines.push(`  ${name(column.name)} ${typeName(column.type)}${settings.length > 0 ? ` [${settings.join(', ')}]` : ''}`);
+  }
+
+  const indexes = [
+    ...(compositeKey ? [`(${table.primaryKeys.map(name).join(', ')}) [pk]`] : []),
+    ...table.uniqueConstraints
+      .filter(unique => unique.length > 1)
+      .map(unique => `(${unique.map(name).join(', ')}) [unique]`)
+  ];
+  if (indexes.length > 0) {
+    lines.push('', '  indexes {', ...indexes.map(index => `    ${index}`), '  }');
+  }
+
+  const checks = (table.checkConstraints || []).map(check =>
+    `\`${check.expression.replace(/`/g, '\\`')}\`${check.name ? ` [name: ${quote(check.name)}]` : ''}`);
+  if (checks.length > 0) {
+    lines.push('', '  checks {', ...checks.map(check => `    ${check}`), '  }');
+  }
+
+  // Violations without a column, or naming a column the table does not have
+  const tableNotes = Array.from(new Set(violations
+    .filter(violation => !violation.column || !columnNames.has(violation.column))
+    .map(violationNote)));
+  if (tableNotes.length > 0) {
+    lines.push('', `  Note: '''`, ...tableNotes.map(note => `    ${note.replace(/'''/g, `\\'''`)}`), `  '''`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * One Ref line per foreign key: Ref name: child.(a, b) > parent.(x, y) [delete: cascade]
+ */
+function refLines(table: Table): string[] {
+  return table.foreignKeys.map(foreignKey => {
+    const settings = [
+      ...(foreignKey.onDelete ? [`delete: ${foreignKey.onDelete.toLowerCase()}`] : []),
+      ...(foreignKey.onUpdate ? [`update: ${foreignKey.onUpdate.toLowerCase()}`] : [])
+    ];
+
+    const from = endpoint(table.schemaName, table.name, foreignKey.columns);
+    const to = endpoint(foreignKey.referencesSchema, foreignKey.referencesTable, foreignKey.referencesColumns);
+    return `Ref${foreignKey.name ? ` ${name(foreignKey.name)}` : ''}: ${from} > ${to}` +
+      (settings.length > 0 ? ` [${settings.join(', ')}]` : '');
+  });
+}
+
+function endpoint(schemaName: string | undefined, table: string, columns: string[]): string {
+  const column = columns.length === 1 ? name(columns[0]) : `(${columns.map(name).join(', ')})`;
+  return `${qualifiedName(schemaName, table)}.${column}`;
+}
+
+function violationNote(violation: Violation): string {
+  return `${violation.normalForm} ${violation.severity}: ${violation.message}`;
+}
+
+function qualifiedName(schemaName: string | undefined, table: string): string {
+  return schemaName && schemaName !== DEFAULT_SCHEMA ? `${name(schemaName)}.${name(table)}` : name(table);
+}
+
+/**
+ * Bare names stay bare; anything else is double-quoted
+ */
+function name(value: string): string {
+  return /^[A-Za-z_][\w$]*$/.test(value) ? value : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Types DBML reads unquoted (varchar(255), int[], schema.enum), else double-quoted
+ */
+function typeName(type: string): string {
+  return /^[A-Za-z_][\w$]*(\.[A-Za-z_][\w$]*)?(\([\w\s,]*\))?(\[\])*$/.test(type)
+    ? type.replace(/\s+/g, '')
+    : `"${type.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, `\\'`)}'`;
+}
@@ -0,0 +1,538 @@
+/**
+ * DBML Parser
+ *
+ * Reads a DBML design (dbdiagram.io's Database Markup Language) into the same
+ * ExtractedTable facts the SQL parsers produce, so a schema can be scored
+ * before any SQL is written. Locations point at table and column names:
+ * - Table schema.name [as alias] { columns with pk, not null, unique and ref settings }
+ * - indexes { (a, b) [pk] } and [unique] entries, and checks { `expr` } blocks
+ * - Ref: a.x > b.y (and <, -, composite a.(x, y) endpoints, delete/update actions)
+ * - enum blocks, whose columns are marked as enums
+ *
+ * Tables without a schema are in `public`. Column `increment` and notes are
+ * kept for export; many-to-many refs (<>), table notes, defaults, Project and
+ * TableGroup blocks add nothing to the table facts.
+ *
+ * NO: Table partials, analysis
+ */
+
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { ReferentialAction, SourceLocation, UserDefinedType } from '../types/schema';
+import { Token, TokenStream, splitTokenList, tokenize } from './ddlTokenizer';
+import { TableFacts, REFERENTIAL_ACTIONS, createTableFacts, buildConstraints, checkFact } from './ddlTableFacts';
+import { LineLocator, createLineLocator, POSTGRES_SYNTAX } from './sqlStatementSplitter';
+import { SQLParseError } from './sqlParser';
+
+const DEFAULT_SCHEMA = 'public';
+
+const DBML_WORD_CHAR = /[\w$\u0080-\uffff]/;
+
+// Top-level blocks that describe the project rather than tables
+const SKIPPED_BLOCKS = ['PROJECT', 'TABLEGROUP', 'NOTE', 'TABLEPARTIAL'];
+
+/**
+ * `table.column` or `schema.table.(a, b)` side of a relationship
+ */
+interface RefEndpoint {
+  schema?: string;
+  table: string;
+  columns: string[];
+  token: Token;
+}
+
+interface DBMLRef {
+  name?: string;
+  from: RefEndpoint;
+  to: RefEndpoint;
+  operator: string;
+  settings: Map<string, Token[]>;
+}
+
+interface DBMLTable {
+  schema: string;
+  name: string;
+  alias?: string;
+  facts: TableFacts;
+  location: SourceLocation;
+}
+
+export class DBMLParser {
+  /**
+   * Parse a DBML document into ExtractedTable facts, one per table.
+   *
+   * Syntax errors abort the whole document. When an `errors` array is given,
+   * refs to unknown tables or columns are recorded there and skipped.
+   */
+  extractTables(content: string, options: { errors?: string[]; file?: string } = {}): ExtractedTable[] {
+    return this.extractSchema(content, options).tables;
+  }
+
+  /**
+   * Parse a DBML document into its tables and its enums, keyed "schema.enum"
+   */
+  extractSchema(
+    content: string,
+    options: { errors?: string[]; file?: string } = {}
+  ): { tables: ExtractedTable[]; types: Record<string, UserDefinedType> } {
+    const locate = createLineLocator(content);
+    const stream = new TokenStream(this.tokenize(content), locate, content.length);
+    const location = (token: Token): SourceLocation => ({
+      ...(options.file ? { file: options.file } : {}),
+      ...locate(token.offset)
+    });
+
+    const tables: DBMLTable[] = [];
+    const refs: DBMLRef[] = [];
+    const types: Record<string, UserDefinedType> = {};
+
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('TABLE')) {
+        tables.push(this.readTable(stream, refs, location));
+      } else if (stream.acceptWord('REF')) {
+        refs.push(...this.readRefs(stream));
+      } else if (stream.acceptWord('ENUM')) {
+        const type = this.readEnum(stream);
+        types[`${type.schemaName}.${type.name}`] = type;
+      } else if (SKIPPED_BLOCKS.some(block => stream.isWord(block))) {
+        this.skipBlock(stream);
+      } else {
+        throw stream.error(stream.peek());
+      }
+    }
+
+    for (const ref of refs) {
+      try {
+        this.applyRef(ref, tables, locate);
+      } catch (error) {
+        if (!options.errors) {
+          throw error;
+        }
+        options.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    const extracted = tables.map(table => {
+      for (const column of table.facts.columns) {
+        const key = column.type.includes('.') ? column.type : `${table.schema}.${column.type}`;
+        if (types[key] || types[`${DEFAULT_SCHEMA}.${column.type}`]) {
+          column.resolvedType = column.type;
+          column.resolvedKind = 'enum';
+        }
+      }
+      return {
+        schema: table.schema,
+        tableName: table.name,
+        columns: table.facts.columns,
+        constraints: buildConstraints(table.facts),
+        source: 'sql' as const,
+        location: table.location
+      };
+    });
+
+    return { tables: extracted, types };
+  }
+
+  /**
+   * Table [schema.]name [as alias] [settings] { columns, Note, indexes, checks }
+   */
+  private readTable(stream: TokenStream, refs: DBMLRef[], location: (token: Token) => SourceLocation): DBMLTable {
+    const { schema, name, token } = this.readQualifiedName(stream);
+    const table: DBMLTable = { schema, name, facts: createTableFacts(), location: location(token) };
+    if (stream.acceptWord('AS')) {
+      table.alias = stream.readName().value;
+    }
+    this.readSettings(stream);
+    stream.expectSymbol('{');
+
+    while (!stream.acceptSymbol('}')) {
+      const next = stream.peek(1);
+      if (stream.isWord('NOTE') && (next?.value === ':' || next?.value === '{')) {
+        this.skipNote(stream);
+      } else if (stream.isWord('INDEXES') && next?.value === '{') {
+        stream.next();
+        this.readIndexes(stream, table.facts);
+      } else if (stream.isWord('CHECKS') && next?.value === '{') {
+        stream.next();
+        this.readChecks(stream, table.facts);
+      } else {
+        this.readColumn(stream, table, refs, location);
+      }
+    }
+    return table;
+  }
+
+  /**
+   * name type [pk, increment, not null, unique, default: ..., note: ..., ref: > t.c]
+   */
+  private readColumn(stream: TokenStream, table: DBMLTable, refs: DBMLRef[], location: (token: Token) => SourceLocation): void {
+    const name = stream.readName();
+    const column: ColumnDef = {
+      name: name.value,
+      type: this.readType(stream),
+      nullable: true,
+      primaryKey: false,
+      unique: false,
+      location: location(name)
+    };
+
+    for (const setting of this.readSettingList(stream)) {
+      const words = setting.map(token => token.value.toUpperCase()).join(' ');
+      if (words === 'PK' || words === 'PRIMARY KEY') {
+        column.primaryKey = true;
+        column.nullable = false;
+        table.facts.primaryKey.push(column.name);
+      } else if (words === 'NOT NULL') {
+        column.nullable = false;
+      } else if (words === 'INCREMENT') {
+        column.autoIncrement = true;
+      } else if (setting[0].value.toUpperCase() === 'NOTE' && setting[1]?.value === ':' && setting[2]?.kind === 'string') {
+        column.note = setting[2].value;
+      } else if (words === 'UNIQUE') {
+        column.unique = true;
+        table.facts.uniques.push([column.name]);
+      } else if (setting[0].value.toUpperCase() === 'REF' && setting[1]?.value === ':') {
+        const ref = stream.over(setting.slice(2));
+        const operator = this.readOperator(ref);
+        refs.push({
+          from: { schema: table.schema, table: table.name, columns: [column.name], token: name },
+          to: this.readEndpoint(ref),
+          operator,
+          settings: new Map()
+        });
+      }
+    }
+    table.facts.columns.push(column);
+  }
+
+  /**
+   * A type name, possibly schema-qualified, sized and with array brackets: decimal(10,2), int[]
+   */
+  private readType(stream: TokenStream): string {
+    let type = stream.readName().value;
+    if (stream.acceptSymbol('.')) {
+      type += `.${stream.readName().value}`;
+    }
+    if (stream.isSymbol('(')) {
+      type += `(${stream.readGroup().map(token => token.value).join('')})`;
+    }
+    while (stream.isSymbol('[') && stream.peek(1)?.value === ']') {
+      stream.next();
+      stream.next();
+      type += '[]';
+    }
+    return type;
+  }
+
+  /**
+   * indexes { (a, b) [pk]  email [unique]  `lower(name)` }
+   */
+  private readIndexes(stream: TokenStream, facts: TableFacts): void {
+    stream.expectSymbol('{');
+    while (!stream.acceptSymbol('}')) {
+      const columns = stream.isSymbol('(')
+        ? splitTokenList(stream.readGroup()).map(item => item.length === 1 && item[0].kind !== 'string' ? item[0].value : '')
+        : [stream.next()].map(token => token.kind === 'string' ? '' : token.value);
+      const settings = this.readSettingList(stream).map(setting => setting.map(token => token.value.toUpperCase()).join(' '));
+
+      // Expression entries cannot be keys of the table facts
+      if (columns.some(column => column === '')) {
+        continue;
+      }
+      if (settings.includes('PK')) {
+        facts.primaryKey.push(...columns);
+      } else if (settings.includes('UNIQUE')) {
+        facts.uniques.push(columns);
+      }
+    }
+    for (const column of facts.columns) {
+      column.primaryKey = facts.primaryKey.includes(column.name);
+      column.nullable = column.nullable && !column.primaryKey;
+    }
+  }
+
+  /**
+   * checks { `price > 0` [name: 'positive_price'] }
+   */
+  private readChecks(stream: TokenStream, facts: TableFacts): void {
+    stream.expectSymbol('{');
+    while (!stream.acceptSymbol('}')) {
+      const expression = stream.next();
+      if (expression.kind !== 'string') {
+        throw stream.error(expression);
+      }
+      const name = this.readSettingList(stream)
+        .find(setting => setting[0].value.toUpperCase() === 'NAME' && setting[1]?.value === ':')?.[2]?.value;
+      facts.checks.push(checkFact(tokenize(expression.value, POSTGRES_SYNTAX), expression.value, name));
+    }
+  }
+
+  /**
+   * Ref [name]: a.x > b.y [settings]  or  Ref [name] { a.x > b.y [settings] ... }
+   */
+  private readRefs(stream: TokenStream): DBMLRef[] {
+    const name = stream.isSymbol(':') || stream.isSymbol('{') ? undefined : stream.readName().value;
+    const block = stream.acceptSymbol('{');
+    if (!block) {
+      stream.expectSymbol(':');
+    }
+
+    const refs: DBMLRef[] = [];
+    do {
+      const from = this.readEndpoint(stream);
+      const operator = this.readOperator(stream);
+      const to = this.readEndpoint(stream);
+      const settings = new Map(this.readSettingList(stream)
+        .filter(setting => setting[1]?.value === ':')
+        .map(setting => [setting[0].value.toUpperCase(), setting.slice(2)]));
+      refs.push({ ...(name ? { name } : {}), from, to, operator, settings });
+    } while (block && !stream.acceptSymbol('}'));
+    return refs;
+  }
+
+  private readOperator(stream: TokenStream): string {
+    const operator = stream.next();
+    if (operator.kind !== 'symbol' || !['>', '<', '-', '<>'].includes(operator.value)) {
+      throw stream.error(operator);
+    }
+    return operator.value;
+  }
+
+  /**
+   * [schema.]table.column or [schema.]table.(a, b)
+   */
+  private readEndpoint(stream: TokenStream): RefEndpoint {
+    const token = stream.peek()!;
+    const names = [stream.readName().value];
+    while (stream.acceptSymbol('.')) {
+      if (stream.isSymbol('(')) {
+        const columns = splitTokenList(stream.readGroup()).map(item => item[0].value);
+        return this.endpoint(names, columns, token, stream);
+      }
+      names.push(stream.readName().value);
+    }
+    return this.endpoint(names.slice(0, -1), names.slice(-1), token, stream);
+  }
+
+  private endpoint(names: string[], columns: string[], token: Token, stream: TokenStream): RefEndpoint {
+    if (names.length < 1 || names.length > 2) {
+      throw stream.error(token);
+    }
+    return { ...(names.length === 2 ? { schema: names[0] } : {}), table: names[names.length - 1], columns, token };
+  }
+
+  /**
+   * Add a ref as a foreign key of its "many" side: the left of `>`, the right
+   * of `<`, and the right of a one-to-one `-`. Many-to-many refs are skipped.
+   * A relationship declared both inline and as a Ref is kept once, with the
+   * name and referential actions of either.
+   */
+  private applyRef(ref: DBMLRef, tables: DBMLTable[], locate: LineLocator): void {
+    if (ref.operator === '<>') {
+      return;
+    }
+    const [child, parent] = ref.operator === '>' ? [ref.from, ref.to] : [ref.to, ref.from];
+    const childTable = this.resolveTable(child, tables, locate);
+    const parentTable = this.resolveTable(parent, tables, locate);
+
+    const actions: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {};
+    const onDelete = this.referentialAction(ref.settings.get('DELETE'));
+    const onUpdate = this.referentialAction(ref.settings.get('UPDATE'));
+    if (onDelete) actions.onDelete = onDelete;
+    if (onUpdate) actions.onUpdate = onUpdate;
+
+    const references = { schema: parentTable.schema, table: parentTable.name, columns: parent.columns };
+    const existing = childTable.facts.foreignKeys.find(foreignKey =>
+      foreignKey.columns.join(',') === child.columns.join(',') &&
+      foreignKey.references?.schema === references.schema &&
+      foreignKey.references.table === references.table &&
+      foreignKey.references.columns.join(',') === references.columns.join(','));
+    if (existing) {
+      Object.assign(existing, !existing.name && ref.name ? { name: ref.name } : {}, actions);
+      return;
+    }
+
+    const foreignKey: ConstraintDef = {
+      type: 'foreign_key',
+      ...(ref.name ? { name: ref.name } : {}),
+      columns: child.columns,
+      references,
+      ...actions
+    };
+    childTable.facts.foreignKeys.push(foreignKey);
+  }
+
+  /**
+   * `cascade`, `set null`, `no action`, ... as a referential action
+   */
+  private referentialAction(tokens: Token[] | undefined): ReferentialAction | undefined {
+    const action = tokens?.map(token => token.value.toUpperCase()).join(' ');
+    return REFERENTIAL_ACTIONS.find(candidate => candidate === action);
+  }
+
+  private resolveTable(
+    endpoint: RefEndpoint,
+    tables: DBMLTable[],
+    locate: LineLocator
+  ): DBMLTable {
+    const table = tables.find(candidate => (endpoint.schema
+      ? candidate.schema === endpoint.schema && candidate.name === endpoint.table
+      : candidate.alias === endpoint.table || (candidate.schema === DEFAULT_SCHEMA && candidate.name === endpoint.table)));
+    const missing = !table
+      ? `table '${[endpoint.schema, endpoint.table].filter(Boolean).join('.')}'`
+      : endpoint.columns.find(column => !table.facts.columns.some(candidate => candidate.name === column));
+    if (missing) {
+      const { line, column } = locate(endpoint.token.offset);
+      const what = table ? `column '${endpoint.table}.${missing}'` : missing;
+      throw new SQLParseError(`Syntax error at line ${line}, column ${column}: Cannot resolve ref to ${what}`, line, column);
+    }
+    return table!;
+  }
+
+  /**
+   * enum [schema.]name { value [note: '...'] ... }
+   */
+  private readEnum(stream: TokenStream): UserDefinedType {
+    const { schema, name } = this.readQualifiedName(stream);
+    const values: string[] = [];
+    stream.expectSymbol('{');
+    while (!stream.acceptSymbol('}')) {
+      values.push(stream.readName().value);
+      this.readSettings(stream);
+    }
+    return { name, schemaName: schema, kind: 'enum', values };
+  }
+
+  private readQualifiedName(stream: TokenStream): { schema: string; name: string; token: Token } {
+    let token = stream.readName();
+    let schema = DEFAULT_SCHEMA;
+    if (stream.acceptSymbol('.')) {
+      schema = token.value;
+      token = stream.readName();
+    }
+    return { schema, name: token.value, token };
+  }
+
+  /**
+   * The items of an optional `[a, b: c]` settings list
+   */
+  private readSettingList(stream: TokenStream): Token[][] {
+    return splitTokenList(this.readSettings(stream));
+  }
+
+  private readSettings(stream: TokenStream): Token[] {
+    if (!stream.isSymbol('[')) {
+      return [];
+    }
+    const settings: Token[] = [];
+    stream.next();
+    while (!stream.acceptSymbol(']')) {
+      settings.push(stream.next());
+    }
+    return settings;
+  }
+
+  /**
+   * Note: '...'  or  Note { '...' }
+   */
+  private skipNote(stream: TokenStream): void {
+    stream.next();
+    if (stream.acceptSymbol(':')) {
+      stream.next();
+    } else {
+      this.skipBraces(stream);
+    }
+  }
+
+  /**
+   * Project, TableGroup, TablePartial and Note blocks: keyword, name, settings and body
+   */
+  private skipBlock(stream: TokenStream): void {
+    stream.next();
+    if (stream.acceptSymbol(':')) {
+      stream.next();
+      return;
+    }
+    while (!stream.isSymbol('{')) {
+      stream.next();
+    }
+    this.skipBraces(stream);
+  }
+
+  private skipBraces(stream: TokenStream): void {
+    stream.expectSymbol('{');
+    for (let depth = 1; depth > 0;) {
+      const token = stream.next();
+      if (token.kind === 'symbol' && token.value === '{') depth++;
+      if (token.kind === 'symbol' && token.value === '}') depth--;
+    }
+  }
+
+  /**
+   * Words, "quoted names", 'strings', '''multi-line strings''', `expressions`
+   * (as strings), numbers and symbols, with // and /* *\/ comments dropped
+   */
+  private tokenize(content: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+      const start = i;
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (content.startsWith('//', i)) {
+        const end = content.indexOf('\n', i);
+        i = end < 0 ? content.length : end;
+      } else if (content.startsWith('/*', i)) {
+        const end = content.indexOf('*/', i + 2);
+        i = end < 0 ? content.length : end + 2;
+      } else if (content.startsWith(`'''`, i)) {
+        const end = this.findQuoteEnd(content, i + 3, `'''`);
+        const value = content.slice(i + 3, end).replace(/\\'/g, `'`);
+        i = Math.min(end + 3, content.length);
+        tokens.push({ kind: 'string', value: this.dedent(value), offset: start, end: i });
+      } else if (char === `'` || char === '"' || char === '`') {
+        const end = this.findQuoteEnd(content, i + 1, char);
+        const value = content.slice(i + 1, end).replace(/\\(.)/g, '$1');
+        i = Math.min(end + 1, content.length);
+        tokens.push({ kind: char === '"' ? 'identifier' : 'string', value, offset: start, end: i });
+      } else if (DBML_WORD_CHAR.test(char)) {
+        while (i < content.length && DBML_WORD_CHAR.test(content[i])) i++;
+        if (/^\d+$/.test(content.slice(start, i)) && content[i] === '.' && /\d/.test(content[i + 1] || '')) {
+          i++;
+          while (i < content.length && /\d/.test(content[i])) i++;
+        }
+        const value = content.slice(start, i);
+        tokens.push({ kind: /^\d+(?:\.\d+)?$/.test(value) ? 'number' : 'word', value, offset: start, end: i });
+      } else {
+        i += content.startsWith('<>', i) ? 2 : 1;
+        tokens.push({ kind: 'symbol', value: content.slice(start, i), offset: start, end: i });
+      }
+    }
+    return tokens;
+  }
+
+  /**
+   * Offset of the closing quote, skipping backslash escapes; the end of the content if unclosed
+   */
+  private findQuoteEnd(content: string, from: number, quote: string): number {
+    for (let i = from; i < content.length; i++) {
+      if (content[i] === '\\') {
+        i++;
+      } else if (content.startsWith(quote, i)) {
+        return i;
+      }
+    }
+    return content.length;
+  }
+
+  /**
+   * Multi-line strings drop their common indentation and surrounding blank lines
+   */
+  private dedent(value: string): string {
+    const lines = value.replace(/^[ \t]*\r?\n/, '').replace(/\r?\n[ \t]*$/, '').split(/\r?\n/);
+    const indent = Math.min(...lines.filter(line => line.trim() !== '').map(line => line.match(/^[ \t]*/)![0].length));
+    return lines.map(line => line.slice(Number.isFinite(indent) ? indent : 0)).join('\n');
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * DDL Table Facts
+ *
+ * Collects what the hand-written dialect parsers read from a CREATE TABLE
+ * body and turns it into ExtractedTable constraints, in the order the
+ * PostgreSQL parser emits them: primary key, unique, foreign keys, checks.
+ *
+ * NO: Tokenizing, grammar
+ */
+
+import { ColumnDef, ConstraintDef, ExtractedTable } from '../types/dumpParser';
+import { ReferentialAction } from '../types/schema';
+import { Token, splitTokenList } from './ddlTokenizer';
+
+export const REFERENTIAL_ACTIONS: ReferentialAction[] = ['RESTRICT', 'CASCADE', 'SET NULL', 'NO ACTION', 'SET DEFAULT'];
+
+export interface TableFacts {
+  columns: ColumnDef[];
+  primaryKey: string[];
+  uniques: string[][];
+  foreignKeys: ConstraintDef[];
+  checks: CheckFact[];
+}
+
+export interface CheckFact {
+  name?: string;
+  tokens: Token[];
+  expression: string;
+}
+
+export function createTableFacts(): TableFacts {
+  return { columns: [], primaryKey: [], uniques: [], foreignKeys: [], checks: [] };
+}
+
+/**
+ * @param tokens Tokens inside the CHECK parentheses
+ * @param text Statement text the tokens' offsets point into
+ */
+export function checkFact(tokens: Token[], text: string, name?: string): CheckFact {
+  return { ...(name ? { name } : {}), tokens, expression: expressionText(tokens, text) };
+}
+
+/**
+ * Build the table's constraints and link foreign key columns
+ */
+export function buildConstraints(facts: TableFacts): ConstraintDef[] {
+  const constraints: ConstraintDef[] = [];
+  if (facts.primaryKey.length > 0) {
+    constraints.push({ type: 'primary_key', columns: facts.primaryKey });
+  }
+  for (const unique of facts.uniques) {
+    constraints.push({ type: 'unique', columns: unique });
+  }
+
+  for (const foreignKey of facts.foreignKeys) {
+    constraints.push(foreignKey);
+    linkForeignKeyColumns(facts.columns, foreignKey);
+  }
+
+  // CHECKs may name columns declared after them, so they are resolved last
+  const byName = new Map(facts.columns.map(column => [column.name.toLowerCase(), column.name]));
+  for (const check of facts.checks) {
+    const columns = Array.from(new Set(check.tokens
+      .filter(token => token.kind === 'word' || token.kind === 'identifier')
+      .map(token => byName.get(token.value.toLowerCase()))
+      .filter((name): name is string => !!name)));
+    const allowedValues = extractAllowedValues(check.tokens);
+
+    constraints.push({
+      type: 'check',
+      ...(check.name ? { name: check.name } : {}),
+      columns,
+      expression: check.expression,
+      ...(allowedValues ? { allowedValues } : {})
+    });
+  }
+
+  return constraints;
+}
+
+/**
+ * Point foreign keys declared without a column list at the referenced
+ * table's primary key, once every table has been read
+ */
+export function resolveImplicitReferences(tables: ExtractedTable[]): void {
+  for (const table of tables) {
+    for (const foreignKey of table.constraints) {
+      if (foreignKey.type !== 'foreign_key' || foreignKey.references!.columns.length > 0) {
+        continue;
+      }
+      const { schema, table: name } = foreignKey.references!;
+      const referenced = tables.find(candidate => candidate.tableName === name && candidate.schema === schema);
+      const primaryKey = referenced?.constraints.find(constraint => constraint.type === 'primary_key');
+      if (primaryKey) {
+        foreignKey.references!.columns = [...primaryKey.columns];
+        linkForeignKeyColumns(table.columns, foreignKey);
+      }
+    }
+  }
+}
+
+function linkForeignKeyColumns(columns: ColumnDef[], foreignKey: ConstraintDef): void {
+  foreignKey.columns.forEach((name, i) => {
+    const column = columns.find(col => col.name === name);
+    if (column) {
+      column.foreignKey = {
+        column: name,
+        referencesTable: foreignKey.references!.table,
+        referencesColumn: foreignKey.references!.columns[i] || ''
+      };
+    }
+  });
+}
+
+/**
+ * Values of a `col IN ('a', 'b', ...)` condition, when that is the whole CHECK
+ */
+function extractAllowedValues(tokens: Token[]): string[] | null {
+  const [column, keyword, open, ...rest] = tokens;
+  const close = rest.pop();
+  if (!column || (column.kind !== 'word' && column.kind !== 'identifier') ||
+      keyword?.kind !== 'word' || keyword.value.toUpperCase() !== 'IN' ||
+      open?.value !== '(' || close?.value !== ')') {
+    return null;
+  }
+
+  const values = splitTokenList(rest);
+  if (values.length < 2 || values.some(value => value.length !== 1 || value[0].kind !== 'string')) {
+    return null;
+  }
+  return values.map(value => value[0].value);
+}
+
+function expressionText(tokens: Token[], text: string): string {
+  if (tokens.length === 0) {
+    return '';
+  }
+  return text.slice(tokens[0].offset, tokens[tokens.length - 1].end).replace(/\s+/g, ' ').trim();
+}
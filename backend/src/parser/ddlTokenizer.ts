@@ -0,0 +1,224 @@
+/**
+ * DDL Tokenizer
+ *
+ * Splits one statement into words, quoted identifiers, strings, numbers and
+ * symbols for the hand-written dialect parsers. Comments are dropped;
+ * identifiers and strings come back without their quotes and escapes.
+ *
+ * NO: Statement splitting, grammar
+ */
+
+import { SQLSyntax, maskSQLLiterals, closingQuote } from './sqlStatementSplitter';
+import { SQLParseError } from './sqlParser';
+
+export interface Token {
+  kind: 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+  value: string;  // Words and symbols as written; identifiers and strings unquoted
+  offset: number; // Start offset in the statement text
+  end: number;    // Offset just past the token
+}
+
+const WORD_CHAR = /[\w$@\u0080-\uffff]/;
+
+export function tokenize(text: string, syntax: SQLSyntax): Token[] {
+  // Comments are blanked and quoted contents masked, so a closing quote is the next quote character
+  const masked = maskSQLLiterals(text, syntax);
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < masked.length) {
+    const char = masked[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (syntax.stringQuotes.includes(char) || syntax.identifierQuotes.includes(char)) {
+      const close = masked.indexOf(closingQuote(char), i + 1);
+      i = close < 0 ? masked.length : close + 1;
+      const isString = syntax.stringQuotes.includes(char);
+      tokens.push({
+        kind: isString ? 'string' : 'identifier',
+        value: unquote(text.slice(start, i), closingQuote(char), isString && syntax.backslashEscapes),
+        offset: start,
+        end: i
+      });
+    } else if (WORD_CHAR.test(char)) {
+      while (i < masked.length && WORD_CHAR.test(masked[i])) i++;
+      // Decimal parts of numbers: 10.5
+      if (/^\d+$/.test(masked.slice(start, i)) && masked[i] === '.' && /\d/.test(masked[i + 1] || '')) {
+        i++;
+        while (i < masked.length && /\d/.test(masked[i])) i++;
+      }
+      const value = text.slice(start, i);
+      tokens.push({ kind: /^\d+(?:\.\d+)?$/.test(value) ? 'number' : 'word', value, offset: start, end: i });
+    } else {
+      i++;
+      tokens.push({ kind: 'symbol', value: char, offset: start, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+function unquote(quoted: string, close: string, backslashEscapes: boolean): string {
+  const closed = quoted.length > 1 && quoted.endsWith(close);
+  const body = quoted.slice(1, closed ? -1 : undefined).split(close + close).join(close);
+  if (!backslashEscapes) {
+    return body;
+  }
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '0': '\0' };
+  return body.replace(/\\(.)/g, (_, escaped: string) => escapes[escaped] ?? escaped);
+}
+
+/**
+ * Split a token list on commas outside parentheses
+ */
+export function splitTokenList(tokens: Token[]): Token[][] {
+  const items: Token[][] = [[]];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (token.kind === 'symbol' && token.value === '(') depth++;
+    if (token.kind === 'symbol' && token.value === ')') depth--;
+    if (token.kind === 'symbol' && token.value === ',' && depth === 0) {
+      items.push([]);
+    } else {
+      items[items.length - 1].push(token);
+    }
+  }
+
+  return items.filter(item => item.length > 0);
+}
+
+/**
+ * Cursor over a statement's tokens. Words compare case-insensitively;
+ * syntax errors carry the line and column of the offending token.
+ */
+export class TokenStream {
+  private position = 0;
+
+  /**
+   * @param locate Maps a statement offset to its line and column in the source
+   * @param endOffset Statement offset reported for errors at the end of the tokens
+   */
+  constructor(
+    private readonly tokens: Token[],
+    private readonly locate: (offset: number) => { line: number; column: number },
+    private readonly endOffset: number
+  ) {}
+
+  atEnd(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  peek(ahead = 0): Token | undefined {
+    return this.tokens[this.position + ahead];
+  }
+
+  next(): Token {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw this.error();
+    }
+    this.position++;
+    return token;
+  }
+
+  /**
+   * Whether the next tokens are these words, in order
+   */
+  isWord(...words: string[]): boolean {
+    return words.every((word, i) => {
+      const token = this.peek(i);
+      return token?.kind === 'word' && token.value.toUpperCase() === word;
+    });
+  }
+
+  /**
+   * Consume the given word sequence if it comes next
+   */
+  acceptWord(...words: string[]): boolean {
+    if (!this.isWord(...words)) {
+      return false;
+    }
+    this.position += words.length;
+    return true;
+  }
+
+  expectWord(...words: string[]): void {
+    if (!this.acceptWord(...words)) {
+      throw this.error(this.peek());
+    }
+  }
+
+  isSymbol(symbol: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'symbol' && token.value === symbol;
+  }
+
+  acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) {
+      return false;
+    }
+    this.position++;
+    return true;
+  }
+
+  expectSymbol(symbol: string): Token {
+    if (!this.isSymbol(symbol)) {
+      throw this.error(this.peek());
+    }
+    return this.next();
+  }
+
+  /**
+   * A bare word or quoted identifier
+   */
+  readName(): Token {
+    const token = this.peek();
+    if (token?.kind !== 'word' && token?.kind !== 'identifier') {
+      throw this.error(token);
+    }
+    return this.next();
+  }
+
+  /**
+   * Consume a parenthesized group and return the tokens inside it
+   */
+  readGroup(): Token[] {
+    const open = this.position;
+    this.expectSymbol('(');
+    for (let depth = 1; depth > 0;) {
+      const token = this.next();
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')') depth--;
+    }
+    return this.tokens.slice(open + 1, this.position - 1);
+  }
+
+  /**
+   * Consume everything up to the end of the tokens
+   */
+  rest(): Token[] {
+    const rest = this.tokens.slice(this.position);
+    this.position = this.tokens.length;
+    return rest;
+  }
+
+  /**
+   * A stream over a slice of these tokens, e.g. one item of a definition list
+   */
+  over(tokens: Token[]): TokenStream {
+    const end = tokens.length > 0 ? tokens[tokens.length - 1].end : this.endOffset;
+    return new TokenStream(tokens, this.locate, end);
+  }
+
+  error(token?: Token): SQLParseError {
+    const { line, column } = this.locate(token ? token.offset : this.endOffset);
+    const unexpected = token ? `Unexpected ${token.kind} "${token.value}"` : 'Unexpected end of statement';
+    return new SQLParseError(`Syntax error at line ${line}, column ${column}: ${unexpected}`, line, column);
+  }
+}
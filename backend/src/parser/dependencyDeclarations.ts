@@ -0,0 +1,195 @@
+/**
+ * Functional Dependency Declarations
+ *
+ * Reads declared functional dependencies, written `zip -> city, state`, and
+ * multivalued ones, written `employee_id ->> skill`:
+ * - sidecar JSON files: { "customers": ["zip -> city, state"], "sales.orders": [...] }
+ * - the same mapping as simple YAML: `customers:` keys with `- zip -> city` items
+ * - `-- @fd zip -> city, state` comments inside a CREATE TABLE statement, or
+ *   `-- @fd customers: zip -> city` anywhere in a script
+ *
+ * Table names in comments fold to lower case where the dialect folds
+ * unquoted identifiers, as PostgreSQL does.
+ *
+ * Several dependencies may share one comment or item, separated by `;`.
+ *
+ * NO: Checking columns against tables, dependency reasoning
+ */
+
+import { Dependency, DeclaredDependencies } from '../types/dependency';
+import { SQLSyntax, POSTGRES_SYNTAX, splitSQLStatements, maskSQLLiterals, createLineLocator } from './sqlStatementSplitter';
+import { Token, tokenize } from './ddlTokenizer';
+
+const DEPENDENCY_FORMAT = `expected 'a, b -> c, d' or 'a ->> b'`;
+
+/**
+ * Parse `a, b -> c, d` or `a ->> b`; `;` separates several dependencies
+ */
+export function parseDependencies(text: string): Dependency[] {
+  return text.split(';').filter(part => part.trim() !== '').map(part => {
+    const multivalued = part.includes('->>');
+    const sides = part.split(multivalued ? '->>' : '->');
+    const [determinant, dependent] = sides.map(side => side.split(',').map(name => unquoteName(name.trim())).filter(Boolean));
+    if (sides.length !== 2 || determinant.length === 0 || dependent.length === 0 || (multivalued && sides.some(side => side.includes('->')))) {
+      throw new Error(`Invalid ${multivalued ? 'multivalued' : 'functional'} dependency '${part.trim()}': ${DEPENDENCY_FORMAT}`);
+    }
+    return multivalued ? { determinant, dependent, multivalued: true as const } : { determinant, dependent };
+  });
+}
+
+/**
+ * Read a sidecar file of declared dependencies, as JSON or YAML
+ */
+export function parseDependencyFile(content: string, format: 'json' | 'yaml'): DeclaredDependencies {
+  const entries = format === 'json' ? readJSONEntries(content) : readYAMLEntries(content);
+  return mergeDependencies(...entries.map(([table, items]) => ({ [table]: items.flatMap(parseDependencies) })));
+}
+
+/**
+ * Dependencies declared in `@fd` comments of a SQL script
+ */
+export function extractCommentDependencies(sql: string, syntax: SQLSyntax = POSTGRES_SYNTAX): DeclaredDependencies {
+  if (!sql.includes('@fd')) {
+    return {};
+  }
+  const masked = maskSQLLiterals(sql, syntax);
+  const statements = splitSQLStatements(sql, syntax);
+  const locate = createLineLocator(sql);
+  const declared: DeclaredDependencies = {};
+
+  for (let i = sql.indexOf('@fd'); i >= 0; i = sql.indexOf('@fd', i + 1)) {
+    const comment = commentAt(sql, masked, i, syntax);
+    if (!comment) {
+      continue;
+    }
+    const declaration = comment.text.match(/^@fd\s+(?:([^\s:>-][^:>]*?)\s*:(?!:))?\s*([\s\S]+)$/);
+    const statement = statements.find(candidate => candidate.offset <= i && i < candidate.offset + candidate.text.length);
+    const table = declaration?.[1] ? readTableName(tokenize(declaration[1], syntax), 0, syntax) : statement && createdTable(statement.text, syntax);
+    if (!declaration || !table) {
+      const { line, column } = locate(i);
+      throw new Error(`Line ${line}, column ${column}: @fd comments outside CREATE TABLE must name their table, e.g. '@fd customers: zip -> city'`);
+    }
+    declared[table] = [...(declared[table] || []), ...parseDependencies(declaration[2])];
+  }
+  return declared;
+}
+
+/**
+ * The comment `@fd` at `offset` appears in, with its text from `@fd` to the comment's end
+ */
+function commentAt(sql: string, masked: string, offset: number, syntax: SQLSyntax): { text: string } | null {
+  // Comments are blanked in the masked text; strings are filled with other characters
+  if (masked[offset] !== ' ') {
+    return null;
+  }
+  const lineStart = sql.lastIndexOf('\n', offset) + 1;
+  for (let i = offset - 1; i >= lineStart; i--) {
+    if ((sql.startsWith('--', i) || (syntax.hashComments && sql[i] === '#')) && masked[i] === ' ') {
+      const end = sql.indexOf('\n', offset);
+      return { text: sql.slice(offset, end < 0 ? sql.length : end).trim() };
+    }
+  }
+  const open = sql.lastIndexOf('/*', offset);
+  if (open >= 0 && masked[open] === ' ') {
+    const close = sql.indexOf('*/', offset);
+    return { text: sql.slice(offset, close < 0 ? sql.length : close).replace(/^\s*\*\s?/gm, ' ').trim() };
+  }
+  return null;
+}
+
+/**
+ * The table a CREATE TABLE statement creates, as "table" or "schema.table"
+ */
+function createdTable(statement: string, syntax: SQLSyntax): string | undefined {
+  const tokens = tokenize(statement, syntax);
+  const table = tokens.findIndex(token => token.kind === 'word' && token.value.toUpperCase() === 'TABLE');
+  if (table < 0 || tokens[0].value.toUpperCase() !== 'CREATE') {
+    return undefined;
+  }
+  let i = table + 1;
+  const skipped = ['IF', 'NOT', 'EXISTS'];
+  while (tokens[i]?.kind === 'word' && skipped.includes(tokens[i].value.toUpperCase())) i++;
+
+  return readTableName(tokens, i, syntax);
+}
+
+/**
+ * The "table" or "schema.table" name starting at token `i`
+ */
+function readTableName(tokens: Token[], i: number, syntax: SQLSyntax): string | undefined {
+  const fold = (token: Token) => token.kind === 'word' && syntax.lowerCaseNames ? token.value.toLowerCase() : token.value;
+  const names = tokens[i] ? [fold(tokens[i])] : [];
+  while (tokens[i + 1]?.value === '.' && tokens[i + 2]) {
+    i += 2;
+    names.push(fold(tokens[i]));
+  }
+  return names.slice(-2).join('.') || undefined;
+}
+
+/**
+ * JSON: an object of tables, each a dependency string or a list of them
+ */
+function readJSONEntries(content: string): Array<[string, string[]]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid dependency file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Invalid dependency file: expected an object of tables');
+  }
+  return Object.entries(data as Record<string, unknown>).map(([table, items]) => {
+    const list = Array.isArray(items) ? items : [items];
+    if (list.some(item => typeof item !== 'string')) {
+      throw new Error(`Invalid dependency file: dependencies of '${table}' must be strings, ${DEPENDENCY_FORMAT}`);
+    }
+    return [table, list as string[]];
+  });
+}
+
+/**
+ * YAML subset: `table:` keys, each followed by `- dependency` items or
+ * holding one dependency inline; `#` starts a comment
+ */
+function readYAMLEntries(content: string): Array<[string, string[]]> {
+  const entries: Array<[string, string[]]> = [];
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const text = raw.replace(/(^|\s)#.*$/, '').trimEnd();
+    if (text.trim() === '') {
+      return;
+    }
+    const item = text.match(/^\s*-\s+(.*)$/);
+    const key = text.match(/^(\S[^:]*?)\s*:(?:\s+(.*))?$/);
+    if (item && entries.length > 0) {
+      entries[entries.length - 1][1].push(unquoteValue(item[1]));
+    } else if (key && !item) {
+      entries.push([unquoteValue(key[1]), key[2] ? [unquoteValue(key[2])] : []]);
+    } else {
+      throw new Error(`Invalid dependency file: line ${index + 1}: expected 'table:' or '- a, b -> c, d'`);
+    }
+  });
+  return entries;
+}
+
+function unquoteValue(value: string): string {
+  return value.trim().replace(/^(['"])([\s\S]*)\1$/, '$2');
+}
+
+function unquoteName(name: string): string {
+  return name.replace(/^["`[]([\s\S]*)["`\]]$/, '$1');
+}
+
+/**
+ * Combine declarations; dependencies of the same table are concatenated
+ */
+export function mergeDependencies(...declarations: DeclaredDependencies[]): DeclaredDependencies {
+  const merged: DeclaredDependencies = {};
+  for (const declared of declarations) {
+    for (const [table, dependencies] of Object.entries(declared)) {
+      merged[table] = [...(merged[table] || []), ...dependencies];
+    }
+  }
+  return merged;
+}
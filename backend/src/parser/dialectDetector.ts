@@ -0,0 +1,102 @@
+/**
+ * SQL Dialect Detector
+ *
+ * Scores input for PostgreSQL, MySQL, SQLite and T-SQL markers (dump
+ * headers, quoting styles, type names, table options) and picks the
+ * dialect with the highest score. Each marker counts once, however often
+ * it appears.
+ *
+ * NO: Parsing, analysis
+ */
+
+import { SQLDialect, DialectDetection } from '../types/dumpParser';
+import { PgArchiveReader, isTarArchive } from './pgArchiveReader';
+import { SQLiteFileReader } from './sqliteFileReader';
+
+export const SQL_DIALECTS: SQLDialect[] = ['postgres', 'mysql', 'sqlite', 'tsql'];
+
+export const DIALECT_NAMES: Record<SQLDialect, string> = {
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL',
+  sqlite: 'SQLite',
+  tsql: 'SQL Server (T-SQL)'
+};
+
+// Dumps put their DDL first, so markers are only looked for in the leading part
+const SAMPLE_SIZE = 1024 * 1024;
+
+const MARKERS: Array<{ dialect: SQLDialect; pattern: RegExp; weight: number }> = [
+  { dialect: 'postgres', pattern: /^-- PostgreSQL database dump/m, weight: 5 },
+  { dialect: 'postgres', pattern: /\bCOPY\s+[\w."]+(?:\s*\([^)]*\))?\s+FROM\s+stdin\b/i, weight: 3 },
+  { dialect: 'postgres', pattern: /\bALTER\s+TABLE\s+ONLY\b|\bOWNER\s+TO\b|\bSET\s+search_path\b/i, weight: 3 },
+  { dialect: 'postgres', pattern: /::\s*[a-z_]/i, weight: 2 },
+  { dialect: 'postgres', pattern: /\$\$|\$[A-Za-z_]\w*\$/, weight: 2 },
+  { dialect: 'postgres', pattern: /\b(?:BIG|SMALL)?SERIAL\b/i, weight: 2 },
+  { dialect: 'postgres', pattern: /\b(?:JSONB|BYTEA|TIMESTAMPTZ)\b/i, weight: 2 },
+  { dialect: 'postgres', pattern: /\bCREATE\s+(?:EXTENSION|SEQUENCE|DOMAIN)\b|\bAS\s+ENUM\s*\(/i, weight: 2 },
+  { dialect: 'postgres', pattern: /\w\s*\[\]/, weight: 2 },
+
+  { dialect: 'mysql', pattern: /^-- (?:MySQL|MariaDB) dump/m, weight: 5 },
+  { dialect: 'mysql', pattern: /`[^`\n]+`/, weight: 3 },
+  { dialect: 'mysql', pattern: /\bENGINE\s*=/i, weight: 3 },
+  { dialect: 'mysql', pattern: /\bAUTO_INCREMENT\b/i, weight: 3 },
+  { dialect: 'mysql', pattern: /\/\*!\d{5}/, weight: 3 },
+  { dialect: 'mysql', pattern: /\bCHARSET\s*=|\bCOLLATE\s*=/i, weight: 2 },
+  { dialect: 'mysql', pattern: /\b(?:UNSIGNED|ZEROFILL)\b/i, weight: 2 },
+  { dialect: 'mysql', pattern: /\bLOCK\s+TABLES\b|^DELIMITER\s/im, weight: 2 },
+  { dialect: 'mysql', pattern: /\b(?:TINY|MEDIUM|LONG)(?:INT|TEXT|BLOB)\b/i, weight: 2 },
+  { dialect: 'mysql', pattern: /(?<!\bAS\s+)\bENUM\s*\(|\bSET\s*\(\s*'/i, weight: 1 },
+
+  { dialect: 'sqlite', pattern: /\bAUTOINCREMENT\b/i, weight: 3 },
+  { dialect: 'sqlite', pattern: /\bWITHOUT\s+ROWID\b/i, weight: 3 },
+  { dialect: 'sqlite', pattern: /^\s*PRAGMA\b/im, weight: 3 },
+  { dialect: 'sqlite', pattern: /\bsqlite_(?:master|schema|sequence)\b/i, weight: 3 },
+  { dialect: 'sqlite', pattern: /\bON\s+CONFLICT\s+(?:ROLLBACK|ABORT|FAIL|IGNORE|REPLACE)\b/i, weight: 2 },
+  { dialect: 'sqlite', pattern: /\)\s*(?:WITHOUT\s+ROWID\s*,\s*)?STRICT\b/i, weight: 2 },
+  { dialect: 'sqlite', pattern: /^BEGIN TRANSACTION;/m, weight: 1 },
+
+  { dialect: 'tsql', pattern: /^[ \t]*GO[ \t]*$/im, weight: 4 },
+  { dialect: 'tsql', pattern: /\[\w+\]\s*\.\s*\[\w+\]/, weight: 3 },
+  { dialect: 'tsql', pattern: /\bIDENTITY\s*\(\s*\d+\s*,\s*\d+\s*\)/i, weight: 3 },
+  { dialect: 'tsql', pattern: /\(\s*MAX\s*\)/i, weight: 3 },
+  { dialect: 'tsql', pattern: /\b(?:NON)?CLUSTERED\b/i, weight: 3 },
+  { dialect: 'tsql', pattern: /\bSET\s+(?:ANSI_NULLS|QUOTED_IDENTIFIER)\b/i, weight: 3 },
+  { dialect: 'tsql', pattern: /\bdbo\s*\.|\[dbo\]/i, weight: 2 },
+  { dialect: 'tsql', pattern: /\b(?:NVARCHAR|NCHAR|UNIQUEIDENTIFIER|DATETIME2|DATETIMEOFFSET|MONEY)\b/i, weight: 2 },
+  { dialect: 'tsql', pattern: /\bON\s+\[PRIMARY\]/i, weight: 2 }
+];
+
+/**
+ * Detect the dialect of a script, dump or database file.
+ * @param forced Dialect chosen by the caller; scores are still reported
+ */
+export function detectDialect(content: string | Buffer, forced?: SQLDialect): DialectDetection {
+  const scores: Record<SQLDialect, number> = { postgres: 0, mysql: 0, sqlite: 0, tsql: 0 };
+  let detected: DialectDetection | null = null;
+
+  if (Buffer.isBuffer(content) && (PgArchiveReader.isArchive(content) || isTarArchive(content))) {
+    detected = { dialect: 'postgres', confidence: 1, forced: false, scores };
+  } else if (Buffer.isBuffer(content) && SQLiteFileReader.isDatabase(content)) {
+    detected = { dialect: 'sqlite', confidence: 1, forced: false, scores };
+  } else {
+    const text = Buffer.isBuffer(content) ? content.toString('utf-8', 0, SAMPLE_SIZE) : content.slice(0, SAMPLE_SIZE);
+    if (text.startsWith('PGDMP')) {
+      detected = { dialect: 'postgres', confidence: 1, forced: false, scores };
+    } else {
+      for (const marker of MARKERS) {
+        if (marker.pattern.test(text)) {
+          scores[marker.dialect] += marker.weight;
+        }
+      }
+    }
+  }
+
+  if (!detected) {
+    // Ties and unmarked input fall back to the earlier dialect, PostgreSQL first
+    const dialect = SQL_DIALECTS.reduce((best, candidate) => scores[candidate] > scores[best] ? candidate : best);
+    const total = SQL_DIALECTS.reduce((sum, candidate) => sum + scores[candidate], 0);
+    detected = { dialect, confidence: total > 0 ? Math.round(scores[dialect] / total * 100) / 100 : 0, forced: false, scores };
+  }
+
+  return forced ? { ...detected, dialect: forced, confidence: 1, forced: true } : detected;
+}
@@ -0,0 +1,371 @@
+/**
+ * Drizzle ORM Table Parser
+ *
+ * Reads `pgTable(...)` (and `mysqlTable`/`sqliteTable`) definitions from
+ * TypeScript sources into ExtractedTable facts:
+ * - column builders, named by their first argument or their property key, also
+ *   when built by a helper of the same file, e.g. `const id = () => serial('id')`
+ * - .primaryKey(), .notNull(), .unique(), .array() and .references(() => t.col, actions)
+ * - pgSchema('name').table(...) and pgEnum(...) columns
+ * - primaryKey, unique/uniqueIndex and foreignKey entries of the extra config callback
+ *
+ * Tables are found by the variables they are assigned to, so references
+ * resolve across all given files by variable name.
+ *
+ * NO: Module resolution, indexes, checks, analysis
+ */
+
+import * as ts from 'typescript';
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { ReferentialAction } from '../types/schema';
+import { OrmSourceFile } from '../types/orm';
+import { TableFacts, createTableFacts, buildConstraints } from './ddlTableFacts';
+import {
+  ChainCall, parseSource, nodeLocation, literalValue, stringValue, objectProperties, propertyName,
+  callChain, functionResult, memberReference, referentialAction
+} from './ormSourceReader';
+
+const TABLE_FUNCTIONS: Record<string, string> = {
+  pgTable: 'public',
+  mysqlTable: 'public',
+  sqliteTable: 'main'
+};
+const SCHEMA_FUNCTIONS = ['pgSchema', 'mysqlSchema'];
+const ENUM_FUNCTIONS = ['pgEnum'];
+
+/**
+ * A table definition found in the sources, before references are resolved
+ */
+interface DrizzleTable {
+  variable: string;
+  schema: string;
+  name: string;
+  file: string;
+  nameNode: ts.Node;
+  columns: ts.ObjectLiteralExpression;
+  extras?: ts.Expression;
+  // Column names by property key
+  keys: Map<string, string>;
+  // What the functions of the table's file return, by function name
+  helpers: Map<string, ts.Expression>;
+}
+
+/**
+ * A `() => table.column` reference waiting for all tables to be known
+ */
+interface PendingReference {
+  foreignKey: ConstraintDef;
+  targets: ts.Node[];
+}
+
+export class DrizzleParser {
+  /**
+   * Parse Drizzle table definitions into ExtractedTable facts.
+   *
+   * When an `errors` array is given, tables that fail to parse are recorded
+   * there and skipped instead of aborting.
+   */
+  extractTables(sources: OrmSourceFile[], options: { errors?: string[] } = {}): ExtractedTable[] {
+    const schemas = new Map<string, string>();
+    const enums = new Map<string, string>();
+    const definitions: DrizzleTable[] = [];
+
+    for (const source of sources) {
+      const sourceFile = parseSource(source);
+      const helpers = this.helperFunctions(sourceFile);
+      for (const declaration of this.variableDeclarations(sourceFile)) {
+        this.readDeclaration(declaration, source.path, helpers, { schemas, enums, definitions });
+      }
+    }
+
+    const byVariable = new Map(definitions.map(definition => [definition.variable, definition]));
+    const tables: ExtractedTable[] = [];
+    for (const definition of definitions) {
+      try {
+        tables.push(this.buildTable(definition, enums, byVariable));
+      } catch (error) {
+        if (!options.errors) {
+          throw error;
+        }
+        options.errors.push(`${definition.file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return tables;
+  }
+
+  private variableDeclarations(sourceFile: ts.SourceFile): ts.VariableDeclaration[] {
+    return sourceFile.statements
+      .filter(ts.isVariableStatement)
+      .flatMap(statement => Array.from(statement.declarationList.declarations))
+      .filter(declaration => ts.isIdentifier(declaration.name) && declaration.initializer);
+  }
+
+  /**
+   * Functions declared at the top of a file, by name, as the expression each returns
+   */
+  private helperFunctions(sourceFile: ts.SourceFile): Map<string, ts.Expression> {
+    const helpers = new Map<string, ts.Expression>();
+    for (const declaration of this.variableDeclarations(sourceFile)) {
+      const result = functionResult(declaration.initializer);
+      if (result) helpers.set((declaration.name as ts.Identifier).text, result);
+    }
+    for (const statement of sourceFile.statements.filter(ts.isFunctionDeclaration)) {
+      const result = functionResult(statement);
+      if (result && statement.name) helpers.set(statement.name.text, result);
+    }
+    return helpers;
+  }
+
+  /**
+   * Record schemas, enums and tables; other declarations are ignored
+   */
+  private readDeclaration(
+    declaration: ts.VariableDeclaration,
+    file: string,
+    helpers: Map<string, ts.Expression>,
+    found: { schemas: Map<string, string>; enums: Map<string, string>; definitions: DrizzleTable[] }
+  ): void {
+    const variable = (declaration.name as ts.Identifier).text;
+    const { calls, receiver } = callChain(declaration.initializer!);
+    const [first] = calls;
+    if (!first) {
+      return;
+    }
+
+    const name = stringValue(first.args[0]);
+    if (!receiver && SCHEMA_FUNCTIONS.includes(first.name) && name) {
+      found.schemas.set(variable, name);
+      return;
+    }
+    if (!receiver && ENUM_FUNCTIONS.includes(first.name) && name) {
+      found.enums.set(variable, name);
+      return;
+    }
+
+    const schema = receiver
+      ? ts.isIdentifier(receiver) && first.name === 'table' ? found.schemas.get(receiver.text) : undefined
+      : TABLE_FUNCTIONS[first.name];
+    const columns = first.args[1];
+    if (!schema || !name || !columns || !ts.isObjectLiteralExpression(columns)) {
+      return;
+    }
+
+    found.definitions.push({
+      variable,
+      schema,
+      name,
+      file,
+      nameNode: declaration.name,
+      columns,
+      extras: first.args[2],
+      keys: new Map(columns.properties
+        .filter(ts.isPropertyAssignment)
+        .map(property => [propertyName(property.name), this.columnName(property, helpers)])),
+      helpers
+    });
+  }
+
+  private buildTable(definition: DrizzleTable, enums: Map<string, string>, tables: Map<string, DrizzleTable>): ExtractedTable {
+    const facts = createTableFacts();
+    const references: PendingReference[] = [];
+
+    for (const property of definition.columns.properties) {
+      if (ts.isPropertyAssignment(property)) {
+        this.readColumn(property, definition, enums, facts, references);
+      }
+    }
+    if (definition.extras) {
+      this.readExtras(definition, facts, references);
+    }
+
+    for (const reference of references) {
+      this.resolveReference(reference, tables);
+    }
+
+    return {
+      schema: definition.schema,
+      tableName: definition.name,
+      columns: facts.columns,
+      constraints: buildConstraints(facts),
+      source: 'sql',
+      location: nodeLocation(definition.nameNode, definition.file)
+    };
+  }
+
+  private readColumn(
+    property: ts.PropertyAssignment,
+    definition: DrizzleTable,
+    enums: Map<string, string>,
+    facts: TableFacts,
+    references: PendingReference[]
+  ): void {
+    const [builder, ...methods] = this.columnCalls(property.initializer, definition.helpers);
+    if (!builder) {
+      throw new Error(`Column '${propertyName(property.name)}' of table '${definition.name}' is not a column builder`);
+    }
+
+    const column: ColumnDef = {
+      name: this.columnName(property, definition.helpers),
+      ...this.columnType(builder, enums),
+      nullable: true,
+      primaryKey: false,
+      unique: false,
+      location: nodeLocation(property.name, definition.file)
+    };
+
+    for (const method of methods) {
+      if (method.name === 'primaryKey') {
+        column.primaryKey = true;
+        column.nullable = false;
+        facts.primaryKey.push(column.name);
+      } else if (method.name === 'notNull') {
+        column.nullable = false;
+      } else if (method.name === 'unique') {
+        column.unique = true;
+        facts.uniques.push([column.name]);
+      } else if (method.name === 'array') {
+        column.type += '[]';
+        if (column.resolvedType) {
+          column.resolvedType += '[]';
+        }
+      } else if (method.name === 'references') {
+        const foreignKey: ConstraintDef = {
+          type: 'foreign_key',
+          columns: [column.name],
+          references: { table: '', columns: [] },
+          ...this.referenceActions(objectProperties(method.args[1]))
+        };
+        facts.foreignKeys.push(foreignKey);
+        references.push({ foreignKey, targets: [functionResult(method.args[0])].filter(Boolean) });
+      }
+    }
+    facts.columns.push(column);
+  }
+
+  /**
+   * The extra config callback: `(t) => ({ pk: primaryKey(...) })` or `(t) => [primaryKey(...)]`
+   */
+  private readExtras(definition: DrizzleTable, facts: TableFacts, references: PendingReference[]): void {
+    const result = functionResult(definition.extras);
+    const entries = !result ? [] : ts.isArrayLiteralExpression(result)
+      ? Array.from(result.elements)
+      : Array.from(objectProperties(result).values());
+
+    for (const entry of entries) {
+      const [builder, ...methods] = callChain(entry).calls;
+      if (!builder) {
+        continue;
+      }
+      const config = objectProperties(builder.args[0]);
+      const on = methods.find(method => method.name === 'on');
+
+      if (builder.name === 'primaryKey') {
+        const columns = config.has('columns') ? this.arrayElements(config.get('columns')) : Array.from(builder.args);
+        facts.primaryKey.push(...this.columnRefs(columns, definition));
+      } else if ((builder.name === 'unique' || builder.name === 'uniqueIndex') && on) {
+        facts.uniques.push(this.columnRefs(Array.from(on.args), definition));
+      } else if (builder.name === 'foreignKey') {
+        const onDelete = methods.find(method => method.name === 'onDelete');
+        const onUpdate = methods.find(method => method.name === 'onUpdate');
+        const name = stringValue(config.get('name'));
+        const foreignKey: ConstraintDef = {
+          type: 'foreign_key',
+          ...(name ? { name } : {}),
+          columns: this.columnRefs(this.arrayElements(config.get('columns')), definition),
+          references: { table: '', columns: [] },
+          ...this.referenceActions(new Map([
+            ...(onDelete ? [['onDelete', onDelete.args[0]] as [string, ts.Expression]] : []),
+            ...(onUpdate ? [['onUpdate', onUpdate.args[0]] as [string, ts.Expression]] : [])
+          ]))
+        };
+        facts.foreignKeys.push(foreignKey);
+        references.push({ foreignKey, targets: this.arrayElements(config.get('foreignColumns')) });
+      }
+    }
+  }
+
+  /**
+   * Point a foreign key at the table and columns its `table.column` targets name
+   */
+  private resolveReference(reference: PendingReference, tables: Map<string, DrizzleTable>): void {
+    for (const target of reference.targets) {
+      const member = memberReference(target);
+      const table = member && tables.get(member.object);
+      if (!table) {
+        throw new Error(`Cannot resolve reference '${target.getText()}'`);
+      }
+      reference.foreignKey.references = {
+        schema: table.schema,
+        table: table.name,
+        columns: [...reference.foreignKey.references!.columns, table.keys.get(member.property) || member.property]
+      };
+    }
+  }
+
+  /**
+   * `t.a` entries of a column list, as column names
+   */
+  private columnRefs(nodes: ts.Node[], definition: DrizzleTable): string[] {
+    return nodes
+      .map(node => memberReference(node)?.property)
+      .filter((key): key is string => !!key)
+      .map(key => definition.keys.get(key) || key);
+  }
+
+  private arrayElements(node: ts.Node | undefined): ts.Expression[] {
+    return node && ts.isArrayLiteralExpression(node) ? Array.from(node.elements) : [];
+  }
+
+  /**
+   * Builders take the column name first; without it the property key is the name
+   */
+  private columnName(property: ts.PropertyAssignment, helpers: Map<string, ts.Expression>): string {
+    const [builder] = this.columnCalls(property.initializer, helpers);
+    return stringValue(builder?.args[0]) || propertyName(property.name);
+  }
+
+  /**
+   * The call chain of a column, with a leading helper call such as `id()`
+   * replaced by the chain the helper returns
+   */
+  private columnCalls(initializer: ts.Expression, helpers: Map<string, ts.Expression>): ChainCall[] {
+    const { calls, receiver } = callChain(initializer);
+    const helper = !receiver && calls[0] ? helpers.get(calls[0].name) : undefined;
+    if (!helper) {
+      return calls;
+    }
+    // A helper is expanded once, so recursive helpers end
+    const rest = new Map(helpers);
+    rest.delete(calls[0].name);
+    return [...this.columnCalls(helper, rest), ...calls.slice(1)];
+  }
+
+  /**
+   * SQL type of a column builder, e.g. varchar('email', { length: 256 }) -> VARCHAR(256)
+   */
+  private columnType(builder: ChainCall, enums: Map<string, string>): Pick<ColumnDef, 'type' | 'resolvedType' | 'resolvedKind'> {
+    const enumName = enums.get(builder.name);
+    if (enumName) {
+      return { type: enumName, resolvedType: enumName, resolvedKind: 'enum' };
+    }
+
+    const values = builder.args.find(ts.isArrayLiteralExpression);
+    if (builder.name === 'mysqlEnum' && values) {
+      const list = values.elements.map(element => `'${stringValue(element)}'`).join(',');
+      return { type: `ENUM(${list})`, resolvedKind: 'enum' };
+    }
+
+    const config = objectProperties(builder.args.find(ts.isObjectLiteralExpression));
+    const size = [config.get('length') || config.get('precision'), config.get('scale')]
+      .map(literalValue)
+      .filter(value => typeof value === 'number');
+    const type = builder.name.replace(/([a-z])([A-Z])/g, '$1 $2').toUpperCase();
+    return { type: size.length > 0 ? `${type}(${size.join(',')})` : type };
+  }
+
+  private referenceActions(config: Map<string, ts.Expression>): { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } {
+    const onDelete = referentialAction(stringValue(config.get('onDelete')));
+    const onUpdate = referentialAction(stringValue(config.get('onUpdate')));
+    return { ...(onDelete ? { onDelete } : {}), ...(onUpdate ? { onUpdate } : {}) };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Dump Data Reader
+ *
+ * Reads the row data of plain-text dumps for profiling:
+ * - COPY table (a, b) FROM stdin blocks, tab-separated with \N for NULL
+ * - INSERT INTO table [(a, b)] VALUES (...), (...) statements
+ * and the TABLE DATA entries of pg_dump archives, which hold COPY rows.
+ *
+ * Values come back as text, or null for NULL; strings are unquoted and
+ * unescaped, anything else (numbers, casts, function calls) is kept as written.
+ * Only the first `maxRows` rows of each table are parsed and kept; the rest
+ * are only counted.
+ *
+ * NO: archive decompression, type conversion, dependency discovery
+ */
+
+import { TableRows } from '../types/dumpParser';
+import { SQLSyntax, POSTGRES_SYNTAX, splitSQLStatements } from './sqlStatementSplitter';
+import { Token, tokenize, splitTokenList } from './ddlTokenizer';
+import { PgArchiveReader } from './pgArchiveReader';
+
+const COPY_ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v' };
+
+/**
+ * Receives each row of a table; `parse` is only called for rows that are kept
+ */
+type RowSink = (parse: () => Array<string | null>) => void;
+
+export function readTableRows(sql: string, options: { syntax?: SQLSyntax; maxRows?: number } = {}): TableRows[] {
+  const syntax = options.syntax || POSTGRES_SYNTAX;
+  const maxRows = options.maxRows ?? Infinity;
+  const entries = new Map<string, TableRows>();
+  const kept = new Map<string, number>();
+
+  const sink = (target: { schema?: string; tableName: string; columns: string[] | null }): RowSink => {
+    const table = `${target.schema || ''}.${target.tableName}`.toLowerCase();
+    const key = `${table}(${target.columns ? target.columns.join(',') : '*'})`;
+    if (!entries.has(key)) {
+      entries.set(key, { ...(target.schema ? { schema: target.schema } : {}), tableName: target.tableName, columns: target.columns, rows: [], totalRows: 0 });
+    }
+    const entry = entries.get(key)!;
+    return parse => {
+      entry.totalRows++;
+      const count = kept.get(table) || 0;
+      if (count < maxRows) {
+        entry.rows.push(parse());
+        kept.set(table, count + 1);
+      }
+    };
+  };
+
+  for (const statement of splitSQLStatements(sql, syntax)) {
+    const keyword = statement.text.match(/^\w+/)?.[0].toUpperCase();
+    if (keyword === 'COPY' && syntax.copyData && /\bFROM\s+STDIN\b/i.test(statement.text)) {
+      const target = readTarget(tokenize(statement.text, syntax), 1);
+      if (target) {
+        copyRows(sql, statement.offset + statement.text.length, sink(target));
+      }
+    } else if (keyword === 'INSERT') {
+      const tokens = tokenize(statement.text, syntax);
+      const into = tokens.findIndex(token => token.kind === 'word' && token.value.toUpperCase() === 'INTO');
+      const target = into > 0 ? readTarget(tokens, into + 1) : null;
+      if (target) {
+        insertRows(tokens, target.next, sink(target));
+      }
+    }
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Rows of the TABLE DATA entries of a pg_dump archive, read one entry at a time
+ */
+export function readArchiveRows(archive: PgArchiveReader, options: { maxRows?: number } = {}): TableRows[] {
+  return archive.readToc()
+    .filter(entry => entry.desc === 'TABLE DATA' && entry.copyStmt)
+    .flatMap(entry => {
+      const data = archive.readEntryData(entry);
+      return data ? readTableRows(`${entry.copyStmt}${data}`, options) : [];
+    });
+}
+
+/**
+ * The table name and optional column list starting at token `i`
+ */
+function readTarget(tokens: Token[], i: number): { schema?: string; tableName: string; columns: string[] | null; next: number } | null {
+  const names: string[] = [];
+  while (tokens[i] && (tokens[i].kind === 'word' || tokens[i].kind === 'identifier')) {
+    names.push(tokens[i].value);
+    if (tokens[i + 1]?.value !== '.') {
+      i++;
+      break;
+    }
+    i += 2;
+  }
+  if (names.length === 0) {
+    return null;
+  }
+
+  let columns: string[] | null = null;
+  if (tokens[i]?.value === '(') {
+    const close = tokens.findIndex((token, index) => index > i && token.value === ')');
+    columns = tokens.slice(i + 1, close < 0 ? tokens.length : close).filter(token => token.value !== ',').map(token => token.value);
+    i = close < 0 ? tokens.length : close + 1;
+  }
+
+  const [tableName, schema] = names.slice(-2).reverse();
+  return { ...(schema ? { schema } : {}), tableName, columns, next: i };
+}
+
+/**
+ * Data lines after a COPY ... FROM stdin statement, up to the "\." line
+ */
+function copyRows(sql: string, statementEnd: number, row: RowSink): void {
+  const lineEnd = sql.indexOf('\n', statementEnd);
+  if (lineEnd < 0) {
+    return;
+  }
+  let start = lineEnd + 1;
+  while (start < sql.length) {
+    const end = sql.indexOf('\n', start);
+    const line = sql.slice(start, end < 0 ? sql.length : end).replace(/\r$/, '');
+    if (/^\\\.\s*$/.test(line)) {
+      break;
+    }
+    row(() => line.split('\t').map(value => value === '\\N' ? null : unescapeCopyValue(value)));
+    start = end < 0 ? sql.length : end + 1;
+  }
+}
+
+function unescapeCopyValue(value: string): string {
+  return value.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_, escaped: string) => {
+    if (escaped[0] === 'x' && escaped.length > 1) return String.fromCharCode(parseInt(escaped.slice(1), 16));
+    if (/^[0-7]+$/.test(escaped)) return String.fromCharCode(parseInt(escaped, 8));
+    return COPY_ESCAPES[escaped] ?? escaped;
+  });
+}
+
+/**
+ * Value lists of VALUES (...), (...) from token `i`; stops at anything else
+ * (ON CONFLICT, RETURNING, SELECT sources)
+ */
+function insertRows(tokens: Token[], i: number, row: RowSink): void {
+  if (tokens[i]?.kind !== 'word' || tokens[i].value.toUpperCase() !== 'VALUES') {
+    return;
+  }
+  i++;
+  while (tokens[i]?.value === '(') {
+    let depth = 0;
+    let close = i;
+    for (; close < tokens.length; close++) {
+      if (tokens[close].kind === 'symbol' && tokens[close].value === '(') depth++;
+      if (tokens[close].kind === 'symbol' && tokens[close].value === ')' && --depth === 0) break;
+    }
+    const open = i;
+    row(() => splitTokenList(tokens.slice(open + 1, close)).map(insertValue));
+    i = close + 1;
+    if (tokens[i]?.value !== ',') {
+      break;
+    }
+    i++;
+  }
+}
+
+/**
+ * NULL, the text of a string literal (through E'' prefixes and ::casts), or the value as written
+ */
+function insertValue(tokens: Token[]): string | null {
+  if (tokens.length === 1 && tokens[0].kind === 'word' && tokens[0].value.toUpperCase() === 'NULL') {
+    return null;
+  }
+  const string = tokens.find(token => token.kind === 'string');
+  return string ? string.value : tokens.map(token => token.value).join('');
+}
@@ -1,26 +1,58 @@
 /**
  * PostgreSQL Dump File Parser - V1
  * 
- * SINGLE RESPONSIBILITY: Extract CREATE TABLE blocks from dump files
+ * SINGLE RESPONSIBILITY: Extract table facts from dump files
  * 
  * Key Principles:
- * 1. Handle both text and binary dumps
- * 2. Extract readable CREATE TABLE statements
- * 3. Parse schema + table once
+ * 1. Handle text dumps, pg_dump archives (-Fc, -Fd, -Ft) and legacy binary scans;
+ *    MySQL, SQLite and T-SQL dumps go to their dialect's parser
+ * 2. Extract readable CREATE TABLE, ALTER TABLE ... ADD CONSTRAINT and CREATE UNIQUE INDEX statements
+ * 3. Parse schema, table, columns and keys once
  * 4. Pass forward as facts
  * 
  * NO: Analysis, normalization, scoring, heuristics
  */
 
-import { ExtractedTable, DumpParseResult, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { DumpParseResult, ExtractedTable, SQLDialect, DialectTableParser } from '../types/dumpParser';
+import { SQLParser } from './sqlParser';
+import { MySQLParser } from './mysqlParser';
+import { SQLiteParser } from './sqliteParser';
+import { TSQLParser } from './tsqlParser';
+import { SQLiteFileReader } from './sqliteFileReader';
+import { PgArchiveReader, isTarArchive, readTarMembers } from './pgArchiveReader';
+
+// Table of contents file of directory (-Fd) and tar (-Ft) archives
+const TOC_FILE = 'toc.dat';
+
+// TOC entry kinds whose definitions carry table structure, keys and column types
+const SCHEMA_TOC_ENTRIES = new Set(['TYPE', 'DOMAIN', 'TABLE', 'CONSTRAINT', 'CHECK CONSTRAINT', 'FK CONSTRAINT', 'INDEX']);
 
 export class DumpParser {
+  private static sqlParser = new SQLParser();
+  private static sqliteParser = new SQLiteParser();
+  private static dialectParsers: Record<Exclude<SQLDialect, 'postgres'>, DialectTableParser> = {
+    mysql: new MySQLParser(),
+    sqlite: DumpParser.sqliteParser,
+    tsql: new TSQLParser()
+  };
+
   /**
    * Parse a PostgreSQL dump file and extract CREATE TABLE statements
    * 
-   * Strategy: Extract readable CREATE TABLE blocks from both text and binary dumps
+   * Strategy: Read the TOC of custom, tar and directory (toc.dat) archives;
+   * extract readable CREATE TABLE blocks from text dumps and anything else
+   * starting with PGDMP
+   *
+   * Tables from text dumps carry their line and column in the dump, under
+   * `file`. Archives store definitions without line structure, so their
+   * tables carry no location.
+   *
+   * Other dialects are read as plain-text dumps, except SQLite database
+   * files, whose tables come from sqlite_master.
    */
-  static parseDumpFile(dumpContent: string): DumpParseResult {
+  static parseDumpFile(dumpContent: string | Buffer, file?: string, dialect: SQLDialect = 'postgres'): DumpParseResult {
     const result: DumpParseResult = {
       success: false,
       tables: [],
@@ -33,13 +65,33 @@ export class DumpParser {
     };
 
     try {
+      if (dialect !== 'postgres') {
+        return this.parseDialectDump(dumpContent, result, dialect, file);
+      }
+
+      if (Buffer.isBuffer(dumpContent)) {
+        if (PgArchiveReader.isArchive(dumpContent)) {
+          return this.parseArchive(new PgArchiveReader(dumpContent), result);
+        }
+        if (isTarArchive(dumpContent)) {
+          return this.parseTarArchive(dumpContent, result);
+        }
+        dumpContent = dumpContent.toString('utf-8');
+      }
+
       // Detect if this is a binary dump (starts with PGDMP)
       if (dumpContent.startsWith('PGDMP')) {
+        // Archives read as latin1 round-trip byte for byte
+        const archive = this.tryReadArchive(Buffer.from(dumpContent, 'latin1'));
+        if (archive) {
+          return this.parseArchive(archive, result);
+        }
+
         result.metadata.detectedFormat = 'binary';
         return this.parseBinaryDump(dumpContent, result);
       } else {
         result.metadata.detectedFormat = 'text';
-        return this.parseTextDump(dumpContent, result);
+        return this.parseTextDump(dumpContent, result, file);
       }
     } catch (error) {
       result.errors.push(`Parser error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -49,99 +101,113 @@ export class DumpParser {
   }
 
   /**
-   * Parse binary PostgreSQL dump file
-   * Extract readable CREATE TABLE statements embedded in binary data
+   * Parse a pg_dump directory archive (-Fd)
+   * Table structure comes from toc.dat; per-table data files are not needed
    */
-  private static parseBinaryDump(dumpContent: string, result: DumpParseResult): DumpParseResult {
-    // Split by lines and look for CREATE TABLE patterns
-    const lines = dumpContent.split('\n');
-    let currentTable: ExtractedTable | null = null;
-    let createStatement = '';
-    let braceCount = 0;
-    let inCreateStatement = false;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      
-      // Skip empty lines and comments
-      if (!line || line.startsWith('--') || line.startsWith('/*')) {
-        continue;
-      }
+  static parseDumpDirectory(dirPath: string): DumpParseResult {
+    const tocPath = join(dirPath, TOC_FILE);
+    if (!existsSync(tocPath)) {
+      return {
+        success: false,
+        tables: [],
+        errors: [`Not a pg_dump directory archive: ${TOC_FILE} not found in ${dirPath}`],
+        metadata: { totalSize: 0, extractedSize: 0, detectedFormat: 'directory' }
+      };
+    }
 
-      // Look for CREATE TABLE in binary dump (may have binary chars before)
-      const createTableMatch = line.match(/.*CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?\s*([a-zA-Z_][a-zA-Z0-9_]*)(?:.*?\.([a-zA-Z_][a-zA-Z0-9_]*))?\s*\(/i);
-      if (createTableMatch) {
-        if (currentTable) {
-          // Previous table wasn't properly closed
-          result.errors.push(`Unclosed CREATE TABLE at line ${i}`);
-        }
+    return this.parseDumpFile(readFileSync(tocPath));
+  }
 
-        // Direct extraction from the CREATE TABLE match
-        const hasSchema = createTableMatch[2] !== undefined;
-        
-        currentTable = {
-          schema: hasSchema ? createTableMatch[1].toLowerCase() : 'public',
-          tableName: hasSchema ? createTableMatch[2].toLowerCase() : createTableMatch[1].toLowerCase(),
-          columns: [],
-          constraints: [],
-          source: 'dump',
-          createStatement: ''
-        };
-        
-        createStatement = line;
-        braceCount = (line.match(/\(/g) || []).length - (line.match(/\)/g) || []).length;
-        inCreateStatement = true;
-        
-        continue;
-      }
+  /**
+   * Open a custom or tar archive for reading its table data; null for
+   * anything else
+   */
+  static openArchive(dumpContent: string | Buffer): PgArchiveReader | null {
+    // Archives read as latin1 round-trip byte for byte
+    const buffer = Buffer.isBuffer(dumpContent) ? dumpContent : Buffer.from(dumpContent, 'latin1');
+    if (isTarArchive(buffer)) {
+      const members = readTarMembers(buffer);
+      const toc = members.get(TOC_FILE);
+      return toc && PgArchiveReader.isArchive(toc) ? new PgArchiveReader(toc, name => members.get(name) || null) : null;
+    }
+    return PgArchiveReader.isArchive(buffer) ? this.tryReadArchive(buffer) : null;
+  }
 
-      // Continue collecting CREATE TABLE statement
-      if (inCreateStatement && currentTable) {
-        createStatement += '\n' + line;
-        
-        // Count braces to track statement end
-        braceCount += (line.match(/\(/g) || []).length - (line.match(/\)/g) || []).length;
-        
-        // Statement ends when we find a semicolon and braces are balanced
-        if (line.includes(';') && braceCount <= 0) {
-          currentTable.createStatement = createStatement.trim();
-        
-          // RUNTIME ENFORCEMENT: Validate ExtractedTable contract
-          if (!currentTable.schema || !currentTable.tableName) {
-            throw new Error(`Invalid ExtractedTable: ${JSON.stringify(currentTable)}`);
-          }
-        
-          result.tables.push(currentTable);
-          
-          currentTable = null;
-          createStatement = '';
-          braceCount = 0;
-          inCreateStatement = false;
-        }
-      }
+  /**
+   * Open a pg_dump directory archive for reading its table data files
+   */
+  static openDumpDirectory(dirPath: string): PgArchiveReader | null {
+    if (!this.isDumpDirectory(dirPath)) {
+      return null;
     }
+    return new PgArchiveReader(readFileSync(join(dirPath, TOC_FILE)), name => {
+      const path = join(dirPath, name);
+      return existsSync(path) ? readFileSync(path) : null;
+    });
+  }
 
-    // Handle unclosed statement at end of file
-    if (currentTable) {
-      result.errors.push('Unclosed CREATE TABLE at end of file');
+  /**
+   * Check whether a directory holds a pg_dump directory archive
+   */
+  static isDumpDirectory(dirPath: string): boolean {
+    const tocPath = join(dirPath, TOC_FILE);
+    try {
+      return statSync(tocPath).isFile() && PgArchiveReader.isArchive(readFileSync(tocPath));
+    } catch {
+      return false;
     }
+  }
 
-    // Calculate extracted size
-    result.metadata.extractedSize = result.tables.reduce((sum, table) => sum + table.createStatement.length, 0);
+  /**
+   * Parse a pg_dump archive's table of contents
+   * Table and constraint definitions are stored uncompressed in the TOC
+   */
+  private static parseArchive(reader: PgArchiveReader, result: DumpParseResult): DumpParseResult {
+    result.metadata.detectedFormat = reader.readHeader().format;
 
-    // Success if we found at least one table or no errors
-    result.success = result.tables.length > 0 || result.errors.length === 0;
+    const statements = reader.readToc()
+      .filter(entry => SCHEMA_TOC_ENTRIES.has(entry.desc) && entry.defn.trim())
+      .map(entry => entry.defn.trim());
 
-    return result;
+    return this.collectTables(statements.join('\n\n'), result, { locations: false });
   }
 
   /**
-   * Parse text PostgreSQL dump file
-   * Standard line-by-line parsing for text dumps
+   * Parse a pg_dump tar archive (-Ft): toc.dat plus one member per table
    */
-  private static parseTextDump(dumpContent: string, result: DumpParseResult): DumpParseResult {
+  private static parseTarArchive(archive: Buffer, result: DumpParseResult): DumpParseResult {
+    const members = readTarMembers(archive);
+    const toc = members.get(TOC_FILE);
+    if (!toc || !PgArchiveReader.isArchive(toc)) {
+      result.metadata.detectedFormat = 'tar';
+      result.errors.push(`Not a pg_dump tar archive: ${TOC_FILE} not found`);
+      return result;
+    }
+
+    return this.parseArchive(new PgArchiveReader(toc, name => members.get(name) || null), result);
+  }
+
+  /**
+   * Return a reader if the buffer's TOC can be read as a pg_dump archive
+   */
+  private static tryReadArchive(buffer: Buffer): PgArchiveReader | null {
+    try {
+      const reader = new PgArchiveReader(buffer);
+      reader.readToc();
+      return reader;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse binary PostgreSQL dump file
+   * Extract readable CREATE TABLE and ALTER TABLE ... ADD CONSTRAINT statements embedded in binary data
+   */
+  private static parseBinaryDump(dumpContent: string, result: DumpParseResult): DumpParseResult {
+    // Split by lines and look for CREATE TABLE patterns
     const lines = dumpContent.split('\n');
-    let currentTable: ExtractedTable | null = null;
+    const statements: string[] = [];
     let createStatement = '';
     let braceCount = 0;
     let inCreateStatement = false;
@@ -154,138 +220,116 @@ export class DumpParser {
         continue;
       }
 
-      // Detect CREATE TABLE start
-      if (line.startsWith('CREATE TABLE') || line.startsWith('CREATE TABLE IF NOT EXISTS')) {
-        if (currentTable) {
+      // pg_dump emits keys as single-line ALTER TABLE statements after the table
+      const alterMatch = line.match(/ALTER\s+TABLE\s+.*\bADD\s+CONSTRAINT\b.*;/i) || line.match(/CREATE\s+UNIQUE\s+INDEX\s.*;/i);
+      if (alterMatch && !inCreateStatement) {
+        statements.push(alterMatch[0]);
+        continue;
+      }
+
+      // Look for CREATE TABLE in binary dump (may have binary chars before)
+      const createTableIndex = line.search(/CREATE\s+TABLE\s/i);
+      if (createTableIndex >= 0) {
+        if (inCreateStatement) {
           // Previous table wasn't properly closed
           result.errors.push(`Unclosed CREATE TABLE at line ${i}`);
         }
 
-        // Use the same regex as binary dump parser
-        const createTableMatch = line.match(/CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?\s*([a-zA-Z_][a-zA-Z0-9_]*)(?:.*?\.([a-zA-Z_][a-zA-Z0-9_]*))?\s*\(/i);
-        if (createTableMatch) {
-          const hasSchema = createTableMatch[2] !== undefined;
-          
-          currentTable = {
-            schema: hasSchema ? createTableMatch[1].toLowerCase() : 'public',
-            tableName: hasSchema ? createTableMatch[2].toLowerCase() : createTableMatch[1].toLowerCase(),
-            columns: [],
-            constraints: [],
-            source: 'dump',
-            createStatement: ''
-          };
-        } else {
-          // Fallback for simple table names
-          const tableMatch = line.match(/CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?([a-zA-Z_][a-zA-Z0-9_]+)\s*\(/);
-          if (tableMatch) {
-            currentTable = {
-              schema: 'public',
-              tableName: tableMatch[1].toLowerCase(),
-              columns: [],
-              constraints: [],
-              source: 'dump',
-              createStatement: ''
-            };
-          }
-        }
-        
-        createStatement = line;
-        braceCount = (line.match(/\(/g) || []).length - (line.match(/\)/g) || []).length;
+        createStatement = line.slice(createTableIndex);
+        braceCount = (createStatement.match(/\(/g) || []).length - (createStatement.match(/\)/g) || []).length;
         inCreateStatement = true;
-        
-        continue;
-      }
-
-      // Continue collecting CREATE TABLE statement
-      if (inCreateStatement && currentTable) {
+      } else if (inCreateStatement) {
+        // Continue collecting CREATE TABLE statement
         createStatement += '\n' + line;
         
         // Count braces to track statement end
         braceCount += (line.match(/\(/g) || []).length - (line.match(/\)/g) || []).length;
-        
-        // Statement ends when we find a semicolon and braces are balanced
-        if (line.includes(';') && braceCount <= 0) {
-          currentTable.createStatement = createStatement.trim();
-        
-          // RUNTIME ENFORCEMENT: Validate ExtractedTable contract
-          if (!currentTable.schema || !currentTable.tableName) {
-            throw new Error(`Invalid ExtractedTable: ${JSON.stringify(currentTable)}`);
-          }
-        
-          result.tables.push(currentTable);
-          
-          currentTable = null;
-          createStatement = '';
-          braceCount = 0;
-          inCreateStatement = false;
-        }
+      }
+
+      // Statement ends when we find a semicolon and braces are balanced
+      if (inCreateStatement && line.includes(';') && braceCount <= 0) {
+        statements.push(createStatement.slice(0, createStatement.lastIndexOf(';') + 1));
+        createStatement = '';
+        braceCount = 0;
+        inCreateStatement = false;
       }
     }
 
     // Handle unclosed statement at end of file
-    if (currentTable) {
+    if (inCreateStatement) {
       result.errors.push('Unclosed CREATE TABLE at end of file');
     }
 
-    // Calculate extracted size
-    result.metadata.extractedSize = result.tables.reduce((sum, table) => sum + table.createStatement.length, 0);
-
-    // Success if we found at least one table or no errors
-    result.success = result.tables.length > 0 || result.errors.length === 0;
+    return this.collectTables(statements.join('\n\n'), result, { locations: false });
+  }
 
-    return result;
+  /**
+   * Parse text PostgreSQL dump file
+   * Statement-level parsing of the plain SQL script pg_dump writes
+   */
+  private static parseTextDump(dumpContent: string, result: DumpParseResult, file?: string): DumpParseResult {
+    return this.collectTables(dumpContent, result, { file });
   }
 
   /**
-   * Parse schema and table name from CREATE TABLE line
-   * 
-   * Handles:
-   * - CREATE TABLE table_name
-   * - CREATE TABLE schema.table_name
-   * - CREATE TABLE "table_name"
-   * - CREATE TABLE "schema"."table_name"
-   * - CREATE TABLE IF NOT EXISTS variants
-   * - Binary dump format with binary characters
+   * Parse a MySQL, SQLite or T-SQL dump, or a SQLite database file
    */
-  private static parseTableInfo(line: string): { schema: string; table: string } | null {
-    // Find CREATE TABLE pattern first (handle binary characters)
-    const createTableMatch = line.match(/.*CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?\s*(.+)/i);
-    if (!createTableMatch) {
-      return null;
-    }
-    
-    const afterCreateTable = createTableMatch[1].trim();
-    
-    // Handle quoted names: "schema"."table" or "table"
-    const quotedMatch = afterCreateTable.match(/^"?([^"]+)"?(?:\."?([^"]+)"?)?\s*\(/);
-    if (quotedMatch) {
-      const hasSchema = quotedMatch[2] !== undefined;
-      
-      return {
-        schema: hasSchema ? quotedMatch[1].toLowerCase() : 'public',
-        table: hasSchema ? quotedMatch[2].toLowerCase() : quotedMatch[1].toLowerCase()
-      };
+  private static parseDialectDump(
+    dumpContent: string | Buffer,
+    result: DumpParseResult,
+    dialect: Exclude<SQLDialect, 'postgres'>,
+    file?: string
+  ): DumpParseResult {
+    if (dialect === 'sqlite' && Buffer.isBuffer(dumpContent) && SQLiteFileReader.isDatabase(dumpContent)) {
+      result.metadata.detectedFormat = 'sqlite';
+      return this.addTables(this.sqliteParser.extractTablesFromDatabase(dumpContent, { errors: result.errors }), result);
     }
 
-    // Handle unquoted names: schema.table or table (more permissive for binary dumps)
-    const unquotedMatch = afterCreateTable.match(/^([a-zA-Z_][a-zA-Z0-9_]*)(?:.*?\.([a-zA-Z_][a-zA-Z0-9_]*))?\s*\(/);
-    if (unquotedMatch) {
-      const hasSchema = unquotedMatch[2] !== undefined;
-      
-      return {
-        schema: hasSchema ? unquotedMatch[1].toLowerCase() : 'public',
-        table: hasSchema ? unquotedMatch[2].toLowerCase() : unquotedMatch[1].toLowerCase()
-      };
+    const sql = Buffer.isBuffer(dumpContent) ? dumpContent.toString('utf-8') : dumpContent;
+    return this.addTables(this.dialectParsers[dialect].extractTables(sql, { source: 'dump', errors: result.errors, file }), result);
+  }
+
+  /**
+   * Extract table facts (columns, keys, foreign keys) from dump SQL.
+   * Statements that fail to parse are reported in result.errors and skipped.
+   */
+  private static collectTables(
+    sql: string,
+    result: DumpParseResult,
+    options: { file?: string; locations?: boolean } = {}
+  ): DumpParseResult {
+    return this.addTables(this.sqlParser.extractTables(sql, { source: 'dump', errors: result.errors, ...options }), result);
+  }
+
+  private static addTables(tables: ExtractedTable[], result: DumpParseResult): DumpParseResult {
+    for (const table of tables) {
+      // RUNTIME ENFORCEMENT: Validate ExtractedTable contract
+      if (!table.schema || !table.tableName) {
+        throw new Error(`Invalid ExtractedTable: ${JSON.stringify(table)}`);
+      }
+      result.tables.push(table);
     }
 
-    return null;
+    // Calculate extracted size
+    result.metadata.extractedSize = result.tables.reduce((sum, table) => sum + (table.createStatement?.length || 0), 0);
+
+    // Success if we found at least one table or no errors
+    result.success = result.tables.length > 0 || result.errors.length === 0;
+
+    return result;
   }
 
   /**
    * Get basic dump file info (legacy compatibility)
    */
-  static getDumpInfo(dumpContent: string): { format: string } {        
+  static getDumpInfo(dumpContent: string | Buffer): { format: string } {        
     // Detect binary vs text format
+    if (Buffer.isBuffer(dumpContent)) {
+      if (PgArchiveReader.isArchive(dumpContent) || isTarArchive(dumpContent)) {
+        return { format: 'binary' };
+      }
+      dumpContent = dumpContent.toString('utf-8');
+    }
     if (dumpContent.startsWith('PGDMP')) {
       return { format: 'binary' };
     }
@@ -0,0 +1,95 @@
+/**
+ * Migration File Sorter
+ *
+ * Orders migration files the way the common tools apply them:
+ * - Flyway:         V1__init.sql, V1_1__add_index.sql, R__views.sql
+ * - golang-migrate: 0001_init.up.sql (down migrations are ignored)
+ * - Timestamps:     20240105120000_add_orders.sql
+ *
+ * NO: Reading files, SQL parsing
+ */
+
+import { MigrationFile } from '../types/migration';
+
+const FLYWAY_VERSIONED = /^V(\d+(?:[._]\d+)*)__(.*)\.sql$/i;
+const FLYWAY_REPEATABLE = /^R__(.*)\.sql$/i;
+const FLYWAY_UNDO = /^U\d+(?:[._]\d+)*__.*\.sql$/i;
+const GOLANG_MIGRATE_UP = /^(\d+)_(.*)\.up\.sql$/i;
+const GOLANG_MIGRATE_DOWN = /^\d+_.*\.down\.sql$/i;
+const NUMERIC_PREFIX = /^(\d+)[_-](.*)\.sql$/i;
+
+/**
+ * Sort migration file names into apply order.
+ * Down/undo migrations and files without a recognisable version are returned in `skipped`.
+ */
+export function sortMigrationFiles(fileNames: string[]): { migrations: MigrationFile[]; skipped: string[] } {
+  const migrations: MigrationFile[] = [];
+  const skipped: string[] = [];
+
+  for (const fileName of fileNames) {
+    const migration = parseMigrationFileName(fileName);
+    if (migration) {
+      migrations.push(migration);
+    } else {
+      skipped.push(fileName);
+    }
+  }
+
+  migrations.sort(compareMigrations);
+
+  for (let i = 1; i < migrations.length; i++) {
+    const previous = migrations[i - 1];
+    const current = migrations[i];
+    if (previous.version && current.version && compareVersions(previous.version, current.version) === 0) {
+      throw new Error(`Duplicate migration version ${current.version.join('.')}: ${previous.fileName}, ${current.fileName}`);
+    }
+  }
+
+  return { migrations, skipped };
+}
+
+export function parseMigrationFileName(fileName: string): MigrationFile | null {
+  if (FLYWAY_UNDO.test(fileName) || GOLANG_MIGRATE_DOWN.test(fileName)) {
+    return null;
+  }
+
+  let match = fileName.match(FLYWAY_VERSIONED);
+  if (match) {
+    return { fileName, scheme: 'flyway', version: match[1].split(/[._]/).map(Number), description: match[2] };
+  }
+
+  match = fileName.match(FLYWAY_REPEATABLE);
+  if (match) {
+    return { fileName, scheme: 'flyway', version: null, description: match[1] };
+  }
+
+  match = fileName.match(GOLANG_MIGRATE_UP);
+  if (match) {
+    return { fileName, scheme: 'golang-migrate', version: [Number(match[1])], description: match[2] };
+  }
+
+  match = fileName.match(NUMERIC_PREFIX);
+  if (match) {
+    return { fileName, scheme: 'timestamp', version: [Number(match[1])], description: match[2] };
+  }
+
+  return null;
+}
+
+/**
+ * Versioned migrations first, by version; Flyway repeatables last, by description
+ */
+function compareMigrations(a: MigrationFile, b: MigrationFile): number {
+  if (a.version && b.version) return compareVersions(a.version, b.version);
+  if (a.version) return -1;
+  if (b.version) return 1;
+  return a.description.localeCompare(b.description);
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] || 0) - (b[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
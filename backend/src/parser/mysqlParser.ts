@@ -0,0 +1,344 @@
+/**
+ * MySQL / MariaDB DDL Parser
+ *
+ * Reads CREATE TABLE statements from hand-written scripts and mysqldump
+ * output into the same ExtractedTable facts the PostgreSQL parser produces:
+ * - `backtick` identifiers and database-qualified names (USE sets the default)
+ * - inline PRIMARY KEY, UNIQUE, KEY/INDEX, FOREIGN KEY and CHECK definitions
+ * - AUTO_INCREMENT, ENUM(...) and SET(...) columns
+ * - ENGINE=/CHARSET= table options and partitioning, which are ignored
+ *
+ * Other statements (INSERT, LOCK TABLES, SET, views, routines) are skipped.
+ *
+ * NO: ALTER TABLE replay, analysis
+ */
+
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { ReferentialAction, SourceLocation } from '../types/schema';
+import { splitSQLStatements, createLineLocator, MYSQL_SYNTAX } from './sqlStatementSplitter';
+import { Token, TokenStream, tokenize, splitTokenList } from './ddlTokenizer';
+import { TableFacts, createTableFacts, checkFact, buildConstraints, REFERENTIAL_ACTIONS } from './ddlTableFacts';
+import { SQLParseError } from './sqlParser';
+
+// Tables outside any USE'd database get PostgreSQL's default schema, as unqualified tables do there
+const DEFAULT_DATABASE = 'public';
+
+// Words that continue a multi-word type name: DOUBLE PRECISION, NATIONAL VARCHAR, LONG VARBINARY
+const TYPE_CONTINUATIONS: Record<string, string[]> = {
+  DOUBLE: ['PRECISION'],
+  NATIONAL: ['CHAR', 'CHARACTER', 'VARCHAR'],
+  LONG: ['VARCHAR', 'VARBINARY'],
+  CHARACTER: ['VARYING'],
+  CHAR: ['VARYING']
+};
+
+/**
+ * What a CREATE TABLE statement is read against
+ */
+interface StatementContext {
+  text: string;
+  database: string;
+  location: (token: Token) => SourceLocation;
+}
+
+export class MySQLParser {
+  /**
+   * Parse MySQL DDL into ExtractedTable facts.
+   *
+   * When an `errors` array is given, statements that fail to parse are recorded
+   * there and skipped instead of aborting the whole script.
+   */
+  extractTables(
+    sqlContent: string,
+    options: { source?: ExtractedTable['source']; errors?: string[]; file?: string } = {}
+  ): ExtractedTable[] {
+    const locate = createLineLocator(sqlContent);
+    const source = options.source || (this.isMySQLDump(sqlContent) ? 'dump' : 'sql');
+    const tables = new Map<string, ExtractedTable>();
+    let database = DEFAULT_DATABASE;
+
+    for (const statement of splitSQLStatements(sqlContent, MYSQL_SYNTAX)) {
+      try {
+        const stream = new TokenStream(
+          tokenize(statement.text, MYSQL_SYNTAX),
+          offset => locate(statement.offset + offset),
+          statement.text.length
+        );
+
+        if (stream.acceptWord('USE')) {
+          database = stream.readName().value;
+        } else if (stream.isWord('CREATE', 'TABLE') || stream.isWord('CREATE', 'TEMPORARY', 'TABLE')) {
+          const context: StatementContext = {
+            text: statement.text,
+            database,
+            location: token => ({ ...(options.file ? { file: options.file } : {}), ...locate(statement.offset + token.offset) })
+          };
+          const table = this.parseCreateTable(stream, context, tables, source);
+          if (table) {
+            tables.set(`${table.schema}.${table.tableName}`, table);
+          }
+        }
+      } catch (error) {
+        if (!options.errors) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        options.errors.push(error instanceof SQLParseError ? message : `Statement at line ${statement.line}: ${message}`);
+      }
+    }
+
+    return Array.from(tables.values());
+  }
+
+  private isMySQLDump(sqlContent: string): boolean {
+    return /^\s*-- (?:MySQL|MariaDB) dump\b/.test(sqlContent);
+  }
+
+  /**
+   * CREATE [TEMPORARY] TABLE [IF NOT EXISTS] name (definitions) [options].
+   * CREATE TABLE ... SELECT has no definitions of its own and is skipped.
+   */
+  private parseCreateTable(
+    stream: TokenStream,
+    context: StatementContext,
+    tables: Map<string, ExtractedTable>,
+    source: ExtractedTable['source']
+  ): ExtractedTable | null {
+    stream.expectWord('CREATE');
+    stream.acceptWord('TEMPORARY');
+    stream.expectWord('TABLE');
+    stream.acceptWord('IF', 'NOT', 'EXISTS');
+    const name = this.readQualifiedName(stream, context.database);
+
+    const like = stream.acceptWord('LIKE') ? this.readQualifiedName(stream, context.database) : null;
+    if (like) {
+      const original = tables.get(`${like.schema}.${like.name}`);
+      if (!original) {
+        throw new Error(`Unknown table ${like.schema}.${like.name} in CREATE TABLE ... LIKE`);
+      }
+      return {
+        ...JSON.parse(JSON.stringify(original)),
+        schema: name.schema,
+        tableName: name.name,
+        createStatement: context.text,
+        location: context.location(name.token)
+      };
+    }
+
+    if (!stream.isSymbol('(')) {
+      return null;
+    }
+
+    const facts = createTableFacts();
+    for (const definition of splitTokenList(stream.readGroup())) {
+      this.parseDefinition(stream.over(definition), facts, context);
+    }
+
+    return {
+      schema: name.schema,
+      tableName: name.name,
+      columns: facts.columns,
+      constraints: buildConstraints(facts),
+      source,
+      createStatement: context.text,
+      location: context.location(name.token)
+    };
+  }
+
+  /**
+   * One comma-separated entry of the table body: a column or a table-level key
+   */
+  private parseDefinition(stream: TokenStream, facts: TableFacts, context: StatementContext): void {
+    let constraintName: string | undefined;
+    if (stream.acceptWord('CONSTRAINT') && !['PRIMARY', 'UNIQUE', 'FOREIGN', 'CHECK'].some(word => stream.isWord(word))) {
+      constraintName = stream.readName().value;
+    }
+
+    if (stream.acceptWord('PRIMARY', 'KEY')) {
+      facts.primaryKey.push(...this.readKeyColumns(stream));
+    } else if (stream.acceptWord('UNIQUE')) {
+      stream.acceptWord('KEY') || stream.acceptWord('INDEX');
+      facts.uniques.push(this.readKeyColumns(stream));
+    } else if (stream.acceptWord('FOREIGN', 'KEY')) {
+      const columns = this.readKeyColumns(stream);
+      facts.foreignKeys.push(this.readReference(stream, columns, constraintName, context));
+    } else if (stream.acceptWord('CHECK')) {
+      facts.checks.push(checkFact(stream.readGroup(), context.text, constraintName));
+    } else if (constraintName !== undefined) {
+      throw stream.error(stream.peek());
+    } else if (['KEY', 'INDEX', 'FULLTEXT', 'SPATIAL'].some(word => stream.isWord(word))) {
+      // Plain indexes carry no normalization facts
+      stream.rest();
+    } else {
+      this.parseColumn(stream, facts, context);
+    }
+  }
+
+  private parseColumn(stream: TokenStream, facts: TableFacts, context: StatementContext): void {
+    const nameToken = stream.readName();
+    const { type, kind } = this.readDataType(stream);
+    const column: ColumnDef = {
+      name: nameToken.value,
+      type,
+      ...(kind ? { resolvedKind: kind } : {}),
+      nullable: true,
+      primaryKey: false,
+      unique: false,
+      location: context.location(nameToken)
+    };
+
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (stream.acceptWord('NULL')) {
+        column.nullable = true;
+      } else if (stream.acceptWord('PRIMARY', 'KEY') || stream.acceptWord('KEY')) {
+        column.primaryKey = true;
+        facts.primaryKey.push(column.name);
+      } else if (stream.acceptWord('UNIQUE')) {
+        stream.acceptWord('KEY');
+        column.unique = true;
+        facts.uniques.push([column.name]);
+      } else if (stream.acceptWord('DEFAULT') || stream.acceptWord('ON', 'UPDATE')) {
+        this.skipExpression(stream);
+      } else if (stream.acceptWord('CONSTRAINT')) {
+        const name = stream.isWord('CHECK') ? undefined : stream.readName().value;
+        stream.expectWord('CHECK');
+        facts.checks.push(checkFact(stream.readGroup(), context.text, name));
+      } else if (stream.acceptWord('CHECK')) {
+        facts.checks.push(checkFact(stream.readGroup(), context.text));
+      } else if (stream.isWord('REFERENCES')) {
+        // MySQL parses and ignores column-level REFERENCES; only FOREIGN KEY creates a constraint
+        this.readReference(stream, [column.name], undefined, context);
+      } else if (stream.acceptWord('COMMENT') || stream.acceptWord('COLLATE') ||
+                 stream.acceptWord('CHARACTER', 'SET') || stream.acceptWord('CHARSET')) {
+        stream.next();
+      } else {
+        // AUTO_INCREMENT, GENERATED ALWAYS AS (...), VISIBLE, STORAGE DISK, SRID 4326, ...
+        stream.next();
+        if (stream.isSymbol('(')) stream.readGroup();
+      }
+    }
+
+    facts.columns.push(column);
+  }
+
+  /**
+   * Type name with its arguments and numeric modifiers, e.g. INT(11) UNSIGNED,
+   * DECIMAL(10,2), ENUM('new','paid'). ENUM and SET report their kind.
+   */
+  private readDataType(stream: TokenStream): { type: string; kind?: 'enum' | 'set' } {
+    const words = [stream.readName().value.toUpperCase()];
+    const continuation = TYPE_CONTINUATIONS[words[0]]?.find(word => stream.isWord(word));
+    if (continuation) {
+      stream.next();
+      words.push(continuation);
+    }
+
+    const name = words.join(' ');
+    let args = '';
+    if (stream.isSymbol('(')) {
+      const group = stream.readGroup();
+      args = name === 'ENUM' || name === 'SET'
+        ? `(${group.filter(token => token.kind === 'string').map(token => `'${token.value.replace(/'/g, "''")}'`).join(',')})`
+        : `(${group.map(token => token.value).join('')})`;
+    }
+
+    const modifiers: string[] = [];
+    for (const modifier of ['UNSIGNED', 'SIGNED', 'ZEROFILL']) {
+      if (stream.acceptWord(modifier)) modifiers.push(modifier);
+    }
+
+    const kind = name === 'ENUM' ? 'enum' : name === 'SET' ? 'set' : undefined;
+    return { type: [`${name}${args}`, ...modifiers].join(' '), ...(kind ? { kind } : {}) };
+  }
+
+  /**
+   * Skip a DEFAULT or ON UPDATE value: a literal, a (possibly called) function
+   * name, a parenthesized expression or a charset-introduced string
+   */
+  private skipExpression(stream: TokenStream): void {
+    if (stream.isSymbol('(')) {
+      stream.readGroup();
+      return;
+    }
+    if (stream.acceptSymbol('-') || stream.acceptSymbol('+')) {
+      stream.next();
+      return;
+    }
+    const token = stream.next();
+    if (token.kind === 'word' && stream.isSymbol('(')) {
+      stream.readGroup();
+    } else if (token.kind === 'word' && stream.peek()?.kind === 'string') {
+      stream.next();
+    }
+  }
+
+  /**
+   * [index_name] [USING type] (key_part, ...): the plain column names of the key.
+   * Functional key parts ((expr)) name no column and are left out.
+   */
+  private readKeyColumns(stream: TokenStream): string[] {
+    if (!stream.isSymbol('(') && !stream.isWord('USING')) {
+      stream.readName();
+    }
+    if (stream.acceptWord('USING')) {
+      stream.next();
+    }
+
+    return splitTokenList(stream.readGroup())
+      .filter(part => part[0].kind === 'word' || part[0].kind === 'identifier')
+      .map(part => part[0].value);
+  }
+
+  /**
+   * REFERENCES table (columns) [MATCH ...] [ON DELETE action] [ON UPDATE action]
+   */
+  private readReference(
+    stream: TokenStream,
+    columns: string[],
+    name: string | undefined,
+    context: StatementContext
+  ): ConstraintDef {
+    stream.expectWord('REFERENCES');
+    const table = this.readQualifiedName(stream, context.database);
+    const referencesColumns = this.readKeyColumns(stream);
+    const actions: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {};
+
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('MATCH')) {
+        stream.next();
+      } else if (stream.acceptWord('ON', 'DELETE')) {
+        actions.onDelete = this.readReferentialAction(stream);
+      } else if (stream.acceptWord('ON', 'UPDATE')) {
+        actions.onUpdate = this.readReferentialAction(stream);
+      } else {
+        break;
+      }
+    }
+
+    return {
+      type: 'foreign_key',
+      ...(name ? { name } : {}),
+      columns,
+      references: { schema: table.schema, table: table.name, columns: referencesColumns },
+      ...actions
+    };
+  }
+
+  private readReferentialAction(stream: TokenStream): ReferentialAction {
+    const action = REFERENTIAL_ACTIONS.find(candidate => stream.acceptWord(...candidate.split(' ')));
+    if (!action) {
+      throw stream.error(stream.peek());
+    }
+    return action;
+  }
+
+  private readQualifiedName(stream: TokenStream, database: string): { schema: string; name: string; token: Token } {
+    const first = stream.readName();
+    if (!stream.acceptSymbol('.')) {
+      return { schema: database, name: first.value, token: first };
+    }
+    return { schema: first.value, name: stream.readName().value, token: first };
+  }
+}
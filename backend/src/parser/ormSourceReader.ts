@@ -0,0 +1,164 @@
+/**
+ * ORM Source Reader
+ *
+ * TypeScript compiler API helpers shared by the Drizzle and TypeORM
+ * extractors: parsing a source file, reading literals, object literals and
+ * builder chains such as `integer('id').notNull().references(...)`.
+ *
+ * NO: Type checking, module resolution, ORM semantics
+ */
+
+import * as ts from 'typescript';
+import { SourceLocation, ReferentialAction } from '../types/schema';
+import { OrmSourceFile } from '../types/orm';
+import { REFERENTIAL_ACTIONS } from './ddlTableFacts';
+
+/**
+ * One call of a builder chain: `name(args)`
+ */
+export interface ChainCall {
+  name: string;
+  args: ts.NodeArray<ts.Expression>;
+  node: ts.CallExpression;
+}
+
+export function parseSource(file: OrmSourceFile): ts.SourceFile {
+  return ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+export function nodeLocation(node: ts.Node, file: string): SourceLocation {
+  const sourceFile = node.getSourceFile();
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { file, line: line + 1, column: character + 1 };
+}
+
+/**
+ * Value of a string, number or boolean literal; undefined for anything else
+ */
+export function literalValue(node: ts.Node | undefined): string | number | boolean | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (ts.isNumericLiteral(node)) {
+    return Number(node.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+  if (node.kind === ts.SyntaxKind.FalseKeyword) {
+    return false;
+  }
+  return undefined;
+}
+
+export function stringValue(node: ts.Node | undefined): string | undefined {
+  const value = literalValue(node);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Properties of an object literal by name; empty for anything else
+ */
+export function objectProperties(node: ts.Node | undefined): Map<string, ts.Expression> {
+  const properties = new Map<string, ts.Expression>();
+  if (node && ts.isObjectLiteralExpression(node)) {
+    for (const property of node.properties) {
+      if (ts.isPropertyAssignment(property)) {
+        properties.set(propertyName(property.name), property.initializer);
+      } else if (ts.isShorthandPropertyAssignment(property)) {
+        properties.set(property.name.text, property.name);
+      }
+    }
+  }
+  return properties;
+}
+
+export function propertyName(name: ts.PropertyName): string {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)
+    ? name.text
+    : name.getText();
+}
+
+/**
+ * Unwrap `a.b.c(...)` builder chains into their calls, innermost first.
+ * `integer('id').notNull()` gives [integer('id'), notNull()]; `auth.table('users', ...)`
+ * gives [table('users', ...)] with `receiver` set to `auth`.
+ */
+export function callChain(node: ts.Expression): { calls: ChainCall[]; receiver?: ts.Expression } {
+  const calls: ChainCall[] = [];
+  let current: ts.Expression = skipParentheses(node);
+
+  while (ts.isCallExpression(current)) {
+    const callee = current.expression;
+    if (ts.isIdentifier(callee)) {
+      calls.unshift({ name: callee.text, args: current.arguments, node: current });
+      return { calls };
+    }
+    if (!ts.isPropertyAccessExpression(callee)) {
+      break;
+    }
+    calls.unshift({ name: callee.name.text, args: current.arguments, node: current });
+    current = skipParentheses(callee.expression);
+  }
+  return { calls, receiver: current };
+}
+
+/**
+ * What an arrow function, function expression or function declaration
+ * evaluates to: its expression body or the expression of its first return statement
+ */
+export function functionResult(node: ts.Node | undefined): ts.Expression | undefined {
+  if (!node || !(ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node)) || !node.body) {
+    return undefined;
+  }
+  if (!ts.isBlock(node.body)) {
+    return skipParentheses(node.body);
+  }
+  const result = node.body.statements.find(ts.isReturnStatement);
+  return result?.expression ? skipParentheses(result.expression) : undefined;
+}
+
+/**
+ * `a.b` as [object, property] names, e.g. `users.id` -> ['users', 'id']
+ */
+export function memberReference(node: ts.Node | undefined): { object: string; property: string } | undefined {
+  if (node && ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)) {
+    return { object: node.expression.text, property: node.name.text };
+  }
+  return undefined;
+}
+
+/**
+ * 'cascade', 'SET NULL', 'no action', ... as a referential action
+ */
+export function referentialAction(value: string | undefined): ReferentialAction | undefined {
+  const action = value?.toUpperCase().replace(/[\s_-]+/g, ' ');
+  return REFERENTIAL_ACTIONS.find(candidate => candidate === action);
+}
+
+export function decoratorsOf(node: ts.Node): readonly ts.Decorator[] {
+  return (ts.canHaveDecorators(node) && ts.getDecorators(node)) || [];
+}
+
+/**
+ * `@Name(args)` or `@Name` as a chain call; `@orm.Name()` is named `Name`
+ */
+export function decoratorCall(decorator: ts.Decorator): ChainCall | undefined {
+  const expression = decorator.expression;
+  if (ts.isCallExpression(expression)) {
+    const callee = expression.expression;
+    const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+    return name ? { name, args: expression.arguments, node: expression } : undefined;
+  }
+  return undefined;
+}
+
+function skipParentheses(node: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
@@ -0,0 +1,378 @@
+/**
+ * pg_dump Archive Reader
+ *
+ * Reads the header and table of contents of archives written by
+ * `pg_dump -Fc`, and the toc.dat of `-Fd` directories and `-Ft` tar files.
+ * Data blocks are inflated when zlib-compressed. The layout mirrors
+ * ReadHead/ReadToc in PostgreSQL's pg_backup_archiver.c.
+ *
+ * NO: SQL parsing, analysis
+ */
+
+import { inflateSync, gunzipSync } from 'zlib';
+import { PgArchiveHeader, PgArchiveTocEntry, PgArchiveFormat, PgArchiveCompression } from '../types/dumpParser';
+
+const MAGIC = 'PGDMP';
+
+const FORMATS: Record<number, PgArchiveFormat> = { 1: 'custom', 3: 'tar', 5: 'directory' };
+const COMPRESSION: Record<number, PgArchiveCompression> = { 0: 'none', 1: 'gzip', 2: 'lz4', 3: 'zstd' };
+
+// Offset flags (K_OFFSET_*)
+const OFFSET_POS_SET = 2;
+
+// Data block types (BLK_*)
+const BLOCK_DATA = 1;
+const BLOCK_BLOBS = 3;
+
+const TAR_BLOCK_SIZE = 512;
+
+/**
+ * Resolves a data file named in a directory or tar archive TOC
+ */
+export type PgArchiveFileResolver = (filename: string) => Buffer | null;
+
+/**
+ * Archive versions are compared as vmaj * 10000 + vmin * 100 + vrev
+ */
+function archiveVersion(major: number, minor: number, revision = 0): number {
+  return major * 10000 + minor * 100 + revision;
+}
+
+export class PgArchiveReader {
+  private position = 0;
+  private version = 0;
+  private intSize = 4;
+  private offSize = 8;
+  private dataStart = 0;
+  private header: PgArchiveHeader | null = null;
+  private toc: PgArchiveTocEntry[] | null = null;
+
+  /**
+   * @param buffer        Custom archive, or the toc.dat of a directory/tar archive
+   * @param resolveFile   Loads the per-table data files of directory/tar archives
+   */
+  constructor(private readonly buffer: Buffer, private readonly resolveFile?: PgArchiveFileResolver) {}
+
+  /**
+   * Check for the "PGDMP" magic string
+   */
+  static isArchive(buffer: Buffer): boolean {
+    return buffer.length >= MAGIC.length && buffer.toString('latin1', 0, MAGIC.length) === MAGIC;
+  }
+
+  readHeader(): PgArchiveHeader {
+    if (this.header) {
+      return this.header;
+    }
+
+    if (!PgArchiveReader.isArchive(this.buffer)) {
+      throw new Error('Not a pg_dump archive: missing PGDMP header');
+    }
+    this.position = MAGIC.length;
+
+    const major = this.readByte();
+    const minor = this.readByte();
+    const revision = major > 1 || (major === 1 && minor > 0) ? this.readByte() : 0;
+    this.version = archiveVersion(major, minor, revision);
+
+    this.intSize = this.readByte();
+    if (this.intSize < 1 || this.intSize > 32) {
+      throw new Error(`Unsupported integer size ${this.intSize} in archive header`);
+    }
+    this.offSize = this.version >= archiveVersion(1, 7) ? this.readByte() : this.intSize;
+
+    const formatCode = this.readByte();
+    const format = FORMATS[formatCode];
+    if (!format) {
+      throw new Error(`Unknown archive format code ${formatCode}`);
+    }
+
+    let compression: PgArchiveCompression = 'gzip';
+    if (this.version >= archiveVersion(1, 15)) {
+      const algorithm = this.readByte();
+      compression = COMPRESSION[algorithm];
+      if (!compression) {
+        throw new Error(`Unknown compression algorithm ${algorithm} in archive header`);
+      }
+    } else if (this.version >= archiveVersion(1, 2)) {
+      const level = this.version < archiveVersion(1, 4) ? this.readByte() : this.readInt();
+      compression = level !== 0 ? 'gzip' : 'none';
+    }
+
+    let databaseName: string | null = null;
+    if (this.version >= archiveVersion(1, 4)) {
+      // Creation timestamp: sec, min, hour, mday, mon, year, isdst
+      for (let i = 0; i < 7; i++) {
+        this.readInt();
+      }
+      databaseName = this.readStr();
+    }
+
+    let serverVersion: string | null = null;
+    let dumpVersion: string | null = null;
+    if (this.version >= archiveVersion(1, 10)) {
+      serverVersion = this.readStr();
+      dumpVersion = this.readStr();
+    }
+
+    this.header = {
+      version: `${major}.${minor}.${revision}`,
+      format,
+      compression,
+      intSize: this.intSize,
+      offSize: this.offSize,
+      databaseName,
+      serverVersion,
+      dumpVersion
+    };
+    return this.header;
+  }
+
+  readToc(): PgArchiveTocEntry[] {
+    if (this.toc) {
+      return this.toc;
+    }
+
+    this.readHeader();
+
+    const count = this.readInt();
+    const entries: PgArchiveTocEntry[] = [];
+
+    for (let i = 0; i < count; i++) {
+      entries.push(this.readTocEntry());
+    }
+
+    this.dataStart = this.position;
+    this.toc = entries;
+    return entries;
+  }
+
+  /**
+   * Return the decompressed data block (COPY rows) for a TOC entry, or null
+   * when the entry has no data in this archive
+   */
+  readEntryData(entry: PgArchiveTocEntry): string | null {
+    this.readToc();
+
+    if (this.header!.format !== 'custom') {
+      return this.readDataFile(entry);
+    }
+
+    const offset = entry.dataOffset ?? this.findDataBlock(entry.dumpId);
+    if (offset === null) {
+      return null;
+    }
+
+    this.position = offset;
+    const blockType = this.readByte();
+    const dumpId = this.readInt();
+    if (blockType !== BLOCK_DATA || dumpId !== entry.dumpId) {
+      throw new Error(`Data block for dump id ${entry.dumpId} not found at offset ${offset}`);
+    }
+
+    const data = this.readChunks();
+    switch (this.header!.compression) {
+      case 'none':
+        return data.toString('utf-8');
+      case 'gzip':
+        return inflateSync(data).toString('utf-8');
+      default:
+        throw new Error(`Unsupported data compression: ${this.header!.compression}`);
+    }
+  }
+
+  /**
+   * Directory and tar archives keep each entry's data in its own file;
+   * directory archives append ".gz" when the data is compressed
+   */
+  private readDataFile(entry: PgArchiveTocEntry): string | null {
+    if (!entry.dataFile || !this.resolveFile) {
+      return null;
+    }
+
+    const plain = this.resolveFile(entry.dataFile);
+    if (plain) {
+      return plain.toString('utf-8');
+    }
+
+    const compressed = this.resolveFile(`${entry.dataFile}.gz`);
+    return compressed ? gunzipSync(compressed).toString('utf-8') : null;
+  }
+
+  private readTocEntry(): PgArchiveTocEntry {
+    const v = this.version;
+
+    const dumpId = this.readInt();
+    if (v >= archiveVersion(1, 8)) {
+      this.readInt(); // hadDumper
+      this.readStr(); // catalog table oid
+    }
+    this.readStr(); // oid
+
+    const tag = this.readStr() || '';
+    const desc = this.readStr() || '';
+    const section = v >= archiveVersion(1, 11) ? this.readInt() : 0;
+    const defn = this.readStr() || '';
+    this.readStr(); // dropStmt
+
+    const copyStmt = v >= archiveVersion(1, 3) ? this.readStr() : null;
+    const namespace = v >= archiveVersion(1, 6) ? this.readStr() : null;
+    if (v >= archiveVersion(1, 10)) this.readStr(); // tablespace
+    if (v >= archiveVersion(1, 14)) this.readStr(); // table access method
+    if (v >= archiveVersion(1, 16)) this.readInt(); // relkind
+    const owner = this.readStr();
+    if (v >= archiveVersion(1, 9)) this.readStr(); // "true" if WITH OIDS
+
+    const dependencies: number[] = [];
+    if (v >= archiveVersion(1, 5)) {
+      for (let dep = this.readStr(); dep !== null; dep = this.readStr()) {
+        dependencies.push(parseInt(dep, 10));
+      }
+    }
+
+    // Format-specific extra TOC data: where the entry's data lives
+    let dataOffset: number | null = null;
+    let dataFile: string | null = null;
+    if (this.header!.format === 'custom') {
+      const offsetFlag = this.readOffset();
+      if (offsetFlag.flag === OFFSET_POS_SET) {
+        dataOffset = offsetFlag.offset;
+      }
+      if (v < archiveVersion(1, 7)) this.readInt(); // legacy data size
+    } else {
+      dataFile = this.readStr() || null;
+    }
+
+    return { dumpId, tag, desc, section, defn, copyStmt, namespace, owner, dependencies, dataOffset, dataFile };
+  }
+
+  /**
+   * Archives written to a pipe carry no data offsets; walk the blocks instead
+   */
+  private findDataBlock(dumpId: number): number | null {
+    this.position = this.dataStart;
+
+    while (this.position < this.buffer.length) {
+      const start = this.position;
+      const blockType = this.readByte();
+      const id = this.readInt();
+
+      if (blockType === BLOCK_DATA) {
+        if (id === dumpId) return start;
+        this.readChunks();
+      } else if (blockType === BLOCK_BLOBS) {
+        for (let oid = this.readInt(); oid !== 0; oid = this.readInt()) {
+          this.readChunks();
+        }
+      } else {
+        break;
+      }
+    }
+
+    return null;
+  }
+
+  private readChunks(): Buffer {
+    const chunks: Buffer[] = [];
+    for (let length = this.readInt(); length > 0; length = this.readInt()) {
+      chunks.push(this.readBytes(length));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private readByte(): number {
+    if (this.position >= this.buffer.length) {
+      throw new Error('Unexpected end of archive');
+    }
+    return this.buffer[this.position++];
+  }
+
+  private readBytes(length: number): Buffer {
+    if (this.position + length > this.buffer.length) {
+      throw new Error('Unexpected end of archive');
+    }
+    const bytes = this.buffer.subarray(this.position, this.position + length);
+    this.position += length;
+    return bytes;
+  }
+
+  /**
+   * Sign byte followed by intSize little-endian magnitude bytes
+   */
+  private readInt(): number {
+    const negative = this.version > archiveVersion(1, 0) ? this.readByte() !== 0 : false;
+    let value = 0;
+    for (let i = 0; i < this.intSize; i++) {
+      value += this.readByte() * 2 ** (8 * i);
+    }
+    return negative ? -value : value;
+  }
+
+  /**
+   * Length-prefixed string; a negative length encodes NULL
+   */
+  private readStr(): string | null {
+    const length = this.readInt();
+    if (length < 0) {
+      return null;
+    }
+    return this.readBytes(length).toString('utf-8');
+  }
+
+  private readOffset(): { flag: number; offset: number } {
+    if (this.version < archiveVersion(1, 7)) {
+      const value = this.readInt();
+      return { flag: value > 0 ? OFFSET_POS_SET : 0, offset: value };
+    }
+
+    const flag = this.readByte();
+    let offset = 0;
+    for (let i = 0; i < this.offSize; i++) {
+      offset += this.readByte() * 2 ** (8 * i);
+    }
+    return { flag, offset };
+  }
+}
+
+/**
+ * Check for a POSIX tar header ("ustar" magic at offset 257)
+ */
+export function isTarArchive(buffer: Buffer): boolean {
+  return buffer.length >= TAR_BLOCK_SIZE && buffer.toString('latin1', 257, 262) === 'ustar';
+}
+
+/**
+ * Read the regular-file members of a tar archive, keyed by member name
+ */
+export function readTarMembers(buffer: Buffer): Map<string, Buffer> {
+  const members = new Map<string, Buffer>();
+  let position = 0;
+
+  while (position + TAR_BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(position, position + TAR_BLOCK_SIZE);
+    const name = readTarString(header, 0, 100);
+    if (!name) {
+      break; // End-of-archive zero blocks
+    }
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    const type = readTarString(header, 156, 1);
+    const start = position + TAR_BLOCK_SIZE;
+    if (start + size > buffer.length) {
+      throw new Error(`Tar member ${name} is truncated`);
+    }
+
+    if (type === '' || type === '0') {
+      members.set(name, buffer.subarray(start, start + size));
+    }
+    position = start + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+  }
+
+  return members;
+}
+
+function readTarString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('latin1', 0, end < 0 ? length : end);
+}
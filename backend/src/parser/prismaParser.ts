@@ -0,0 +1,432 @@
+/**
+ * Prisma Schema Parser
+ *
+ * Reads the models of a schema.prisma file into the same ExtractedTable facts
+ * the SQL parsers produce, so models can be scored before a migration is
+ * generated. Tables and columns keep their model and field names (not their
+ * @@map/@map names), and their locations point at those names:
+ * - scalar fields, typed by their @db.* native type when one is given
+ * - @id/@@id and @unique/@@unique
+ * - @relation(fields, references, onDelete, onUpdate) as foreign keys
+ * - list fields (String[]) and Json fields
+ * - enum fields, and fields of composite `type` blocks
+ *
+ * The other side of a relation (a field without `fields`), @ignore'd fields
+ * and models, views, generators and datasources are skipped.
+ *
+ * NO: Migrations, analysis
+ */
+
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { ReferentialAction, SourceLocation } from '../types/schema';
+import { TableFacts, createTableFacts, buildConstraints } from './ddlTableFacts';
+import { SQLParseError } from './sqlParser';
+
+const DEFAULT_SCHEMA = 'public';
+
+// Column types for Prisma scalars without a @db.* native type
+const SCALAR_TYPES: Record<string, string> = {
+  String: 'TEXT',
+  Boolean: 'BOOLEAN',
+  Int: 'INTEGER',
+  BigInt: 'BIGINT',
+  Float: 'DOUBLE PRECISION',
+  Decimal: 'DECIMAL',
+  DateTime: 'TIMESTAMP',
+  Json: 'JSON',
+  Bytes: 'BYTEA'
+};
+
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction> = {
+  Cascade: 'CASCADE',
+  Restrict: 'RESTRICT',
+  NoAction: 'NO ACTION',
+  SetNull: 'SET NULL',
+  SetDefault: 'SET DEFAULT'
+};
+
+/**
+ * A line of a block body with comments removed; `column` is where `text` starts
+ */
+interface SchemaLine {
+  text: string;
+  line: number;
+  column: number;
+}
+
+interface SchemaBlock {
+  kind: string;
+  name: string;
+  line: number;
+  column: number;
+  body: SchemaLine[];
+}
+
+/**
+ * `@name(args)` or `@@name(args)`
+ */
+interface Attribute {
+  name: string;
+  args: { positional: string[]; named: Record<string, string> };
+}
+
+export class PrismaParser {
+  /**
+   * Parse a Prisma schema into ExtractedTable facts, one per model.
+   *
+   * When an `errors` array is given, models that fail to parse are recorded
+   * there and skipped instead of aborting the whole schema.
+   */
+  extractTables(schemaContent: string, options: { errors?: string[]; file?: string } = {}): ExtractedTable[] {
+    const blocks = this.readBlocks(schemaContent);
+    const models = blocks.filter(block => block.kind === 'model');
+    const enums = new Set(blocks.filter(block => block.kind === 'enum').map(block => block.name));
+    const composites = new Set(blocks.filter(block => block.kind === 'type').map(block => block.name));
+
+    // Relations may point at models declared further down, in another schema
+    const modelSchemas = new Map(models.map(model => [model.name, this.readModelSchema(model)]));
+
+    const tables: ExtractedTable[] = [];
+    for (const model of models) {
+      try {
+        const table = this.parseModel(model, { enums, composites, modelSchemas, file: options.file });
+        if (table) {
+          tables.push(table);
+        }
+      } catch (error) {
+        if (!options.errors) {
+          throw error;
+        }
+        options.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    return tables;
+  }
+
+  /**
+   * Split the schema into `kind Name { ... }` blocks
+   */
+  private readBlocks(schemaContent: string): SchemaBlock[] {
+    const blocks: SchemaBlock[] = [];
+    let current: SchemaBlock | null = null;
+
+    const lines = schemaContent.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+      const line = index + 1;
+      const text = this.stripComment(lines[index]);
+      if (text.trim() === '') {
+        continue;
+      }
+
+      if (!current) {
+        const match = text.match(/^(\s*)(\w+)\s+(\w+)\s*\{\s*(\}?)\s*$/);
+        if (!match) {
+          throw this.error(line, text.search(/\S/) + 1, `Unexpected '${text.trim()}'`);
+        }
+        const block: SchemaBlock = { kind: match[2], name: match[3], line, column: text.indexOf(match[3], match[1].length + match[2].length) + 1, body: [] };
+        blocks.push(block);
+        current = match[4] ? null : block;
+        continue;
+      }
+
+      if (text.trim() === '}') {
+        current = null;
+        continue;
+      }
+      current.body.push({ text: text.trim(), line, column: text.search(/\S/) + 1 });
+    }
+
+    if (current) {
+      throw this.error(current.line, current.column, `Block '${current.kind} ${current.name}' is not closed`);
+    }
+    return blocks;
+  }
+
+  private readModelSchema(model: SchemaBlock): string {
+    for (const line of model.body) {
+      const schema = line.text.match(/^@@schema\(\s*"([^"]+)"\s*\)/);
+      if (schema) {
+        return schema[1];
+      }
+    }
+    return DEFAULT_SCHEMA;
+  }
+
+  private parseModel(
+    model: SchemaBlock,
+    context: { enums: Set<string>; composites: Set<string>; modelSchemas: Map<string, string>; file?: string }
+  ): ExtractedTable | null {
+    const schema = context.modelSchemas.get(model.name)!;
+    const location = (line: number, column: number): SourceLocation => ({
+      ...(context.file ? { file: context.file } : {}),
+      line,
+      column
+    });
+    const facts = createTableFacts();
+
+    for (const line of model.body) {
+      if (line.text.startsWith('@@')) {
+        const [attribute] = this.readAttributes(line.text, line);
+        if (attribute.name === '@@ignore') {
+          return null;
+        }
+        this.applyBlockAttribute(attribute, facts);
+        continue;
+      }
+
+      const field = line.text.match(/^(\w+)\s+(Unsupported\("[^"]*"\)|\w+)(\[\])?(\?)?(?=\s|@|$)\s*(.*)$/);
+      if (!field) {
+        throw this.error(line.line, line.column, `Unexpected '${line.text}'`);
+      }
+      const [, name, type, list, optional, rest] = field;
+      const attributes = this.readAttributes(rest, { ...line, column: line.column + line.text.length - rest.length });
+      if (attributes.some(attribute => attribute.name === '@ignore')) {
+        continue;
+      }
+
+      if (context.modelSchemas.has(type)) {
+        const relation = attributes.find(attribute => attribute.name === '@relation');
+        if (relation?.args.named.fields) {
+          facts.foreignKeys.push(this.readRelation(relation, type, context.modelSchemas.get(type)!));
+        }
+        continue;
+      }
+
+      const column: ColumnDef = {
+        name,
+        ...this.columnType(type, !!list, attributes, line, context),
+        nullable: !!optional,
+        primaryKey: false,
+        unique: false,
+        location: location(line.line, line.column)
+      };
+      for (const attribute of attributes) {
+        if (attribute.name === '@id') {
+          column.primaryKey = true;
+          facts.primaryKey.push(name);
+        } else if (attribute.name === '@unique') {
+          column.unique = true;
+          facts.uniques.push([name]);
+        }
+      }
+      facts.columns.push(column);
+    }
+
+    return {
+      schema,
+      tableName: model.name,
+      columns: facts.columns,
+      constraints: buildConstraints(facts),
+      source: 'sql',
+      location: location(model.line, model.column)
+    };
+  }
+
+  /**
+   * @@id and @@unique take the field list first or as `fields:`; other block
+   * attributes (@@index, @@map, @@schema, ...) add nothing to the table facts
+   */
+  private applyBlockAttribute(attribute: Attribute, facts: TableFacts): void {
+    const fields = this.readFieldList(attribute.args.named.fields || attribute.args.positional[0] || '[]');
+    if (attribute.name === '@@id') {
+      facts.primaryKey.push(...fields);
+    } else if (attribute.name === '@@unique') {
+      facts.uniques.push(fields);
+    }
+  }
+
+  private columnType(
+    type: string,
+    list: boolean,
+    attributes: Attribute[],
+    line: SchemaLine,
+    context: { enums: Set<string>; composites: Set<string> }
+  ): Pick<ColumnDef, 'type' | 'resolvedType' | 'resolvedKind'> {
+    const suffix = list ? '[]' : '';
+    const native = attributes.find(attribute => attribute.name.startsWith('@db.'));
+
+    if (context.enums.has(type) || context.composites.has(type)) {
+      return { type: `${type}${suffix}`, resolvedType: `${type}${suffix}`, resolvedKind: context.enums.has(type) ? 'enum' : 'composite' };
+    }
+
+    const unsupported = type.match(/^Unsupported\("([^"]*)"\)$/);
+    if (unsupported) {
+      return { type: `${unsupported[1]}${suffix}` };
+    }
+
+    if (!SCALAR_TYPES[type]) {
+      throw this.error(line.line, line.column + line.text.indexOf(type, line.text.search(/\s/)), `Unknown type '${type}'`);
+    }
+
+    if (native) {
+      const args = native.args.positional.length > 0 ? `(${native.args.positional.join(',')})` : '';
+      return { type: `${native.name.slice('@db.'.length).toUpperCase()}${args}${suffix}` };
+    }
+    return { type: `${SCALAR_TYPES[type]}${suffix}` };
+  }
+
+  /**
+   * @relation([name,] fields: [...], references: [...], [map:, onDelete:, onUpdate:])
+   */
+  private readRelation(relation: Attribute, table: string, schema: string): ConstraintDef {
+    const { named } = relation.args;
+    const actions: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {};
+    if (named.onDelete && REFERENTIAL_ACTIONS[named.onDelete]) {
+      actions.onDelete = REFERENTIAL_ACTIONS[named.onDelete];
+    }
+    if (named.onUpdate && REFERENTIAL_ACTIONS[named.onUpdate]) {
+      actions.onUpdate = REFERENTIAL_ACTIONS[named.onUpdate];
+    }
+
+    return {
+      type: 'foreign_key',
+      ...(named.map ? { name: this.unquote(named.map) } : {}),
+      columns: this.readFieldList(named.fields),
+      references: { schema, table, columns: this.readFieldList(named.references || '[]') },
+      ...actions
+    };
+  }
+
+  /**
+   * Read the attributes in `text`, e.g. `@id @default(autoincrement()) @db.Uuid`
+   */
+  private readAttributes(text: string, line: SchemaLine): Attribute[] {
+    const attributes: Attribute[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      if (/\s/.test(text[i])) {
+        i++;
+        continue;
+      }
+      const name = text.slice(i).match(/^@@?[\w.]+/);
+      if (!name) {
+        throw this.error(line.line, line.column + i, `Unexpected '${text.slice(i)}'`);
+      }
+
+      i += name[0].length;
+      let args = '';
+      if (text[i] === '(') {
+        const end = this.findClosingParen(text, i);
+        if (end < 0) {
+          throw this.error(line.line, line.column + i, `Unclosed '(' in ${name[0]}`);
+        }
+        args = text.slice(i + 1, end);
+        i = end + 1;
+      }
+      attributes.push({ name: name[0], args: this.readArguments(args) });
+    }
+    return attributes;
+  }
+
+  /**
+   * Split `a, key: value, [x, y]` into positional and named arguments
+   */
+  private readArguments(args: string): Attribute['args'] {
+    const result: Attribute['args'] = { positional: [], named: {} };
+    for (const part of this.splitTopLevel(args)) {
+      const named = part.match(/^(\w+)\s*:\s*([\s\S]*)$/);
+      if (named) {
+        result.named[named[1]] = named[2];
+      } else {
+        result.positional.push(part);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * `[a, b(sort: Desc)]` -> ['a', 'b']
+   */
+  private readFieldList(list: string): string[] {
+    const inner = list.trim().replace(/^\[/, '').replace(/\]$/, '');
+    return this.splitTopLevel(inner)
+      .map(field => field.match(/^\w+/)?.[0])
+      .filter((field): field is string => !!field);
+  }
+
+  private splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quoted = false;
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '\\') {
+          current += char + (text[++i] ?? '');
+          continue;
+        }
+        quoted = char !== '"';
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === '(' || char === '[') {
+        depth++;
+      } else if (char === ')' || char === ']') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    if (current.trim() !== '') {
+      parts.push(current.trim());
+    }
+    return parts;
+  }
+
+  private findClosingParen(text: string, open: number): number {
+    let depth = 0;
+    let quoted = false;
+    for (let i = open; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')' && --depth === 0) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Remove a `//` or `///` comment, keeping `//` inside strings
+   */
+  private stripComment(line: string): string {
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      if (quoted) {
+        if (line[i] === '\\') {
+          i++;
+        } else if (line[i] === '"') {
+          quoted = false;
+        }
+      } else if (line[i] === '"') {
+        quoted = true;
+      } else if (line[i] === '/' && line[i + 1] === '/') {
+        return line.slice(0, i);
+      }
+    }
+    return line;
+  }
+
+  private unquote(value: string): string {
+    return value.trim().replace(/^"([\s\S]*)"$/, '$1');
+  }
+
+  private error(line: number, column: number, detail: string): SQLParseError {
+    return new SQLParseError(`Syntax error at line ${line}, column ${column}: ${detail}`, line, column);
+  }
+}
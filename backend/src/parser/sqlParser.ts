@@ -1,256 +1,1050 @@
-import { DatabaseSchema, Table, Column } from '../types/schema';
+import { parse as parseAst, astVisitor, Statement, CreateTableStatement, CreateColumnDef, TableConstraint, AlterTableStatement, CreateIndexStatement, DataTypeDef, ArrayDataTypeDef, BasicDataTypeDef, Expr, Name, QName } from 'pgsql-ast-parser';
+import { DatabaseSchema, Table, Column, CheckConstraint, UserDefinedType, ForeignKeyConstraint, ReferentialAction, SourceLocation } from '../types/schema';
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { MigrationScript } from '../types/migration';
+import { SQLStatement, splitSQLStatements, maskSQLLiterals, findClosingParen, createLineLocator, LineLocator } from './sqlStatementSplitter';
+
+/**
+ * Syntax error with the 1-based line and column where parsing stopped
+ */
+export class SQLParseError extends Error {
+  constructor(message: string, readonly line: number, readonly column: number) {
+    super(message);
+    this.name = 'SQLParseError';
+  }
+}
+
+/**
+ * What a named constraint put on its table, so DROP CONSTRAINT can take it back
+ */
+type ConstraintRef =
+  | { type: 'primary key' }
+  | { type: 'unique'; columns: string[] }
+  | { type: 'foreign key'; foreignKey: ForeignKeyConstraint }
+  | { type: 'check'; check: CheckConstraint };
+
+/**
+ * Text of the statement being applied; AST locations are offsets into it
+ */
+interface StatementText {
+  text: string;
+  masked: string;
+  toStatementOffset: (offset: number) => number; // Back to the statement as written, when text was rewritten
+  location: (offset: number) => SourceLocation;  // Source file position of an offset into text
+}
+
+/**
+ * Tables and user-defined types collected from a script, keyed by "schema.name"
+ */
+interface ParsedScript {
+  tables: Map<string, Table>;
+  createStatements: Map<Table, string>;
+  constraintNames: Map<Table, Map<string, ConstraintRef>>;
+  indexKeys: Map<Table, Map<string, string[]>>; // Unique index name -> the key it put on its table
+  types: Map<string, UserDefinedType>;
+}
+
+// Domains over domains are resolved at most this deep
+const MAX_TYPE_DEPTH = 16;
+
+// REFERENCES [schema.]table with no column list after it
+const IMPLICIT_REFERENCE = /\bREFERENCES\s+(?:"[^"]*"|[\w$]+)(?:\s*\.\s*(?:"[^"]*"|[\w$]+))?(?![\w$"])(?!\s*[.(])/gi;
+// Placeholder column list for those, replaced by the referenced primary key
+const IMPLICIT_REFERENCE_COLUMN = '__referenced_primary_key__';
 
 export class SQLParser {
-  parse(sqlContent: string): DatabaseSchema {
-    const schema: DatabaseSchema = { tables: {} };
-    
+  /**
+   * @param file Reported in table and column source locations
+   */
+  parse(sqlContent: string, file?: string): DatabaseSchema {
     try {
-      const statements = this.splitStatements(sqlContent);
-      
-      for (const statement of statements) {
-        const trimmedStatement = statement.trim();
-        if (!trimmedStatement || !trimmedStatement.toUpperCase().startsWith('CREATE TABLE')) {
+      return this.toDatabaseSchema(this.parseScript(sqlContent, { file }));
+    } catch (error) {
+      throw this.wrapParseError(error, 'SQL parsing failed');
+    }
+  }
+
+  /**
+   * Apply migration scripts in order to a single schema.
+   * `onApplied` sees the schema state after each script; the tables are
+   * updated in place by later migrations, so read what you need right away.
+   * Column locations point at the migration that last changed the column.
+   */
+  parseMigrations(
+    migrations: MigrationScript[],
+    onApplied?: (migration: string, schema: DatabaseSchema) => void
+  ): DatabaseSchema {
+    const script = this.createScript();
+
+    for (const migration of migrations) {
+      try {
+        this.parseScript(migration.sql, { file: migration.path || migration.name }, script);
+        onApplied?.(migration.name, this.toDatabaseSchema(script));
+      } catch (error) {
+        throw this.wrapParseError(error, `SQL parsing failed in ${migration.name}`);
+      }
+    }
+
+    return this.toDatabaseSchema(script);
+  }
+
+  /**
+   * Parse SQL into ExtractedTable facts (same shape the dump parser produces).
+   *
+   * When an `errors` array is given, statements that fail to parse are recorded
+   * there and skipped instead of aborting the whole script. Set `locations` to
+   * false when the SQL was assembled from pieces and its lines mean nothing.
+   */
+  extractTables(
+    sqlContent: string,
+    options: { source?: ExtractedTable['source']; errors?: string[]; file?: string; locations?: boolean } = {}
+  ): ExtractedTable[] {
+    const script = this.parseScript(sqlContent, options);
+    const { tables, createStatements } = script;
+    this.resolveColumnTypes(script);
+    this.resolveForeignKeys(script);
+
+    return Array.from(tables.values()).map(table =>
+      this.toExtractedTable(table, options.source || 'sql', createStatements.get(table), options.locations !== false)
+    );
+  }
+
+  private createScript(): ParsedScript {
+    return { tables: new Map(), createStatements: new Map(), constraintNames: new Map(), indexKeys: new Map(), types: new Map() };
+  }
+
+  private parseScript(
+    sqlContent: string,
+    options: { errors?: string[]; file?: string } = {},
+    script = this.createScript()
+  ): ParsedScript {
+    const { errors, file } = options;
+    const locate = createLineLocator(sqlContent);
+
+    for (const statement of splitSQLStatements(sqlContent)) {
+      try {
+        const source = this.createStatementText(statement, locate, file);
+        if (this.isCreateDomain(source.masked)) {
+          this.registerType(this.parseCreateDomain(statement, source.masked, locate), script);
           continue;
         }
-        
-        const table = this.parseCreateTable(trimmedStatement);
-        if (table) {
-          // CRITICAL FIX: Use table.name as the key, not schema name
-          // The Table object itself contains both name and schemaName
-          schema.tables[table.name] = table;
-          
-          // ASSERTION: Validate table structure
-          if (!table.name || table.name.includes('.')) {
-            throw new Error(`Invalid table name: ${table.name}`);
-          }
-          if (!table.schemaName) {
-            throw new Error(`Missing schema for table ${table.name}`);
+
+        const ast = this.parseStatement(statement, source, locate);
+
+        if (ast?.type === 'create table') {
+          const names = new Map<string, ConstraintRef>();
+          const table = this.buildTable(ast, names, source);
+          script.tables.set(`${table.schemaName}.${table.name}`, table);
+          script.createStatements.set(table, statement.text);
+          script.constraintNames.set(table, names);
+        } else if (ast?.type === 'alter table') {
+          this.applyAlterTable(ast, script, source);
+        } else if (ast?.type === 'create index') {
+          this.applyUniqueIndex(ast, script);
+        } else if (ast?.type === 'create enum') {
+          this.registerType({
+            name: ast.name.name.toLowerCase(),
+            schemaName: (ast.name.schema || 'public').toLowerCase(),
+            kind: 'enum',
+            values: ast.values.map(value => value.value)
+          }, script);
+        } else if (ast?.type === 'create composite type') {
+          this.registerType({
+            name: ast.name.name.toLowerCase(),
+            schemaName: (ast.name.schema || 'public').toLowerCase(),
+            kind: 'composite',
+            attributes: ast.attributes.map(attribute => ({ name: attribute.name.name, type: this.formatDataType(attribute.dataType) }))
+          }, script);
+        } else if (ast?.type === 'alter enum' && ast.change.type === 'add value') {
+          const type = this.findType(script.types, this.formatDataType({ name: ast.name.name, schema: ast.name.schema }));
+          if (type?.kind === 'enum') {
+            type.values!.push(ast.change.add.value);
           }
         }
+      } catch (error) {
+        if (!errors) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        errors.push(error instanceof SQLParseError ? message : `Statement at line ${statement.line}: ${message}`);
       }
-    } catch (error) {
-      throw new Error(`SQL parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-    
+
+    return script;
+  }
+
+  private toDatabaseSchema(script: ParsedScript): DatabaseSchema {
+    const schema: DatabaseSchema = { tables: {} };
+    this.resolveColumnTypes(script);
+    this.resolveForeignKeys(script);
+
+    for (const table of script.tables.values()) {
+      // CRITICAL FIX: Use table.name as the key, not schema name
+      // The Table object itself contains both name and schemaName
+      schema.tables[table.name] = table;
+
+      // ASSERTION: Validate table structure
+      if (!table.name || table.name.includes('.')) {
+        throw new Error(`Invalid table name: ${table.name}`);
+      }
+      if (!table.schemaName) {
+        throw new Error(`Missing schema for table ${table.name}`);
+      }
+    }
+
+    if (script.types.size > 0) {
+      schema.types = Object.fromEntries(script.types);
+    }
+
     return schema;
   }
-  
-  private splitStatements(sql: string): string[] {
-    const statements: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let quoteChar = '';
-    let parenLevel = 0;
-    
-    for (let i = 0; i < sql.length; i++) {
-      const char = sql[i];
-      
-      if (!inQuotes && (char === "'" || char === '"')) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (inQuotes && char === quoteChar) {
-        inQuotes = false;
-        quoteChar = '';
-      } else if (!inQuotes) {
-        if (char === '(') parenLevel++;
-        else if (char === ')') parenLevel--;
-        else if (char === ';' && parenLevel === 0) {
-          statements.push(current.trim());
-          current = '';
-          continue;
+
+  private wrapParseError(error: unknown, prefix: string): Error {
+    const message = `${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    if (error instanceof SQLParseError) {
+      return new SQLParseError(message, error.line, error.column);
+    }
+    return new Error(message);
+  }
+
+  /**
+   * Run a single statement through the PostgreSQL AST parser.
+   * Statements NormaDB does not model are skipped without being parsed.
+   */
+  private parseStatement(statement: SQLStatement, source: StatementText, locate: LineLocator): Statement | null {
+    if (this.isUniqueIndex(source.masked)) {
+      // Unique indexes only add keys: one the grammar cannot read is skipped, like any other index
+      try {
+        return this.parseWithAst(statement, this.prepareForAst(source.text, source.masked, false), locate);
+      } catch {
+        return null;
+      }
+    }
+
+    const createTable = this.isCreateTable(source.masked);
+    if (!createTable && !this.isModelledAlterTable(source.masked) && !this.isTypeDefinition(source.masked)) {
+      return null;
+    }
+
+    const sql = this.prepareForAst(source.text, source.masked, createTable);
+    return this.parseWithAst(statement, sql, locate, source.toStatementOffset);
+  }
+
+  /**
+   * Mask the statement, and give each REFERENCES without a column list a
+   * placeholder one: the AST grammar requires the list, while PostgreSQL
+   * defaults it to the referenced table's primary key (see resolveForeignKeys).
+   */
+  private createStatementText(statement: SQLStatement, locate: LineLocator, file?: string): StatementText {
+    const masked = maskSQLLiterals(statement.text);
+    const inserts = Array.from(masked.matchAll(IMPLICIT_REFERENCE), match => match.index! + match[0].length);
+    const list = ` (${IMPLICIT_REFERENCE_COLUMN})`;
+    const insert = (sql: string) => inserts.reduceRight((out, at) => out.slice(0, at) + list + out.slice(at), sql);
+
+    const toStatementOffset = (offset: number) => {
+      let inserted = 0;
+      for (const at of inserts) {
+        if (offset < at + inserted) break;
+        if (offset < at + inserted + list.length) return at;
+        inserted += list.length;
+      }
+      return offset - inserted;
+    };
+
+    return {
+      text: insert(statement.text),
+      masked: insert(masked),
+      toStatementOffset,
+      location: offset => ({ ...(file ? { file } : {}), ...locate(statement.offset + toStatementOffset(offset)) })
+    };
+  }
+
+  /**
+   * @param toStatementOffset Maps offsets in `sql` back to the statement text when it was rewritten
+   */
+  private parseWithAst(
+    statement: SQLStatement,
+    sql: string,
+    locate: LineLocator,
+    toStatementOffset: (offset: number) => number = offset => offset
+  ): Statement | null {
+    try {
+      const statements = parseAst(sql, { locationTracking: true });
+      return statements[0] || null;
+    } catch (error) {
+      const relativeOffset = typeof error?.token?.offset === 'number' ? toStatementOffset(error.token.offset) : statement.text.length;
+      const { line, column } = locate(statement.offset + relativeOffset);
+      throw new SQLParseError(
+        `Syntax error at line ${line}, column ${column}: ${this.describeSyntaxError(error)}`,
+        line,
+        column
+      );
+    }
+  }
+
+  private isCreateTable(masked: string): boolean {
+    if (!/^CREATE\s+(?:(?:GLOBAL|LOCAL)\s+)?(?:(?:TEMP|TEMPORARY|UNLOGGED)\s+)?TABLE\b/i.test(masked)) {
+      return false;
+    }
+    // CREATE TABLE ... AS SELECT and partitions carry no column list of their own
+    return !/^[^(]*\b(?:AS|PARTITION\s+OF)\b/i.test(masked);
+  }
+
+  /**
+   * CREATE TYPE ... AS ENUM / AS (...), and ALTER TYPE ... ADD VALUE.
+   * Range, base and shell types carry no column structure and are skipped.
+   */
+  private isTypeDefinition(masked: string): boolean {
+    return /^CREATE\s+TYPE\s+\S+\s+AS\s*(?:ENUM\b|\()/i.test(masked) ||
+      /^ALTER\s+TYPE\s+\S+\s+ADD\s+VALUE\b/i.test(masked);
+  }
+
+  private isUniqueIndex(masked: string): boolean {
+    return /^CREATE\s+UNIQUE\s+INDEX\b/i.test(masked);
+  }
+
+  private isCreateDomain(masked: string): boolean {
+    return /^CREATE\s+DOMAIN\b/i.test(masked);
+  }
+
+  /**
+   * The AST grammar has no CREATE DOMAIN, but a domain's type and constraints
+   * read exactly like a column definition, so parse it as a one-column table.
+   */
+  private parseCreateDomain(statement: SQLStatement, masked: string, locate: LineLocator): UserDefinedType {
+    const header = masked.match(/^(CREATE\s+DOMAIN\s+)(\S+?)\s+(?:AS\s+)?/i);
+    if (!header) {
+      throw new Error('Invalid CREATE DOMAIN statement');
+    }
+
+    const name = statement.text.slice(header[1].length, header[1].length + header[2].length);
+    const prepared = this.prepareForAst(statement.text, masked, false);
+    const prefix = `CREATE TABLE ${name} (value `;
+    const sql = `${prefix}${prepared.slice(header[0].length)}\n)`;
+
+    const ast = this.parseWithAst(statement, sql, locate, offset => Math.max(0, offset - prefix.length) + header[0].length);
+    if (ast?.type !== 'create table' || ast.columns[0]?.kind !== 'column') {
+      throw new Error('Invalid CREATE DOMAIN statement');
+    }
+
+    const column = ast.columns[0];
+    return {
+      name: ast.name.name.toLowerCase(),
+      schemaName: (ast.name.schema || 'public').toLowerCase(),
+      kind: 'domain',
+      baseType: this.formatDataType(column.dataType),
+      notNull: (column.constraints || []).some(constraint => constraint.type === 'not null')
+    };
+  }
+
+  private registerType(type: UserDefinedType, script: ParsedScript): void {
+    script.types.set(`${type.schemaName}.${type.name}`, type);
+  }
+
+  /**
+   * Look up a formatted type name (e.g. "MOOD", "SALES.MOOD", "MOOD[]" without
+   * the brackets). Unqualified names are looked up in public first.
+   */
+  private findType(types: Map<string, UserDefinedType>, typeName: string): UserDefinedType | undefined {
+    const name = typeName.toLowerCase();
+    if (name.includes('.')) {
+      return types.get(name);
+    }
+    return types.get(`public.${name}`) || Array.from(types.values()).find(type => type.name === name);
+  }
+
+  /**
+   * Set resolvedType/resolvedKind on every column whose declared type is user-defined.
+   * Runs after the whole script so types may be declared after the tables using them.
+   */
+  private resolveColumnTypes(script: ParsedScript): void {
+    for (const table of script.tables.values()) {
+      for (const column of Object.values(table.columns)) {
+        delete column.resolvedType;
+        delete column.resolvedKind;
+
+        const resolved = this.resolveType(script.types, column.type, 0);
+        if (resolved) {
+          column.resolvedType = resolved.type;
+          if (resolved.kind) {
+            column.resolvedKind = resolved.kind;
+          }
         }
       }
-      
-      current += char;
-    }
-    
-    if (current.trim()) {
-      statements.push(current.trim());
-    }
-    
-    return statements;
-  }
-  
-  private parseCreateTable(statement: string): Table | null {
-    // Simple and clear regex for schema.table or table
-    const tableNameMatch = statement.match(/CREATE\s+TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(\w+)(?:\.(\w+))?/i);
-    if (!tableNameMatch) return null;
-    
-    let tableName: string;
-    let schemaName: string;
-    
-    // Check if we have schema.table pattern (group 2 exists)
-    if (tableNameMatch[2]) {
-      schemaName = tableNameMatch[1]; // schema name
-      tableName = tableNameMatch[2]; // table name
-    } else {
-      // No schema, just table name
-      schemaName = 'public';
-      tableName = tableNameMatch[1]; // table name
-    }
-    
-    // Normalize to lowercase
-    tableName = tableName.toLowerCase();
-    schemaName = schemaName.toLowerCase();
-    
-    const columnsMatch = statement.match(/\((.*)\)/s);
-    if (!columnsMatch) return null;
-    
-    const columnsContent = columnsMatch[1];
-    const lines = this.splitColumnDefinitions(columnsContent);
-    
+    }
+  }
+
+  /**
+   * Follow domains down to their base type, keeping array brackets.
+   * Returns null for built-in types.
+   */
+  private resolveType(
+    types: Map<string, UserDefinedType>,
+    typeName: string,
+    depth: number
+  ): { type: string; kind?: 'enum' | 'composite' } | null {
+    const [, element, arraySuffix] = typeName.match(/^(.*?)((?:\[\])*)$/)!;
+    const type = this.findType(types, element);
+    if (!type || depth >= MAX_TYPE_DEPTH) {
+      return null;
+    }
+
+    if (type.kind !== 'domain') {
+      return { type: typeName, kind: type.kind };
+    }
+
+    const base = this.resolveType(types, type.baseType!, depth + 1) || { type: type.baseType! };
+    return { type: `${base.type}${arraySuffix}`, ...(base.kind ? { kind: base.kind } : {}) };
+  }
+
+  /**
+   * ALTER TABLE statements that change columns, constraints or names. Others
+   * (OWNER TO, SET DEFAULT, ENABLE ROW LEVEL SECURITY, ...) are skipped.
+   */
+  private isModelledAlterTable(masked: string): boolean {
+    return /^ALTER\s+TABLE\b/i.test(masked) &&
+      /\b(?:ADD|DROP|RENAME|TYPE|NOT\s+NULL)\b/i.test(masked);
+  }
+
+  /**
+   * A unique index on plain columns is a key, as a UNIQUE constraint is.
+   * Partial and expression indexes, and indexes on tables the script never
+   * created, add nothing. Unnamed indexes get PostgreSQL's generated name.
+   */
+  private applyUniqueIndex(statement: CreateIndexStatement, script: ParsedScript): void {
+    const table = script.tables.get(`${(statement.table.schema || 'public').toLowerCase()}.${statement.table.name.toLowerCase()}`);
+    if (!table || statement.where || !statement.expressions.every(index => index.expression.type === 'ref')) {
+      return;
+    }
+    const unique = statement.expressions.map(index => (index.expression as { name: string }).name);
+    if (unique.every(name => table.columns[name])) {
+      table.uniqueConstraints.push(unique);
+      const indexes = script.indexKeys.get(table) || new Map<string, string[]>();
+      indexes.set(statement.indexName?.name || `${table.name}_${unique.join('_')}_idx`, unique);
+      script.indexKeys.set(table, indexes);
+    }
+  }
+
+  /**
+   * Replay an ALTER TABLE against the tables built so far, in statement order.
+   * Statements on tables the script never created are ignored.
+   */
+  private applyAlterTable(statement: AlterTableStatement, script: ParsedScript, source: StatementText): void {
+    const key = `${(statement.table.schema || 'public').toLowerCase()}.${statement.table.name.toLowerCase()}`;
+    const table = script.tables.get(key);
+    if (!table) {
+      return;
+    }
+    const names = script.constraintNames.get(table) || new Map<string, ConstraintRef>();
+    script.constraintNames.set(table, names);
+
+    for (const change of statement.changes) {
+      switch (change.type) {
+        case 'add column':
+          if (!(change.ifNotExists && table.columns[change.column.name.name])) {
+            this.parseColumn(change.column, table, names, source);
+          }
+          break;
+        case 'drop column':
+          this.dropColumn(table, change.column.name, names, script.indexKeys.get(table));
+          break;
+        case 'rename column':
+          this.renameColumn(table, change.column.name, change.to.name, script.tables);
+          if (table.columns[change.to.name]) {
+            table.columns[change.to.name].location = source.location(change.to._location?.start ?? 0);
+          }
+          break;
+        case 'alter column': {
+          const column = table.columns[change.column.name];
+          if (!column) break;
+          column.location = source.location(change.column._location?.start ?? 0);
+          if (change.alter.type === 'set type') {
+            column.type = this.formatDataType(change.alter.dataType);
+          } else if (change.alter.type === 'set not null') {
+            column.nullable = false;
+          } else if (change.alter.type === 'drop not null') {
+            column.nullable = true;
+          }
+          break;
+        }
+        case 'add constraint':
+          this.parseTableConstraint(change.constraint, table, names, source);
+          break;
+        case 'drop constraint': {
+          const ref = names.get(change.constraint.name);
+          if (ref) {
+            this.dropConstraint(table, ref);
+            names.delete(change.constraint.name);
+          } else if (!change.ifExists) {
+            throw new Error(`Constraint ${change.constraint.name} does not exist on table ${table.name}`);
+          }
+          break;
+        }
+        case 'rename constraint': {
+          const ref = names.get(change.constraint.name);
+          if (ref) {
+            names.delete(change.constraint.name);
+            names.set(change.to.name, ref);
+          }
+          break;
+        }
+        case 'rename':
+          this.renameTable(table, change.to.name.toLowerCase(), script.tables);
+          table.location = source.location(change.to._location?.start ?? 0);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Dropping a column drops every key and unique index that uses it, as
+   * PostgreSQL does
+   */
+  private dropColumn(table: Table, name: string, names: Map<string, ConstraintRef>, indexes = new Map<string, string[]>()): void {
+    if (!table.columns[name]) {
+      return;
+    }
+
+    for (const [constraintName, ref] of names) {
+      const columns = ref.type === 'primary key' ? table.primaryKeys
+        : ref.type === 'unique' ? ref.columns
+        : ref.type === 'check' ? ref.check.columns
+        : ref.foreignKey.columns;
+      if (columns.includes(name)) {
+        this.dropConstraint(table, ref);
+        names.delete(constraintName);
+      }
+    }
+    for (const [indexName, columns] of indexes) {
+      if (columns.includes(name)) {
+        this.dropConstraint(table, { type: 'unique', columns });
+        indexes.delete(indexName);
+      }
+    }
+
+    delete table.columns[name];
+  }
+
+  private dropConstraint(table: Table, ref: ConstraintRef): void {
+    switch (ref.type) {
+      case 'primary key':
+        for (const name of table.primaryKeys) {
+          if (table.columns[name]) table.columns[name].primaryKey = false;
+        }
+        table.primaryKeys = [];
+        break;
+      case 'unique':
+        table.uniqueConstraints = table.uniqueConstraints.filter(unique => unique !== ref.columns);
+        if (ref.columns.length === 1 && table.columns[ref.columns[0]]) {
+          table.columns[ref.columns[0]].unique = table.uniqueConstraints
+            .some(unique => unique.length === 1 && unique[0] === ref.columns[0]);
+        }
+        break;
+      case 'foreign key':
+        table.foreignKeys = table.foreignKeys.filter(fk => fk !== ref.foreignKey);
+        for (const name of ref.foreignKey.columns) {
+          const column = table.columns[name];
+          if (column && !table.foreignKeys.some(fk => fk.columns.includes(name))) {
+            delete column.foreignKey;
+          }
+        }
+        break;
+      case 'check':
+        table.checkConstraints = table.checkConstraints?.filter(check => check !== ref.check);
+        break;
+    }
+  }
+
+  private renameColumn(table: Table, from: string, to: string, tables: Map<string, Table>): void {
+    const column = table.columns[from];
+    if (!column) {
+      return;
+    }
+
+    // Rebuild the record so the column keeps its position
+    table.columns = Object.fromEntries(Object.entries(table.columns).map(([name, col]) => [name === from ? to : name, col]));
+    column.name = to;
+
+    const rename = (columns: string[]) => columns.forEach((name, i) => { if (name === from) columns[i] = to; });
+    rename(table.primaryKeys);
+    table.uniqueConstraints.forEach(rename);
+    table.checkConstraints?.forEach(check => rename(check.columns));
+    table.foreignKeys.forEach(fk => {
+      rename(fk.columns);
+      fk.column = fk.columns[0];
+    });
+
+    // Foreign keys anywhere (this table included) that point at the renamed column
+    for (const other of tables.values()) {
+      for (const fk of other.foreignKeys) {
+        if (this.referencesTable(fk, table) && fk.referencesColumns.includes(from)) {
+          rename(fk.referencesColumns);
+          fk.referencesColumn = fk.referencesColumns[0];
+          this.linkForeignKeyColumns(other, fk);
+        }
+      }
+    }
+  }
+
+  private renameTable(table: Table, to: string, tables: Map<string, Table>): void {
+    const referencing = Array.from(tables.values()).flatMap(other =>
+      other.foreignKeys.filter(fk => this.referencesTable(fk, table)).map(fk => ({ other, fk }))
+    );
+
+    // Re-key the map in place so tables keep their script order
+    const entries = Array.from(tables.entries());
+    tables.clear();
+    for (const [key, value] of entries) {
+      tables.set(value === table ? `${table.schemaName}.${to}` : key, value);
+    }
+    table.name = to;
+
+    for (const { other, fk } of referencing) {
+      fk.referencesTable = to;
+      this.linkForeignKeyColumns(other, fk);
+    }
+  }
+
+  private referencesTable(fk: ForeignKeyConstraint, table: Table): boolean {
+    return fk.referencesTable === table.name && fk.referencesSchema === (table.schemaName || 'public');
+  }
+
+  /**
+   * Blank out syntax the AST grammar does not know but which carries no
+   * normalization facts. Replacements keep the text length and line breaks,
+   * so error offsets still point into the original statement.
+   */
+  private prepareForAst(text: string, masked: string, createTable: boolean): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number) => {
+      for (let i = from; i < to; i++) {
+        if (chars[i] !== '\n') chars[i] = ' ';
+      }
+    };
+
+    // Dollar-quoted literals become plain single-quoted literals
+    for (const match of masked.matchAll(/\$[_\n]*\$/g)) {
+      const end = match.index! + match[0].length;
+      blank(match.index!, end);
+      chars[match.index!] = "'";
+      chars[end - 1] = "'";
+    }
+
+    // MySQL-style AUTO_INCREMENT column option
+    for (const match of masked.matchAll(/\bAUTO_INCREMENT\b/gi)) {
+      blank(match.index!, match.index! + match[0].length);
+    }
+
+    // Array bounds: INT[3] -> INT[ ]
+    for (const match of masked.matchAll(/\[\s*\d+\s*\]/g)) {
+      blank(match.index! + 1, match.index! + match[0].length - 1);
+    }
+
+    // Constraint timing, validation and inheritance flags
+    for (const match of masked.matchAll(/\b(?:NOT\s+VALID|NO\s+INHERIT|(?:NOT\s+)?DEFERRABLE|INITIALLY\s+(?:DEFERRED|IMMEDIATE))\b/gi)) {
+      blank(match.index!, match.index! + match[0].length);
+    }
+
+    // ALTER COLUMN ... TYPE x USING expr: the conversion expression runs once
+    for (const match of createTable ? [] : masked.matchAll(/\bUSING\b/gi)) {
+      let end = match.index!;
+      for (let depth = 0; end < masked.length; end++) {
+        if (masked[end] === '(') depth++;
+        else if (masked[end] === ')') depth--;
+        else if (masked[end] === ',' && depth === 0) break;
+      }
+      blank(match.index!, end);
+    }
+
+    // Generated columns: GENERATED ALWAYS AS (expr) STORED
+    for (const match of masked.matchAll(/\bGENERATED\s+ALWAYS\s+AS\s*\(/gi)) {
+      const close = findClosingParen(masked, match.index! + match[0].length - 1);
+      if (close < 0) continue;
+      const stored = masked.slice(close).match(/^\s*STORED\b/i);
+      blank(match.index!, close + (stored ? stored[0].length : 0));
+    }
+
+    // Table options after the column list (PARTITION BY, WITH (...), TABLESPACE, ...)
+    const open = createTable ? masked.indexOf('(') : -1;
+    const close = open >= 0 ? findClosingParen(masked, open) : -1;
+    if (close >= 0) {
+      let tailStart = close;
+      const inherits = masked.slice(close).match(/^\s*INHERITS\s*\(/i);
+      if (inherits) {
+        tailStart = findClosingParen(masked, close + inherits[0].length - 1);
+      }
+      if (tailStart >= 0) {
+        blank(tailStart, chars.length);
+      }
+    }
+
+    return chars.join('');
+  }
+
+  private describeSyntaxError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const unexpected = message.match(/Unexpected [^\n.]*/);
+    return unexpected ? unexpected[0].trim() : message.split('\n')[0];
+  }
+
+  private buildTable(statement: CreateTableStatement, names: Map<string, ConstraintRef>, source: StatementText): Table {
     const table: Table = {
-      name: tableName,
-      schemaName: schemaName,
+      name: statement.name.name.toLowerCase(),
+      schemaName: (statement.name.schema || 'public').toLowerCase(),
       columns: {},
       primaryKeys: [],
       foreignKeys: [],
-      uniqueConstraints: []
+      uniqueConstraints: [],
+      location: source.location(statement.name._location?.start ?? 0)
     };
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) continue;
-      
-      if (trimmedLine.toUpperCase().startsWith('PRIMARY KEY')) {
-        this.parsePrimaryKey(trimmedLine, table);
-      } else if (trimmedLine.toUpperCase().startsWith('FOREIGN KEY')) {
-        this.parseForeignKey(trimmedLine, table);
-      } else if (trimmedLine.toUpperCase().startsWith('UNIQUE')) {
-        this.parseUnique(trimmedLine, table);
-      } else if (trimmedLine.toUpperCase().startsWith('CONSTRAINT')) {
-        this.parseConstraint(trimmedLine, table);
-      } else {
-        const column = this.parseColumn(trimmedLine);
-        if (column) {
-          table.columns[column.name] = column;
-          if (column.primaryKey) {
-            table.primaryKeys.push(column.name);
-          }
-        }
+
+    for (const definition of statement.columns) {
+      if (definition.kind !== 'column') {
+        throw new Error(`Unsupported SQL construct: LIKE ${definition.like.name}`);
       }
+      this.parseColumn(definition, table, names, source);
+    }
+
+    for (const constraint of statement.constraints || []) {
+      this.parseTableConstraint(constraint, table, names, source);
     }
-    
+
     return table;
   }
-  
-  private splitColumnDefinitions(content: string): string[] {
-    const lines: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let quoteChar = '';
-    let parenLevel = 0;
-    
-    for (let i = 0; i < content.length; i++) {
-      const char = content[i];
-      
-      if (!inQuotes && (char === "'" || char === '"')) {
-        inQuotes = true;
-        quoteChar = char;
-      } else if (inQuotes && char === quoteChar) {
-        inQuotes = false;
-        quoteChar = '';
-      } else if (!inQuotes) {
-        if (char === '(') parenLevel++;
-        else if (char === ')') parenLevel--;
-        else if (char === ',' && parenLevel === 0) {
-          lines.push(current.trim());
-          current = '';
-          continue;
-        }
-      }
-      
-      current += char;
-    }
-    
-    if (current.trim()) {
-      lines.push(current.trim());
-    }
-    
-    return lines;
-  }
-  
-  private parseColumn(line: string): Column | null {
-    // Handle quoted column names: "User Name"
-    const columnMatch = line.match(/^(["`']([^"`']+)["`']|(\w+))\s+(.+)$/);
-    if (!columnMatch) return null;
-    
-    const columnName = columnMatch[2] || columnMatch[3]; // Get quoted or unquoted name
-    const remainingLine = columnMatch[4];
-    
-    // Extract data type (handle quoted types and complex types)
-    const typeMatch = remainingLine.match(/^([a-zA-Z0-9_\[\]()]+)/);
-    if (!typeMatch) return null;
-    
-    const dataType = typeMatch[1].toUpperCase();
-    const remainingParts = remainingLine.substring(typeMatch[1].length).trim();
-    
+
+  private parseColumn(definition: CreateColumnDef, table: Table, names: Map<string, ConstraintRef>, source: StatementText): void {
     const column: Column = {
-      name: columnName,
-      type: dataType,
+      name: definition.name.name,
+      type: this.formatDataType(definition.dataType),
       nullable: true,
       primaryKey: false,
-      unique: false
+      unique: false,
+      location: source.location(definition.name._location?.start ?? 0)
     };
-    
-    column.nullable = !remainingParts.toUpperCase().includes('NOT NULL');
-    column.primaryKey = remainingParts.toUpperCase().includes('PRIMARY KEY');
-    column.unique = remainingParts.toUpperCase().includes('UNIQUE');
-    
-    return column;
-  }
-  
-  private parsePrimaryKey(line: string, table: Table): void {
-    const match = line.match(/PRIMARY\s+KEY\s*\(([^)]+)\)/i);
-    if (match) {
-      const columns = match[1].split(',').map(col => col.trim().replace(/["`']/g, ''));
-      table.primaryKeys.push(...columns);
-    }
-  }
-  
-  private parseForeignKey(line: string, table: Table): void {
-    const match = line.match(/FOREIGN\s+KEY\s*\(([^)]+)\)\s*REFERENCES\s+["`']?(\w+)["`']?\s*\(([^)]+)\)/i);
-    if (match) {
-      const column = match[1].trim().replace(/["`']/g, '');
-      const referencesTable = match[2];
-      const referencesColumn = match[3].trim().replace(/["`']/g, '');
-      
-      table.foreignKeys.push({
-        column,
-        referencesTable,
-        referencesColumn
-      });
-      
-      if (table.columns[column]) {
-        table.columns[column].foreignKey = {
-          table: referencesTable,
-          column: referencesColumn
+
+    for (const constraint of definition.constraints || []) {
+      switch (constraint.type) {
+        case 'not null':
+          column.nullable = false;
+          break;
+        case 'primary key':
+          column.primaryKey = true;
+          break;
+        case 'unique':
+          column.unique = true;
+          break;
+      }
+    }
+
+    table.columns[column.name] = column;
+    for (const constraint of definition.constraints || []) {
+      if (constraint.type === 'primary key') {
+        table.primaryKeys.push(column.name);
+        names.set(constraint.constraintName?.name || this.defaultConstraintName(table, 'primary key', [column.name]), { type: 'primary key' });
+      } else if (constraint.type === 'unique') {
+        const unique = [column.name];
+        table.uniqueConstraints.push(unique);
+        names.set(constraint.constraintName?.name || this.defaultConstraintName(table, 'unique', unique), { type: 'unique', columns: unique });
+      } else if (constraint.type === 'check') {
+        this.addCheckConstraint(table, constraint, names, source, column.name);
+      } else if (constraint.type === 'reference') {
+        this.addForeignKey(table, [column.name], constraint, names);
+      }
+    }
+  }
+
+  private parseTableConstraint(constraint: TableConstraint, table: Table, names: Map<string, ConstraintRef>, source: StatementText): void {
+    const explicitName = constraint.constraintName?.name;
+
+    switch (constraint.type) {
+      case 'primary key': {
+        const columns = constraint.columns.map(col => col.name);
+        table.primaryKeys.push(...columns);
+        names.set(explicitName || this.defaultConstraintName(table, 'primary key', columns), { type: 'primary key' });
+        break;
+      }
+      case 'unique': {
+        const unique = constraint.columns.map(col => col.name);
+        table.uniqueConstraints.push(unique);
+        names.set(explicitName || this.defaultConstraintName(table, 'unique', unique), { type: 'unique', columns: unique });
+        break;
+      }
+      case 'foreign key':
+        this.addForeignKey(table, constraint.localColumns.map(col => col.name), constraint, names);
+        break;
+      case 'check':
+        this.addCheckConstraint(table, constraint, names, source);
+        break;
+      default: {
+        // Constraint kinds a newer pgsql-ast-parser may add
+        const unsupported: unknown = constraint;
+        const type = typeof unsupported === 'object' && unsupported !== null && 'type' in unsupported ? unsupported.type : undefined;
+        throw new Error(`Unsupported SQL construct: ${typeof type === 'string' ? type : 'UNKNOWN'}`);
+      }
+    }
+  }
+
+  /**
+   * Record a table-level FOREIGN KEY or a column-level REFERENCES.
+   * Referenced columns are left empty when the statement omits them.
+   */
+  private addForeignKey(
+    table: Table,
+    columns: string[],
+    reference: { constraintName?: Name; foreignTable: QName; foreignColumns: Name[]; onDelete?: string; onUpdate?: string },
+    names: Map<string, ConstraintRef>
+  ): void {
+    const referencesColumns = reference.foreignColumns
+      .map(col => col.name)
+      .filter(name => name !== IMPLICIT_REFERENCE_COLUMN);
+
+    const foreignKey: ForeignKeyConstraint = {
+      column: columns[0],
+      referencesTable: reference.foreignTable.name.toLowerCase(),
+      referencesColumn: referencesColumns[0] || '',
+      columns,
+      referencesSchema: (reference.foreignTable.schema || 'public').toLowerCase(),
+      referencesColumns,
+      ...(reference.constraintName ? { name: reference.constraintName.name } : {}),
+      ...(reference.onDelete ? { onDelete: reference.onDelete.toUpperCase() as ReferentialAction } : {}),
+      ...(reference.onUpdate ? { onUpdate: reference.onUpdate.toUpperCase() as ReferentialAction } : {})
+    };
+
+    table.foreignKeys.push(foreignKey);
+    names.set(foreignKey.name || this.defaultConstraintName(table, 'foreign key', columns), { type: 'foreign key', foreignKey });
+    this.linkForeignKeyColumns(table, foreignKey);
+  }
+
+  /**
+   * Point each local column of a foreign key at its referenced column
+   */
+  private linkForeignKeyColumns(table: Table, foreignKey: ForeignKeyConstraint): void {
+    foreignKey.columns.forEach((name, i) => {
+      if (table.columns[name]) {
+        table.columns[name].foreignKey = {
+          table: foreignKey.referencesTable,
+          column: foreignKey.referencesColumns[i] || ''
         };
       }
+    });
+  }
+
+  /**
+   * Fill in the referenced primary key of foreign keys declared without a
+   * column list, once the whole script has been read.
+   */
+  private resolveForeignKeys(script: ParsedScript): void {
+    for (const table of script.tables.values()) {
+      for (const fk of table.foreignKeys) {
+        const referenced = script.tables.get(`${fk.referencesSchema}.${fk.referencesTable}`);
+        if (fk.referencesColumns.length > 0 || !referenced?.primaryKeys.length) {
+          continue;
+        }
+        fk.referencesColumns = [...referenced.primaryKeys];
+        fk.referencesColumn = fk.referencesColumns[0];
+        this.linkForeignKeyColumns(table, fk);
+      }
+    }
+  }
+
+  /**
+   * Record a column- or table-level CHECK. `column` is set for column-level
+   * constraints, which PostgreSQL names after their column.
+   */
+  private addCheckConstraint(
+    table: Table,
+    constraint: { constraintName?: Name; expr: Expr; _location?: { start: number } },
+    names: Map<string, ConstraintRef>,
+    source: StatementText,
+    column?: string
+  ): void {
+    const columns = this.collectColumnRefs(constraint.expr);
+    const check: CheckConstraint = {
+      ...(constraint.constraintName ? { name: constraint.constraintName.name } : {}),
+      expression: this.checkExpressionText(source, constraint._location?.start ?? 0),
+      columns
+    };
+
+    const allowedValues = this.extractAllowedValues(constraint.expr);
+    if (allowedValues) {
+      check.allowedValues = allowedValues;
+    }
+
+    table.checkConstraints = table.checkConstraints || [];
+    table.checkConstraints.push(check);
+
+    const nameColumns = column ? [column] : columns.length === 1 ? columns : [];
+    names.set(check.name || this.defaultConstraintName(table, 'check', nameColumns), { type: 'check', check });
+  }
+
+  /**
+   * The condition between CHECK's parentheses, as written in the statement
+   */
+  private checkExpressionText(source: StatementText, from: number): string {
+    const keyword = /\bCHECK\s*\(/i.exec(source.masked.slice(from));
+    if (!keyword) {
+      return '';
+    }
+    const open = from + keyword.index + keyword[0].length - 1;
+    const close = findClosingParen(source.masked, open);
+    return close < 0 ? '' : source.text.slice(open + 1, close - 1).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Distinct column names referenced anywhere in an expression
+   */
+  private collectColumnRefs(expr: Expr): string[] {
+    const columns: string[] = [];
+    astVisitor(() => ({
+      ref: ref => {
+        if (ref.name !== '*' && !columns.includes(ref.name)) {
+          columns.push(ref.name);
+        }
+      }
+    })).expr(expr);
+    return columns;
+  }
+
+  /**
+   * Literal values a single column is restricted to. Recognises
+   *   col IN ('a', 'b')
+   *   col = ANY (ARRAY['a', 'b'])   (how pg_dump prints IN lists)
+   *   col = 'a' OR col = 'b'
+   */
+  private extractAllowedValues(expr: Expr): string[] | null {
+    const unwrap = (node: Expr): Expr => node.type === 'cast' ? unwrap(node.operand) : node;
+    const literal = (node: Expr): string | null => {
+      const value = unwrap(node);
+      if (value.type === 'string') return value.value;
+      if (value.type === 'integer' || value.type === 'numeric') return String(value.value);
+      return null;
+    };
+    const literals = (nodes: Expr[]): string[] | null => {
+      const values = nodes.map(literal);
+      return values.every((value): value is string => value !== null) ? values : null;
+    };
+
+    const collect = (node: Expr): { column: string; values: string[] } | null => {
+      const binary = unwrap(node);
+      if (binary.type !== 'binary') return null;
+
+      const left = unwrap(binary.left);
+      const right = unwrap(binary.right);
+
+      if (binary.op === 'OR') {
+        const a = collect(binary.left);
+        const b = collect(binary.right);
+        return a && b && a.column === b.column ? { column: a.column, values: [...a.values, ...b.values] } : null;
+      }
+      if (left.type !== 'ref') return null;
+
+      if (binary.op === 'IN' && right.type === 'list') {
+        const values = literals(right.expressions);
+        return values ? { column: left.name, values } : null;
+      }
+      if (binary.op === '=' && right.type === 'call' && right.function.name === 'any' && right.args.length > 0) {
+        const array = unwrap(right.args[0]);
+        const values = array.type === 'array' ? literals(array.expressions) : null;
+        return values ? { column: left.name, values } : null;
+      }
+      if (binary.op === '=') {
+        const value = literal(right);
+        return value !== null ? { column: left.name, values: [value] } : null;
+      }
+      return null;
+    };
+
+    const result = collect(expr);
+    return result && result.values.length > 1 ? result.values : null;
+  }
+
+  /**
+   * Name PostgreSQL gives an unnamed constraint: orders_pkey, orders_email_key,
+   * orders_customer_id_fkey, orders_total_check
+   */
+  private defaultConstraintName(table: Table, type: ConstraintRef['type'], columns: string[]): string {
+    switch (type) {
+      case 'primary key':
+        return `${table.name}_pkey`;
+      case 'unique':
+        return `${table.name}_${columns.join('_')}_key`;
+      case 'foreign key':
+        return `${table.name}_${columns.join('_')}_fkey`;
+      case 'check':
+        return columns.length > 0 ? `${table.name}_${columns.join('_')}_check` : `${table.name}_check`;
+    }
+  }
+
+  private formatDataType(dataType: DataTypeDef): string {
+    if (dataType.kind === 'array') {
+      return `${this.formatDataType((dataType as ArrayDataTypeDef).arrayOf)}[]`;
     }
+
+    dataType = dataType as BasicDataTypeDef;
+    const name = dataType.schema ? `${dataType.schema}.${dataType.name}` : dataType.name;
+    const config = dataType.config?.length ? `(${dataType.config.join(',')})` : '';
+    return `${name}${config}`.toUpperCase();
   }
-  
-  private parseUnique(line: string, table: Table): void {
-    const match = line.match(/UNIQUE\s*\(([^)]+)\)/i);
-    if (match) {
-      const columns = match[1].split(',').map(col => col.trim().replace(/["`']/g, ''));
-      table.uniqueConstraints.push(columns);
-    }
-  }
-  
-  private parseConstraint(line: string, table: Table): void {
-    const upperLine = line.toUpperCase();
-    
-    if (upperLine.includes('PRIMARY KEY')) {
-      this.parsePrimaryKey(line, table);
-    } else if (upperLine.includes('FOREIGN KEY')) {
-      this.parseForeignKey(line, table);
-    } else if (upperLine.includes('UNIQUE')) {
-      this.parseUnique(line, table);
-    } else if (upperLine.includes('CHECK')) {
-      throw new Error('Unsupported SQL construct: CHECK constraint');
-    } else {
-      throw new Error(`Unsupported SQL construct: ${line.split(/\s+/)[0] || 'UNKNOWN'}`);
+
+  private toExtractedTable(
+    table: Table,
+    source: ExtractedTable['source'],
+    createStatement: string | undefined,
+    withLocations: boolean
+  ): ExtractedTable {
+    const columns: ColumnDef[] = Object.values(table.columns).map(column => ({
+      name: column.name,
+      type: column.type,
+      ...(column.resolvedType ? { resolvedType: column.resolvedType } : {}),
+      ...(column.resolvedKind ? { resolvedKind: column.resolvedKind } : {}),
+      nullable: column.nullable,
+      primaryKey: column.primaryKey,
+      unique: column.unique,
+      ...(column.foreignKey ? {
+        foreignKey: {
+          column: column.name,
+          referencesTable: column.foreignKey.table,
+          referencesColumn: column.foreignKey.column
+        }
+      } : {}),
+      ...(withLocations && column.location ? { location: column.location } : {})
+    }));
+
+    const constraints: ConstraintDef[] = [];
+    if (table.primaryKeys.length > 0) {
+      constraints.push({ type: 'primary_key', columns: [...table.primaryKeys] });
+    }
+    for (const unique of table.uniqueConstraints) {
+      constraints.push({ type: 'unique', columns: [...unique] });
+    }
+    for (const fk of table.foreignKeys) {
+      constraints.push({
+        type: 'foreign_key',
+        ...(fk.name ? { name: fk.name } : {}),
+        columns: [...fk.columns],
+        references: { schema: fk.referencesSchema, table: fk.referencesTable, columns: [...fk.referencesColumns] },
+        ...(fk.onDelete ? { onDelete: fk.onDelete } : {}),
+        ...(fk.onUpdate ? { onUpdate: fk.onUpdate } : {})
+      });
     }
+    for (const check of table.checkConstraints || []) {
+      constraints.push({
+        type: 'check',
+        ...(check.name ? { name: check.name } : {}),
+        columns: [...check.columns],
+        expression: check.expression,
+        ...(check.allowedValues ? { allowedValues: [...check.allowedValues] } : {})
+      });
+    }
+
+    return {
+      schema: table.schemaName || 'public',
+      tableName: table.name,
+      columns,
+      constraints,
+      source,
+      ...(createStatement ? { createStatement } : {}),
+      ...(withLocations && table.location ? { location: table.location } : {})
+    };
   }
 }
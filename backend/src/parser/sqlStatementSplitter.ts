@@ -0,0 +1,327 @@
+/**
+ * SQL Statement Splitter
+ *
+ * Lexically aware statement splitting for PostgreSQL scripts. Understands:
+ * - single-quoted and E'' escape strings
+ * - double-quoted identifiers
+ * - dollar-quoted strings ($$...$$, $tag$...$tag$)
+ * - line comments and nested block comments
+ * - COPY ... FROM stdin data blocks terminated by "\."
+ *
+ * Other dialects pass their own SQLSyntax (backtick and [bracket] identifiers,
+ * backslash escapes, # comments, DELIMITER commands, GO batch separators).
+ *
+ * NO: Parsing of statement contents
+ */
+
+import { SQLDialect } from '../types/dumpParser';
+
+export interface SQLStatement {
+  text: string;   // Statement text, starting at its first token, without the trailing semicolon
+  offset: number; // Offset of the first token in the original input
+  line: number;   // 1-based line of the first token
+  column: number; // 1-based column of the first token
+}
+
+export type LineLocator = (offset: number) => { line: number; column: number };
+
+/**
+ * Lexical rules that differ between dialects
+ */
+export interface SQLSyntax {
+  stringQuotes: string;      // Characters that open a string literal, closed by the same character
+  identifierQuotes: string;  // Characters that open a quoted identifier, closed by the same character ('[' by ']')
+  backslashEscapes: boolean; // Backslash escapes in string literals; otherwise only in E'' strings
+  hashComments: boolean;     // '#' starts a line comment
+  dollarQuotes: boolean;     // $$...$$ and $tag$...$tag$ strings
+  copyData: boolean;         // COPY ... FROM stdin is followed by inline data
+  delimiterCommand: boolean; // Client "DELIMITER xx" lines change the statement terminator
+  batchSeparator: boolean;   // Client "GO" lines end the statement
+  lowerCaseNames: boolean;   // Unquoted identifiers fold to lower case; otherwise kept as written
+}
+
+export const POSTGRES_SYNTAX: SQLSyntax = {
+  stringQuotes: `'`,
+  identifierQuotes: '"',
+  backslashEscapes: false,
+  hashComments: false,
+  dollarQuotes: true,
+  copyData: true,
+  delimiterCommand: false,
+  batchSeparator: false,
+  lowerCaseNames: true
+};
+
+export const MYSQL_SYNTAX: SQLSyntax = {
+  stringQuotes: `'"`,
+  identifierQuotes: '`',
+  backslashEscapes: true,
+  hashComments: true,
+  dollarQuotes: false,
+  copyData: false,
+  delimiterCommand: true,
+  batchSeparator: false,
+  lowerCaseNames: false
+};
+
+export const SQLITE_SYNTAX: SQLSyntax = {
+  stringQuotes: `'`,
+  identifierQuotes: '"`[',
+  backslashEscapes: false,
+  hashComments: false,
+  dollarQuotes: false,
+  copyData: false,
+  delimiterCommand: false,
+  batchSeparator: false,
+  lowerCaseNames: false
+};
+
+export const TSQL_SYNTAX: SQLSyntax = {
+  stringQuotes: `'`,
+  identifierQuotes: '"[',
+  backslashEscapes: false,
+  hashComments: false,
+  dollarQuotes: false,
+  copyData: false,
+  delimiterCommand: false,
+  batchSeparator: true,
+  lowerCaseNames: false
+};
+
+export const DIALECT_SYNTAX: Record<SQLDialect, SQLSyntax> = {
+  postgres: POSTGRES_SYNTAX,
+  mysql: MYSQL_SYNTAX,
+  sqlite: SQLITE_SYNTAX,
+  tsql: TSQL_SYNTAX
+};
+
+/**
+ * The character that closes a quote opened by `quote`
+ */
+export function closingQuote(quote: string): string {
+  return quote === '[' ? ']' : quote;
+}
+
+/**
+ * Split a SQL script into statements, tracking where each one starts
+ */
+export function splitSQLStatements(sql: string, syntax: SQLSyntax = POSTGRES_SYNTAX): SQLStatement[] {
+  const statements: SQLStatement[] = [];
+  const locate = createLineLocator(sql);
+  let delimiter = ';';
+  let start = -1;
+  let i = 0;
+
+  const flush = (end: number): string => {
+    const text = start >= 0 ? sql.slice(start, end).trimEnd() : '';
+    if (text) {
+      statements.push({ text, offset: start, ...locate(start) });
+    }
+    start = -1;
+    return text;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if ((char === '-' && next === '-') || (char === '#' && syntax.hashComments)) {
+      i = skipLineComment(sql, i);
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      continue;
+    }
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (syntax.batchSeparator && isBatchSeparator(sql, i)) {
+      flush(i);
+      i = skipLineComment(sql, i);
+      continue;
+    }
+
+    if (start < 0) {
+      const command = syntax.delimiterCommand ? sql.slice(i, skipLineComment(sql, i)).match(/^DELIMITER\s+(\S+)/i) : null;
+      if (command) {
+        delimiter = command[1];
+        i = skipLineComment(sql, i);
+        continue;
+      }
+      start = i;
+    }
+
+    if (syntax.stringQuotes.includes(char) || syntax.identifierQuotes.includes(char)) {
+      i = skipQuoted(sql, i, closingQuote(char), isBackslashEscaped(sql, i, syntax));
+    } else if (char === '$' && syntax.dollarQuotes && dollarTagAt(sql, i)) {
+      i = skipDollarQuoted(sql, i);
+    } else if (sql.startsWith(delimiter, i)) {
+      const text = flush(i);
+      i += delimiter.length;
+      if (syntax.copyData && /^COPY\b[\s\S]*\bFROM\s+STDIN\b/i.test(text)) {
+        i = skipCopyData(sql, i);
+      }
+    } else {
+      i++;
+    }
+  }
+
+  flush(sql.length);
+  return statements;
+}
+
+/**
+ * Replace the contents of comments, strings, quoted identifiers and dollar-quoted
+ * bodies so keyword searches only see code. Length and line breaks are preserved,
+ * so offsets into the masked text are valid offsets into the original.
+ */
+export function maskSQLLiterals(sql: string, syntax: SQLSyntax = POSTGRES_SYNTAX): string {
+  const out: string[] = [];
+  let i = 0;
+
+  const mask = (from: number, to: number, keepDelimiters: number, fill: string) => {
+    for (let j = from; j < to; j++) {
+      const inside = j >= from + keepDelimiters && j < to - keepDelimiters;
+      out.push(sql[j] === '\n' ? '\n' : inside ? fill : sql[j]);
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+    let end = -1;
+
+    if ((char === '-' && next === '-') || (char === '#' && syntax.hashComments)) {
+      end = skipLineComment(sql, i);
+      mask(i, end, 0, ' ');
+    } else if (char === '/' && next === '*') {
+      end = skipBlockComment(sql, i);
+      mask(i, end, 0, ' ');
+    } else if (syntax.stringQuotes.includes(char) || syntax.identifierQuotes.includes(char)) {
+      end = skipQuoted(sql, i, closingQuote(char), isBackslashEscaped(sql, i, syntax));
+      mask(i, end, 1, '_');
+    } else if (char === '$' && syntax.dollarQuotes && dollarTagAt(sql, i)) {
+      end = skipDollarQuoted(sql, i);
+      mask(i, end, 1, '_');
+    }
+
+    if (end >= 0) {
+      i = end;
+    } else {
+      out.push(char);
+      i++;
+    }
+  }
+
+  return out.join('');
+}
+
+/**
+ * Find the offset just past the parenthesis matching the one at `open`.
+ * Expects text already passed through maskSQLLiterals.
+ */
+export function findClosingParen(masked: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === '(') depth++;
+    else if (masked[i] === ')' && --depth === 0) return i + 1;
+  }
+  return -1;
+}
+
+/**
+ * Build an offset -> line/column converter for the given text
+ */
+export function createLineLocator(text: string): LineLocator {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+function skipLineComment(sql: string, i: number): number {
+  const end = sql.indexOf('\n', i);
+  return end < 0 ? sql.length : end;
+}
+
+/**
+ * A "GO" or "GO 5" line, optionally followed by a comment
+ */
+function isBatchSeparator(sql: string, i: number): boolean {
+  if (sql[i] !== 'G' && sql[i] !== 'g') return false;
+  const lineStart = sql.lastIndexOf('\n', i - 1) + 1;
+  return /^[ \t]*$/.test(sql.slice(lineStart, i)) &&
+    /^GO(?:[ \t]+\d+)?[ \t]*(?:--.*)?\r?$/i.test(sql.slice(i, skipLineComment(sql, i)));
+}
+
+function skipBlockComment(sql: string, i: number): number {
+  let depth = 0;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function skipQuoted(sql: string, i: number, close: string, backslashEscapes: boolean): number {
+  i++;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === close) {
+      if (sql[i + 1] !== close) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function skipDollarQuoted(sql: string, i: number): number {
+  const tag = dollarTagAt(sql, i)!;
+  const close = sql.indexOf(tag, i + tag.length);
+  return close < 0 ? sql.length : close + tag.length;
+}
+
+function dollarTagAt(sql: string, i: number): string | null {
+  if (i > 0 && /[\w$]/.test(sql[i - 1])) return null;
+  const match = sql.slice(i, i + 64).match(/^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/);
+  return match ? match[0] : null;
+}
+
+function isBackslashEscaped(sql: string, i: number, syntax: SQLSyntax): boolean {
+  if (!syntax.stringQuotes.includes(sql[i])) return false;
+  return syntax.backslashEscapes || (sql[i] === "'" && isEscapeString(sql, i));
+}
+
+function isEscapeString(sql: string, i: number): boolean {
+  return i > 0 && /[eE]/.test(sql[i - 1]) && (i < 2 || !/[\w$]/.test(sql[i - 2]));
+}
+
+function skipCopyData(sql: string, i: number): number {
+  const terminator = /^\\\.\s*$/m;
+  const match = terminator.exec(sql.slice(i));
+  return match ? i + match.index + match[0].length : sql.length;
+}
@@ -0,0 +1,200 @@
+/**
+ * SQLite Database File Reader
+ *
+ * Reads the schema table (sqlite_master) of a SQLite 3 database file by
+ * walking the table b-tree rooted at page 1. Records that spill into
+ * overflow pages are reassembled. The layout follows the "Database File
+ * Format" page of the SQLite documentation.
+ *
+ * NO: Table data, SQL parsing, analysis
+ */
+
+import { SQLiteSchemaEntry } from '../types/dumpParser';
+
+const MAGIC = 'SQLite format 3\0';
+const HEADER_SIZE = 100;
+
+// B-tree page types
+const INTERIOR_TABLE_PAGE = 0x05;
+const LEAF_TABLE_PAGE = 0x0d;
+
+// Text encodings (header offset 56)
+const UTF8 = 1;
+const UTF16LE = 2;
+
+type SQLiteValue = string | number | Buffer | null;
+
+export class SQLiteFileReader {
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+  private readonly encoding: number;
+
+  constructor(private readonly buffer: Buffer) {
+    if (!SQLiteFileReader.isDatabase(buffer)) {
+      throw new Error('Not a SQLite 3 database file');
+    }
+    const pageSize = buffer.readUInt16BE(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - buffer[20];
+    this.encoding = buffer.readUInt32BE(56) || UTF8;
+  }
+
+  /**
+   * Check for the "SQLite format 3" header string
+   */
+  static isDatabase(buffer: Buffer): boolean {
+    return buffer.length >= HEADER_SIZE && buffer.toString('latin1', 0, MAGIC.length) === MAGIC;
+  }
+
+  /**
+   * Rows of sqlite_master, in rowid order
+   */
+  readSchema(): SQLiteSchemaEntry[] {
+    const rows: SQLiteValue[][] = [];
+    this.readTablePage(1, rows, new Set());
+
+    return rows.map(([type, name, tableName, rootPage, sql]) => ({
+      type: String(type) as SQLiteSchemaEntry['type'],
+      name: String(name),
+      tableName: String(tableName),
+      rootPage: Number(rootPage),
+      sql: sql === null || sql === undefined ? null : String(sql)
+    }));
+  }
+
+  private readTablePage(page: number, rows: SQLiteValue[][], visited: Set<number>): void {
+    const start = (page - 1) * this.pageSize;
+    const header = start + (page === 1 ? HEADER_SIZE : 0);
+    if (page < 1 || header >= this.buffer.length || visited.has(page)) {
+      throw new Error(`Corrupt database: invalid b-tree page ${page}`);
+    }
+    visited.add(page);
+
+    const type = this.buffer[header];
+    if (type !== INTERIOR_TABLE_PAGE && type !== LEAF_TABLE_PAGE) {
+      throw new Error(`Corrupt database: page ${page} is not a table b-tree page (type ${type})`);
+    }
+
+    const cellCount = this.buffer.readUInt16BE(header + 3);
+    const cellPointers = header + (type === INTERIOR_TABLE_PAGE ? 12 : 8);
+
+    for (let i = 0; i < cellCount; i++) {
+      const cell = start + this.buffer.readUInt16BE(cellPointers + 2 * i);
+      if (type === INTERIOR_TABLE_PAGE) {
+        // Interior cells: left child page, then the rowid key
+        this.readTablePage(this.buffer.readUInt32BE(cell), rows, visited);
+      } else {
+        rows.push(this.readRecord(this.readPayload(cell)));
+      }
+    }
+
+    if (type === INTERIOR_TABLE_PAGE) {
+      this.readTablePage(this.buffer.readUInt32BE(header + 8), rows, visited);
+    }
+  }
+
+  /**
+   * Payload of a leaf table cell: size varint, rowid varint, local bytes,
+   * then a chain of overflow pages when the record does not fit the page
+   */
+  private readPayload(cell: number): Buffer {
+    const [size, sizeLength] = readVarint(this.buffer, cell);
+    const [, rowidLength] = readVarint(this.buffer, cell + sizeLength);
+    const local = cell + sizeLength + rowidLength;
+
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) {
+      return this.buffer.subarray(local, local + size);
+    }
+
+    const minLocal = Math.floor((this.usableSize - 12) * 32 / 255) - 23;
+    const spill = minLocal + (size - minLocal) % (this.usableSize - 4);
+    const localSize = spill <= maxLocal ? spill : minLocal;
+
+    const parts = [this.buffer.subarray(local, local + localSize)];
+    let remaining = size - localSize;
+    let overflow = this.buffer.readUInt32BE(local + localSize);
+
+    while (remaining > 0) {
+      const start = (overflow - 1) * this.pageSize;
+      if (overflow < 1 || start + 4 > this.buffer.length) {
+        throw new Error(`Corrupt database: invalid overflow page ${overflow}`);
+      }
+      const length = Math.min(remaining, this.usableSize - 4);
+      parts.push(this.buffer.subarray(start + 4, start + 4 + length));
+      remaining -= length;
+      overflow = this.buffer.readUInt32BE(start);
+    }
+
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Decode a record: a header of serial types followed by the values
+   */
+  private readRecord(payload: Buffer): SQLiteValue[] {
+    const [headerSize, headerLength] = readVarint(payload, 0);
+    const serialTypes: number[] = [];
+    for (let offset = headerLength; offset < headerSize;) {
+      const [serialType, length] = readVarint(payload, offset);
+      serialTypes.push(serialType);
+      offset += length;
+    }
+
+    const values: SQLiteValue[] = [];
+    let offset = headerSize;
+    for (const serialType of serialTypes) {
+      const size = serialTypeSize(serialType);
+      values.push(this.readValue(payload, offset, serialType, size));
+      offset += size;
+    }
+    return values;
+  }
+
+  private readValue(payload: Buffer, offset: number, serialType: number, size: number): SQLiteValue {
+    switch (serialType) {
+      case 0: return null;
+      case 1: case 2: case 3: case 4: case 5: return payload.readIntBE(offset, size);
+      case 6: return Number(payload.readBigInt64BE(offset));
+      case 7: return payload.readDoubleBE(offset);
+      case 8: return 0;
+      case 9: return 1;
+    }
+
+    const bytes = payload.subarray(offset, offset + size);
+    if (serialType % 2 === 0) {
+      return Buffer.from(bytes);
+    }
+    if (this.encoding === UTF8) {
+      return bytes.toString('utf8');
+    }
+    // UTF-16be is decoded by swapping to little-endian
+    return (this.encoding === UTF16LE ? bytes : Buffer.from(bytes).swap16()).toString('utf16le');
+  }
+}
+
+/**
+ * Big-endian base-128 varint of up to 9 bytes; the 9th byte contributes all 8 bits
+ */
+function readVarint(buffer: Buffer, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = buffer[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) {
+      return [value, i + 1];
+    }
+  }
+  return [value * 256 + buffer[offset + 8], 9];
+}
+
+function serialTypeSize(serialType: number): number {
+  const sizes = [0, 1, 2, 3, 4, 6, 8, 8, 0, 0];
+  if (serialType < sizes.length) {
+    return sizes[serialType];
+  }
+  if (serialType < 12) {
+    throw new Error(`Corrupt database: reserved serial type ${serialType}`);
+  }
+  return Math.floor((serialType - 12) / 2);
+}
@@ -0,0 +1,344 @@
+/**
+ * SQLite DDL Parser
+ *
+ * Reads CREATE TABLE statements from SQLite scripts, or straight from the
+ * sqlite_master table of a .sqlite/.db file, into the same ExtractedTable
+ * facts the PostgreSQL parser produces:
+ * - "double", `backtick` and [bracket] quoted identifiers
+ * - free-form type names, or none at all
+ * - INTEGER PRIMARY KEY AUTOINCREMENT, ON CONFLICT clauses, WITHOUT ROWID/STRICT
+ * - column-level REFERENCES and FOREIGN KEY clauses without a column list
+ *
+ * CREATE UNIQUE INDEX on plain columns adds a unique constraint to its table;
+ * other statements (INSERT, CREATE INDEX/VIEW/TRIGGER, PRAGMA) are skipped.
+ *
+ * NO: ALTER TABLE replay, analysis
+ */
+
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { ReferentialAction, SourceLocation } from '../types/schema';
+import { splitSQLStatements, createLineLocator, SQLITE_SYNTAX } from './sqlStatementSplitter';
+import { Token, TokenStream, tokenize, splitTokenList } from './ddlTokenizer';
+import { TableFacts, createTableFacts, checkFact, buildConstraints, resolveImplicitReferences, REFERENTIAL_ACTIONS } from './ddlTableFacts';
+import { SQLiteFileReader } from './sqliteFileReader';
+import { SQLParseError } from './sqlParser';
+
+const DEFAULT_SCHEMA = 'main';
+
+// Keywords that end a column's type name and start its constraints
+const COLUMN_CONSTRAINT_WORDS = ['CONSTRAINT', 'PRIMARY', 'NOT', 'NULL', 'UNIQUE', 'CHECK', 'DEFAULT', 'COLLATE', 'REFERENCES', 'GENERATED', 'AS'];
+
+/**
+ * What a CREATE TABLE statement is read against
+ */
+interface StatementContext {
+  text: string;
+  location: (token: Token) => SourceLocation | undefined;
+}
+
+export class SQLiteParser {
+  /**
+   * Parse SQLite DDL into ExtractedTable facts.
+   *
+   * When an `errors` array is given, statements that fail to parse are recorded
+   * there and skipped instead of aborting the whole script.
+   */
+  extractTables(
+    sqlContent: string,
+    options: { source?: ExtractedTable['source']; errors?: string[]; file?: string; locations?: boolean } = {}
+  ): ExtractedTable[] {
+    const locate = createLineLocator(sqlContent);
+    const tables: ExtractedTable[] = [];
+
+    for (const statement of splitSQLStatements(sqlContent, SQLITE_SYNTAX)) {
+      try {
+        const stream = new TokenStream(
+          tokenize(statement.text, SQLITE_SYNTAX),
+          offset => locate(statement.offset + offset),
+          statement.text.length
+        );
+        if (stream.isWord('CREATE', 'UNIQUE', 'INDEX')) {
+          this.applyUniqueIndex(stream, tables);
+          continue;
+        }
+        if (!this.isCreateTable(stream)) {
+          continue;
+        }
+
+        const context: StatementContext = {
+          text: statement.text,
+          location: token => options.locations === false ? undefined : {
+            ...(options.file ? { file: options.file } : {}),
+            ...locate(statement.offset + token.offset)
+          }
+        };
+        const table = this.parseCreateTable(stream, context, options.source || 'sql');
+        if (table) {
+          tables.push(table);
+        }
+      } catch (error) {
+        if (!options.errors) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        options.errors.push(error instanceof SQLParseError ? message : `Statement at line ${statement.line}: ${message}`);
+      }
+    }
+
+    resolveImplicitReferences(tables);
+    return tables;
+  }
+
+  /**
+   * Read the CREATE TABLE text stored in a database file's sqlite_master.
+   * Internal sqlite_* tables are left out; the stored text has no useful
+   * source positions, so no locations are reported.
+   */
+  extractTablesFromDatabase(database: Buffer, options: { errors?: string[] } = {}): ExtractedTable[] {
+    const statements = new SQLiteFileReader(database).readSchema()
+      .filter(entry => (entry.type === 'table' || entry.type === 'index') && entry.sql && !entry.name.startsWith('sqlite_'))
+      .map(entry => entry.sql);
+
+    // Stored text may end in a line comment, so terminators go on their own line
+    return this.extractTables(statements.join('\n;\n'), { source: 'dump', errors: options.errors, locations: false });
+  }
+
+  /**
+   * CREATE UNIQUE INDEX [IF NOT EXISTS] [schema.]name ON table (columns) [WHERE ...].
+   * Partial and expression indexes constrain only some rows or values, and add nothing.
+   */
+  private applyUniqueIndex(stream: TokenStream, tables: ExtractedTable[]): void {
+    stream.expectWord('CREATE', 'UNIQUE', 'INDEX');
+    stream.acceptWord('IF', 'NOT', 'EXISTS');
+    const index = this.readQualifiedName(stream, DEFAULT_SCHEMA);
+    stream.expectWord('ON');
+    const tableName = stream.readName().value;
+    const parts = splitTokenList(stream.readGroup());
+    const table = tables.find(candidate => candidate.schema === index.schema && candidate.tableName.toLowerCase() === tableName.toLowerCase());
+    const plain = parts.every(part => (part[0].kind === 'word' || part[0].kind === 'identifier') && part[1]?.value !== '(');
+    if (!table || !plain || !stream.atEnd()) {
+      return;
+    }
+    const columns = parts.map(part => table.columns.find(column => column.name.toLowerCase() === part[0].value.toLowerCase())?.name);
+    if (columns.every(Boolean)) {
+      table.constraints.push({ type: 'unique', columns: columns as string[] });
+    }
+  }
+
+  private isCreateTable(stream: TokenStream): boolean {
+    return stream.isWord('CREATE', 'TABLE') || stream.isWord('CREATE', 'TEMP', 'TABLE') || stream.isWord('CREATE', 'TEMPORARY', 'TABLE');
+  }
+
+  /**
+   * CREATE [TEMP] TABLE [IF NOT EXISTS] [schema.]name (definitions) [WITHOUT ROWID] [, STRICT].
+   * CREATE TABLE ... AS SELECT has no definitions of its own and is skipped.
+   */
+  private parseCreateTable(stream: TokenStream, context: StatementContext, source: ExtractedTable['source']): ExtractedTable | null {
+    stream.expectWord('CREATE');
+    const temporary = stream.acceptWord('TEMP') || stream.acceptWord('TEMPORARY');
+    stream.expectWord('TABLE');
+    stream.acceptWord('IF', 'NOT', 'EXISTS');
+    const name = this.readQualifiedName(stream, temporary ? 'temp' : DEFAULT_SCHEMA);
+
+    if (!stream.isSymbol('(')) {
+      return null;
+    }
+
+    const facts = createTableFacts();
+    for (const definition of splitTokenList(stream.readGroup())) {
+      this.parseDefinition(stream.over(definition), facts, name.schema, context);
+    }
+
+    const location = context.location(name.token);
+    return {
+      schema: name.schema,
+      tableName: name.name,
+      columns: facts.columns,
+      constraints: buildConstraints(facts),
+      source,
+      createStatement: context.text,
+      ...(location ? { location } : {})
+    };
+  }
+
+  /**
+   * One comma-separated entry of the table body: a column or a table constraint
+   */
+  private parseDefinition(stream: TokenStream, facts: TableFacts, schema: string, context: StatementContext): void {
+    let constraintName: string | undefined;
+    if (stream.acceptWord('CONSTRAINT')) {
+      constraintName = stream.readName().value;
+    }
+
+    if (stream.acceptWord('PRIMARY', 'KEY')) {
+      facts.primaryKey.push(...this.readIndexedColumns(stream));
+      this.skipConflictClause(stream);
+    } else if (stream.acceptWord('UNIQUE')) {
+      facts.uniques.push(this.readIndexedColumns(stream));
+      this.skipConflictClause(stream);
+    } else if (stream.acceptWord('CHECK')) {
+      facts.checks.push(checkFact(stream.readGroup(), context.text, constraintName));
+    } else if (stream.acceptWord('FOREIGN', 'KEY')) {
+      const columns = this.readIndexedColumns(stream);
+      facts.foreignKeys.push(this.readReference(stream, columns, constraintName, schema));
+    } else if (constraintName !== undefined) {
+      throw stream.error(stream.peek());
+    } else {
+      this.parseColumn(stream, facts, schema, context);
+    }
+  }
+
+  private parseColumn(stream: TokenStream, facts: TableFacts, schema: string, context: StatementContext): void {
+    const nameToken = stream.readName();
+    const location = context.location(nameToken);
+    const column: ColumnDef = {
+      name: nameToken.value,
+      type: this.readTypeName(stream),
+      nullable: true,
+      primaryKey: false,
+      unique: false,
+      ...(location ? { location } : {})
+    };
+
+    let constraintName: string | undefined;
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('CONSTRAINT')) {
+        constraintName = stream.readName().value;
+        continue;
+      }
+
+      if (stream.acceptWord('PRIMARY', 'KEY')) {
+        stream.acceptWord('ASC') || stream.acceptWord('DESC');
+        this.skipConflictClause(stream);
+        stream.acceptWord('AUTOINCREMENT');
+        column.primaryKey = true;
+        facts.primaryKey.push(column.name);
+      } else if (stream.acceptWord('NOT', 'NULL')) {
+        column.nullable = false;
+        this.skipConflictClause(stream);
+      } else if (stream.acceptWord('NULL')) {
+        column.nullable = true;
+        this.skipConflictClause(stream);
+      } else if (stream.acceptWord('UNIQUE')) {
+        this.skipConflictClause(stream);
+        column.unique = true;
+        facts.uniques.push([column.name]);
+      } else if (stream.acceptWord('CHECK')) {
+        facts.checks.push(checkFact(stream.readGroup(), context.text, constraintName));
+      } else if (stream.acceptWord('DEFAULT')) {
+        this.skipDefault(stream);
+      } else if (stream.acceptWord('COLLATE')) {
+        stream.readName();
+      } else if (stream.isWord('REFERENCES')) {
+        facts.foreignKeys.push(this.readReference(stream, [column.name], constraintName, schema));
+      } else if (stream.acceptWord('GENERATED', 'ALWAYS') || stream.isWord('AS')) {
+        stream.expectWord('AS');
+        stream.readGroup();
+        stream.acceptWord('STORED') || stream.acceptWord('VIRTUAL');
+      } else {
+        throw stream.error(stream.peek());
+      }
+      constraintName = undefined;
+    }
+
+    facts.columns.push(column);
+  }
+
+  /**
+   * Type names are any run of words with optional (size) arguments, e.g.
+   * VARYING CHARACTER(255) or UNSIGNED BIG INT; the type may be left out
+   */
+  private readTypeName(stream: TokenStream): string {
+    const words: string[] = [];
+    while (stream.peek()?.kind === 'word' && !COLUMN_CONSTRAINT_WORDS.some(word => stream.isWord(word))) {
+      words.push(stream.next().value.toUpperCase());
+    }
+
+    let args = '';
+    if (words.length > 0 && stream.isSymbol('(')) {
+      args = `(${stream.readGroup().map(token => token.value).join('')})`;
+    }
+    return `${words.join(' ')}${args}`;
+  }
+
+  /**
+   * DEFAULT takes a literal, a signed number or a parenthesized expression
+   */
+  private skipDefault(stream: TokenStream): void {
+    if (stream.isSymbol('(')) {
+      stream.readGroup();
+      return;
+    }
+    if (stream.acceptSymbol('-') || stream.acceptSymbol('+')) {
+      stream.next();
+      return;
+    }
+    stream.next();
+  }
+
+  private skipConflictClause(stream: TokenStream): void {
+    if (stream.acceptWord('ON', 'CONFLICT')) {
+      stream.next();
+    }
+  }
+
+  /**
+   * (indexed-column, ...): the plain column names; expressions name no column
+   */
+  private readIndexedColumns(stream: TokenStream): string[] {
+    return splitTokenList(stream.readGroup())
+      .filter(part => part[0].kind === 'word' || part[0].kind === 'identifier')
+      .map(part => part[0].value);
+  }
+
+  /**
+   * REFERENCES table [(columns)] [ON DELETE/UPDATE action | MATCH name]...
+   * [[NOT] DEFERRABLE [INITIALLY DEFERRED|IMMEDIATE]]. Without a column list
+   * the referenced table's primary key is filled in once all tables are read.
+   */
+  private readReference(stream: TokenStream, columns: string[], name: string | undefined, schema: string): ConstraintDef {
+    stream.expectWord('REFERENCES');
+    // Foreign keys always reference a table in the same schema
+    const table = stream.readName().value;
+    const referencesColumns = stream.isSymbol('(') ? this.readIndexedColumns(stream) : [];
+    const actions: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {};
+
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('ON', 'DELETE')) {
+        actions.onDelete = this.readReferentialAction(stream);
+      } else if (stream.acceptWord('ON', 'UPDATE')) {
+        actions.onUpdate = this.readReferentialAction(stream);
+      } else if (stream.acceptWord('MATCH')) {
+        stream.readName();
+      } else if (stream.acceptWord('NOT', 'DEFERRABLE') || stream.acceptWord('DEFERRABLE')) {
+        stream.acceptWord('INITIALLY', 'DEFERRED') || stream.acceptWord('INITIALLY', 'IMMEDIATE');
+      } else {
+        break;
+      }
+    }
+
+    return {
+      type: 'foreign_key',
+      ...(name ? { name } : {}),
+      columns,
+      references: { schema, table, columns: referencesColumns },
+      ...actions
+    };
+  }
+
+  private readReferentialAction(stream: TokenStream): ReferentialAction {
+    const action = REFERENTIAL_ACTIONS.find(candidate => stream.acceptWord(...candidate.split(' ')));
+    if (!action) {
+      throw stream.error(stream.peek());
+    }
+    return action;
+  }
+
+  private readQualifiedName(stream: TokenStream, schema: string): { schema: string; name: string; token: Token } {
+    const first = stream.readName();
+    if (!stream.acceptSymbol('.')) {
+      return { schema, name: first.value, token: first };
+    }
+    return { schema: first.value, name: stream.readName().value, token: first };
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * SQL Server T-SQL DDL Parser
+ *
+ * Reads CREATE TABLE statements, and the ALTER TABLE ... ADD CONSTRAINT
+ * statements SSMS scripts put foreign keys in, into the same ExtractedTable
+ * facts the PostgreSQL parser produces:
+ * - [bracketed] and "quoted" identifiers, dbo.-style and three-part names
+ * - GO batch separators and statements without semicolons
+ * - IDENTITY(1,1), NVARCHAR(MAX), CLUSTERED/NONCLUSTERED keys, WITH/ON options
+ *
+ * Procedures, functions, triggers, views and #temp tables are skipped.
+ *
+ * NO: ALTER TABLE other than ADD, analysis
+ */
+
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { ReferentialAction, SourceLocation } from '../types/schema';
+import { splitSQLStatements, createLineLocator, TSQL_SYNTAX } from './sqlStatementSplitter';
+import { Token, TokenStream, tokenize, splitTokenList } from './ddlTokenizer';
+import { TableFacts, createTableFacts, checkFact, buildConstraints, resolveImplicitReferences, REFERENTIAL_ACTIONS } from './ddlTableFacts';
+import { SQLParseError } from './sqlParser';
+
+const DEFAULT_SCHEMA = 'dbo';
+
+// Words that continue a multi-word type name: DOUBLE PRECISION, NATIONAL CHARACTER VARYING
+const TYPE_CONTINUATIONS: Record<string, string[]> = {
+  DOUBLE: ['PRECISION'],
+  NATIONAL: ['CHAR', 'CHARACTER'],
+  CHARACTER: ['VARYING'],
+  CHAR: ['VARYING']
+};
+
+// Objects whose bodies may hold CREATE TABLE statements of their own
+const ROUTINE_WORDS = ['PROC', 'PROCEDURE', 'FUNCTION', 'TRIGGER', 'VIEW'];
+
+/**
+ * What a CREATE/ALTER TABLE statement is read against
+ */
+interface StatementContext {
+  text: string;
+  location: (token: Token) => SourceLocation;
+}
+
+/**
+ * A table whose constraints may still grow through ALTER TABLE ... ADD
+ */
+interface PendingTable {
+  schema: string;
+  tableName: string;
+  facts: TableFacts;
+  createStatement: string;
+  location: SourceLocation;
+}
+
+export class TSQLParser {
+  /**
+   * Parse T-SQL DDL into ExtractedTable facts.
+   *
+   * When an `errors` array is given, statements that fail to parse are recorded
+   * there and skipped instead of aborting the whole script.
+   */
+  extractTables(
+    sqlContent: string,
+    options: { source?: ExtractedTable['source']; errors?: string[]; file?: string } = {}
+  ): ExtractedTable[] {
+    const locate = createLineLocator(sqlContent);
+    const tables = new Map<string, PendingTable>();
+
+    for (const statement of splitSQLStatements(sqlContent, TSQL_SYNTAX)) {
+      const stream = new TokenStream(
+        tokenize(statement.text, TSQL_SYNTAX),
+        offset => locate(statement.offset + offset),
+        statement.text.length
+      );
+      if (this.isRoutine(stream)) {
+        continue;
+      }
+
+      const context: StatementContext = {
+        text: statement.text,
+        location: token => ({ ...(options.file ? { file: options.file } : {}), ...locate(statement.offset + token.offset) })
+      };
+
+      for (const segment of this.tableStatements(stream.rest())) {
+        try {
+          const segmentStream = stream.over(segment);
+          if (segmentStream.isWord('CREATE')) {
+            const table = this.parseCreateTable(segmentStream, context);
+            if (table) {
+              tables.set(`${table.schema}.${table.tableName}`, table);
+            }
+          } else {
+            this.parseAlterTable(segmentStream, context, tables);
+          }
+        } catch (error) {
+          if (!options.errors) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          options.errors.push(error instanceof SQLParseError ? message : `Statement at line ${statement.line}: ${message}`);
+        }
+      }
+    }
+
+    const extracted: ExtractedTable[] = Array.from(tables.values()).map(table => ({
+      schema: table.schema,
+      tableName: table.tableName,
+      columns: table.facts.columns,
+      constraints: buildConstraints(table.facts),
+      source: options.source || 'sql',
+      createStatement: table.createStatement,
+      location: table.location
+    }));
+    resolveImplicitReferences(extracted);
+    return extracted;
+  }
+
+  /**
+   * CREATE [OR ALTER] PROCEDURE/FUNCTION/TRIGGER/VIEW, which fill their own batch
+   */
+  private isRoutine(stream: TokenStream): boolean {
+    const ahead = stream.isWord('CREATE', 'OR', 'ALTER') ? 3 : stream.isWord('CREATE') || stream.isWord('ALTER') ? 1 : -1;
+    const word = ahead > 0 ? stream.peek(ahead) : undefined;
+    return word?.kind === 'word' && ROUTINE_WORDS.includes(word.value.toUpperCase());
+  }
+
+  /**
+   * Statements inside a batch need no semicolon, so the batch is cut at each
+   * top-level CREATE TABLE / ALTER TABLE; anything before the first is dropped
+   */
+  private tableStatements(tokens: Token[]): Token[][] {
+    const segments: Token[][] = [];
+    let depth = 0;
+
+    tokens.forEach((token, i) => {
+      if (token.kind === 'symbol' && token.value === '(') depth++;
+      if (token.kind === 'symbol' && token.value === ')') depth--;
+
+      const next = tokens[i + 1];
+      const startsTableStatement = depth === 0 && token.kind === 'word' && next?.kind === 'word' &&
+        ['CREATE', 'ALTER'].includes(token.value.toUpperCase()) && next.value.toUpperCase() === 'TABLE';
+      if (startsTableStatement) {
+        segments.push([]);
+      }
+      segments[segments.length - 1]?.push(token);
+    });
+
+    return segments;
+  }
+
+  /**
+   * CREATE TABLE name (definitions) [ON filegroup] [TEXTIMAGE_ON filegroup] [WITH (...)].
+   * #temp tables are session-scoped and skipped.
+   */
+  private parseCreateTable(stream: TokenStream, context: StatementContext): PendingTable | null {
+    stream.expectWord('CREATE', 'TABLE');
+    if (stream.isSymbol('#')) {
+      return null;
+    }
+    const name = this.readObjectName(stream);
+
+    if (!stream.isSymbol('(')) {
+      return null;
+    }
+
+    const facts = createTableFacts();
+    for (const definition of splitTokenList(stream.readGroup())) {
+      this.parseDefinition(stream.over(definition), facts, context);
+    }
+
+    return {
+      schema: name.schema,
+      tableName: name.name,
+      facts,
+      createStatement: context.text,
+      location: context.location(name.token)
+    };
+  }
+
+  /**
+   * ALTER TABLE name [WITH CHECK | WITH NOCHECK] ADD definition, ...
+   */
+  private parseAlterTable(stream: TokenStream, context: StatementContext, tables: Map<string, PendingTable>): void {
+    stream.expectWord('ALTER', 'TABLE');
+    const name = this.readObjectName(stream);
+    stream.acceptWord('WITH', 'CHECK') || stream.acceptWord('WITH', 'NOCHECK');
+    if (!stream.acceptWord('ADD')) {
+      return;
+    }
+
+    const table = tables.get(`${name.schema}.${name.name}`);
+    if (!table) {
+      throw new Error(`Table ${name.schema}.${name.name} is not defined`);
+    }
+    for (const definition of splitTokenList(stream.rest())) {
+      this.parseDefinition(stream.over(definition), table.facts, context);
+    }
+  }
+
+  /**
+   * One comma-separated entry: a column or a table-level constraint
+   */
+  private parseDefinition(stream: TokenStream, facts: TableFacts, context: StatementContext): void {
+    let constraintName: string | undefined;
+    if (stream.acceptWord('CONSTRAINT')) {
+      constraintName = stream.readName().value;
+    }
+
+    if (stream.acceptWord('PRIMARY', 'KEY')) {
+      facts.primaryKey.push(...this.readKeyColumns(stream));
+    } else if (stream.acceptWord('UNIQUE')) {
+      facts.uniques.push(this.readKeyColumns(stream));
+    } else if (stream.acceptWord('FOREIGN', 'KEY')) {
+      const columns = this.readKeyColumns(stream);
+      facts.foreignKeys.push(this.readReference(stream, columns, constraintName));
+    } else if (stream.acceptWord('CHECK')) {
+      stream.acceptWord('NOT', 'FOR', 'REPLICATION');
+      facts.checks.push(checkFact(stream.readGroup(), context.text, constraintName));
+    } else if (stream.isWord('DEFAULT')) {
+      // DEFAULT value FOR column, from ALTER TABLE ... ADD CONSTRAINT
+      stream.rest();
+    } else if (constraintName !== undefined) {
+      throw stream.error(stream.peek());
+    } else if (stream.isWord('INDEX') || stream.isWord('PERIOD', 'FOR')) {
+      // Inline indexes and system-time periods carry no normalization facts
+      stream.rest();
+    } else {
+      this.parseColumn(stream, facts, context);
+    }
+  }
+
+  private parseColumn(stream: TokenStream, facts: TableFacts, context: StatementContext): void {
+    const nameToken = stream.readName();
+    if (stream.isWord('AS')) {
+      // Computed columns are derived from other columns and hold no facts of their own
+      stream.rest();
+      return;
+    }
+
+    const column: ColumnDef = {
+      name: nameToken.value,
+      type: this.readDataType(stream),
+      nullable: true,
+      primaryKey: false,
+      unique: false,
+      location: context.location(nameToken)
+    };
+
+    let constraintName: string | undefined;
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('CONSTRAINT')) {
+        constraintName = stream.readName().value;
+        continue;
+      }
+
+      if (stream.acceptWord('NOT', 'NULL')) {
+        column.nullable = false;
+      } else if (stream.acceptWord('NULL')) {
+        column.nullable = true;
+      } else if (stream.acceptWord('PRIMARY', 'KEY')) {
+        column.primaryKey = true;
+        facts.primaryKey.push(column.name);
+      } else if (stream.acceptWord('UNIQUE')) {
+        column.unique = true;
+        facts.uniques.push([column.name]);
+      } else if (stream.acceptWord('DEFAULT')) {
+        this.skipExpression(stream);
+      } else if (stream.acceptWord('CHECK')) {
+        stream.acceptWord('NOT', 'FOR', 'REPLICATION');
+        facts.checks.push(checkFact(stream.readGroup(), context.text, constraintName));
+      } else if (stream.acceptWord('FOREIGN', 'KEY') || stream.isWord('REFERENCES')) {
+        facts.foreignKeys.push(this.readReference(stream, [column.name], constraintName));
+      } else if (stream.acceptWord('COLLATE') || stream.acceptWord('INDEX')) {
+        stream.readName();
+      } else {
+        // IDENTITY(1,1), CLUSTERED, ROWGUIDCOL, SPARSE, NOT FOR REPLICATION, WITH (...), ON [PRIMARY], ...
+        stream.next();
+        if (stream.isSymbol('(')) stream.readGroup();
+      }
+      constraintName = undefined;
+    }
+
+    facts.columns.push(column);
+  }
+
+  /**
+   * Type name with its arguments, e.g. NVARCHAR(MAX), DECIMAL(18,2).
+   * Built-in types are upper-cased; user-defined types keep their schema.
+   */
+  private readDataType(stream: TokenStream): string {
+    const first = stream.readName();
+    let name = first.value.toUpperCase();
+    if (stream.acceptSymbol('.')) {
+      name = `${first.value}.${stream.readName().value}`;
+    }
+
+    let continuation = TYPE_CONTINUATIONS[name]?.find(word => stream.isWord(word));
+    while (continuation) {
+      stream.next();
+      name = `${name} ${continuation}`;
+      continuation = TYPE_CONTINUATIONS[continuation]?.find(word => stream.isWord(word));
+    }
+
+    if (!stream.isSymbol('(')) {
+      return name;
+    }
+    const args = stream.readGroup().map(token => token.kind === 'word' ? token.value.toUpperCase() : token.value);
+    return `${name}(${args.join('')})`;
+  }
+
+  /**
+   * Skip a DEFAULT value: a literal, a (possibly called) function name,
+   * a parenthesized expression or an N'unicode' string
+   */
+  private skipExpression(stream: TokenStream): void {
+    if (stream.isSymbol('(')) {
+      stream.readGroup();
+      return;
+    }
+    if (stream.acceptSymbol('-') || stream.acceptSymbol('+')) {
+      stream.next();
+      return;
+    }
+    const token = stream.next();
+    if (token.kind === 'word' && stream.isSymbol('(')) {
+      stream.readGroup();
+    } else if (token.kind === 'word' && stream.peek()?.kind === 'string') {
+      stream.next();
+    }
+  }
+
+  /**
+   * [CLUSTERED | NONCLUSTERED] (column [ASC|DESC], ...): the key's column names
+   */
+  private readKeyColumns(stream: TokenStream): string[] {
+    stream.acceptWord('CLUSTERED') || stream.acceptWord('NONCLUSTERED');
+    return splitTokenList(stream.readGroup())
+      .filter(part => part[0].kind === 'word' || part[0].kind === 'identifier')
+      .map(part => part[0].value);
+  }
+
+  /**
+   * REFERENCES table [(columns)] [ON DELETE action] [ON UPDATE action] [NOT FOR REPLICATION].
+   * Without a column list the referenced table's primary key is filled in later.
+   */
+  private readReference(stream: TokenStream, columns: string[], name: string | undefined): ConstraintDef {
+    stream.expectWord('REFERENCES');
+    const table = this.readObjectName(stream);
+    const referencesColumns = stream.isSymbol('(') ? this.readKeyColumns(stream) : [];
+    const actions: { onDelete?: ReferentialAction; onUpdate?: ReferentialAction } = {};
+
+    while (!stream.atEnd()) {
+      if (stream.acceptWord('ON', 'DELETE')) {
+        actions.onDelete = this.readReferentialAction(stream);
+      } else if (stream.acceptWord('ON', 'UPDATE')) {
+        actions.onUpdate = this.readReferentialAction(stream);
+      } else if (!stream.acceptWord('NOT', 'FOR', 'REPLICATION')) {
+        break;
+      }
+    }
+
+    return {
+      type: 'foreign_key',
+      ...(name ? { name } : {}),
+      columns,
+      references: { schema: table.schema, table: table.name, columns: referencesColumns },
+      ...actions
+    };
+  }
+
+  private readReferentialAction(stream: TokenStream): ReferentialAction {
+    const action = REFERENTIAL_ACTIONS.find(candidate => stream.acceptWord(...candidate.split(' ')));
+    if (!action) {
+      throw stream.error(stream.peek());
+    }
+    return action;
+  }
+
+  /**
+   * [[server.]database.][schema.]name; database..name skips the schema
+   */
+  private readObjectName(stream: TokenStream): { schema: string; name: string; token: Token } {
+    const first = stream.readName();
+    const parts: Array<string | null> = [first.value];
+    while (stream.acceptSymbol('.')) {
+      parts.push(stream.isSymbol('.') ? null : stream.readName().value);
+    }
+
+    const schema = parts.length > 1 ? parts[parts.length - 2] : null;
+    return { schema: schema || DEFAULT_SCHEMA, name: parts[parts.length - 1]!, token: first };
+  }
+}
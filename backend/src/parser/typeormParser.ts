@@ -0,0 +1,314 @@
+/**
+ * TypeORM Entity Parser
+ *
+ * Reads `@Entity` classes from TypeScript sources into ExtractedTable facts:
+ * - @Column, @PrimaryColumn and @PrimaryGeneratedColumn, typed by their
+ *   `type` or the property's TypeScript type
+ * - @CreateDateColumn, @UpdateDateColumn, @DeleteDateColumn and @VersionColumn
+ * - @ManyToOne and @OneToOne (with @JoinColumn) as foreign key columns
+ * - class-level @Unique
+ *
+ * Names follow TypeORM's default naming strategy: tables are the snake_cased
+ * class name, columns the property name and join columns `<property>Id`.
+ * @OneToMany and @ManyToMany sides are skipped.
+ *
+ * NO: Module resolution, custom naming strategies, indexes, analysis
+ */
+
+import * as ts from 'typescript';
+import { ExtractedTable, ColumnDef, ConstraintDef } from '../types/dumpParser';
+import { OrmSourceFile } from '../types/orm';
+import { TableFacts, createTableFacts, buildConstraints } from './ddlTableFacts';
+import {
+  ChainCall, parseSource, nodeLocation, literalValue, stringValue, objectProperties, propertyName,
+  functionResult, referentialAction, decoratorsOf, decoratorCall
+} from './ormSourceReader';
+
+const DEFAULT_SCHEMA = 'public';
+
+const COLUMN_DECORATORS = ['Column', 'PrimaryColumn', 'PrimaryGeneratedColumn', 'CreateDateColumn', 'UpdateDateColumn', 'DeleteDateColumn', 'VersionColumn'];
+const RELATION_DECORATORS = ['ManyToOne', 'OneToOne'];
+
+// Column types of the TypeScript property types, when the decorator names none
+const PROPERTY_TYPES: Record<string, string> = {
+  string: 'VARCHAR',
+  number: 'INTEGER',
+  boolean: 'BOOLEAN',
+  bigint: 'BIGINT',
+  Date: 'TIMESTAMP',
+  Buffer: 'BYTEA'
+};
+
+/**
+ * An entity class found in the sources, before relations are resolved
+ */
+interface Entity {
+  className: string;
+  schema: string;
+  name: string;
+  file: string;
+  node: ts.ClassDeclaration;
+  facts: TableFacts;
+}
+
+/**
+ * A @ManyToOne/@OneToOne join column waiting for its target entity's primary key
+ */
+interface PendingRelation {
+  entity: Entity;
+  target: string;
+  property: ts.PropertyDeclaration;
+  relation: ChainCall;
+  joinColumns: Map<string, ts.Expression>[];
+  unique: boolean;
+}
+
+export class TypeORMParser {
+  /**
+   * Parse TypeORM entities into ExtractedTable facts.
+   *
+   * When an `errors` array is given, entities that fail to parse are recorded
+   * there and skipped instead of aborting.
+   */
+  extractTables(sources: OrmSourceFile[], options: { errors?: string[] } = {}): ExtractedTable[] {
+    const entities: Entity[] = [];
+    const relations: PendingRelation[] = [];
+
+    for (const source of sources) {
+      for (const node of parseSource(source).statements.filter(ts.isClassDeclaration)) {
+        const entity = this.readEntity(node, source.path);
+        if (entity) {
+          entities.push(entity);
+          relations.push(...this.readMembers(entity));
+        }
+      }
+    }
+
+    // Join columns need the target's primary key, which may be declared in a later file
+    const byClass = new Map(entities.map(entity => [entity.className, entity]));
+    const failed = new Set<Entity>();
+    for (const relation of relations) {
+      try {
+        this.addJoinColumns(relation, byClass);
+      } catch (error) {
+        if (!options.errors) {
+          throw error;
+        }
+        options.errors.push(`${relation.entity.file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        failed.add(relation.entity);
+      }
+    }
+
+    return entities
+      .filter(entity => !failed.has(entity))
+      .map(entity => ({
+        schema: entity.schema,
+        tableName: entity.name,
+        columns: entity.facts.columns,
+        constraints: buildConstraints(entity.facts),
+        source: 'sql' as const,
+        location: nodeLocation(entity.node.name || entity.node, entity.file)
+      }));
+  }
+
+  /**
+   * @Entity(), @Entity('name') or @Entity({ name, schema })
+   */
+  private readEntity(node: ts.ClassDeclaration, file: string): Entity | null {
+    const decorator = decoratorsOf(node).map(decoratorCall).find(call => call?.name === 'Entity');
+    if (!decorator || !node.name) {
+      return null;
+    }
+
+    const options = objectProperties(decorator.args.find(ts.isObjectLiteralExpression));
+    const name = stringValue(decorator.args[0]) || stringValue(options.get('name')) || this.snakeCase(node.name.text);
+    return {
+      className: node.name.text,
+      schema: stringValue(options.get('schema')) || DEFAULT_SCHEMA,
+      name,
+      file,
+      node,
+      facts: createTableFacts()
+    };
+  }
+
+  /**
+   * Add column properties to the entity's facts and return its relations
+   */
+  private readMembers(entity: Entity): PendingRelation[] {
+    const relations: PendingRelation[] = [];
+
+    for (const member of entity.node.members) {
+      if (!ts.isPropertyDeclaration(member)) {
+        continue;
+      }
+      const decorators = decoratorsOf(member).map(decoratorCall).filter((call): call is ChainCall => !!call);
+      const column = decorators.find(call => COLUMN_DECORATORS.includes(call.name));
+      const relation = decorators.find(call => RELATION_DECORATORS.includes(call.name));
+      const joinColumn = decorators.find(call => call.name === 'JoinColumn');
+
+      if (column) {
+        this.readColumn(member, column, entity);
+      } else if (relation && (relation.name === 'ManyToOne' || joinColumn)) {
+        const target = functionResult(relation.args[0]);
+        const joinArg = joinColumn?.args[0];
+        relations.push({
+          entity,
+          target: target && ts.isIdentifier(target) ? target.text : stringValue(relation.args[0]) || '',
+          property: member,
+          relation,
+          joinColumns: joinArg && ts.isArrayLiteralExpression(joinArg)
+            ? joinArg.elements.map(element => objectProperties(element))
+            : [objectProperties(joinArg)],
+          unique: relation.name === 'OneToOne'
+        });
+      }
+    }
+
+    for (const unique of decoratorsOf(entity.node).map(decoratorCall).filter(call => call?.name === 'Unique')) {
+      const list = unique!.args.find(ts.isArrayLiteralExpression);
+      if (list) {
+        entity.facts.uniques.push(list.elements.map(element => this.columnNameOf(entity, stringValue(element) || element.getText())));
+      }
+    }
+    return relations;
+  }
+
+  /**
+   * @Column('varchar', { length: 100 }), @Column({ type: 'int', nullable: true }), @PrimaryGeneratedColumn('uuid'), ...
+   */
+  private readColumn(property: ts.PropertyDeclaration, decorator: ChainCall, entity: Entity): void {
+    const options = objectProperties(decorator.args.find(ts.isObjectLiteralExpression));
+    const typeArg = stringValue(decorator.args[0]) || stringValue(options.get('type'));
+    const primaryKey = decorator.name === 'PrimaryColumn' || decorator.name === 'PrimaryGeneratedColumn' || options.get('primary')?.kind === ts.SyntaxKind.TrueKeyword;
+
+    const column: ColumnDef = {
+      name: stringValue(options.get('name')) || propertyName(property.name),
+      ...this.columnType(property, decorator, typeArg, options),
+      nullable: !primaryKey && (literalValue(options.get('nullable')) === true || decorator.name === 'DeleteDateColumn'),
+      primaryKey,
+      unique: literalValue(options.get('unique')) === true,
+      location: nodeLocation(property.name, entity.file)
+    };
+
+    if (column.primaryKey) {
+      entity.facts.primaryKey.push(column.name);
+    }
+    if (column.unique) {
+      entity.facts.uniques.push([column.name]);
+    }
+    entity.facts.columns.push(column);
+  }
+
+  private columnType(
+    property: ts.PropertyDeclaration,
+    decorator: ChainCall,
+    typeArg: string | undefined,
+    options: Map<string, ts.Expression>
+  ): Pick<ColumnDef, 'type' | 'resolvedType' | 'resolvedKind'> {
+    const suffix = literalValue(options.get('array')) === true ? '[]' : '';
+    const enumType = options.get('enum');
+
+    if (typeArg === 'enum' || (!typeArg && enumType)) {
+      const name = stringValue(options.get('enumName')) || (enumType && ts.isIdentifier(enumType) ? enumType.text : 'ENUM');
+      return { type: `${name}${suffix}`, resolvedType: `${name}${suffix}`, resolvedKind: 'enum' };
+    }
+
+    if (decorator.name === 'PrimaryGeneratedColumn') {
+      return { type: typeArg === 'uuid' ? 'UUID' : 'INTEGER' };
+    }
+    if (!typeArg && decorator.name.endsWith('DateColumn')) {
+      return { type: 'TIMESTAMP' };
+    }
+
+    const size = [options.get('length') || options.get('precision'), options.get('scale')]
+      .map(literalValue)
+      .filter(value => value !== undefined);
+    const base = typeArg ? typeArg.toUpperCase() : this.propertyType(property);
+    return { type: `${base}${size.length > 0 ? `(${size.join(',')})` : ''}${suffix}` };
+  }
+
+  /**
+   * Column type of the property's declared TypeScript type, e.g. `name: string` -> VARCHAR
+   */
+  private propertyType(property: ts.PropertyDeclaration): string {
+    let type = property.type;
+    // `string | null` is a nullable string
+    if (type && ts.isUnionTypeNode(type)) {
+      type = type.types.find(member => !(ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword)) || type;
+    }
+    const text = type ? type.getText() : 'string';
+    return PROPERTY_TYPES[text] || text.toUpperCase();
+  }
+
+  /**
+   * Add the join columns of a @ManyToOne or owning @OneToOne, typed like the
+   * target's primary key, and their foreign key
+   */
+  private addJoinColumns(relation: PendingRelation, entities: Map<string, Entity>): void {
+    const target = entities.get(relation.target);
+    if (!target) {
+      throw new Error(`Cannot resolve relation '${relation.entity.className}.${propertyName(relation.property.name)}' to an entity`);
+    }
+
+    const options = objectProperties(relation.relation.args.find(ts.isObjectLiteralExpression));
+    const propertyKey = propertyName(relation.property.name);
+    const columns: string[] = [];
+    const referenced: string[] = [];
+
+    for (const joinColumn of relation.joinColumns) {
+      const referencedName = stringValue(joinColumn.get('referencedColumnName')) || target.facts.primaryKey[0];
+      if (!referencedName) {
+        throw new Error(`Entity '${target.className}' has no primary key for '${relation.entity.className}.${propertyKey}' to reference`);
+      }
+      const name = stringValue(joinColumn.get('name')) || `${propertyKey}${referencedName[0].toUpperCase()}${referencedName.slice(1)}`;
+      const targetColumn = target.facts.columns.find(column => column.name === referencedName);
+
+      // A join column may also be declared as a plain @Column
+      if (!relation.entity.facts.columns.some(column => column.name === name)) {
+        relation.entity.facts.columns.push({
+          name,
+          type: this.joinColumnType(targetColumn?.type || 'INTEGER'),
+          nullable: literalValue(options.get('nullable')) !== false,
+          primaryKey: false,
+          unique: false,
+          location: nodeLocation(relation.property.name, relation.entity.file)
+        });
+      }
+      columns.push(name);
+      referenced.push(referencedName);
+    }
+
+    if (relation.unique) {
+      relation.entity.facts.uniques.push(columns);
+    }
+    const constraintName = stringValue(relation.joinColumns[0].get('foreignKeyConstraintName'));
+    const onDelete = referentialAction(stringValue(options.get('onDelete')));
+    const onUpdate = referentialAction(stringValue(options.get('onUpdate')));
+    relation.entity.facts.foreignKeys.push({
+      type: 'foreign_key',
+      ...(constraintName ? { name: constraintName } : {}),
+      columns,
+      references: { schema: target.schema, table: target.name, columns: referenced },
+      ...(onDelete ? { onDelete } : {}),
+      ...(onUpdate ? { onUpdate } : {})
+    } as ConstraintDef);
+  }
+
+  /**
+   * Generated keys are plain integers on the referencing side
+   */
+  private joinColumnType(type: string): string {
+    return type.replace(/^(BIG|SMALL)?SERIAL$/, (_, size) => size ? `${size}INT` : 'INTEGER');
+  }
+
+  private columnNameOf(entity: Entity, property: string): string {
+    const member = entity.node.members.find(candidate => ts.isPropertyDeclaration(candidate) && propertyName(candidate.name) === property);
+    const column = member && decoratorsOf(member).map(decoratorCall).find(call => call && COLUMN_DECORATORS.includes(call.name));
+    return stringValue(objectProperties(column?.args.find(ts.isObjectLiteralExpression)).get('name')) || property;
+  }
+
+  private snakeCase(name: string): string {
+    return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/([A-Z])([A-Z][a-z])/g, '$1_$2').toLowerCase();
+  }
+}
@@ -0,0 +1,76 @@
+import { BaseNormalizationRule, RuleResult } from './normalizationRule';
+import { DatabaseSchema, Violation } from '../types/schema';
+import { analyzeTableDependencies, formatAttributes, violationEvidence, formatEvidence, DependencyViolation } from './functionalDependencies';
+import { decomposeTable } from './decomposition';
+
+export class BoyceCoddRule extends BaseNormalizationRule {
+  readonly normalForm = 'BCNF' as const;
+  readonly name = 'Boyce-Codd Normal Form Check';
+  readonly description = 'Every determinant must be a superkey';
+  readonly weight = 0.5;
+
+  evaluate(schema: DatabaseSchema): RuleResult {
+    const violations: Violation[] = [];
+
+    // Candidate keys come from primary keys, unique constraints and indexes and
+    // known dependencies; with none known beyond the keys, every determinant is one
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+      const analysis = analyzeTableDependencies(table);
+      if (analysis.boyceCodd.length === 0) {
+        continue;
+      }
+      const decomposition = decomposeTable(table, 'BCNF', Object.keys(schema.tables));
+      const candidateKeys = analysis.candidateKeys.map(key => `(${key.join(', ')})`).join(', ');
+
+      const byDeterminant = new Map<string, DependencyViolation[]>();
+      for (const dependency of analysis.boyceCodd) {
+        const signature = dependency.determinant.join(',');
+        byDeterminant.set(signature, [...(byDeterminant.get(signature) || []), dependency]);
+      }
+
+      for (const group of byDeterminant.values()) {
+        const determinant = formatAttributes(group[0].determinant);
+        const dependents = group.map(dependency => `'${dependency.dependent}'`).join(', ');
+        const evidenced = group
+          .map(dependency => ({ dependency, evidence: violationEvidence(table, dependency) }))
+          .find(({ evidence }) => evidence);
+        const evidence = evidenced?.evidence;
+        violations.push({
+          ...this.createViolation(
+            tableName,
+            group[0].dependent,
+            `Determinant ${determinant} of key column${group.length > 1 ? 's' : ''} ${dependents} is not a superkey; candidate keys: ${candidateKeys}` +
+              (evidence ? `: ${formatEvidence(evidenced!.dependency, evidence)}` : ''),
+            `Boyce-Codd Normal Form requires that every determinant be a superkey. ${evidence ? 'The sampled rows show' : 'The declared functional dependencies show'} ${determinant} determining ${dependents}, part of a candidate key, without identifying a row of '${tableName}'.`,
+            `Decompose '${tableName}' so that ${determinant} keys its own table, or make it a candidate key`,
+            evidence && evidence.holds < 1 ? 'WARNING' : 'ERROR',
+            evidence ? evidence.holds : 1
+          ),
+          decomposition
+        });
+      }
+    }
+
+    return {
+      scoreContribution: violations.length > 0 ? 0 : 1,
+      violations,
+      confidence: 1.0, // Candidate keys are computed, not guessed
+      explanation: violations.length > 0
+        ? 'Some determinants are not superkeys'
+        : 'Every known determinant is a superkey'
+    };
+  }
+
+  getExplanation() {
+    return {
+      whyThisFails: 'A set of columns determines part of a candidate key without being a superkey itself.',
+      whatToFixFirst: 'Move the determinant and the columns it determines to a table keyed by the determinant.',
+      exampleFixSQL: `-- Instead of (zip determines city):
+CREATE TABLE addresses (street TEXT, city TEXT, zip TEXT, PRIMARY KEY (street, city));
+-- Use:
+CREATE TABLE zips (zip TEXT PRIMARY KEY, city TEXT NOT NULL);
+CREATE TABLE addresses (street TEXT, zip TEXT REFERENCES zips(zip), PRIMARY KEY (street, zip));`,
+      impact: 'Medium (50%)'
+    };
+  }
+}
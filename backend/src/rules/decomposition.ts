@@ -0,0 +1,261 @@
+/**
+ * Decomposition Engine
+ *
+ * Splits a table by its dependencies (declared or discovered, plus its keys):
+ * - 3NF synthesis: one table per determinant of a minimal cover, plus one
+ *   holding a candidate key; lossless and dependency-preserving
+ * - BCNF decomposition: repeatedly split off X ∪ X+ for a determinant X that
+ *   is not a superkey of its table; lossless, but may lose dependencies
+ * - 4NF split on a multivalued dependency X ->> Y: X ∪ Y and the rest with X
+ *
+ * The table holding a candidate key of the original keeps its name; the
+ * others are named after their key, e.g. department_id -> departments, or
+ * for a 4NF split after X and their other columns, e.g. employee_skills.
+ * Proposed tables reference each other by foreign key, keep the original's
+ * foreign keys and are emitted as PostgreSQL CREATE TABLE statements.
+ *
+ * NO: Dependency discovery, data migration statements
+ */
+
+import { Table } from '../types/schema';
+import { FunctionalDependency, MultivaluedDependency, DecompositionProposal, ProposedTable } from '../types/dependency';
+import { attributeClosure, minimalCover, candidateKeys, tableDependencies } from './functionalDependencies';
+import { stem, plural } from './naming';
+
+interface Relation {
+  attributes: string[];
+  key: string[];
+  name?: string; // Base name, when not named after its key
+}
+
+/**
+ * @param existingNames Tables the proposal must not name its new tables after
+ */
+export function decomposeTable(
+  table: Table,
+  normalForm: 'BCNF' | '3NF',
+  existingNames: string[] = []
+): DecompositionProposal {
+  const attributes = Object.keys(table.columns);
+  const dependencies = tableDependencies(table);
+  const cover = minimalCover(dependencies);
+  const keys = candidateKeys(attributes, dependencies);
+
+  const relations = normalForm === '3NF'
+    ? synthesize(attributes, cover, keys)
+    : splitToBCNF(attributes, cover, dependencies);
+  const lostDependencies = normalForm === 'BCNF'
+    ? cover.filter(dependency => !isPreserved(dependency, relations, dependencies))
+    : [];
+
+  const tables = proposeTables(table, relations, keys, existingNames);
+  return { normalForm, tables, lostDependencies, sql: tables.map(proposed => createTableSQL(table, proposed)).join('\n\n') };
+}
+
+/**
+ * Split a table on a multivalued dependency into X ∪ Y and X ∪ (the rest)
+ */
+export function decomposeMultivalued(
+  table: Table,
+  dependency: MultivaluedDependency,
+  existingNames: string[] = []
+): DecompositionProposal {
+  const attributes = Object.keys(table.columns);
+  const dependencies = tableDependencies(table);
+  const keys = candidateKeys(attributes, dependencies);
+  const prefix = dependency.determinant.map(stem).join('_');
+
+  const relations = [
+    attributes.filter(attribute => dependency.determinant.includes(attribute) || dependency.dependent.includes(attribute)),
+    attributes.filter(attribute => !dependency.dependent.includes(attribute) || dependency.determinant.includes(attribute))
+  ].map(relation => {
+    const named = relation.find(attribute => !dependency.determinant.includes(attribute))!;
+    return { attributes: relation, key: relationKey(relation, dependencies), name: `${prefix}_${plural(stem(named))}` };
+  });
+
+  const tables = proposeTables(table, relations, keys, existingNames);
+  return { normalForm: '4NF', tables, lostDependencies: [], sql: tables.map(proposed => createTableSQL(table, proposed)).join('\n\n') };
+}
+
+/**
+ * 3NF synthesis: a table per determinant, a key table if none holds a
+ * candidate key, and no table contained in another
+ */
+function synthesize(attributes: string[], cover: FunctionalDependency[], keys: string[][]): Relation[] {
+  const groups = new Map<string, Relation>();
+  for (const dependency of cover) {
+    const signature = [...dependency.determinant].sort().join(',');
+    const group = groups.get(signature) || { attributes: [...dependency.determinant], key: dependency.determinant };
+    group.attributes.push(...dependency.dependent.filter(attribute => !group.attributes.includes(attribute)));
+    groups.set(signature, group);
+  }
+
+  const relations = Array.from(groups.values());
+  if (keys.length > 0 && !relations.some(relation => keys.some(key => key.every(attribute => relation.attributes.includes(attribute))))) {
+    relations.push({ attributes: [...keys[0]], key: keys[0] });
+  }
+
+  return relations
+    .filter((relation, index) => !relations.some((other, otherIndex) => otherIndex !== index &&
+      relation.attributes.every(attribute => other.attributes.includes(attribute)) &&
+      (other.attributes.length > relation.attributes.length || otherIndex < index)))
+    .map(relation => ({ ...relation, attributes: attributes.filter(attribute => relation.attributes.includes(attribute)) }));
+}
+
+/**
+ * BCNF decomposition, splitting on the determinants of the minimal cover
+ */
+function splitToBCNF(attributes: string[], cover: FunctionalDependency[], dependencies: FunctionalDependency[]): Relation[] {
+  const relations: string[][] = [attributes];
+  const splitKeys = new Map<string, string[]>();
+
+  for (let i = 0; i < relations.length;) {
+    const relation = relations[i];
+    const violation = cover
+      .filter(dependency => dependency.determinant.every(attribute => relation.includes(attribute)))
+      .map(dependency => ({
+        determinant: dependency.determinant,
+        closure: relation.filter(attribute => attributeClosure(dependency.determinant, dependencies).has(attribute))
+      }))
+      .find(({ determinant, closure }) => closure.length < relation.length && closure.length > determinant.length);
+
+    if (!violation) {
+      i++;
+      continue;
+    }
+    const split = violation.closure;
+    const rest = relation.filter(attribute => violation.determinant.includes(attribute) || !split.includes(attribute));
+    splitKeys.set(split.join(','), violation.determinant);
+    relations.splice(i, 1, split, rest);
+  }
+
+  return relations.map(relation => ({
+    attributes: relation,
+    key: splitKeys.get(relation.join(',')) || relationKey(relation, dependencies)
+  }));
+}
+
+/**
+ * The first candidate key of a table holding only `relation`
+ */
+function relationKey(relation: string[], dependencies: FunctionalDependency[]): string[] {
+  const projected = relation.map(attribute => ({
+    determinant: [attribute],
+    dependent: relation.filter(other => other !== attribute && attributeClosure([attribute], dependencies).has(other))
+  }));
+  const wider = dependencies
+    .filter(dependency => dependency.determinant.length > 1 && dependency.determinant.every(attribute => relation.includes(attribute)))
+    .map(dependency => ({
+      determinant: dependency.determinant,
+      dependent: relation.filter(attribute => attributeClosure(dependency.determinant, dependencies).has(attribute))
+    }));
+  return candidateKeys(relation, [...projected, ...wider].filter(dependency => dependency.dependent.length > 0))[0] || relation;
+}
+
+/**
+ * Whether the proposed tables together still enforce a dependency
+ */
+function isPreserved(dependency: FunctionalDependency, relations: Relation[], dependencies: FunctionalDependency[]): boolean {
+  const reached = new Set(dependency.determinant);
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const { attributes } of relations) {
+      const closure = attributeClosure(attributes.filter(attribute => reached.has(attribute)), dependencies);
+      for (const attribute of attributes) {
+        if (closure.has(attribute) && !reached.has(attribute)) {
+          reached.add(attribute);
+          changed = true;
+        }
+      }
+    }
+  }
+  return dependency.dependent.every(attribute => reached.has(attribute));
+}
+
+/**
+ * Names, keys and foreign keys for the relations, referenced tables first
+ */
+function proposeTables(table: Table, relations: Relation[], keys: string[][], existingNames: string[]): ProposedTable[] {
+  const main = relations.findIndex(relation => keys.some(key => key.every(attribute => relation.attributes.includes(attribute))));
+  const used = new Set(existingNames.filter(name => name !== table.name));
+  used.add(table.name);
+
+  const names = relations.map((relation, index) => {
+    if (index === main) {
+      return table.name;
+    }
+    const base = relation.name || (relation.key.length === 1
+      ? plural(stem(relation.key[0]))
+      : `${table.name}_${relation.key.join('_')}`);
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}_${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+
+  const proposed: ProposedTable[] = relations.map((relation, index) => ({
+    name: names[index],
+    columns: relation.attributes,
+    primaryKey: relation.key,
+    foreignKeys: [
+      ...relations
+        .map((other, otherIndex) => ({ other, otherIndex }))
+        .filter(({ other, otherIndex }) => otherIndex !== index && otherIndex !== main &&
+          other.key.every(attribute => relation.attributes.includes(attribute)) &&
+          !relation.key.every(attribute => other.attributes.includes(attribute)))
+        .map(({ other, otherIndex }) => ({ columns: other.key, referencesTable: names[otherIndex], referencesColumns: other.key })),
+      ...table.foreignKeys
+        .filter(foreignKey => foreignKey.columns.every(column => relation.attributes.includes(column)))
+        .map(foreignKey => ({
+          columns: foreignKey.columns,
+          referencesTable: foreignKey.referencesSchema && foreignKey.referencesSchema !== (table.schemaName || 'public')
+            ? `${foreignKey.referencesSchema}.${foreignKey.referencesTable}`
+            : foreignKey.referencesTable,
+          referencesColumns: foreignKey.referencesColumns
+        }))
+    ]
+  }));
+
+  // Referenced tables first
+  const ordered: ProposedTable[] = [];
+  while (ordered.length < proposed.length) {
+    const next = proposed.find(candidate => !ordered.includes(candidate) && candidate.foreignKeys.every(foreignKey =>
+      !names.includes(foreignKey.referencesTable) || ordered.some(done => done.name === foreignKey.referencesTable)));
+    ordered.push(next || proposed.find(candidate => !ordered.includes(candidate))!);
+  }
+  return ordered;
+}
+
+function createTableSQL(table: Table, proposed: ProposedTable): string {
+  const schema = table.schemaName && table.schemaName !== 'public' ? `${identifier(table.schemaName)}.` : '';
+  const lines = [
+    ...proposed.columns.map(name => {
+      const column = table.columns[name];
+      const notNull = proposed.primaryKey.includes(name) || !column.nullable;
+      return `${identifier(name)} ${columnType(column.type, proposed.primaryKey.length === 1 && proposed.primaryKey[0] === name)}${notNull ? ' NOT NULL' : ''}`;
+    }),
+    `PRIMARY KEY (${proposed.primaryKey.map(identifier).join(', ')})`,
+    ...proposed.foreignKeys.map(foreignKey =>
+      `FOREIGN KEY (${foreignKey.columns.map(identifier).join(', ')}) REFERENCES ` +
+      `${foreignKey.referencesTable.split('.').map(identifier).join('.')} (${foreignKey.referencesColumns.map(identifier).join(', ')})`)
+  ];
+  return `CREATE TABLE ${schema}${identifier(proposed.name)} (\n${lines.map(line => `  ${line}`).join(',\n')}\n);`;
+}
+
+/**
+ * Serial columns only generate values as their table's own key; elsewhere they hold copies
+ */
+function columnType(type: string, ownKey: boolean): string {
+  const serial: Record<string, string> = { smallserial: 'smallint', serial: 'integer', bigserial: 'bigint' };
+  const base = serial[type.toLowerCase()];
+  return base && !ownKey ? (type === type.toUpperCase() ? base.toUpperCase() : base) : type;
+}
+
+/**
+ * Quoted unless PostgreSQL would read it back unchanged
+ */
+export function identifier(name: string): string {
+  return /^[a-z_][a-z0-9_$]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
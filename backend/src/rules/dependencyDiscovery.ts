@@ -0,0 +1,282 @@
+/**
+ * Functional Dependency Discovery
+ *
+ * Finds the minimal functional dependencies that hold in sampled rows, with
+ * a TANE-style level-wise search of the attribute lattice:
+ * - each attribute set is represented by its stripped partition of the rows
+ * - partitions of larger sets are products of two from the level below
+ * - C+ candidate sets prune dependents already determined by a subset
+ * - sets that are (approximately) unique in the sample are keys, and neither
+ *   extended nor reported as determinants
+ *
+ * A dependency is reported when the g3 error (the share of rows to remove for
+ * it to hold exactly) is at most `maxError`. Columns with a single value in
+ * the sample, NULL included, carry no evidence and are left out; of two
+ * columns that determine each other, only the earlier determines the later.
+ *
+ * Multivalued dependencies X ->> Y are found for single-column X by
+ * co-occurrence: within each X value, the Y values must appear with every
+ * combination of the remaining columns' values.
+ *
+ * NO: Reading of row data, normal form checks
+ */
+
+import { FunctionalDependency, MultivaluedDependency, DataProfileOptions } from '../types/dependency';
+import { attributeClosure } from './functionalDependencies';
+
+const DEFAULT_MAX_ERROR = 0;
+const DEFAULT_MAX_DETERMINANT_SIZE = 3;
+
+// The search stops widening determinants once a level holds this many attribute sets
+const MAX_LEVEL_SETS = 5000;
+
+/**
+ * Equivalence classes of row indexes with two or more rows; `excess` is the
+ * number of rows beyond the first of each class
+ */
+interface Partition {
+  classes: number[][];
+  excess: number;
+}
+
+interface LatticeNode {
+  attributes: number[];
+  partition: Partition;
+  candidates: Set<number>; // C+: dependents still possible for this set and its supersets
+}
+
+/**
+ * Minimal dependencies X -> A holding in `rows`, each with its evidence.
+ * Rows are value lists in `columns` order.
+ */
+export function discoverDependencies(
+  columns: string[],
+  rows: Array<Array<string | null>>,
+  options: DataProfileOptions = {}
+): FunctionalDependency[] {
+  const maxError = options.maxError ?? DEFAULT_MAX_ERROR;
+  const maxDeterminantSize = options.maxDeterminantSize ?? DEFAULT_MAX_DETERMINANT_SIZE;
+  const rowCount = rows.length;
+  if (rowCount < 2) {
+    return [];
+  }
+  const allowedExcess = Math.floor(maxError * rowCount);
+
+  const attributes: number[] = [];
+  const single = new Map<number, Partition>();
+  columns.forEach((_, index) => {
+    const partition = columnPartition(rows.map(row => row[index] ?? null));
+    // One class holding every row: a constant column
+    if (partition.excess < rowCount - 1) {
+      attributes.push(index);
+      single.set(index, partition);
+    }
+  });
+
+  const found: FunctionalDependency[] = [];
+  const all = new Set(attributes);
+  let level: LatticeNode[] = attributes.map(attribute => ({
+    attributes: [attribute],
+    partition: single.get(attribute)!,
+    candidates: new Set(all)
+  }));
+  let previous = new Map<string, LatticeNode>();
+
+  for (let size = 1; level.length > 0 && size <= maxDeterminantSize + 1; size++) {
+    // Dependencies (X \ A) -> A for the sets of this level; single attributes
+    // only have the empty determinant, which no kept column satisfies
+    for (const node of size > 1 ? level : []) {
+      const parents = node.attributes.map((_, position) =>
+        previous.get(node.attributes.filter((__, index) => index !== position).join(','))!);
+      node.candidates = new Set(Array.from(node.candidates).filter(candidate => parents.every(parent => parent.candidates.has(candidate))));
+
+      for (const [position, attribute] of node.attributes.entries()) {
+        if (!node.candidates.has(attribute)) {
+          continue;
+        }
+        const determinant = node.attributes.filter((_, index) => index !== position);
+        const error = dependencyError(parents[position].partition, node.partition, rowCount);
+        if (error > allowedExcess) {
+          continue;
+        }
+        found.push({
+          determinant: determinant.map(index => columns[index]),
+          dependent: [columns[attribute]],
+          evidence: { rows: rowCount, holds: 1 - error / rowCount }
+        });
+        node.candidates.delete(attribute);
+        if (error === 0) {
+          attributes.filter(other => !node.attributes.includes(other)).forEach(other => node.candidates.delete(other));
+        }
+      }
+    }
+
+    // Keys of the sample and sets with nothing left to determine are not extended
+    const kept = level.filter(node => node.candidates.size > 0 && node.partition.excess > allowedExcess);
+    if (size > maxDeterminantSize || kept.length > MAX_LEVEL_SETS) {
+      break;
+    }
+    previous = new Map(kept.map(node => [node.attributes.join(','), node]));
+    level = nextLevel(kept, previous, rowCount);
+  }
+
+  // Columns that determine each other are synonyms in the sample: only the earlier column determines the later
+  const position = (column: string) => columns.indexOf(column);
+  return found.filter(({ determinant: [determinant, ...rest], dependent: [dependent] }) =>
+    rest.length > 0 || position(determinant) < position(dependent) ||
+    !found.some(other => other.determinant.length === 1 && other.determinant[0] === dependent && other.dependent[0] === determinant));
+}
+
+/**
+ * Multivalued dependencies X ->> Y with a single-column X that hold in `rows`
+ * and do not follow from the `functional` dependencies. Y is widened to the
+ * columns X and Y determine together; of Y and its complement, only one is
+ * reported. Each must show two X values, each with two or more Y values
+ * combined with two or more values of the rest.
+ */
+export function discoverMultivaluedDependencies(
+  columns: string[],
+  rows: Array<Array<string | null>>,
+  functional: FunctionalDependency[],
+  options: DataProfileOptions = {}
+): MultivaluedDependency[] {
+  const maxError = options.maxError ?? DEFAULT_MAX_ERROR;
+  // Constant columns combine freely with anything
+  const varying = columns.map((_, index) => index)
+    .filter(index => new Set(rows.map(row => row[index] ?? null)).size > 1);
+  const valueKey = (row: Array<string | null>, indexes: number[]) => JSON.stringify(indexes.map(index => row[index] ?? null));
+
+  const found: MultivaluedDependency[] = [];
+  const seen = new Set<string>();
+  for (const x of varying) {
+    const groups = new Map<string, Array<Array<string | null>>>();
+    rows.forEach(row => {
+      const value = valueKey(row, [x]);
+      const group = groups.get(value);
+      if (group) {
+        group.push(row);
+      } else {
+        groups.set(value, [row]);
+      }
+    });
+    const determined = attributeClosure([columns[x]], functional);
+
+    for (const y of varying) {
+      if (y === x || determined.has(columns[y])) {
+        continue;
+      }
+      const together = attributeClosure([columns[x], columns[y]], functional);
+      const dependent = varying.filter(index => index !== x && together.has(columns[index]) && !determined.has(columns[index]));
+      const rest = varying.filter(index => index !== x && !dependent.includes(index) && !determined.has(columns[index]));
+      const signature = `${x}:${[dependent.join(','), rest.join(',')].sort().join('|')}`;
+      if (rest.length === 0 || seen.has(signature)) {
+        continue;
+      }
+      seen.add(signature);
+
+      let satisfied = 0;
+      let combined = 0;
+      for (const group of groups.values()) {
+        const dependentValues = new Set(group.map(row => valueKey(row, dependent))).size;
+        const restValues = new Set(group.map(row => valueKey(row, rest))).size;
+        if (new Set(group.map(row => valueKey(row, [...dependent, ...rest]))).size === dependentValues * restValues) {
+          satisfied += group.length;
+          combined += dependentValues > 1 && restValues > 1 ? 1 : 0;
+        }
+      }
+      if (combined >= 2 && rows.length - satisfied <= Math.floor(maxError * rows.length)) {
+        found.push({
+          determinant: [columns[x]],
+          dependent: dependent.map(index => columns[index]),
+          multivalued: true,
+          evidence: { rows: rows.length, holds: satisfied / rows.length }
+        });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Sets one attribute larger, joined from pairs sharing all but their last
+ * attribute; a set is only generated when all its subsets were kept
+ */
+function nextLevel(level: LatticeNode[], kept: Map<string, LatticeNode>, rowCount: number): LatticeNode[] {
+  const next: LatticeNode[] = [];
+  for (let i = 0; i < level.length; i++) {
+    for (let j = i + 1; j < level.length; j++) {
+      const a = level[i].attributes;
+      const b = level[j].attributes;
+      if (a.slice(0, -1).join(',') !== b.slice(0, -1).join(',')) {
+        continue;
+      }
+      const attributes = [...a, b[b.length - 1]].sort((x, y) => x - y);
+      const subsetsKept = attributes.every((_, skip) => kept.has(attributes.filter((__, index) => index !== skip).join(',')));
+      if (subsetsKept) {
+        next.push({
+          attributes,
+          partition: partitionProduct(level[i].partition, level[j].partition, rowCount),
+          candidates: new Set(level[i].candidates)
+        });
+      }
+    }
+  }
+  return next;
+}
+
+function columnPartition(values: Array<string | null>): Partition {
+  const groups = new Map<string | null, number[]>();
+  values.forEach((value, row) => {
+    const group = groups.get(value);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(value, [row]);
+    }
+  });
+  return strip(Array.from(groups.values()));
+}
+
+/**
+ * The partition of the union of two attribute sets
+ */
+function partitionProduct(left: Partition, right: Partition, rowCount: number): Partition {
+  const owner = new Int32Array(rowCount).fill(-1);
+  left.classes.forEach((rows, index) => rows.forEach(row => owner[row] = index));
+
+  const pending: number[][] = left.classes.map(() => []);
+  const classes: number[][] = [];
+  for (const rows of right.classes) {
+    rows.forEach(row => owner[row] >= 0 && pending[owner[row]].push(row));
+    for (const row of rows) {
+      const group = owner[row] >= 0 ? pending[owner[row]] : null;
+      if (group && group.length > 0) {
+        classes.push(group);
+        pending[owner[row]] = [];
+      }
+    }
+  }
+  return strip(classes);
+}
+
+/**
+ * g3 error of X -> A as a row count: in each class of X, the rows outside
+ * its largest class of X ∪ A
+ */
+function dependencyError(determinant: Partition, union: Partition, rowCount: number): number {
+  const classSize = new Int32Array(rowCount);
+  union.classes.forEach(rows => classSize[rows[0]] = rows.length);
+
+  let error = 0;
+  for (const rows of determinant.classes) {
+    let largest = 1;
+    rows.forEach(row => largest = Math.max(largest, classSize[row]));
+    error += rows.length - largest;
+  }
+  return error;
+}
+
+function strip(classes: number[][]): Partition {
+  const stripped = classes.filter(rows => rows.length > 1);
+  return { classes: stripped, excess: stripped.reduce((sum, rows) => sum + rows.length - 1, 0) };
+}
@@ -13,12 +13,18 @@ export class NoRepeatingGroupsRule extends BaseNormalizationRule {
     
     for (const [tableName, table] of Object.entries(schema.tables)) {
       for (const [columnName, column] of Object.entries(table.columns)) {
-        if (this.isArrayType(column.type)) {
+        // Domains can hide arrays and JSON behind a plain-looking type name
+        const baseType = column.resolvedType || column.type;
+        const viaDomain = column.resolvedType && column.resolvedType !== column.type
+          ? ` '${column.type}' is a domain over ${column.resolvedType}.`
+          : '';
+        
+        if (this.isArrayType(baseType)) {
           violations.push(this.createViolation(
             tableName,
             columnName,
             `Column '${columnName}' has array type which violates 1NF`,
-            'First Normal Form requires that each column contains atomic (indivisible) values. Array types store multiple values in a single column.',
+            `First Normal Form requires that each column contains atomic (indivisible) values. Array types store multiple values in a single column.${viaDomain}`,
             `Consider creating a separate table for '${columnName}' values with a foreign key reference to '${tableName}'`,
             'ERROR',
             1.0
@@ -26,12 +32,12 @@ export class NoRepeatingGroupsRule extends BaseNormalizationRule {
           hasViolations = true;
         }
         
-        if (this.isJsonType(column.type)) {
+        if (this.isJsonType(baseType)) {
           violations.push(this.createViolation(
             tableName,
             columnName,
             `Column '${columnName}' has JSON type which may violate 1NF`,
-            'First Normal Form requires atomic values. JSON types can contain structured data that may not be atomic.',
+            `First Normal Form requires atomic values. JSON types can contain structured data that may not be atomic.${viaDomain}`,
             `Consider normalizing the JSON structure into separate tables or ensure JSON contains only atomic values`,
             'WARNING',
             0.8
@@ -85,6 +91,34 @@ export class AtomicValuesRule extends BaseNormalizationRule {
     
     for (const [tableName, table] of Object.entries(schema.tables)) {
       for (const [columnName, column] of Object.entries(table.columns)) {
+        if (column.resolvedKind === 'composite') {
+          violations.push(this.createViolation(
+            tableName,
+            columnName,
+            `Column '${columnName}' has composite type ${column.resolvedType} which is not atomic`,
+            'First Normal Form requires each column to contain a single atomic value. A composite type bundles several attributes into one column.',
+            `Store the fields of ${column.resolvedType} as separate columns of '${tableName}' or in a related table`,
+            'ERROR',
+            0.9
+          ));
+          hasViolations = true;
+          continue;
+        }
+
+        if (column.resolvedKind === 'set') {
+          violations.push(this.createViolation(
+            tableName,
+            columnName,
+            `Column '${columnName}' has SET type ${column.type} which stores multi-value lists`,
+            'First Normal Form requires each column to contain a single atomic value. A SET column holds any combination of its members in one value.',
+            `Store the members of '${columnName}' as rows of a related table, one per selected value`,
+            'ERROR',
+            0.9
+          ));
+          hasViolations = true;
+          continue;
+        }
+
         if (this.suggestsMultiValue(column.name, column.type)) {
           violations.push(this.createViolation(
             tableName,
@@ -0,0 +1,106 @@
+/**
+ * Foreign Key Inference
+ *
+ * Finds relationships that legacy schemas never declared: a column named
+ * <entity>_id or <entity>Id whose type matches the single-column primary key
+ * of a table named <entity> or its plural (user_id -> users.id,
+ * orderItemId -> order_items.id). A table in the column's own schema wins
+ * over one elsewhere; a name matching several tables infers nothing.
+ * Confidence drops for other schemas and for integer types of different widths.
+ *
+ * NO: Row data checks, multi-column keys
+ */
+
+import { Column, SchemaContext, ImpliedRelationship } from '../types/schema';
+import { identifier } from './decomposition';
+import { singular, normalizeName, displayName } from './naming';
+
+export function inferForeignKeys(context: SchemaContext): ImpliedRelationship[] {
+  const implied: ImpliedRelationship[] = [];
+
+  for (const [from, table] of Object.entries(context.tables)) {
+    const declared = new Set(table.foreignKeys.flatMap(foreignKey => foreignKey.columns));
+    const schemaName = table.schemaName || 'public';
+
+    for (const column of Object.values(table.columns)) {
+      const entity = declared.has(column.name) ? undefined : referencedEntity(column.name);
+      if (!entity) {
+        continue;
+      }
+      const candidates = Object.entries(context.tables).filter(([to, target]) =>
+        target.primaryKeys.length === 1 &&
+        !(to === from && target.primaryKeys[0] === column.name) &&
+        [normalizeName(target.name), normalizeName(singular(target.name))].includes(entity));
+      const sameSchema = candidates.filter(([, target]) => (target.schemaName || 'public') === schemaName);
+      const chosen = sameSchema.length > 0 ? sameSchema : candidates;
+      if (chosen.length !== 1) {
+        continue;
+      }
+
+      const [to, target] = chosen[0];
+      const key = target.columns[target.primaryKeys[0]];
+      const match = key && typeMatch(column, key);
+      if (!match) {
+        continue;
+      }
+      const name = `${table.name}_${column.name}_fkey`;
+      implied.push({
+        from,
+        columns: [column.name],
+        to,
+        referencesColumns: [key.name],
+        name,
+        inferred: true,
+        confidence: Math.round(((sameSchema.length > 0 ? 0.9 : 0.7) - (match === 'exact' ? 0 : 0.1)) * 100) / 100,
+        sql: `ALTER TABLE ${tableIdentifier(from)} ADD CONSTRAINT ${identifier(name)} ` +
+          `FOREIGN KEY (${identifier(column.name)}) REFERENCES ${tableIdentifier(to)} (${identifier(key.name)});`
+      });
+    }
+  }
+
+  return implied;
+}
+
+/**
+ * Type family, ignoring length, precision and MySQL's sign and fill
+ * modifiers: VARCHAR(80) and TEXT are both text, INT(10) UNSIGNED is integer
+ */
+export function typeFamily(column: Column): string {
+  const type = (column.resolvedType || column.type).toLowerCase()
+    .replace(/\(.*\)/, '')
+    .replace(/\b(?:unsigned|signed|zerofill)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const families: Record<string, string> = {
+    varchar: 'text', 'character varying': 'text', char: 'text', character: 'text', bpchar: 'text',
+    nvarchar: 'text', nchar: 'text', citext: 'text', tinytext: 'text', mediumtext: 'text', longtext: 'text',
+    int: 'integer', int4: 'integer', serial: 'integer', serial4: 'integer',
+    int8: 'bigint', bigserial: 'bigint', serial8: 'bigint',
+    int2: 'smallint', smallserial: 'smallint', int1: 'tinyint', int3: 'mediumint', middleint: 'mediumint',
+    decimal: 'numeric', float8: 'double precision', float4: 'real',
+    bool: 'boolean', timestamptz: 'timestamp with time zone'
+  };
+  return families[type] || type;
+}
+
+/**
+ * user_id, user_ID and userId -> user; order_item_id and orderItemId -> orderitem
+ */
+function referencedEntity(columnName: string): string | undefined {
+  const match = /^(.+)_id$/i.exec(columnName) || /^(.*[a-z0-9])(?:Id|ID)$/.exec(columnName);
+  return match ? normalizeName(match[1]) : undefined;
+}
+
+/**
+ * 'exact' for the same type family, 'widened' for integers of different widths
+ */
+function typeMatch(column: Column, key: Column): 'exact' | 'widened' | undefined {
+  const integers = ['tinyint', 'smallint', 'mediumint', 'integer', 'bigint'];
+  const [own, referenced] = [typeFamily(column), typeFamily(key)];
+  if (own === referenced) return 'exact';
+  return integers.includes(own) && integers.includes(referenced) ? 'widened' : undefined;
+}
+
+function tableIdentifier(qualified: string): string {
+  return displayName(qualified).split('.').map(identifier).join('.');
+}
@@ -0,0 +1,88 @@
+import { BaseNormalizationRule, RuleResult } from './normalizationRule';
+import { DatabaseSchema, Table, Violation } from '../types/schema';
+import { MultivaluedDependency, DependencyEvidence } from '../types/dependency';
+import { attributeClosure, tableDependencies, formatAttributes } from './functionalDependencies';
+import { decomposeMultivalued } from './decomposition';
+
+export class NoMultivaluedDependencyRule extends BaseNormalizationRule {
+  readonly normalForm = '4NF' as const;
+  readonly name = 'No Multivalued Dependencies';
+  readonly description = 'Independent multi-valued facts about a determinant must not share a table';
+  readonly weight = 0.5;
+
+  evaluate(schema: DatabaseSchema): RuleResult {
+    const violations: Violation[] = [];
+
+    // Only declared or discovered multivalued dependencies are checked: names say nothing about independence
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+      for (const dependency of this.violatingDependencies(table)) {
+        const rest = Object.keys(table.columns).filter(column =>
+          !dependency.determinant.includes(column) && !dependency.dependent.includes(column));
+        const determinant = formatAttributes(dependency.determinant);
+        const dependent = formatAttributes(dependency.dependent);
+        const evidence = dependency.evidence;
+        violations.push({
+          ...this.createViolation(
+            tableName,
+            dependency.dependent[0],
+            `${dependent} has a multivalued dependency on ${determinant}, independent of ${formatAttributes(rest)}` +
+              (evidence ? `: ${this.formatEvidence(dependency, rest, evidence)}` : ''),
+            `Fourth Normal Form requires that every multivalued dependency have a superkey as its determinant. ${evidence ? 'The sampled rows show' : 'The declared dependencies state'} that for each ${determinant} every ${dependent} appears with every ${formatAttributes(rest)}, so the table stores the cross product of two independent facts.`,
+            `Split '${tableName}' into one table of ${determinant} with ${dependent} and one of ${determinant} with ${formatAttributes(rest)}`,
+            evidence && evidence.holds < 1 ? 'WARNING' : 'ERROR',
+            evidence ? evidence.holds : 1
+          ),
+          decomposition: decomposeMultivalued(table, dependency, Object.keys(schema.tables))
+        });
+      }
+    }
+
+    return {
+      scoreContribution: violations.length > 0 ? 0 : 1,
+      violations,
+      confidence: 1.0, // Multivalued dependencies are declared or measured
+      explanation: violations.length > 0
+        ? 'Some tables combine independent multi-valued facts'
+        : 'No multivalued dependencies on non-keys found'
+    };
+  }
+
+  getExplanation() {
+    return {
+      whyThisFails: 'A table holds two independent lists about the same entity, so every pairing of their values must be stored.',
+      whatToFixFirst: 'Move each independent multi-valued fact to its own table keyed by the entity and the value.',
+      exampleFixSQL: `-- Instead of:
+CREATE TABLE employee_profiles (employee_id INTEGER, skill TEXT, language TEXT, PRIMARY KEY (employee_id, skill, language));
+-- Use:
+CREATE TABLE employee_skills (employee_id INTEGER, skill TEXT, PRIMARY KEY (employee_id, skill));
+CREATE TABLE employee_languages (employee_id INTEGER, language TEXT, PRIMARY KEY (employee_id, language));`,
+      impact: 'Medium (50%)'
+    };
+  }
+
+  /**
+   * Multivalued dependencies that neither follow from the functional ones
+   * nor have a superkey as their determinant
+   */
+  private violatingDependencies(table: Table): MultivaluedDependency[] {
+    const attributes = Object.keys(table.columns);
+    const functional = tableDependencies(table);
+
+    return (table.multivaluedDependencies || []).filter(({ determinant, dependent }) => {
+      const determined = attributeClosure(determinant, functional);
+      const rest = attributes.filter(attribute => !determinant.includes(attribute) && !dependent.includes(attribute));
+      return determined.size < attributes.length &&
+        dependent.some(attribute => !determined.has(attribute)) &&
+        rest.some(attribute => !determined.has(attribute));
+    });
+  }
+
+  /**
+   * skill and language combine freely per employee_id in 100% of 12 rows
+   */
+  private formatEvidence(dependency: MultivaluedDependency, rest: string[], evidence: DependencyEvidence): string {
+    const percent = Math.floor(evidence.holds * 1000) / 10;
+    return `${dependency.dependent.join(', ')} and ${rest.join(', ')} combine freely per ${dependency.determinant.join(', ')} ` +
+      `in ${percent}% of ${evidence.rows.toLocaleString('en-US')} rows`;
+  }
+}
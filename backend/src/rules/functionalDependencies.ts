@@ -0,0 +1,244 @@
+/**
+ * Functional Dependency Engine
+ *
+ * Attribute closures, minimal covers and candidate keys over a table's
+ * declared dependencies, plus its primary key and unique constraints.
+ * The dependency rules use it to find exact 2NF, 3NF and BCNF violations
+ * for tables whose dependencies are declared or discovered from row data.
+ *
+ * NO: Parsing of declarations, discovery from data
+ */
+
+import { Table } from '../types/schema';
+import { FunctionalDependency, DependencyEvidence } from '../types/dependency';
+
+// Candidate key search stops after this many attribute sets have been tried
+const MAX_KEY_CANDIDATES = 20000;
+
+// Proper subsets of keys wider than this are not searched for partial dependencies
+const MAX_PARTIAL_KEY_WIDTH = 12;
+
+/**
+ * What a table's dependencies imply, and which of them break a normal form
+ */
+export interface DependencyAnalysis {
+  candidateKeys: string[][];
+  primeAttributes: Set<string>;
+  cover: FunctionalDependency[];             // Minimal cover, one dependent per dependency
+  partial: DependencyViolation[];            // 2NF: non-prime column determined by part of a candidate key
+  transitive: DependencyViolation[];         // 3NF: non-prime column determined by a non-key
+  boyceCodd: DependencyViolation[];          // BCNF only: prime column determined by a non-key
+}
+
+export interface DependencyViolation {
+  determinant: string[];
+  dependent: string;
+  key?: string[]; // For partial dependencies, the candidate key the determinant is part of
+}
+
+/**
+ * All attributes determined by `attributes`
+ */
+export function attributeClosure(attributes: Iterable<string>, dependencies: FunctionalDependency[]): Set<string> {
+  const closure = new Set(attributes);
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const dependency of dependencies) {
+      if (dependency.determinant.every(attribute => closure.has(attribute)) &&
+          dependency.dependent.some(attribute => !closure.has(attribute))) {
+        dependency.dependent.forEach(attribute => closure.add(attribute));
+        changed = true;
+      }
+    }
+  }
+  return closure;
+}
+
+/**
+ * A minimal cover: single dependents, no extraneous determinant attributes and
+ * no redundant dependencies. Trivial dependencies are dropped.
+ */
+export function minimalCover(dependencies: FunctionalDependency[]): FunctionalDependency[] {
+  let cover = uniqueDependencies(dependencies.flatMap(dependency => dependency.dependent
+    .filter(attribute => !dependency.determinant.includes(attribute))
+    .map(attribute => ({ determinant: Array.from(new Set(dependency.determinant)), dependent: [attribute] }))));
+
+  // Drop determinant attributes the rest of the determinant already implies
+  cover = uniqueDependencies(cover.map(dependency => {
+    let determinant = dependency.determinant;
+    for (const attribute of dependency.determinant) {
+      const reduced = determinant.filter(candidate => candidate !== attribute);
+      if (reduced.length > 0 && attributeClosure(reduced, cover).has(dependency.dependent[0])) {
+        determinant = reduced;
+      }
+    }
+    return { determinant, dependent: dependency.dependent };
+  }));
+
+  // Drop dependencies the others already imply
+  for (let i = cover.length - 1; i >= 0; i--) {
+    const others = cover.filter((_, j) => j !== i);
+    if (attributeClosure(cover[i].determinant, others).has(cover[i].dependent[0])) {
+      cover = others;
+    }
+  }
+  return cover;
+}
+
+/**
+ * Every minimal attribute set whose closure is the whole table, smallest first
+ */
+export function candidateKeys(attributes: string[], dependencies: FunctionalDependency[]): string[][] {
+  const dependents = new Set(dependencies.flatMap(dependency => dependency.dependent));
+  const determinants = new Set(dependencies.flatMap(dependency => dependency.determinant));
+
+  // Attributes nothing determines are in every key; attributes that determine nothing are in none
+  const core = attributes.filter(attribute => !dependents.has(attribute));
+  const optional = attributes.filter(attribute => dependents.has(attribute) && determinants.has(attribute));
+
+  const keys: string[][] = [];
+  let tried = 0;
+  let level: string[][] = [[]];
+  while (level.length > 0 && tried < MAX_KEY_CANDIDATES) {
+    const next: string[][] = [];
+    for (const extra of level) {
+      const candidate = [...core, ...extra];
+      if (keys.some(key => key.every(attribute => candidate.includes(attribute)))) {
+        continue;
+      }
+      tried++;
+      const closure = attributeClosure(candidate, dependencies);
+      if (attributes.every(attribute => closure.has(attribute))) {
+        keys.push(candidate);
+        continue;
+      }
+      // Extend in attribute order so each set is generated once
+      const last = extra.length > 0 ? optional.indexOf(extra[extra.length - 1]) : -1;
+      optional.slice(last + 1).forEach(attribute => next.push([...extra, attribute]));
+    }
+    level = next;
+  }
+  return keys;
+}
+
+/**
+ * A table's declared dependencies, plus those its primary key and unique constraints imply
+ */
+export function tableDependencies(table: Table): FunctionalDependency[] {
+  const attributes = Object.keys(table.columns);
+  const keys = [
+    table.primaryKeys,
+    ...table.uniqueConstraints,
+    ...Object.values(table.columns).filter(column => column.unique).map(column => [column.name])
+  ].filter(key => key.length > 0);
+
+  return [
+    ...(table.functionalDependencies || []),
+    ...keys.map(key => ({ determinant: key, dependent: attributes.filter(attribute => !key.includes(attribute)) }))
+  ];
+}
+
+/**
+ * Check a table against its dependencies. Each violating dependency is
+ * reported once, under the weakest normal form it breaks.
+ */
+export function analyzeTableDependencies(table: Table): DependencyAnalysis {
+  const attributes = Object.keys(table.columns);
+  const dependencies = tableDependencies(table);
+  const keys = candidateKeys(attributes, dependencies);
+  const primeAttributes = new Set(keys.flat());
+  const cover = minimalCover(dependencies);
+
+  const isSuperkey = (determinant: string[]) => keys.some(key => key.every(attribute => determinant.includes(attribute)));
+  const isPartOfKey = (determinant: string[]) =>
+    keys.some(key => key.length > determinant.length && determinant.every(attribute => key.includes(attribute)));
+
+  const transitive: DependencyViolation[] = [];
+  const boyceCodd: DependencyViolation[] = [];
+  for (const { determinant, dependent: [dependent] } of cover) {
+    if (isSuperkey(determinant)) {
+      continue;
+    }
+    if (primeAttributes.has(dependent)) {
+      boyceCodd.push({ determinant, dependent });
+    } else if (!isPartOfKey(determinant)) {
+      transitive.push({ determinant, dependent });
+    }
+  }
+
+  return {
+    candidateKeys: keys,
+    primeAttributes,
+    cover,
+    partial: partialDependencies(keys, primeAttributes, dependencies),
+    transitive,
+    boyceCodd
+  };
+}
+
+/**
+ * Non-prime attributes in the closure of a proper subset of a candidate key,
+ * reported with the smallest such subset
+ */
+function partialDependencies(
+  keys: string[][],
+  primeAttributes: Set<string>,
+  dependencies: FunctionalDependency[]
+): DependencyViolation[] {
+  const found = new Map<string, DependencyViolation>();
+
+  for (const key of keys) {
+    if (key.length < 2 || key.length > MAX_PARTIAL_KEY_WIDTH) {
+      continue;
+    }
+    // Subsets by increasing size, so the first determinant found is the smallest
+    const subsets = Array.from({ length: (1 << key.length) - 2 }, (_, i) => key.filter((_, bit) => ((i + 1) >> bit) & 1))
+      .sort((a, b) => a.length - b.length);
+    for (const subset of subsets) {
+      for (const dependent of attributeClosure(subset, dependencies)) {
+        if (!primeAttributes.has(dependent) && !found.has(dependent)) {
+          found.set(dependent, { determinant: subset, dependent, key });
+        }
+      }
+    }
+  }
+  return Array.from(found.values());
+}
+
+function uniqueDependencies(dependencies: FunctionalDependency[]): FunctionalDependency[] {
+  const seen = new Set<string>();
+  return dependencies.filter(dependency => {
+    const signature = `${[...dependency.determinant].sort().join(',')}->${dependency.dependent.join(',')}`;
+    if (seen.has(signature)) {
+      return false;
+    }
+    seen.add(signature);
+    return true;
+  });
+}
+
+/**
+ * The row data evidence for a violation, when a discovered dependency states it directly
+ */
+export function violationEvidence(table: Table, violation: DependencyViolation): DependencyEvidence | undefined {
+  return (table.functionalDependencies || []).find(dependency => dependency.evidence &&
+    dependency.dependent.includes(violation.dependent) &&
+    dependency.determinant.length === violation.determinant.length &&
+    dependency.determinant.every(attribute => violation.determinant.includes(attribute)))?.evidence;
+}
+
+/**
+ * department_name is determined by department_id in 100% of 12,400 rows
+ */
+export function formatEvidence(violation: DependencyViolation, evidence: DependencyEvidence): string {
+  // Round down, so only dependencies that hold in every row show 100%
+  const percent = Math.floor(evidence.holds * 1000) / 10;
+  return `${violation.dependent} is determined by ${violation.determinant.join(', ')} in ${percent}% of ${evidence.rows.toLocaleString('en-US')} rows`;
+}
+
+/**
+ * 'zip' or (order_id, line), for violation messages
+ */
+export function formatAttributes(attributes: string[]): string {
+  return attributes.length === 1 ? `'${attributes[0]}'` : `(${attributes.join(', ')})`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Entity Naming
+ *
+ * The English plural rules, column stems and table names the rules share,
+ * so that decomposition, redundant-column matching and foreign key inference
+ * name the same entity the same way: department_id -> department -> departments.
+ *
+ * NO: Identifier quoting, irregular plurals
+ */
+
+import { Table } from '../types/schema';
+
+/**
+ * department_id -> department, customerId -> customer
+ */
+export function stem(column: string): string {
+  return column.replace(/_?(?:id|code|key|no|number)$/i, '') || column;
+}
+
+/**
+ * category -> categories, address -> addresses, customer -> customers
+ */
+export function plural(name: string): string {
+  if (/[^aeiou]y$/i.test(name)) return `${name.slice(0, -1)}ies`;
+  if (/(?:s|x|z|ch|sh)$/i.test(name)) return `${name}es`;
+  return `${name}s`;
+}
+
+/**
+ * categories -> category, addresses -> address, status stays status
+ */
+export function singular(name: string): string {
+  if (/ies$/i.test(name)) return `${name.slice(0, -3)}y`;
+  if (/(?:x|z|ch|sh|ss|[^o]us)es$/i.test(name)) return name.slice(0, -2);
+  return name.replace(/([^su])s$/i, '$1');
+}
+
+/**
+ * Case and underscores dropped: customer_email and customerEmail -> customeremail
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/_/g, '');
+}
+
+/**
+ * public.orders, for a table named orders without a schema
+ */
+export function qualifiedName(table: Table): string {
+  return `${table.schemaName || 'public'}.${table.name}`;
+}
+
+/**
+ * customers for public.customers, sales.orders otherwise
+ */
+export function displayName(qualified: string): string {
+  return qualified.startsWith('public.') ? qualified.slice('public.'.length) : qualified;
+}
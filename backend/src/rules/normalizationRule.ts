@@ -1,4 +1,4 @@
-import { DatabaseSchema, Table, Column, Violation } from '../types/schema';
+import { DatabaseSchema, Table, Column, Violation, NormalForm, SchemaContext } from '../types/schema';
 
 export interface RuleResult {
   scoreContribution: number; // 0 to 1, where 1 = full compliance
@@ -9,13 +9,13 @@ export interface RuleResult {
 
 export interface NormalizationRule {
   // Rule metadata
-  readonly normalForm: '1NF' | '2NF' | '3NF';
+  readonly normalForm: NormalForm;
   readonly name: string;
   readonly description: string;
   readonly weight: number; // Relative weight in scoring (0 to 1)
   
-  // Rule evaluation
-  evaluate(schema: DatabaseSchema): RuleResult;
+  // Rule evaluation: violations for the tables of `schema`, which `context` extends to every analyzed table
+  evaluate(schema: DatabaseSchema, context: SchemaContext): RuleResult;
   
   // Rule explanation (for UI)
   getExplanation(): {
@@ -27,12 +27,12 @@ export interface NormalizationRule {
 }
 
 export abstract class BaseNormalizationRule implements NormalizationRule {
-  abstract readonly normalForm: '1NF' | '2NF' | '3NF';
+  abstract readonly normalForm: NormalForm;
   abstract readonly name: string;
   abstract readonly description: string;
   abstract readonly weight: number;
   
-  abstract evaluate(schema: DatabaseSchema): RuleResult;
+  abstract evaluate(schema: DatabaseSchema, context: SchemaContext): RuleResult;
   abstract getExplanation(): {
     whyThisFails: string;
     whatToFixFirst: string;
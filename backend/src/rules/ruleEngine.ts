@@ -1,7 +1,7 @@
-import { DatabaseSchema, Violation, Table, Column } from '../types/schema';
+import { DatabaseSchema, Violation, Table, Column, NormalForm } from '../types/schema';
 
 export abstract class NormalizationRule {
-  abstract readonly normalForm: '1NF' | '2NF' | '3NF';
+  abstract readonly normalForm: NormalForm;
   abstract readonly name: string;
   abstract readonly description: string;
   abstract readonly weight: number;
@@ -78,11 +78,15 @@ export class RuleEngine {
     '1NF': Violation[];
     '2NF': Violation[];
     '3NF': Violation[];
+    'BCNF': Violation[];
+    '4NF': Violation[];
   } {
     const result = {
       '1NF': [] as Violation[],
       '2NF': [] as Violation[],
-      '3NF': [] as Violation[]
+      '3NF': [] as Violation[],
+      'BCNF': [] as Violation[],
+      '4NF': [] as Violation[]
     };
     
     for (const rule of this.rules) {
@@ -97,11 +101,11 @@ export class RuleEngine {
     return result;
   }
   
-  getRulesByNormalForm(normalForm: '1NF' | '2NF' | '3NF'): NormalizationRule[] {
+  getRulesByNormalForm(normalForm: NormalForm): NormalizationRule[] {
     return this.rules.filter(rule => rule.normalForm === normalForm);
   }
   
-  getTotalRules(normalForm: '1NF' | '2NF' | '3NF'): number {
+  getTotalRules(normalForm: NormalForm): number {
     return this.getRulesByNormalForm(normalForm).length;
   }
 }
@@ -1,5 +1,7 @@
 import { BaseNormalizationRule, RuleResult } from './normalizationRule';
 import { DatabaseSchema, Violation } from '../types/schema';
+import { analyzeTableDependencies, formatAttributes, violationEvidence, formatEvidence } from './functionalDependencies';
+import { decomposeTable } from './decomposition';
 
 export class NoPartialDependencyRule extends BaseNormalizationRule {
   readonly normalForm = '2NF' as const;
@@ -12,6 +14,31 @@ export class NoPartialDependencyRule extends BaseNormalizationRule {
     let hasViolations = false;
     
     for (const [tableName, table] of Object.entries(schema.tables)) {
+      // Declared or discovered dependencies replace the name heuristics
+      if (table.functionalDependencies) {
+        const found = analyzeTableDependencies(table).partial;
+        const decomposition = found.length > 0 ? decomposeTable(table, '3NF', Object.keys(schema.tables)) : undefined;
+        for (const dependency of found) {
+          const determinant = formatAttributes(dependency.determinant);
+          const evidence = violationEvidence(table, dependency);
+          violations.push({
+            ...this.createViolation(
+              tableName,
+              dependency.dependent,
+              `Column '${dependency.dependent}' has a partial dependency on ${determinant}, part of candidate key ${formatAttributes(dependency.key!)}` +
+                (evidence ? `: ${formatEvidence(dependency, evidence)}` : ''),
+              `Second Normal Form requires that non-key attributes depend on the entire candidate key. ${evidence ? 'The sampled rows show' : 'The declared functional dependencies show'} this column is determined by part of it.`,
+              `Move '${dependency.dependent}' to a table keyed by ${determinant}`,
+              evidence && evidence.holds < 1 ? 'WARNING' : 'ERROR',
+              evidence ? evidence.holds : 1
+            ),
+            decomposition
+          });
+          hasViolations = true;
+        }
+        continue;
+      }
+      
       if (table.primaryKeys.length <= 1) {
         continue;
       }
@@ -99,7 +126,8 @@ export class FullFunctionalDependencyRule extends BaseNormalizationRule {
     let hasViolations = false;
     
     for (const [tableName, table] of Object.entries(schema.tables)) {
-      if (table.primaryKeys.length === 0) {
+      // Declared or discovered dependencies are checked exactly by the partial dependency rule
+      if (table.primaryKeys.length === 0 || table.functionalDependencies) {
         continue;
       }
       
@@ -1,5 +1,12 @@
 import { BaseNormalizationRule, RuleResult } from './normalizationRule';
-import { DatabaseSchema, Violation } from '../types/schema';
+import { DatabaseSchema, Violation, Column, SchemaContext, ForeignKeyEdge, ImpliedRelationship } from '../types/schema';
+import { analyzeTableDependencies, formatAttributes, violationEvidence, formatEvidence } from './functionalDependencies';
+import { decomposeTable } from './decomposition';
+import { typeFamily } from './foreignKeyInference';
+import { stem, singular, normalizeName, qualifiedName, displayName } from './naming';
+
+// Foreign key hops followed when looking for the original of a copied column
+const MAX_REFERENCE_DEPTH = 3;
 
 export class NoTransitiveDependencyRule extends BaseNormalizationRule {
   readonly normalForm = '3NF' as const;
@@ -12,6 +19,31 @@ export class NoTransitiveDependencyRule extends BaseNormalizationRule {
     let hasViolations = false;
     
     for (const [tableName, table] of Object.entries(schema.tables)) {
+      // Declared or discovered dependencies replace the name heuristics
+      if (table.functionalDependencies) {
+        const found = analyzeTableDependencies(table).transitive;
+        const decomposition = found.length > 0 ? decomposeTable(table, '3NF', Object.keys(schema.tables)) : undefined;
+        for (const dependency of found) {
+          const determinant = formatAttributes(dependency.determinant);
+          const evidence = violationEvidence(table, dependency);
+          violations.push({
+            ...this.createViolation(
+              tableName,
+              dependency.dependent,
+              `Column '${dependency.dependent}' has a transitive dependency on ${determinant}, which is not a candidate key` +
+                (evidence ? `: ${formatEvidence(dependency, evidence)}` : ''),
+              `Third Normal Form requires that non-key attributes depend only on candidate keys. ${evidence ? 'The sampled rows show' : 'The declared functional dependencies show'} this column is determined by a non-key attribute set.`,
+              `Move ${determinant} and '${dependency.dependent}' to a separate table keyed by ${determinant}`,
+              evidence && evidence.holds < 1 ? 'WARNING' : 'ERROR',
+              evidence ? evidence.holds : 1
+            ),
+            decomposition
+          });
+          hasViolations = true;
+        }
+        continue;
+      }
+      
       if (table.primaryKeys.length === 0) {
         continue;
       }
@@ -112,13 +144,20 @@ CREATE TABLE departments (id SERIAL PRIMARY KEY, name TEXT);`,
     const candidates = this.findTransitiveDependencyCandidates(column, nonKeyColumns);
     
     for (const candidate of candidates) {
-      const candidateConfidence = this.assessTransitiveDependencyConfidence(columnName, candidate);
+      const candidateConfidence = this.assessCandidatePairConfidence(columnName, candidate.toLowerCase());
       confidence = Math.max(confidence, candidateConfidence);
     }
     
     return Math.min(confidence, 1.0);
   }
   
+  private assessCandidatePairConfidence(column: string, candidate: string): number {
+    if (this.isAttributeOfEntity(column, candidate)) {
+      return 0.8;
+    }
+    return this.isCommonTransitivePair(column, candidate) ? 0.7 : 0;
+  }
+  
   private isAttributeOfEntity(column: string, candidate: string): boolean {
     const entityAttributes: Record<string, string[]> = {
       'country': ['country_code', 'country_name', 'currency', 'continent'],
@@ -150,92 +189,230 @@ CREATE TABLE departments (id SERIAL PRIMARY KEY, name TEXT);`,
   }
 }
 
-export class BoyceCoddRule extends BaseNormalizationRule {
+export class EnumeratedDomainRule extends BaseNormalizationRule {
   readonly normalForm = '3NF' as const;
-  readonly name = 'Boyce-Codd Normal Form Check';
-  readonly description = 'Every determinant must be a candidate key';
-  readonly weight = 0.5;
+  readonly name = 'Enumerated Domain';
+  readonly description = 'Value lists fixed by CHECK constraints are candidates for lookup tables';
+  readonly weight = 0.1;
   
   evaluate(schema: DatabaseSchema): RuleResult {
     const violations: Violation[] = [];
-    let hasViolations = false;
     
     for (const [tableName, table] of Object.entries(schema.tables)) {
-      const candidateKeys = this.identifyCandidateKeys(table);
-      
-      for (const column of Object.values(table.columns)) {
-        if (this.isLikelyDeterminant(column.name) && !this.isCandidateKey(column.name, candidateKeys)) {
-          violations.push(this.createViolation(
-            tableName,
-            column.name,
-            `Column '${column.name}' appears to be a determinant but not a candidate key`,
-            'Boyce-Codd Normal Form requires that every determinant (attribute that determines another) be a candidate key.',
-            `Consider making '${column.name}' a candidate key or normalizing the table structure`,
-            'WARNING',
-            0.7
-          ));
-          hasViolations = true;
+      for (const check of table.checkConstraints || []) {
+        if (!check.allowedValues || check.columns.length !== 1) {
+          continue;
         }
+        
+        const columnName = check.columns[0];
+        violations.push(this.createViolation(
+          tableName,
+          columnName,
+          `Column '${columnName}' is limited to ${check.allowedValues.length} values by a CHECK constraint; consider a lookup table`,
+          `The CHECK constraint (${check.expression}) hard-codes the domain of '${columnName}'. Values that carry meaning of their own (labels, ordering, flags) end up repeated in application code instead of stored once.`,
+          `Create a table holding ${check.allowedValues.map(value => `'${value}'`).join(', ')} and reference it with a foreign key from '${tableName}.${columnName}'`,
+          'WARNING',
+          0.5
+        ));
       }
     }
     
     return {
-      scoreContribution: hasViolations ? 0 : 1,
+      scoreContribution: violations.length > 0 ? 0 : 1,
       violations,
-      confidence: 0.7, // This is a heuristic rule
-      explanation: hasViolations 
-        ? 'Some columns appear to be determinants but are not candidate keys'
-        : 'All determinants appear to be candidate keys'
+      confidence: 0.5, // A fixed list is often intentional
+      explanation: violations.length > 0
+        ? 'Some columns restrict their values with CHECK lists that could be lookup tables'
+        : 'No enumerated CHECK domains found'
     };
   }
   
   getExplanation() {
     return {
-      whyThisFails: 'Some columns appear to be determinants (attributes that determine others) but are not candidate keys.',
-      whatToFixFirst: 'Make determinant columns candidate keys or normalize the table structure.',
-      exampleFixSQL: `-- Add unique constraint to make email a candidate key:
-CREATE TABLE users (id SERIAL PRIMARY KEY, email TEXT NOT NULL UNIQUE);
--- Or normalize into separate tables if appropriate`,
-      impact: 'Medium (50%)'
+      whyThisFails: 'A CHECK constraint lists the allowed values of a column inline, so the domain lives in the schema definition rather than in data.',
+      whatToFixFirst: 'Move value lists that carry attributes of their own into lookup tables referenced by foreign keys.',
+      exampleFixSQL: `-- Instead of:
+CREATE TABLE orders (id SERIAL PRIMARY KEY, status TEXT CHECK (status IN ('pending', 'shipped')));
+-- Use:
+CREATE TABLE order_statuses (status TEXT PRIMARY KEY);
+CREATE TABLE orders (id SERIAL PRIMARY KEY, status TEXT REFERENCES order_statuses(status));`,
+      impact: 'Low (10%)'
     };
   }
+}
+
+export class CheckConstraintDependencyRule extends BaseNormalizationRule {
+  readonly normalForm = '3NF' as const;
+  readonly name = 'Check Constraint Dependencies';
+  readonly description = 'CHECK constraints spanning non-key columns hint at dependencies between them';
+  readonly weight = 0.1;
   
-  private identifyCandidateKeys(table: any): string[] {
-    const candidateKeys = [...table.primaryKeys];
+  evaluate(schema: DatabaseSchema): RuleResult {
+    const violations: Violation[] = [];
     
-    for (const [columnName, column] of Object.entries(table.columns)) {
-      if ((column as any).unique && !candidateKeys.includes(columnName)) {
-        candidateKeys.push(columnName);
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+      for (const check of table.checkConstraints || []) {
+        const nonKeyColumns = check.columns.filter(column =>
+          table.columns[column] && !table.primaryKeys.includes(column)
+        );
+        if (nonKeyColumns.length < 2) {
+          continue;
+        }
+        
+        const columnList = nonKeyColumns.map(column => `'${column}'`).join(' and ');
+        violations.push(this.createViolation(
+          tableName,
+          nonKeyColumns[0],
+          `CHECK constraint relates columns ${columnList}, suggesting a dependency between non-key attributes`,
+          `The condition (${check.expression}) ties the values of ${columnList} together. When one non-key column constrains another, the pair may describe a separate entity.`,
+          `Review whether ${columnList} belong in their own table keyed by the determining column`,
+          'WARNING',
+          0.4
+        ));
       }
     }
     
-    for (const constraint of table.uniqueConstraints) {
-      if (constraint.length === 1) {
-        const columnName = constraint[0];
-        if (!candidateKeys.includes(columnName)) {
-          candidateKeys.push(columnName);
+    return {
+      scoreContribution: violations.length > 0 ? 0 : 1,
+      violations,
+      confidence: 0.4, // Many multi-column checks are plain range or ordering checks
+      explanation: violations.length > 0
+        ? 'Some CHECK constraints relate several non-key columns'
+        : 'No CHECK constraints relate non-key columns'
+    };
+  }
+  
+  getExplanation() {
+    return {
+      whyThisFails: 'A CHECK constraint that relates two non-key columns suggests one determines the other.',
+      whatToFixFirst: 'Review multi-column CHECK constraints for attributes that belong to a separate entity.',
+      exampleFixSQL: `-- Instead of:
+CREATE TABLE payments (id SERIAL PRIMARY KEY, method TEXT, card_number TEXT,
+  CHECK (method <> 'card' OR card_number IS NOT NULL));
+-- Use:
+CREATE TABLE payments (id SERIAL PRIMARY KEY, method TEXT);
+CREATE TABLE card_payments (payment_id INTEGER PRIMARY KEY REFERENCES payments(id), card_number TEXT NOT NULL);`,
+      impact: 'Low (10%)'
+    };
+  }
+}
+
+export class RedundantColumnRule extends BaseNormalizationRule {
+  readonly normalForm = '3NF' as const;
+  readonly name = 'Redundant Columns';
+  readonly description = 'Non-key columns must not copy columns of the tables they reference';
+  readonly weight = 0.2;
+  
+  evaluate(schema: DatabaseSchema, context: SchemaContext): RuleResult {
+    const violations: Violation[] = [];
+    
+    for (const [tableName, table] of Object.entries(schema.tables)) {
+      const source = qualifiedName(table);
+      const keyColumns = new Set([...table.primaryKeys, ...(context.foreignKeys[source] || []).flatMap(edge => edge.columns)]);
+      const copies = Object.values(table.columns).filter(column => !keyColumns.has(column.name));
+      const reported = new Set<string>();
+      
+      // Nearest referenced tables first, so each copy is reported against its closest original
+      for (const path of this.referencePaths(source, context)) {
+        const edge = path[path.length - 1];
+        const referenced = context.tables[edge.to];
+        const prefixes = this.referencePrefixes(edge, referenced.name);
+        const originals = Object.values(referenced.columns).filter(column => !referenced.primaryKeys.includes(column.name));
+        
+        for (const copy of copies) {
+          const original = !reported.has(copy.name) &&
+            originals.find(column => this.isCopy(copy, column, prefixes) && typeFamily(copy) === typeFamily(column));
+          if (!original) {
+            continue;
+          }
+          reported.add(copy.name);
+          const target = `${displayName(edge.to)}.${original.name}`;
+          const via = path.map(step => `${step.columns.join(', ')} -> ${displayName(step.to)}${step.inferred ? ' (inferred)' : ''}`).join(', ');
+          // Inferred foreign keys make the copy only as likely as the relationship
+          const confidence = path.reduce((product, step) => product * (step.inferred ? (step as ImpliedRelationship).confidence : 1), path.length === 1 ? 0.8 : 0.7);
+          violations.push(this.createViolation(
+            tableName,
+            copy.name,
+            `Column '${copy.name}' duplicates '${target}', reached by foreign key ${via}`,
+            `Every change to '${target}' must be repeated in each '${tableName}' row that references it; a missed update leaves the copies disagreeing (an update anomaly). Keep the copy only if it records the value as of the row, such as an order's shipping address.`,
+            `Drop '${tableName}.${copy.name}' and read '${target}' through the join on ${path[0].columns.join(', ')}, or replace the copy with a view joining '${displayName(edge.to)}'`,
+            'WARNING',
+            Math.round(confidence * 100) / 100
+          ));
         }
       }
     }
     
-    return candidateKeys;
+    return {
+      scoreContribution: violations.length > 0 ? 0 : 1,
+      violations,
+      confidence: 0.8, // A copy may be a deliberate snapshot
+      explanation: violations.length > 0
+        ? 'Some columns copy values held by referenced tables'
+        : 'No columns copied from referenced tables'
+    };
   }
   
-  private isCandidateKey(columnName: string, candidateKeys: string[]): boolean {
-    return candidateKeys.includes(columnName);
+  getExplanation() {
+    return {
+      whyThisFails: 'A column repeats a value that the referenced table already stores, so the two can drift apart.',
+      whatToFixFirst: 'Drop columns copied from referenced tables, or serve them from a view over the join.',
+      exampleFixSQL: `-- Instead of:
+CREATE TABLE orders (id SERIAL PRIMARY KEY, customer_id INTEGER REFERENCES customers(id), customer_email TEXT);
+-- Use:
+CREATE TABLE orders (id SERIAL PRIMARY KEY, customer_id INTEGER REFERENCES customers(id));
+CREATE VIEW order_details AS
+  SELECT orders.*, customers.email AS customer_email FROM orders JOIN customers ON customers.id = orders.customer_id;`,
+      impact: 'Low (20%)'
+    };
   }
   
-  private isLikelyDeterminant(columnName: string): boolean {
-    const determinantPatterns = [
-      /_id$/,
-      /_code$/,
-      /_type$/,
-      /email$/i,
-      /username$/i,
-      /ssn$/i,
-      /tax_id$/i
-    ];
+  /**
+   * Foreign key paths from a table to analyzed tables, shortest first, each table reached once
+   */
+  private referencePaths(source: string, context: SchemaContext): ForeignKeyEdge[][] {
+    const paths: ForeignKeyEdge[][] = [];
+    const reached = new Set<string>();
+    let level: ForeignKeyEdge[][] = [[]];
     
-    return determinantPatterns.some(pattern => pattern.test(columnName));
+    for (let depth = 0; depth < MAX_REFERENCE_DEPTH; depth++) {
+      const next: ForeignKeyEdge[][] = [];
+      for (const path of level) {
+        const from = path.length > 0 ? path[path.length - 1].to : source;
+        for (const edge of context.foreignKeys[from] || []) {
+          if (context.tables[edge.to] && !reached.has(edge.to)) {
+            reached.add(edge.to);
+            next.push([...path, edge]);
+          }
+        }
+      }
+      paths.push(...next);
+      level = next;
+    }
+    return paths;
+  }
+  
+  /**
+   * Normalized name prefixes of columns copied through an edge: the referenced
+   * table's singular (customers -> customer) and the key column's stem
+   * (billing_customer_id -> billingcustomer)
+   */
+  private referencePrefixes(edge: ForeignKeyEdge, tableName: string): string[] {
+    const prefixes = [normalizeName(singular(tableName))];
+    if (edge.columns.length === 1 && stem(edge.columns[0]) !== edge.columns[0]) {
+      prefixes.push(normalizeName(stem(edge.columns[0])));
+    }
+    return prefixes;
+  }
+  
+  /**
+   * customer_email and customerEmail copy email, and customer_name copies
+   * customer_name; a plain shared name such as created_at says nothing about the reference
+   */
+  private isCopy(copy: Column, original: Column, prefixes: string[]): boolean {
+    const copyName = normalizeName(copy.name);
+    const originalName = normalizeName(original.name);
+    return prefixes.some(prefix => copyName.startsWith(prefix) &&
+      (copyName === `${prefix}${originalName}` || copyName === originalName));
   }
 }
@@ -4,6 +4,9 @@ import multer from 'multer';
 import path from 'path';
 import { DatabaseAnalyzer } from './analyzer/databaseAnalyzer';
 import { DumpParser } from './parser/dumpParser';
+import { SQLiteFileReader } from './parser/sqliteFileReader';
+import { detectDialect, SQL_DIALECTS, DIALECT_NAMES } from './parser/dialectDetector';
+import { SQLDialect } from './types/dumpParser';
 
 const app = express();
 const port = process.env.PORT || 3001;
@@ -14,15 +17,25 @@ app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 app.use(express.static(frontendPath));
 
+const UPLOAD_EXTENSIONS = ['.sql', '.sqlite', '.sqlite3', '.db', '.prisma', '.dbml'];
+const UPLOAD_TYPE_ERROR = 'Only .sql, .sqlite, .sqlite3, .db, .prisma and .dbml files are allowed';
+
+const DIALECT_ERROR = `dialect must be one of: ${SQL_DIALECTS.join(', ')}`;
+
+// The optional `dialect` field forces a parser; without it the dialect is detected
+function isDialectOption(value: unknown): value is SQLDialect | undefined {
+  return value === undefined || SQL_DIALECTS.includes(value as SQLDialect);
+}
+
 const storage = multer.memoryStorage();
 const upload = multer({ 
   storage,
   limits: { fileSize: 5 * 1024 * 1024 },
   fileFilter: (req, file, cb) => {
-    if (file.originalname.toLowerCase().endsWith('.sql')) {
+    if (UPLOAD_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
       cb(null, true);
     } else {
-      cb(new Error('Only .sql files are allowed'));
+      cb(new Error(UPLOAD_TYPE_ERROR));
     }
   }
 });
@@ -83,6 +96,21 @@ app.get('/api/debug/scoring', (req, res) => {
           rulesEvaluated: report.compliance['3NF'].rulesEvaluated,
           score: report.compliance['3NF'].score,
           calculation: `((${report.compliance['3NF'].maxWeight} - ${report.compliance['3NF'].violatedWeight}) / ${report.compliance['3NF'].maxWeight}) * 100`
+        },
+        // Reported on its own, outside the overall score
+        'BCNF': {
+          maxWeight: report.compliance['BCNF'].maxWeight,
+          violatedWeight: report.compliance['BCNF'].violatedWeight,
+          rulesEvaluated: report.compliance['BCNF'].rulesEvaluated,
+          score: report.compliance['BCNF'].score,
+          calculation: `((${report.compliance['BCNF'].maxWeight} - ${report.compliance['BCNF'].violatedWeight}) / ${report.compliance['BCNF'].maxWeight}) * 100`
+        },
+        '4NF': {
+          maxWeight: report.compliance['4NF'].maxWeight,
+          violatedWeight: report.compliance['4NF'].violatedWeight,
+          rulesEvaluated: report.compliance['4NF'].rulesEvaluated,
+          score: report.compliance['4NF'].score,
+          calculation: `((${report.compliance['4NF'].maxWeight} - ${report.compliance['4NF'].violatedWeight}) / ${report.compliance['4NF'].maxWeight}) * 100`
         }
       },
       overall: {
@@ -103,7 +131,7 @@ app.get('/api/debug/scoring', (req, res) => {
 
 app.post('/api/analyze', (req, res) => {
   try {
-    const { sqlContent } = req.body;
+    const { sqlContent, fileName, dialect } = req.body;
     
     if (!sqlContent || typeof sqlContent !== 'string') {
       return res.status(400).json({ 
@@ -111,7 +139,11 @@ app.post('/api/analyze', (req, res) => {
       });
     }
     
-    const validation = analyzer.validateSQL(sqlContent);
+    if (!isDialectOption(dialect)) {
+      return res.status(400).json({ error: DIALECT_ERROR });
+    }
+    
+    const validation = analyzer.validateSQL(sqlContent, dialect);
     
     if (!validation.isValid) {
       return res.status(400).json({
@@ -120,7 +152,7 @@ app.post('/api/analyze', (req, res) => {
       });
     }
     
-    const report = analyzer.analyzeSQL(sqlContent);
+    const report = analyzer.analyzeSQL(sqlContent, typeof fileName === 'string' ? fileName : undefined, dialect);
     
     // Add rule-relative scoring context
     const enhancedReport = {
@@ -154,9 +186,37 @@ app.post('/api/analyze-file', upload.single('sqlFile'), (req, res) => {
       });
     }
     
+    const { dialect } = req.body;
+    if (!isDialectOption(dialect)) {
+      return res.status(400).json({ error: DIALECT_ERROR });
+    }
+    
+    // SQLite database files are read from their sqlite_master table
+    if (SQLiteFileReader.isDatabase(req.file.buffer)) {
+      return res.json({
+        success: true,
+        report: analyzer.analyzeSQLiteDatabase(req.file.buffer),
+        warnings: [],
+        fileName: req.file.originalname
+      });
+    }
+    
+    const extension = path.extname(req.file.originalname).toLowerCase();
+    if (extension === '.prisma' || extension === '.dbml') {
+      const content = req.file.buffer.toString('utf-8');
+      return res.json({
+        success: true,
+        report: extension === '.prisma'
+          ? analyzer.analyzePrismaSchema(content, req.file.originalname)
+          : analyzer.analyzeDBML(content, req.file.originalname),
+        warnings: [],
+        fileName: req.file.originalname
+      });
+    }
+    
     const sqlContent = req.file.buffer.toString('utf-8');
     
-    const validation = analyzer.validateSQL(sqlContent);
+    const validation = analyzer.validateSQL(sqlContent, dialect);
     
     if (!validation.isValid) {
       return res.status(400).json({
@@ -165,7 +225,7 @@ app.post('/api/analyze-file', upload.single('sqlFile'), (req, res) => {
       });
     }
     
-    const report = analyzer.analyzeSQL(sqlContent);
+    const report = analyzer.analyzeSQL(sqlContent, req.file.originalname, dialect);
     
     res.json({
       success: true,
@@ -185,7 +245,7 @@ app.post('/api/analyze-file', upload.single('sqlFile'), (req, res) => {
 // New endpoint for dump file analysis
 app.post('/api/analyze-dump', (req, res) => {
   try {
-    const { dumpContent } = req.body;
+    const { dumpContent, encoding, fileName, dialect } = req.body;
     
     if (!dumpContent || typeof dumpContent !== 'string') {
       return res.status(400).json({ 
@@ -193,8 +253,15 @@ app.post('/api/analyze-dump', (req, res) => {
       });
     }
     
+    if (!isDialectOption(dialect)) {
+      return res.status(400).json({ error: DIALECT_ERROR });
+    }
+    
+    // Binary archives (pg_dump -Fc) are sent base64-encoded
+    const dump = encoding === 'base64' ? Buffer.from(dumpContent, 'base64') : dumpContent;
+    
     // Analyze the dump file
-    const report = analyzer.analyzeDumpFile(dumpContent);
+    const report = analyzer.analyzeDumpFile(dump, typeof fileName === 'string' ? fileName : undefined, dialect);
     
     res.json({
       success: true,
@@ -223,7 +290,7 @@ app.post('/api/analyze-dump', (req, res) => {
 // New multi-schema analysis endpoints
 app.post('/api/analyze-schemas', (req, res) => {
   try {
-    const { sqlContent } = req.body;
+    const { sqlContent, fileName, dialect } = req.body;
     
     if (!sqlContent || typeof sqlContent !== 'string') {
       return res.status(400).json({ 
@@ -231,7 +298,11 @@ app.post('/api/analyze-schemas', (req, res) => {
       });
     }
     
-    const validation = analyzer.validateSQL(sqlContent);
+    if (!isDialectOption(dialect)) {
+      return res.status(400).json({ error: DIALECT_ERROR });
+    }
+    
+    const validation = analyzer.validateSQL(sqlContent, dialect);
     
     if (!validation.isValid) {
       return res.status(400).json({
@@ -240,7 +311,7 @@ app.post('/api/analyze-schemas', (req, res) => {
       });
     }
     
-    const report = analyzer.analyzeSQLWithSchemas(sqlContent);
+    const report = analyzer.analyzeSQLWithSchemas(sqlContent, typeof fileName === 'string' ? fileName : undefined, dialect);
     
     res.json({
       success: true,
@@ -249,6 +320,7 @@ app.post('/api/analyze-schemas', (req, res) => {
         totalTables: report.totalTables,
         overallScore: report.overallScore
       },
+      dialect: report.dialect,
       schemas: report.schemas,
       warnings: validation.warnings
     });
@@ -263,7 +335,7 @@ app.post('/api/analyze-schemas', (req, res) => {
 
 app.post('/api/analyze-dump-schemas', (req, res) => {
   try {
-    const { dumpContent } = req.body;
+    const { dumpContent, encoding, fileName, dialect } = req.body;
     
     if (!dumpContent || typeof dumpContent !== 'string') {
       return res.status(400).json({ 
@@ -271,8 +343,16 @@ app.post('/api/analyze-dump-schemas', (req, res) => {
       });
     }
     
+    if (!isDialectOption(dialect)) {
+      return res.status(400).json({ error: DIALECT_ERROR });
+    }
+    
+    // Binary archives (pg_dump -Fc) are sent base64-encoded
+    const dump = encoding === 'base64' ? Buffer.from(dumpContent, 'base64') : dumpContent;
+    
     // API decides the parser, NOT the analyzer
-    const dumpResult = DumpParser.parseDumpFile(dumpContent);
+    const detection = detectDialect(dump, dialect);
+    const dumpResult = DumpParser.parseDumpFile(dump, typeof fileName === 'string' ? fileName : undefined, detection.dialect);
     
     if (!dumpResult.success) {
       throw new Error(`Failed to parse dump file: ${dumpResult.errors.join(', ')}`);
@@ -282,7 +362,7 @@ app.post('/api/analyze-dump-schemas', (req, res) => {
     const analysisInput = {
       tables: dumpResult.tables,
       metadata: {
-        dialect: 'postgres' as const,
+        dialect: detection.dialect,
         sourceType: 'dump' as const
       }
     };
@@ -297,6 +377,7 @@ app.post('/api/analyze-dump-schemas', (req, res) => {
         totalTables: report.totalTables,
         overallScore: report.overallScore
       },
+      dialect: detection,
       schemas: report.schemas,
       dumpInfo: {
         format: dumpResult.metadata.detectedFormat,
@@ -306,7 +387,7 @@ app.post('/api/analyze-dump-schemas', (req, res) => {
         errors: dumpResult.errors
       },
       analysisNotes: [
-        `Analyzed PostgreSQL dump file (${dumpResult.metadata.detectedFormat} format)`,
+        `Analyzed ${DIALECT_NAMES[detection.dialect]} dump file (${dumpResult.metadata.detectedFormat} format)`,
         `Extracted ${dumpResult.tables.length} tables from dump`,
         `Dump size: ${(dumpResult.metadata.totalSize / 1024).toFixed(2)}KB, Extracted: ${(dumpResult.metadata.extractedSize / 1024).toFixed(2)}KB`,
         ...(dumpResult.errors.length > 0 ? [`Warnings: ${dumpResult.errors.join(', ')}`] : [])
@@ -323,7 +404,7 @@ app.post('/api/analyze-dump-schemas', (req, res) => {
 
 app.post('/api/validate', (req, res) => {
   try {
-    const { sqlContent } = req.body;
+    const { sqlContent, dialect } = req.body;
     
     if (!sqlContent || typeof sqlContent !== 'string') {
       return res.status(400).json({ 
@@ -331,7 +412,11 @@ app.post('/api/validate', (req, res) => {
       });
     }
     
-    const validation = analyzer.validateSQL(sqlContent);
+    if (!isDialectOption(dialect)) {
+      return res.status(400).json({ error: DIALECT_ERROR });
+    }
+    
+    const validation = analyzer.validateSQL(sqlContent, dialect);
     
     res.json(validation);
     
@@ -354,7 +439,7 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
     }
   }
   
-  if (error.message === 'Only .sql files are allowed') {
+  if (error.message === UPLOAD_TYPE_ERROR) {
     return res.status(400).json({ error: error.message });
   }
   
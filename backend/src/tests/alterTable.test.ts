@@ -0,0 +1,121 @@
+import { SQLParser } from '../parser/sqlParser';
+
+describe('ALTER TABLE Replay Tests', () => {
+  let parser: SQLParser;
+
+  beforeEach(() => {
+    parser = new SQLParser();
+  });
+
+  describe('Columns', () => {
+    it('should add, drop, retype and rename columns in order', () => {
+      const sql = `
+        CREATE TABLE users (id SERIAL PRIMARY KEY, name TEXT, legacy TEXT);
+        ALTER TABLE users ADD COLUMN email VARCHAR(255);
+        ALTER TABLE users DROP COLUMN legacy;
+        ALTER TABLE users ALTER COLUMN name TYPE VARCHAR(100) USING name::varchar, ALTER COLUMN name SET NOT NULL;
+        ALTER TABLE users RENAME COLUMN name TO full_name;
+        ALTER TABLE users ALTER COLUMN email SET NOT NULL;
+        ALTER TABLE users ALTER COLUMN email DROP NOT NULL;
+      `;
+
+      const { users } = parser.parse(sql).tables;
+
+      expect(Object.keys(users.columns)).toEqual(['id', 'full_name', 'email']);
+      expect(users.columns.full_name).toEqual({
+        name: 'full_name',
+        type: 'VARCHAR(100)',
+        nullable: false,
+        primaryKey: false,
+        unique: false,
+        location: { line: 6, column: 49 }
+      });
+      expect(users.columns.email.nullable).toBe(true);
+    });
+  });
+
+  describe('Constraints', () => {
+    it('should add keys after CREATE TABLE and drop them by name', () => {
+      const sql = `
+        CREATE TABLE customers (id INTEGER, email TEXT UNIQUE);
+        CREATE TABLE orders (id INTEGER, customer_id INTEGER);
+        ALTER TABLE customers ADD PRIMARY KEY (id);
+        ALTER TABLE orders ADD CONSTRAINT orders_pk PRIMARY KEY (id);
+        ALTER TABLE orders ADD CONSTRAINT fk_customer FOREIGN KEY (customer_id) REFERENCES customers(id);
+        ALTER TABLE customers DROP CONSTRAINT customers_email_key;
+        ALTER TABLE orders DROP CONSTRAINT orders_pk;
+      `;
+
+      const { customers, orders } = parser.parse(sql).tables;
+
+      expect(customers.primaryKeys).toEqual(['id']);
+      expect(customers.uniqueConstraints).toEqual([]);
+      expect(customers.columns.email.unique).toBe(false);
+      expect(orders.primaryKeys).toEqual([]);
+      expect(orders.columns.customer_id.foreignKey).toEqual({ table: 'customers', column: 'id' });
+    });
+
+    it('should drop keys that use a dropped column', () => {
+      const sql = `
+        CREATE TABLE orders (id INTEGER, customer_id INTEGER, PRIMARY KEY (id, customer_id), FOREIGN KEY (customer_id) REFERENCES customers(id));
+        ALTER TABLE orders DROP COLUMN customer_id;
+      `;
+
+      const { orders } = parser.parse(sql).tables;
+
+      expect(orders.primaryKeys).toEqual([]);
+      expect(orders.foreignKeys).toEqual([]);
+    });
+
+    it('should drop and rename unique index keys with their columns', () => {
+      const sql = `
+        CREATE TABLE t (id INTEGER PRIMARY KEY, a INTEGER, b INTEGER, c INTEGER);
+        CREATE UNIQUE INDEX t_ab ON t (a, b);
+        CREATE UNIQUE INDEX ON t (c);
+        ALTER TABLE t DROP COLUMN b;
+        ALTER TABLE t RENAME COLUMN c TO d;
+      `;
+
+      const { t } = parser.parse(sql).tables;
+
+      expect(Object.keys(t.columns)).toEqual(['id', 'a', 'd']);
+      expect(t.uniqueConstraints).toEqual([['d']]);
+    });
+
+    it('should fail on dropping an unknown constraint without IF EXISTS', () => {
+      const sql = `
+        CREATE TABLE users (id INTEGER);
+        ALTER TABLE users DROP CONSTRAINT IF EXISTS users_pkey;
+        ALTER TABLE users DROP CONSTRAINT users_pkey;
+      `;
+
+      expect(() => parser.parse(sql)).toThrow('Constraint users_pkey does not exist on table users');
+    });
+  });
+
+  describe('Renames', () => {
+    it('should carry table and column renames into referencing foreign keys', () => {
+      const sql = `
+        CREATE TABLE customers (id INTEGER PRIMARY KEY);
+        CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER);
+        ALTER TABLE orders ADD FOREIGN KEY (customer_id) REFERENCES customers(id);
+        ALTER TABLE customers RENAME COLUMN id TO customer_id;
+        ALTER TABLE customers RENAME TO clients;
+      `;
+
+      const schema = parser.parse(sql);
+
+      expect(Object.keys(schema.tables)).toEqual(['clients', 'orders']);
+      expect(schema.tables.clients.primaryKeys).toEqual(['customer_id']);
+      expect(schema.tables.orders.foreignKeys).toEqual([{
+        column: 'customer_id',
+        referencesTable: 'clients',
+        referencesColumn: 'customer_id',
+        columns: ['customer_id'],
+        referencesSchema: 'public',
+        referencesColumns: ['customer_id']
+      }]);
+      expect(schema.tables.orders.columns.customer_id.foreignKey).toEqual({ table: 'clients', column: 'customer_id' });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { SQLParser } from '../parser/sqlParser';
+import { SQLiteParser } from '../parser/sqliteParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Boyce-Codd Normal Form Tests', () => {
+  const bookings = (index: string) => `
+    CREATE TABLE bookings (
+      room TEXT,
+      slot TEXT,
+      teacher TEXT, -- @fd teacher -> room
+      PRIMARY KEY (room, slot)
+    );
+    ${index}
+  `;
+
+  it('should report the determinant set and computed candidate keys', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(bookings(''));
+    const [violation] = report.compliance['BCNF'].violations;
+
+    expect(report.compliance['BCNF'].violations).toHaveLength(1);
+    expect(violation.message).toBe("Determinant 'teacher' of key column 'room' is not a superkey; candidate keys: (slot, room), (slot, teacher)");
+    expect(violation.decomposition!.normalForm).toBe('BCNF');
+    expect(report.compliance['3NF'].violations).toEqual([]);
+    expect(report.compliance['BCNF'].score).toBe(0);
+    expect(report.overallScore).toBe(100);
+  });
+
+  it('should treat unique indexes as candidate keys', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(bookings('CREATE UNIQUE INDEX bookings_teacher ON bookings (teacher);'));
+
+    expect(report.schema.tables.bookings.uniqueConstraints).toEqual([['teacher']]);
+    expect(report.compliance['BCNF'].violations).toEqual([]);
+    expect(report.compliance['BCNF'].score).toBe(100);
+  });
+
+  it('should not guess determinants from column names', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(`
+      CREATE TABLE accounts (
+        account_id INTEGER,
+        owner_email TEXT,
+        customer_id INTEGER,
+        PRIMARY KEY (account_id, customer_id)
+      );
+    `);
+
+    expect(report.compliance['BCNF'].violations).toEqual([]);
+    expect(report.compliance['3NF'].violations.filter(v => v.message.includes('candidate key'))).toEqual([]);
+  });
+
+  it('should read unique indexes from every dialect', () => {
+    const partial = 'CREATE UNIQUE INDEX active_email ON users (email) WHERE active;';
+    const postgres = new SQLParser().parse(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, active BOOLEAN);
+      CREATE UNIQUE INDEX users_email ON users (email);
+      ${partial}
+    `);
+    const [users] = new SQLiteParser().extractTables(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, active INTEGER);
+      CREATE UNIQUE INDEX users_email ON users (email);
+      ${partial}
+      CREATE INDEX users_active ON users (active);
+    `);
+
+    expect(postgres.tables.users.uniqueConstraints).toEqual([['email']]);
+    expect(users.constraints.filter(c => c.type === 'unique')).toEqual([{ type: 'unique', columns: ['email'] }]);
+  });
+
+  it('should score the BCNF tier per schema', () => {
+    const result = new DatabaseAnalyzer().analyzeSQLWithSchemas(`
+      CREATE TABLE addresses (street TEXT, city TEXT, zip TEXT, PRIMARY KEY (street, city));
+      CREATE UNIQUE INDEX addresses_street_zip ON addresses (street, zip);
+    `);
+
+    expect(result.schemas[0].normalization['BCNF']).toEqual({ score: 100, violatedTables: 0, totalTables: 1 });
+    expect(new DatabaseAnalyzer().getSupportedFeatures().normalForms).toContain('BCNF');
+  });
+});
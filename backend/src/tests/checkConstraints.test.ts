@@ -0,0 +1,84 @@
+import { SQLParser } from '../parser/sqlParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('CHECK Constraint Tests', () => {
+  describe('Parsing', () => {
+    it('should record column- and table-level CHECK constraints', () => {
+      const sql = `
+        CREATE TABLE orders (
+          id SERIAL PRIMARY KEY,
+          status TEXT NOT NULL CHECK (status IN ('pending', 'shipped')),
+          quantity INTEGER CONSTRAINT positive_quantity CHECK (quantity > 0),
+          shipped_at TIMESTAMP,
+          delivered_at TIMESTAMP,
+          CHECK (delivered_at >= shipped_at)
+        );
+      `;
+
+      const { orders } = new SQLParser().parse(sql).tables;
+
+      expect(orders.checkConstraints).toEqual([
+        { expression: "status IN ('pending', 'shipped')", columns: ['status'], allowedValues: ['pending', 'shipped'] },
+        { name: 'positive_quantity', expression: 'quantity > 0', columns: ['quantity'] },
+        { expression: 'delivered_at >= shipped_at', columns: ['delivered_at', 'shipped_at'] }
+      ]);
+    });
+
+    it('should read value lists in the form pg_dump prints them', () => {
+      const sql = `
+        CREATE TABLE public.tickets (
+            id integer NOT NULL,
+            priority character varying(10),
+            CONSTRAINT tickets_priority_check CHECK (((priority)::text = ANY ((ARRAY['low'::character varying, 'high'::character varying])::text[])))
+        );
+      `;
+
+      const { tickets } = new SQLParser().parse(sql).tables;
+
+      expect(tickets.checkConstraints![0].allowedValues).toEqual(['low', 'high']);
+    });
+
+    it('should drop CHECK constraints by their default name', () => {
+      const sql = `
+        CREATE TABLE users (id SERIAL PRIMARY KEY, age INTEGER CHECK (age > 0), role TEXT);
+        ALTER TABLE users ADD CHECK (role = 'admin' OR role = 'member');
+        ALTER TABLE users DROP CONSTRAINT users_age_check;
+      `;
+
+      const { users } = new SQLParser().parse(sql).tables;
+
+      expect(users.checkConstraints).toEqual([
+        { expression: "role = 'admin' OR role = 'member'", columns: ['role'], allowedValues: ['admin', 'member'] }
+      ]);
+    });
+  });
+
+  describe('Analysis Evidence', () => {
+    const sql = `
+      CREATE TABLE payments (
+        id SERIAL PRIMARY KEY,
+        status TEXT CHECK (status IN ('open', 'paid', 'void')),
+        method TEXT,
+        card_number TEXT,
+        CHECK (method <> 'card' OR card_number IS NOT NULL),
+        CHECK (id > 0)
+      );
+    `;
+
+    it('should suggest a lookup table for an enumerated CHECK domain', () => {
+      const report = new DatabaseAnalyzer().analyzeSQL(sql);
+      const hints = report.compliance['3NF'].violations.filter(v => v.message.includes('lookup table'));
+
+      expect(hints).toHaveLength(1);
+      expect(hints[0].column).toBe('status');
+    });
+
+    it('should flag CHECK constraints that relate non-key columns', () => {
+      const report = new DatabaseAnalyzer().analyzeSQL(sql);
+      const hints = report.compliance['3NF'].violations.filter(v => v.message.includes('CHECK constraint relates'));
+
+      expect(hints).toHaveLength(1);
+      expect(hints[0].message).toContain("'method' and 'card_number'");
+    });
+  });
+});
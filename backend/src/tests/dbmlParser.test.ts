@@ -0,0 +1,132 @@
+import { DBMLParser } from '../parser/dbmlParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+import { exportDBML } from '../export/dbmlExporter';
+
+describe('DBML Parser Tests', () => {
+  let parser: DBMLParser;
+
+  beforeEach(() => {
+    parser = new DBMLParser();
+  });
+
+  const design = [
+    "Project shop { database_type: 'PostgreSQL' }",
+    '',
+    'enum order_status {',
+    '  pending',
+    "  \"on hold\" [note: 'waiting on stock']",
+    '}',
+    '',
+    '// Registered customers',
+    'Table customers as C [headercolor: #3498DB] {',
+    '  id integer [pk, increment]',
+    "  email varchar(255) [not null, unique, note: 'login']",
+    '  tags text[]',
+    "  Note: '''",
+    '    People who buy',
+    "  '''",
+    '}',
+    '',
+    'Table sales.orders {',
+    '  id int [pk]',
+    '  customer_id int [not null, ref: > C.id]',
+    '  status order_status',
+    '  total decimal(10,2) [default: 0]',
+    '  checks {',
+    "    `total >= 0` [name: 'positive_total']",
+    '  }',
+    '}',
+    '',
+    'Table order_items {',
+    '  order_id int',
+    '  line int',
+    '  indexes {',
+    '    (order_id, line) [pk]',
+    '    line',
+    '  }',
+    '}',
+    '',
+    'Ref fk_items: order_items.order_id > sales.orders.id [delete: cascade]'
+  ].join('\n');
+
+  it('should read tables, column settings and enums', () => {
+    const [customers, orders] = parser.extractTables(design, { file: 'shop.dbml' });
+
+    expect(customers).toMatchObject({ schema: 'public', tableName: 'customers', location: { file: 'shop.dbml', line: 9, column: 7 } });
+    expect(customers.columns.map(c => [c.name, c.type, c.nullable, c.unique])).toEqual([
+      ['id', 'integer', false, false],
+      ['email', 'varchar(255)', false, true],
+      ['tags', 'text[]', true, false]
+    ]);
+    expect(orders.schema).toBe('sales');
+    expect(orders.columns[2]).toMatchObject({ type: 'order_status', resolvedKind: 'enum' });
+    expect(orders.columns[3].type).toBe('decimal(10,2)');
+  });
+
+  it('should read refs, composite keys and checks', () => {
+    const [, orders, items] = parser.extractTables(design);
+
+    expect(orders.constraints).toEqual([
+      { type: 'primary_key', columns: ['id'] },
+      { type: 'foreign_key', columns: ['customer_id'], references: { schema: 'public', table: 'customers', columns: ['id'] } },
+      { type: 'check', name: 'positive_total', columns: ['total'], expression: 'total >= 0' }
+    ]);
+    expect(items.constraints).toEqual([
+      { type: 'primary_key', columns: ['order_id', 'line'] },
+      {
+        type: 'foreign_key',
+        name: 'fk_items',
+        columns: ['order_id'],
+        references: { schema: 'sales', table: 'orders', columns: ['id'] },
+        onDelete: 'CASCADE'
+      }
+    ]);
+    expect(items.columns[0]).toMatchObject({ primaryKey: true, nullable: false });
+  });
+
+  it('should merge a ref declared both inline and standalone', () => {
+    const [, orders] = parser.extractTables([
+      'Table users {\n  id int [pk]\n}',
+      'Table orders {\n  id int [pk]\n  user_id int [ref: > users.id]\n}',
+      'Ref: orders.user_id > users.id [delete: cascade]'
+    ].join('\n'));
+
+    expect(orders.constraints.filter(c => c.type === 'foreign_key')).toEqual([
+      { type: 'foreign_key', columns: ['user_id'], references: { schema: 'public', table: 'users', columns: ['id'] }, onDelete: 'CASCADE' }
+    ]);
+  });
+
+  it('should report refs to unknown tables', () => {
+    const errors: string[] = [];
+    const tables = parser.extractTables('Table a {\n  b_id int\n}\nRef: a.b_id > b.id', { errors });
+
+    expect(tables[0].constraints).toEqual([]);
+    expect(errors).toEqual(["Syntax error at line 4, column 15: Cannot resolve ref to table 'b'"]);
+  });
+
+  it('should export the analyzed schema with violations as notes', () => {
+    const report = new DatabaseAnalyzer().analyzeDBML(design, 'shop.dbml');
+    const violations = [...report.compliance['1NF'].violations, ...report.compliance['3NF'].violations];
+    const dbml = exportDBML(report.schema, violations);
+
+    expect(dbml).toContain('enum order_status {\n  pending\n  "on hold"\n}');
+    expect(dbml).toContain("  tags text[] [note: '1NF ERROR: Column \\'tags\\' has array type which violates 1NF']");
+    expect(dbml).toContain('Table customers {\n  id integer [pk, increment]');
+    expect(dbml).toContain("  email varchar(255) [not null, unique, note: 'login']");
+    expect(dbml).toContain('Table sales.orders {\n  id int [pk]');
+    expect(dbml).toContain('  indexes {\n    (order_id, line) [pk]\n  }');
+    expect(dbml).toContain("    `total >= 0` [name: 'positive_total']");
+    expect(dbml).toContain('Ref fk_items: order_items.order_id > sales.orders.id [delete: cascade]');
+
+    // The export reads back into the same tables
+    const reread = parser.extractTables(dbml);
+    expect(reread.map(t => t.constraints)).toEqual(parser.extractTables(design).map(t => t.constraints));
+    expect(reread.map(t => t.columns.map(c => [c.name, c.type, c.nullable]))).toEqual(
+      parser.extractTables(design).map(t => t.columns.map(c => [c.name, c.type, c.nullable])));
+
+    // Without violations, column settings and notes survive unchanged
+    const plain = parser.extractTables(exportDBML(report.schema));
+    expect(plain.map(t => t.columns.map(c => [c.name, c.autoIncrement, c.note]))).toEqual(
+      parser.extractTables(design).map(t => t.columns.map(c => [c.name, c.autoIncrement, c.note])));
+  });
+});
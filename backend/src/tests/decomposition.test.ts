@@ -0,0 +1,75 @@
+import { decomposeTable } from '../rules/decomposition';
+import { parseDependencies } from '../parser/dependencyDeclarations';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+import { Table } from '../types/schema';
+
+describe('Decomposition Tests', () => {
+  const column = (name: string, type = 'TEXT', nullable = true) => ({ name, type, nullable, primaryKey: false, unique: false });
+  const table = (name: string, columns: ReturnType<typeof column>[], primaryKeys: string[], dependencies: string): Table => ({
+    name,
+    schemaName: 'public',
+    columns: Object.fromEntries(columns.map(c => [c.name, c])),
+    primaryKeys,
+    foreignKeys: [],
+    uniqueConstraints: [],
+    functionalDependencies: parseDependencies(dependencies)
+  });
+
+  it('should synthesize 3NF tables with keys and foreign keys', () => {
+    const employees = table('employees', [
+      column('id', 'SERIAL', false), column('name'), column('department_id', 'INTEGER'), column('department_name')
+    ], ['id'], 'department_id -> department_name');
+
+    const proposal = decomposeTable(employees, '3NF');
+
+    expect(proposal.tables.map(t => [t.name, t.columns, t.primaryKey])).toEqual([
+      ['departments', ['department_id', 'department_name'], ['department_id']],
+      ['employees', ['id', 'name', 'department_id'], ['id']]
+    ]);
+    expect(proposal.lostDependencies).toEqual([]);
+    expect(proposal.sql).toBe([
+      'CREATE TABLE departments (',
+      '  department_id INTEGER NOT NULL,',
+      '  department_name TEXT,',
+      '  PRIMARY KEY (department_id)',
+      ');',
+      '',
+      'CREATE TABLE employees (',
+      '  id SERIAL NOT NULL,',
+      '  name TEXT,',
+      '  department_id INTEGER,',
+      '  PRIMARY KEY (id),',
+      '  FOREIGN KEY (department_id) REFERENCES departments (department_id)',
+      ');'
+    ].join('\n'));
+  });
+
+  it('should split to BCNF and report dependencies it cannot preserve', () => {
+    const addresses = table('addresses', [column('street'), column('city'), column('zip')], ['street', 'city'], 'zip -> city');
+
+    const proposal = decomposeTable(addresses, 'BCNF', ['addresses', 'zips']);
+
+    expect(proposal.tables.map(t => [t.name, t.columns, t.primaryKey, t.foreignKeys])).toEqual([
+      ['zips_2', ['city', 'zip'], ['zip'], []],
+      ['addresses', ['street', 'zip'], ['street', 'zip'], [{ columns: ['zip'], referencesTable: 'zips_2', referencesColumns: ['zip'] }]]
+    ]);
+    expect(proposal.lostDependencies).toEqual([{ determinant: ['street', 'city'], dependent: ['zip'] }]);
+  });
+
+  it('should attach proposals to dependency violations', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(`
+      CREATE TABLE customers (
+        id SERIAL PRIMARY KEY,
+        zip TEXT, -- @fd zip -> city, state
+        city TEXT,
+        state TEXT
+      );
+    `);
+    const [city, state] = report.compliance['3NF'].violations;
+
+    expect(city.decomposition!.normalForm).toBe('3NF');
+    expect(city.decomposition!.tables.map(t => t.name)).toEqual(['zips', 'customers']);
+    expect(city.decomposition!.sql).toContain('FOREIGN KEY (zip) REFERENCES zips (zip)');
+    expect(state.decomposition).toEqual(city.decomposition);
+  });
+});
@@ -0,0 +1,90 @@
+import { readTableRows } from '../parser/dumpDataReader';
+import { discoverDependencies } from '../rules/dependencyDiscovery';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Dependency Discovery Tests', () => {
+  describe('Row data', () => {
+    it('should read COPY blocks and INSERT statements', () => {
+      const dump = [
+        'COPY public.notes (id, body, tag) FROM stdin;',
+        '1\tline\\none\t\\N',
+        '2\ttab\\there\tx',
+        '\\.',
+        '',
+        "INSERT INTO items (id, name) VALUES (1, 'it''s'), (2, NULL);",
+        "INSERT INTO items (id, name) VALUES (3, 'x'::text);"
+      ].join('\n');
+
+      expect(readTableRows(dump)).toEqual([
+        { schema: 'public', tableName: 'notes', columns: ['id', 'body', 'tag'], rows: [['1', 'line\none', null], ['2', 'tab\there', 'x']], totalRows: 2 },
+        { tableName: 'items', columns: ['id', 'name'], rows: [['1', "it's"], ['2', null], ['3', 'x']], totalRows: 3 }
+      ]);
+
+      const [items] = readTableRows(dump.split('\n').slice(5).join('\n'), { maxRows: 2 });
+      expect(items.rows).toHaveLength(2);
+      expect(items.totalRows).toBe(3);
+    });
+  });
+
+  describe('Lattice search', () => {
+    const columns = ['id', 'department_id', 'department_name', 'status'];
+    const rows = Array.from({ length: 20 }, (_, i) => [String(i), String(i % 4), `Dept ${i % 4}`, 'active']);
+
+    it('should find minimal dependencies with their evidence', () => {
+      // id is a key and status a constant: neither is reported; the synonym pair only one way
+      expect(discoverDependencies(columns, rows)).toEqual([
+        { determinant: ['department_id'], dependent: ['department_name'], evidence: { rows: 20, holds: 1 } }
+      ]);
+    });
+
+    it('should accept dependencies within the error threshold', () => {
+      const noisy = rows.map((row, i) => i === 0 ? [row[0], row[1], 'Typo', row[3]] : row);
+
+      expect(discoverDependencies(columns, noisy)).toEqual([
+        { determinant: ['department_name'], dependent: ['department_id'], evidence: { rows: 20, holds: 1 } }
+      ]);
+      expect(discoverDependencies(columns, noisy, { maxError: 0.05 })).toEqual([
+        { determinant: ['department_id'], dependent: ['department_name'], evidence: { rows: 20, holds: 0.95 } }
+      ]);
+    });
+
+    it('should search composite determinants', () => {
+      // Every (a, b) pair twice, so (a, b) is not a key
+      const grid = Array.from({ length: 24 }, (_, i) => [String(i % 3), String(i % 4), String((i % 3) * 10 + (i % 4)), String(Math.floor(i / 12))]);
+
+      expect(discoverDependencies(['a', 'b', 'c', 'd'], grid)).toContainEqual(
+        { determinant: ['a', 'b'], dependent: ['c'], evidence: { rows: 24, holds: 1 } });
+      expect(discoverDependencies(['a', 'b', 'c', 'd'], grid, { maxDeterminantSize: 1 })
+        .some(dependency => dependency.determinant.length > 1)).toBe(false);
+    });
+  });
+
+  describe('Profiling', () => {
+    const sql = [
+      'CREATE TABLE enrollment (student_id INT, course_id INT, student_name TEXT, grade TEXT, PRIMARY KEY (student_id, course_id));',
+      ...Array.from({ length: 12 }, (_, i) =>
+        `INSERT INTO enrollment VALUES (${i % 4}, ${Math.floor(i / 4)}, 'Student ${i % 4}', '${'ABC'[i % 3]}');`)
+    ].join('\n');
+
+    it('should report violations with row evidence instead of name heuristics', () => {
+      const analyzer = new DatabaseAnalyzer();
+      analyzer.profileData();
+      const report = analyzer.analyzeSQL(sql);
+
+      expect(report.compliance['2NF'].violations.map(v => [v.column, v.severity, v.confidence, v.message])).toEqual([
+        ['student_name', 'ERROR', 1, "Column 'student_name' has a partial dependency on 'student_id', part of candidate key (student_id, course_id): student_name is determined by student_id in 100% of 12 rows"]
+      ]);
+      expect(report.analysisNotes).toContain('Profiled row data of 1 tables (12 of 12 rows sampled): 1 functional dependencies discovered');
+    });
+
+    it('should leave tables without rows to the heuristics', () => {
+      const analyzer = new DatabaseAnalyzer();
+      analyzer.profileData();
+      const withoutRows = analyzer.analyzeSQL(sql.split('\n')[0]);
+      const unprofiled = new DatabaseAnalyzer().analyzeSQL(sql);
+
+      expect(withoutRows.compliance['2NF'].violations).toEqual(unprofiled.compliance['2NF'].violations);
+      expect(withoutRows.compliance['2NF'].violations.every(v => !v.message.includes('rows'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { detectDialect } from '../parser/dialectDetector';
+import { DumpParser } from '../parser/dumpParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Dialect Detector Tests', () => {
+  const scripts = {
+    postgres: "CREATE TABLE users (id BIGSERIAL PRIMARY KEY, tags TEXT[], profile JSONB DEFAULT '{}'::jsonb);",
+    mysql: 'CREATE TABLE `users` (`id` INT UNSIGNED NOT NULL AUTO_INCREMENT, PRIMARY KEY (`id`)) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;',
+    sqlite: 'PRAGMA foreign_keys=OFF;\nBEGIN TRANSACTION;\nCREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT) STRICT;\nCOMMIT;',
+    tsql: 'CREATE TABLE [dbo].[Users] ([Id] INT IDENTITY(1,1) NOT NULL, [Name] NVARCHAR(MAX) NULL)\nGO'
+  };
+
+  describe('Detection', () => {
+    it('should pick the dialect whose markers score highest', () => {
+      for (const [dialect, sql] of Object.entries(scripts)) {
+        expect(detectDialect(sql)).toMatchObject({ dialect, confidence: 1, forced: false });
+      }
+    });
+
+    it('should report a split score as lower confidence', () => {
+      const detection = detectDialect('CREATE TABLE `orders` (id INT AUTO_INCREMENT PRIMARY KEY, total MONEY);');
+
+      expect(detection.dialect).toBe('mysql');
+      expect(detection.scores).toEqual({ postgres: 0, mysql: 6, sqlite: 0, tsql: 2 });
+      expect(detection.confidence).toBe(0.75);
+    });
+
+    it('should fall back to PostgreSQL with no confidence when nothing is marked', () => {
+      expect(detectDialect('CREATE TABLE t (id INT PRIMARY KEY);')).toMatchObject({ dialect: 'postgres', confidence: 0 });
+    });
+
+    it('should let callers force a dialect', () => {
+      const detection = detectDialect(scripts.mysql, 'tsql');
+
+      expect(detection).toMatchObject({ dialect: 'tsql', confidence: 1, forced: true });
+      expect(detection.scores.mysql).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Analysis', () => {
+    let analyzer: DatabaseAnalyzer;
+
+    beforeEach(() => {
+      analyzer = new DatabaseAnalyzer();
+    });
+
+    it('should route SQL to the detected dialect parser', () => {
+      const result = analyzer.analyzeSQLWithSchemas(scripts.tsql, 'users.sql');
+
+      expect(result.dialect).toMatchObject({ dialect: 'tsql', forced: false });
+      expect(result.schemas[0].schemaName).toBe('dbo');
+      expect(result.schemas[0].violations.some(v => v.message.includes('no primary key'))).toBe(true);
+
+      const report = analyzer.analyzeSQL(scripts.sqlite);
+      expect(report.dialect.dialect).toBe('sqlite');
+      expect(Object.keys(report.schema.tables)).toEqual(['users']);
+    });
+
+    it('should validate and analyze dumps with a forced dialect', () => {
+      const sql = 'CREATE TABLE items (id INT PRIMARY KEY, note TEXT);';
+
+      expect(analyzer.validateSQL('CREATE TABLE items (id INT,', 'mysql').isValid).toBe(false);
+      expect(DumpParser.parseDumpFile(sql, 'items.sql', 'sqlite').tables[0]).toMatchObject({ schema: 'main', source: 'dump' });
+
+      const report = analyzer.analyzeDumpFile(sql, 'items.sql', 'mysql');
+      expect(report.dialect).toMatchObject({ dialect: 'mysql', forced: true });
+      expect(report.analysisNotes[0]).toBe('Analyzed MySQL dump file (text format)');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { DrizzleParser } from '../parser/drizzleParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Drizzle Parser Tests', () => {
+  let parser: DrizzleParser;
+
+  beforeEach(() => {
+    parser = new DrizzleParser();
+  });
+
+  const orgs = {
+    path: 'db/orgs.ts',
+    content: [
+      "import { pgSchema, serial, text } from 'drizzle-orm/pg-core';",
+      "const auth = pgSchema('auth');",
+      "export const orgs = auth.table('organizations', {",
+      "  id: serial('id').primaryKey(),",
+      "  name: text('name').notNull().unique(),",
+      '});'
+    ].join('\n')
+  };
+
+  const users = {
+    path: 'db/users.ts',
+    content: [
+      "import { pgTable, pgEnum, serial, text, integer, varchar, jsonb, primaryKey, unique, foreignKey } from 'drizzle-orm/pg-core';",
+      "import { orgs } from './orgs';",
+      "export const roleEnum = pgEnum('role', ['user', 'admin']);",
+      "export const users = pgTable('users', {",
+      "  id: serial('id').primaryKey(),",
+      "  email: varchar('email', { length: 256 }).notNull(),",
+      "  role: roleEnum('role'),",
+      "  tags: text('tags').array(),",
+      '  profile: jsonb(),',
+      "  orgId: integer('org_id').references(() => orgs.id, { onDelete: 'cascade' }),",
+      '});',
+      "export const memberships = pgTable('memberships', {",
+      "  userId: integer('user_id').notNull(),",
+      "  orgId: integer('org_id').notNull(),",
+      "  title: text('title'),",
+      '}, (t) => [',
+      '  primaryKey({ columns: [t.userId, t.orgId] }),',
+      '  unique().on(t.orgId, t.title),',
+      "  foreignKey({ columns: [t.userId], foreignColumns: [users.id], name: 'fk_user' }).onDelete('set null'),",
+      ']);'
+    ].join('\n')
+  };
+
+  it('should read column builders and references across files', () => {
+    const [organizations, usersTable] = parser.extractTables([orgs, users]);
+
+    expect(organizations).toMatchObject({ schema: 'auth', tableName: 'organizations', location: { file: 'db/orgs.ts', line: 3, column: 14 } });
+    expect(usersTable.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+      ['id', 'SERIAL', false],
+      ['email', 'VARCHAR(256)', false],
+      ['role', 'role', true],
+      ['tags', 'TEXT[]', true],
+      ['profile', 'JSONB', true],
+      ['org_id', 'INTEGER', true]
+    ]);
+    expect(usersTable.columns[2].resolvedKind).toBe('enum');
+    expect(usersTable.constraints).toEqual([
+      { type: 'primary_key', columns: ['id'] },
+      { type: 'foreign_key', columns: ['org_id'], references: { schema: 'auth', table: 'organizations', columns: ['id'] }, onDelete: 'CASCADE' }
+    ]);
+  });
+
+  it('should read the extra config callback', () => {
+    const memberships = parser.extractTables([orgs, users])[2];
+
+    expect(memberships.constraints).toEqual([
+      { type: 'primary_key', columns: ['user_id', 'org_id'] },
+      { type: 'unique', columns: ['org_id', 'title'] },
+      {
+        type: 'foreign_key',
+        name: 'fk_user',
+        columns: ['user_id'],
+        references: { schema: 'public', table: 'users', columns: ['id'] },
+        onDelete: 'SET NULL'
+      }
+    ]);
+  });
+
+  it('should read columns built by helpers of the same file', () => {
+    const [posts] = parser.extractTables([{
+      path: 'db/posts.ts',
+      content: [
+        "const id = () => serial('id').primaryKey();",
+        'function createdAt() {',
+        "  return timestamp('created_at');",
+        '}',
+        "export const posts = pgTable('posts', { id: id(), createdAt: createdAt().notNull() });"
+      ].join('\n')
+    }]);
+
+    expect(posts.columns.map(c => [c.name, c.type, c.nullable])).toEqual([['id', 'SERIAL', false], ['created_at', 'TIMESTAMP', false]]);
+    expect(posts.constraints).toEqual([{ type: 'primary_key', columns: ['id'] }]);
+  });
+
+  it('should report references to unknown tables', () => {
+    const errors: string[] = [];
+    const tables = parser.extractTables([users], { errors });
+
+    expect(tables.map(t => t.tableName)).toEqual(['memberships']);
+    expect(errors).toEqual(["db/users.ts: Cannot resolve reference 'orgs.id'"]);
+  });
+
+  it('should point violations at table properties', () => {
+    const report = new DatabaseAnalyzer().analyzeOrmSources([orgs, users], 'drizzle');
+    const tags = report.compliance['1NF'].violations.find(v => v.column === 'tags');
+
+    expect(report.analysisNotes).toContain('Extracted 3 tables');
+    expect(tags.location).toEqual({ file: 'db/users.ts', line: 8, column: 3 });
+  });
+});
@@ -0,0 +1,242 @@
+import { deflateSync, gzipSync } from 'zlib';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DumpParser } from '../parser/dumpParser';
+import { PgArchiveReader } from '../parser/pgArchiveReader';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+type ArchiveEntry = { id: number; desc: string; tag: string; defn: string; data?: string };
+
+/**
+ * Minimal pg_dump archive writer (archive version 1.14, 4-byte ints, 8-byte offsets).
+ * Custom archives embed data blocks; tar/directory archives return toc.dat only
+ * and name each entry's data file "<id>.dat".
+ */
+function buildArchive(entries: ArchiveEntry[], format: 'custom' | 'tar' | 'directory' = 'custom'): Buffer {
+  const int = (value: number) => {
+    const bytes = Buffer.alloc(5);
+    bytes[0] = value < 0 ? 1 : 0;
+    bytes.writeUInt32LE(Math.abs(value), 1);
+    return bytes;
+  };
+  const str = (value: string | null) => value === null ? int(-1) : Buffer.concat([int(Buffer.byteLength(value)), Buffer.from(value)]);
+  const offset = (flag: number, value: number) => {
+    const bytes = Buffer.alloc(9);
+    bytes[0] = flag;
+    bytes.writeUInt32LE(value, 1);
+    return bytes;
+  };
+
+  const header = Buffer.concat([
+    Buffer.from('PGDMP'), Buffer.from([1, 14, 0, 4, 8, { custom: 1, tar: 3, directory: 5 }[format]]),
+    int(format === 'tar' ? 0 : -1), // compression level: none for tar, default (gzip) otherwise
+    ...[0, 0, 12, 1, 0, 124, 0].map(int),
+    str('shop'), str('16.2'), str('16.2')
+  ]);
+
+  const tocEntry = (entry: typeof entries[number], dataOffset: number | null) => Buffer.concat([
+    int(entry.id), int(entry.data ? 1 : 0), str('0'), str('0'),
+    str(entry.tag), str(entry.desc), int(entry.data ? 3 : 2), str(entry.defn), str(''),
+    str(entry.data ? `COPY public.${entry.tag} FROM stdin;\n` : ''), str('public'), str(''), str('heap'),
+    str('postgres'), str('false'), str(null),
+    format !== 'custom' ? str(entry.data ? `${entry.id}.dat` : '') :
+      dataOffset === null ? offset(1, 0) : offset(2, dataOffset)
+  ]);
+
+  // Offsets depend on the TOC size, which does not depend on offset values
+  const tocSize = entries.reduce((sum, entry) => sum + tocEntry(entry, 0).length, int(0).length);
+  const blocks: Buffer[] = [];
+  const offsets = new Map<number, number>();
+  let position = header.length + tocSize;
+
+  for (const entry of entries.filter(e => e.data && format === 'custom')) {
+    const compressed = deflateSync(Buffer.from(entry.data!));
+    const block = Buffer.concat([Buffer.from([1]), int(entry.id), int(compressed.length), compressed, int(0)]);
+    offsets.set(entry.id, position);
+    position += block.length;
+    blocks.push(block);
+  }
+
+  const toc = Buffer.concat([int(entries.length), ...entries.map(entry => tocEntry(entry, offsets.get(entry.id) ?? null))]);
+  return Buffer.concat([header, toc, ...blocks]);
+}
+
+/**
+ * Minimal ustar writer
+ */
+function buildTar(files: Record<string, Buffer>): Buffer {
+  const parts: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write(content.length.toString(8).padStart(11, '0'), 124);
+    header.write('0', 156);
+    header.write('ustar', 257);
+    parts.push(header, content, Buffer.alloc((512 - content.length % 512) % 512));
+  }
+  return Buffer.concat([...parts, Buffer.alloc(1024)]);
+}
+
+const ARCHIVE_ENTRIES: ArchiveEntry[] = [
+  { id: 210, desc: 'TABLE', tag: 'customers', defn: 'CREATE TABLE public.customers (\n    id integer NOT NULL,\n    email text\n);\n' },
+  { id: 211, desc: 'TABLE DATA', tag: 'customers', defn: '', data: '1\ta@example.com\n\\.\n' },
+  { id: 212, desc: 'CONSTRAINT', tag: 'customers_pkey', defn: 'ALTER TABLE ONLY public.customers\n    ADD CONSTRAINT customers_pkey PRIMARY KEY (id);\n' }
+];
+
+describe('Dump Parser Tests', () => {
+  describe('Text Dump Extraction', () => {
+    const dump = `
+--
+-- PostgreSQL database dump
+--
+
+SET statement_timeout = 0;
+
+CREATE TABLE public.customers (
+    id integer NOT NULL,
+    email character varying(255) NOT NULL
+);
+
+ALTER TABLE public.customers OWNER TO postgres;
+
+CREATE TABLE sales.orders (
+    id integer NOT NULL,
+    customer_id integer
+);
+
+COPY public.customers (id, email) FROM stdin;
+1	a;b@example.com
+\\.
+
+ALTER TABLE ONLY public.customers
+    ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.customers
+    ADD CONSTRAINT customers_email_key UNIQUE (email);
+
+ALTER TABLE ONLY sales.orders
+    ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY sales.orders
+    ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES public.customers(id);
+`;
+
+    it('should populate columns from the CREATE TABLE body', () => {
+      const result = DumpParser.parseDumpFile(dump);
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.tables.map(t => `${t.schema}.${t.tableName}`)).toEqual(['public.customers', 'sales.orders']);
+      expect(result.tables[0].columns).toEqual([
+        { name: 'id', type: 'INTEGER', nullable: false, primaryKey: false, unique: false, location: { line: 9, column: 5 } },
+        { name: 'email', type: 'CHARACTER VARYING(255)', nullable: false, primaryKey: false, unique: false, location: { line: 10, column: 5 } }
+      ]);
+      expect(result.tables[0].source).toBe('dump');
+    });
+
+    it('should apply ALTER TABLE ONLY ... ADD CONSTRAINT keys', () => {
+      const result = DumpParser.parseDumpFile(dump);
+      const [customers, orders] = result.tables;
+
+      expect(customers.constraints).toEqual([
+        { type: 'primary_key', columns: ['id'] },
+        { type: 'unique', columns: ['email'] }
+      ]);
+      expect(orders.constraints).toContainEqual({
+        type: 'foreign_key',
+        name: 'orders_customer_id_fkey',
+        columns: ['customer_id'],
+        references: { schema: 'public', table: 'customers', columns: ['id'] }
+      });
+    });
+  });
+
+  describe('Custom Archive Extraction', () => {
+    const archive = buildArchive(ARCHIVE_ENTRIES);
+
+    it('should read the header and table of contents', () => {
+      const reader = new PgArchiveReader(archive);
+
+      expect(reader.readHeader()).toMatchObject({ version: '1.14.0', format: 'custom', compression: 'gzip', databaseName: 'shop' });
+      expect(reader.readToc().map(entry => entry.desc)).toEqual(['TABLE', 'TABLE DATA', 'CONSTRAINT']);
+      expect(reader.readEntryData(reader.readToc()[1])).toBe('1\ta@example.com\n\\.\n');
+    });
+
+    it('should extract tables and keys from TOC definitions', () => {
+      const result = DumpParser.parseDumpFile(archive);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata.detectedFormat).toBe('custom');
+      expect(result.tables).toHaveLength(1);
+      expect(result.tables[0].columns.map(c => c.name)).toEqual(['id', 'email']);
+      expect(result.tables[0].constraints).toEqual([{ type: 'primary_key', columns: ['id'] }]);
+    });
+
+    it('should profile the rows of TABLE DATA entries', () => {
+      const analyzer = new DatabaseAnalyzer();
+      analyzer.profileData();
+
+      expect(analyzer.analyzeDumpFile(archive).analysisNotes).toContain(
+        'Profiled row data of 1 tables (1 of 1 rows sampled): 0 functional dependencies discovered');
+    });
+  });
+
+  describe('Directory and Tar Archive Extraction', () => {
+    it('should extract tables from a tar archive', () => {
+      const tar = buildTar({
+        'toc.dat': buildArchive(ARCHIVE_ENTRIES, 'tar'),
+        '211.dat': Buffer.from('1\ta@example.com\n\\.\n'),
+        'restore.sql': Buffer.from('-- restore script\n')
+      });
+
+      const result = DumpParser.parseDumpFile(tar);
+
+      expect(result.metadata.detectedFormat).toBe('tar');
+      expect(result.tables.map(t => `${t.schema}.${t.tableName}`)).toEqual(['public.customers']);
+      expect(result.tables[0].source).toBe('dump');
+      expect(result.tables[0].constraints).toEqual([{ type: 'primary_key', columns: ['id'] }]);
+    });
+
+    it('should read entry data from plain and gzipped data files', () => {
+      const files: Record<string, Buffer> = {
+        '211.dat.gz': gzipSync(Buffer.from('1\ta@example.com\n\\.\n'))
+      };
+      const reader = new PgArchiveReader(buildArchive(ARCHIVE_ENTRIES, 'directory'), name => files[name] || null);
+      const entry = reader.readToc()[1];
+
+      expect(entry.dataFile).toBe('211.dat');
+      expect(reader.readEntryData(entry)).toBe('1\ta@example.com\n\\.\n');
+
+      files['211.dat'] = Buffer.from('2\tb@example.com\n\\.\n');
+      expect(reader.readEntryData(entry)).toBe('2\tb@example.com\n\\.\n');
+    });
+
+    it('should extract tables from a directory archive', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'normadb-dump-'));
+      try {
+        writeFileSync(join(dir, 'toc.dat'), buildArchive(ARCHIVE_ENTRIES, 'directory'));
+
+        expect(DumpParser.isDumpDirectory(dir)).toBe(true);
+
+        const result = DumpParser.parseDumpDirectory(dir);
+
+        expect(result.success).toBe(true);
+        expect(result.metadata.detectedFormat).toBe('directory');
+        expect(result.tables.map(t => t.tableName)).toEqual(['customers']);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should not treat a folder of SQL files as a dump directory', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'normadb-sql-'));
+      try {
+        writeFileSync(join(dir, 'schema.sql'), 'CREATE TABLE t (id INT);');
+        expect(DumpParser.isDumpDirectory(dir)).toBe(false);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
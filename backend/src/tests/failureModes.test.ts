@@ -47,10 +47,47 @@ describe('Failure Mode Tests', () => {
       expect(result.errors.length).toBeGreaterThan(0);
       expect(result.errors[0]).toContain('SQL parsing failed');
     });
+
+    it('should report the line and column of a syntax error', () => {
+      const sql = [
+        'CREATE TABLE users (id SERIAL PRIMARY KEY);',
+        '',
+        'CREATE TABLE orders (',
+        '  id SERIAL PRIMARY KEY,',
+        '  total NUMERIC,,',
+        ');'
+      ].join('\n');
+
+      const result = analyzer.validateSQL(sql);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain('line 5, column 17');
+    });
+  });
+
+  describe('Lexical Edge Cases', () => {
+    it('should not split statements inside dollar quotes or nested comments', () => {
+      const sql = `
+        /* outer /* nested; */ still a comment; */
+        CREATE FUNCTION touch() RETURNS trigger AS $body$
+        BEGIN NEW.updated_at := now(); RETURN NEW; END;
+        $body$ LANGUAGE plpgsql;
+
+        CREATE TABLE "Sales"."Orders" (
+          id SERIAL PRIMARY KEY,
+          note TEXT DEFAULT $$a;b$$
+        );
+      `;
+
+      const analysis = analyzer.analyzeSQL(sql);
+
+      expect(Object.keys(analysis.schema.tables)).toEqual(['orders']);
+      expect(analysis.schema.tables.orders.schemaName).toBe('sales');
+    });
   });
 
   describe('Unsupported Syntax', () => {
-    it('should reject CHECK constraints', () => {
+    it('should accept CHECK constraints', () => {
       const sql = `
         CREATE TABLE users (
           id SERIAL PRIMARY KEY,
@@ -60,8 +97,8 @@ describe('Failure Mode Tests', () => {
       
       const result = analyzer.validateSQL(sql);
       
-      expect(result.isValid).toBe(false);
-      expect(result.errors[0]).toContain('Unsupported SQL construct: CHECK constraint');
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
     });
 
     it('should reject CREATE VIEW', () => {
@@ -76,7 +113,8 @@ describe('Failure Mode Tests', () => {
       expect(result.warnings).toContain('No CREATE TABLE statements found in the SQL file');
     });
 
-    it('should reject triggers', () => {
+    // Triggers are skipped like functions and views, so migrations that define them still analyze
+    it('should skip triggers', () => {
       const sql = `
         CREATE TABLE users (
           id SERIAL PRIMARY KEY,
@@ -91,8 +129,9 @@ describe('Failure Mode Tests', () => {
       
       const result = analyzer.validateSQL(sql);
       
-      expect(result.isValid).toBe(false);
-      expect(result.errors[0]).toContain('Unsupported SQL construct');
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(Object.keys(analyzer.analyzeSQL(sql).schema.tables)).toEqual(['users']);
     });
   });
 
@@ -0,0 +1,90 @@
+import { buildSchemaContext } from '../analyzer/schemaContext';
+import { SQLiteParser } from '../parser/sqliteParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+import { Table } from '../types/schema';
+
+describe('Foreign Key Inference Tests', () => {
+  const table = (schemaName: string, name: string, columns: Record<string, string>, primaryKeys: string[]): Table => ({
+    name,
+    schemaName,
+    columns: Object.fromEntries(Object.entries(columns).map(([column, type]) =>
+      [column, { name: column, type, nullable: true, primaryKey: primaryKeys.includes(column), unique: false }])),
+    primaryKeys,
+    foreignKeys: [],
+    uniqueConstraints: []
+  });
+
+  it('should match entity columns to primary keys of singular and plural tables', () => {
+    const context = buildSchemaContext([
+      table('public', 'users', { id: 'SERIAL' }, ['id']),
+      table('public', 'order_items', { id: 'BIGINT' }, ['id']),
+      table('public', 'category', { category_id: 'INTEGER' }, ['category_id']),
+      table('public', 'comments', { id: 'INTEGER', user_id: 'INTEGER', orderItemId: 'INTEGER', category_id: 'INTEGER', post_id: 'INTEGER' }, ['id'])
+    ]);
+
+    expect(context.impliedRelationships.map(r => [r.columns[0], r.to, r.referencesColumns[0], r.confidence])).toEqual([
+      ['user_id', 'public.users', 'id', 0.9],
+      ['orderItemId', 'public.order_items', 'id', 0.8],
+      ['category_id', 'public.category', 'category_id', 0.9]
+    ]);
+    expect(context.impliedRelationships[1].sql)
+      .toBe('ALTER TABLE comments ADD CONSTRAINT "comments_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES order_items (id);');
+    expect(context.foreignKeys['public.comments'].every(edge => edge.inferred)).toBe(true);
+    expect(context.references['public.users'].map(edge => edge.from)).toEqual(['public.comments']);
+  });
+
+  it('should prefer the same schema and skip mismatched types or declared keys', () => {
+    const orders = table('sales', 'orders', { id: 'INTEGER', customer_id: 'INTEGER', user_id: 'INTEGER', account_id: 'TEXT' }, ['id']);
+    orders.foreignKeys.push({
+      column: 'user_id', referencesTable: 'users', referencesColumn: 'id',
+      columns: ['user_id'], referencesSchema: 'public', referencesColumns: ['id']
+    });
+    const context = buildSchemaContext([
+      table('public', 'customers', { id: 'INTEGER' }, ['id']),
+      table('sales', 'customers', { id: 'INTEGER' }, ['id']),
+      table('public', 'users', { id: 'INTEGER' }, ['id']),
+      table('public', 'accounts', { id: 'INTEGER' }, ['id']),
+      orders
+    ]);
+
+    expect(context.impliedRelationships.map(r => [r.columns[0], r.to])).toEqual([['customer_id', 'sales.customers']]);
+    expect(context.impliedRelationships[0].sql)
+      .toBe('ALTER TABLE sales.orders ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES sales.customers (id);');
+  });
+
+  it('should match MySQL integer keys regardless of sign, fill and width', () => {
+    const context = buildSchemaContext([
+      table('shop', 'users', { id: 'INT(10) UNSIGNED' }, ['id']),
+      table('shop', 'tags', { id: 'TINYINT UNSIGNED ZEROFILL' }, ['id']),
+      table('shop', 'posts', { id: 'BIGINT(20) UNSIGNED', user_id: 'INT(11)', tag_id: 'MEDIUMINT', author_id: 'VARCHAR(20)' }, ['id']),
+      table('shop', 'authors', { id: 'INT UNSIGNED' }, ['id'])
+    ]);
+
+    expect(context.impliedRelationships.map(r => [r.columns[0], r.to, r.confidence])).toEqual([
+      ['user_id', 'shop.users', 0.9],
+      ['tag_id', 'shop.tags', 0.8]
+    ]);
+  });
+
+  it('should report implied relationships and feed them to the rules', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT);
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER, user_email TEXT);
+    `);
+
+    expect(report.impliedRelationships!.map(r => [r.from, r.to, r.confidence])).toEqual([['public.posts', 'public.users', 0.9]]);
+    expect(report.compliance['3NF'].violations.map(v => [v.column, v.confidence, v.message])).toEqual([
+      ['user_email', 0.72, "Column 'user_email' duplicates 'users.email', reached by foreign key user_id -> users (inferred)"]
+    ]);
+  });
+
+  it('should infer relationships in every dialect', () => {
+    const tables = new SQLiteParser().extractTables(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY);
+      CREATE TABLE posts (id INTEGER PRIMARY KEY, authorId INTEGER, userId INTEGER);
+    `);
+    const result = new DatabaseAnalyzer().analyze({ tables, metadata: { dialect: 'sqlite', sourceType: 'sql' } });
+
+    expect(result.schemas[0].impliedRelationships!.map(r => r.columns[0])).toEqual(['userId']);
+  });
+});
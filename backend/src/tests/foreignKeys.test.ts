@@ -0,0 +1,105 @@
+import { SQLParser } from '../parser/sqlParser';
+
+describe('Foreign Key Tests', () => {
+  let parser: SQLParser;
+
+  beforeEach(() => {
+    parser = new SQLParser();
+  });
+
+  describe('Inline REFERENCES', () => {
+    it('should create foreign keys from column definitions', () => {
+      const sql = `
+        CREATE TABLE customers (id SERIAL PRIMARY KEY);
+        CREATE TABLE orders (
+          id SERIAL PRIMARY KEY,
+          customer_id INTEGER NOT NULL CONSTRAINT fk_customer REFERENCES customers(id) ON DELETE CASCADE ON UPDATE SET NULL
+        );
+      `;
+
+      const { orders } = parser.parse(sql).tables;
+
+      expect(orders.foreignKeys).toEqual([{
+        column: 'customer_id',
+        referencesTable: 'customers',
+        referencesColumn: 'id',
+        columns: ['customer_id'],
+        referencesSchema: 'public',
+        referencesColumns: ['id'],
+        name: 'fk_customer',
+        onDelete: 'CASCADE',
+        onUpdate: 'SET NULL'
+      }]);
+      expect(orders.columns.customer_id.foreignKey).toEqual({ table: 'customers', column: 'id' });
+      expect(orders.columns.customer_id.nullable).toBe(false);
+    });
+
+    it('should reference the primary key when the column list is omitted', () => {
+      const sql = `
+        CREATE TABLE orders (id SERIAL PRIMARY KEY, customer_id INTEGER REFERENCES customers, note TEXT);
+        CREATE TABLE customers (customer_no INTEGER PRIMARY KEY);
+      `;
+
+      const { orders } = parser.parse(sql).tables;
+
+      expect(orders.foreignKeys[0]).toMatchObject({ referencesTable: 'customers', referencesColumns: ['customer_no'] });
+      expect(orders.columns.customer_id.foreignKey).toEqual({ table: 'customers', column: 'customer_no' });
+      expect(Object.keys(orders.columns)).toEqual(['id', 'customer_id', 'note']);
+    });
+
+    it('should drop an inline foreign key by its default name', () => {
+      const sql = `
+        CREATE TABLE orders (id SERIAL PRIMARY KEY, customer_id INTEGER REFERENCES customers(id));
+        ALTER TABLE orders DROP CONSTRAINT orders_customer_id_fkey;
+      `;
+
+      const { orders } = parser.parse(sql).tables;
+
+      expect(orders.foreignKeys).toEqual([]);
+      expect(orders.columns.customer_id.foreignKey).toBeUndefined();
+    });
+  });
+
+  describe('Composite and Qualified References', () => {
+    it('should keep every column pair and the referenced schema', () => {
+      const sql = `
+        CREATE TABLE sales.regions (code TEXT, country TEXT, PRIMARY KEY (code, country));
+        CREATE TABLE stores (
+          id SERIAL PRIMARY KEY,
+          region TEXT,
+          country TEXT,
+          FOREIGN KEY (region, country) REFERENCES sales.regions (code, country) MATCH FULL ON DELETE RESTRICT
+        );
+        ALTER TABLE sales.regions RENAME COLUMN code TO region_code;
+      `;
+
+      const { stores } = parser.parse(sql).tables;
+
+      expect(stores.foreignKeys).toEqual([{
+        column: 'region',
+        referencesTable: 'regions',
+        referencesColumn: 'region_code',
+        columns: ['region', 'country'],
+        referencesSchema: 'sales',
+        referencesColumns: ['region_code', 'country'],
+        onDelete: 'RESTRICT'
+      }]);
+      expect(stores.columns.country.foreignKey).toEqual({ table: 'regions', column: 'country' });
+    });
+
+    it('should emit composite foreign keys as extracted constraints', () => {
+      const sql = `
+        CREATE TABLE parents (a INTEGER, b INTEGER, PRIMARY KEY (a, b));
+        CREATE TABLE children (id INTEGER PRIMARY KEY, a INTEGER, b INTEGER, FOREIGN KEY (a, b) REFERENCES parents ON UPDATE CASCADE);
+      `;
+
+      const [, children] = parser.extractTables(sql);
+      expect(children.constraints).toContainEqual({
+        type: 'foreign_key',
+        columns: ['a', 'b'],
+        references: { schema: 'public', table: 'parents', columns: ['a', 'b'] },
+        onUpdate: 'CASCADE'
+      });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { parseDependencies } from '../parser/dependencyDeclarations';
+import { discoverMultivaluedDependencies } from '../rules/dependencyDiscovery';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Fourth Normal Form Tests', () => {
+  const profiles = `
+    CREATE TABLE employee_profiles (
+      employee_id INTEGER, -- @fd employee_id ->> skill
+      skill TEXT,
+      language TEXT,
+      PRIMARY KEY (employee_id, skill, language)
+    );
+  `;
+
+  it('should parse multivalued dependency declarations', () => {
+    expect(parseDependencies('employee_id ->> skill; zip -> city')).toEqual([
+      { determinant: ['employee_id'], dependent: ['skill'], multivalued: true },
+      { determinant: ['zip'], dependent: ['city'] }
+    ]);
+    expect(() => parseDependencies('a ->> b -> c')).toThrow("Invalid multivalued dependency 'a ->> b -> c'");
+  });
+
+  it('should report declared multivalued dependencies with a 4NF split', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(profiles);
+    const [violation] = report.compliance['4NF'].violations;
+
+    expect(report.compliance['4NF'].violations).toHaveLength(1);
+    expect(violation.message).toBe("'skill' has a multivalued dependency on 'employee_id', independent of 'language'");
+    expect(violation.decomposition!.tables.map(t => [t.name, t.primaryKey])).toEqual([
+      ['employee_skills', ['employee_id', 'skill']],
+      ['employee_languages', ['employee_id', 'language']]
+    ]);
+    expect(report.compliance['4NF'].score).toBe(0);
+    expect(report.overallScore).toBe(100);
+  });
+
+  it('should not report multivalued dependencies on a superkey', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(`
+      CREATE TABLE employee_skills (
+        employee_id INTEGER PRIMARY KEY, -- @fd employee_id ->> skill
+        skill TEXT,
+        language TEXT
+      );
+    `);
+
+    expect(report.compliance['4NF'].violations).toEqual([]);
+    expect(report.compliance['4NF'].score).toBe(100);
+  });
+
+  it('should discover multivalued dependencies from co-occurring values', () => {
+    const rows = [
+      ...['sql', 'go'].flatMap(skill => ['en', 'fr'].map(language => ['1', skill, language])),
+      ...['sql', 'rust', 'c'].flatMap(skill => ['en', 'fr'].map(language => ['3', skill, language])),
+      ['2', 'java', 'en']
+    ];
+
+    expect(discoverMultivaluedDependencies(['employee_id', 'skill', 'language'], rows, [])).toEqual([
+      { determinant: ['employee_id'], dependent: ['skill'], multivalued: true, evidence: { rows: 11, holds: 1 } }
+    ]);
+    // One pairing missing: employee 3's rows no longer combine freely
+    expect(discoverMultivaluedDependencies(['employee_id', 'skill', 'language'], rows.slice(0, -2), [])).toEqual([]);
+  });
+
+  it('should score the 4NF tier per schema', () => {
+    const analyzer = new DatabaseAnalyzer();
+    analyzer.declareDependencies({ employee_profiles: parseDependencies('employee_id ->> skill') });
+    const result = analyzer.analyzeSQLWithSchemas(profiles);
+
+    expect(result.schemas[0].normalization['4NF']).toEqual({ score: 0, violatedTables: 1, totalTables: 1 });
+    expect(new DatabaseAnalyzer().getSupportedFeatures().normalForms).toContain('4NF');
+  });
+});
@@ -0,0 +1,146 @@
+import { attributeClosure, minimalCover, candidateKeys } from '../rules/functionalDependencies';
+import { parseDependencies, parseDependencyFile, extractCommentDependencies } from '../parser/dependencyDeclarations';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+import { MYSQL_SYNTAX } from '../parser/sqlStatementSplitter';
+
+describe('Functional Dependency Tests', () => {
+  describe('Engine', () => {
+    const dependencies = parseDependencies('a -> b; b -> c; a, c -> d; d -> a');
+
+    it('should compute attribute closures', () => {
+      expect(Array.from(attributeClosure(['a'], dependencies)).sort()).toEqual(['a', 'b', 'c', 'd']);
+      expect(Array.from(attributeClosure(['b'], dependencies)).sort()).toEqual(['b', 'c']);
+    });
+
+    it('should compute a minimal cover', () => {
+      expect(minimalCover(dependencies)).toEqual([
+        { determinant: ['a'], dependent: ['b'] },
+        { determinant: ['b'], dependent: ['c'] },
+        { determinant: ['a'], dependent: ['d'] },
+        { determinant: ['d'], dependent: ['a'] }
+      ]);
+      expect(minimalCover(parseDependencies('a -> b, c; a -> b; a, b -> c'))).toEqual([
+        { determinant: ['a'], dependent: ['b'] },
+        { determinant: ['a'], dependent: ['c'] }
+      ]);
+    });
+
+    it('should find all candidate keys', () => {
+      expect(candidateKeys(['a', 'b', 'c', 'd', 'e'], dependencies)).toEqual([['e', 'a'], ['e', 'd']]);
+      expect(candidateKeys(['street', 'city', 'zip'], parseDependencies('street, city -> zip; zip -> city')))
+        .toEqual([['street', 'city'], ['street', 'zip']]);
+    });
+  });
+
+  describe('Declarations', () => {
+    it('should read JSON and YAML sidecar files', () => {
+      const expected = {
+        customers: [{ determinant: ['zip'], dependent: ['city', 'state'] }],
+        'sales.orders': [{ determinant: ['customer_id'], dependent: ['customer_name'] }]
+      };
+
+      expect(parseDependencyFile('{"customers": ["zip -> city, state"], "sales.orders": "customer_id -> customer_name"}', 'json'))
+        .toEqual(expected);
+      expect(parseDependencyFile('# shop\ncustomers:\n  - zip -> city, state\nsales.orders: "customer_id -> customer_name"\n', 'yaml'))
+        .toEqual(expected);
+      expect(() => parseDependencyFile('{"customers": ["zip city"]}', 'json'))
+        .toThrow("Invalid functional dependency 'zip city': expected 'a, b -> c, d'");
+    });
+
+    it('should read @fd comments inside and outside CREATE TABLE', () => {
+      const sql = [
+        '-- @fd sales.orders: customer_id -> customer_name',
+        'CREATE TABLE IF NOT EXISTS customers (',
+        "  zip TEXT DEFAULT '-- @fd not -> this', -- @fd zip -> city",
+        '  city TEXT',
+        ');'
+      ].join('\n');
+
+      expect(extractCommentDependencies(sql)).toEqual({
+        'sales.orders': [{ determinant: ['customer_id'], dependent: ['customer_name'] }],
+        customers: [{ determinant: ['zip'], dependent: ['city'] }]
+      });
+      expect(() => extractCommentDependencies('-- @fd zip -> city\nSELECT 1;')).toThrow('must name their table');
+    });
+
+    it('should fold unquoted table names where the dialect does', () => {
+      const sql = 'CREATE TABLE Customers (\n  zip TEXT, -- @fd zip -> city\n  city TEXT\n);';
+
+      expect(Object.keys(extractCommentDependencies(sql))).toEqual(['customers']);
+      expect(Object.keys(extractCommentDependencies(sql.replace('Customers', '"Customers"')))).toEqual(['Customers']);
+      expect(Object.keys(extractCommentDependencies(sql, MYSQL_SYNTAX))).toEqual(['Customers']);
+    });
+  });
+
+  describe('Exact normal form checks', () => {
+    const sql = `
+      CREATE TABLE customers (
+        id SERIAL PRIMARY KEY,
+        zip TEXT, -- @fd zip -> city, state
+        city TEXT,
+        state TEXT
+      );
+      CREATE TABLE enrollment (
+        student_id INTEGER,
+        course_id INTEGER,
+        student_name TEXT, -- @fd student_id -> student_name
+        grade TEXT,
+        PRIMARY KEY (student_id, course_id)
+      );
+      CREATE TABLE addresses (
+        street TEXT,
+        city TEXT,
+        zip TEXT,
+        PRIMARY KEY (street, city) -- @fd zip -> city
+      );
+    `;
+
+    it('should report declared partial, transitive and BCNF violations', () => {
+      const report = new DatabaseAnalyzer().analyzeSQL(sql);
+      const messages = (form: '2NF' | '3NF' | 'BCNF') => report.compliance[form].violations.map(v => [v.table, v.column, v.severity, v.message]);
+
+      expect(messages('2NF')).toEqual([
+        ['enrollment', 'student_name', 'ERROR', "Column 'student_name' has a partial dependency on 'student_id', part of candidate key (student_id, course_id)"]
+      ]);
+      expect(messages('3NF')).toEqual([
+        ['customers', 'city', 'ERROR', "Column 'city' has a transitive dependency on 'zip', which is not a candidate key"],
+        ['customers', 'state', 'ERROR', "Column 'state' has a transitive dependency on 'zip', which is not a candidate key"]
+      ]);
+      expect(messages('BCNF')).toEqual([
+        ['addresses', 'city', 'ERROR', "Determinant 'zip' of key column 'city' is not a superkey; candidate keys: (street, city), (street, zip)"]
+      ]);
+    });
+
+    it('should apply sidecar declarations and reject unknown columns', () => {
+      const analyzer = new DatabaseAnalyzer();
+      analyzer.declareDependencies({ 'public.people': parseDependencies('zip -> city') });
+      const report = analyzer.analyzeSQL('CREATE TABLE people (id INT PRIMARY KEY, zip TEXT, city TEXT);');
+
+      expect(report.compliance['3NF'].violations.map(v => v.column)).toEqual(['city']);
+
+      analyzer.declareDependencies({ people: parseDependencies('zip -> town') });
+      expect(() => analyzer.analyzeSQL('CREATE TABLE people (id INT PRIMARY KEY, zip TEXT, city TEXT);'))
+        .toThrow("Declared dependency 'zip -> town' names unknown column 'town' of table 'people'");
+
+      analyzer.declareDependencies({ persons: parseDependencies('zip -> city') });
+      expect(() => analyzer.analyzeSQL('CREATE TABLE people (id INT PRIMARY KEY, zip TEXT, city TEXT);'))
+        .toThrow("Declared dependencies name unknown table 'persons'");
+    });
+
+    it('should apply @fd comments on every SQL path', () => {
+      const qualified = 'CREATE TABLE sales.people (\n  id INT PRIMARY KEY,\n  zip TEXT, -- @fd zip -> city\n  city TEXT\n);';
+      const analyzer = new DatabaseAnalyzer();
+
+      expect(analyzer.analyzeSQL(qualified).compliance['3NF'].violations.map(v => v.column)).toEqual(['city']);
+      const result = analyzer.analyzeSQLWithSchemas(qualified);
+      expect(result.schemas[0].violations.filter(v => v.normalForm === '3NF').map(v => v.column)).toEqual(['city']);
+    });
+
+    it('should match declared table names case-insensitively', () => {
+      const report = new DatabaseAnalyzer().analyzeSQL(
+        'CREATE TABLE Customers (\n  id INT PRIMARY KEY,\n  zip TEXT, -- @fd zip -> city\n  city TEXT\n);');
+
+      expect(report.compliance['3NF'].violations.map(v => [v.table, v.column])).toEqual([['customers', 'city']]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { sortMigrationFiles } from '../parser/migrationSorter';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Migration Replay Tests', () => {
+  describe('File Ordering', () => {
+    it('should order Flyway versions numerically and apply repeatables last', () => {
+      const { migrations, skipped } = sortMigrationFiles([
+        'R__views.sql', 'V10__audit.sql', 'V2__orders.sql', 'V1_1__index.sql', 'V1__init.sql', 'U2__orders.sql', 'notes.sql'
+      ]);
+
+      expect(migrations.map(m => m.fileName)).toEqual([
+        'V1__init.sql', 'V1_1__index.sql', 'V2__orders.sql', 'V10__audit.sql', 'R__views.sql'
+      ]);
+      expect(skipped).toEqual(['U2__orders.sql', 'notes.sql']);
+    });
+
+    it('should order golang-migrate and timestamp prefixes and skip down migrations', () => {
+      const { migrations, skipped } = sortMigrationFiles([
+        '0002_orders.up.sql', '0002_orders.down.sql', '0001_init.up.sql', '20240105120000_audit.sql'
+      ]);
+
+      expect(migrations.map(m => [m.fileName, m.scheme])).toEqual([
+        ['0001_init.up.sql', 'golang-migrate'],
+        ['0002_orders.up.sql', 'golang-migrate'],
+        ['20240105120000_audit.sql', 'timestamp']
+      ]);
+      expect(skipped).toEqual(['0002_orders.down.sql']);
+    });
+
+    it('should reject duplicate versions', () => {
+      expect(() => sortMigrationFiles(['V1__a.sql', 'V1__b.sql'])).toThrow('Duplicate migration version 1: V1__a.sql, V1__b.sql');
+    });
+  });
+
+  describe('Cumulative Analysis', () => {
+    const migrations = [
+      { name: 'V1__init.sql', sql: 'CREATE TABLE customers (id SERIAL PRIMARY KEY, name TEXT NOT NULL);' },
+      { name: 'V2__orders.sql', sql: 'CREATE TABLE orders (id SERIAL PRIMARY KEY, customer_id INTEGER, tags TEXT[]);' },
+      { name: 'V3__cleanup.sql', sql: 'ALTER TABLE orders DROP COLUMN tags;' }
+    ];
+
+    it('should score the final schema state', () => {
+      const report = new DatabaseAnalyzer().analyzeMigrations(migrations);
+
+      expect(Object.keys(report.schema.tables)).toEqual(['customers', 'orders']);
+      expect(Object.keys(report.schema.tables.orders.columns)).toEqual(['id', 'customer_id']);
+      expect(report.compliance['1NF'].violations).toHaveLength(0);
+      expect(report.steps).toEqual([]);
+    });
+
+    it('should report the score after each migration', () => {
+      const report = new DatabaseAnalyzer().analyzeMigrations(migrations, true);
+
+      expect(report.steps.map(step => step.migration)).toEqual(migrations.map(m => m.name));
+      expect(report.steps[1].delta).toBeLessThan(0);
+      expect(report.steps[2].scores['1NF']).toBe(report.compliance['1NF'].score);
+    });
+
+    it('should name the migration that fails to parse', () => {
+      const broken = [...migrations, { name: 'V4__broken.sql', sql: 'CREATE TABLE broken (id INTEGER,,);' }];
+
+      expect(() => new DatabaseAnalyzer().analyzeMigrations(broken)).toThrow('SQL parsing failed in V4__broken.sql');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { MySQLParser } from '../parser/mysqlParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+import { splitSQLStatements, MYSQL_SYNTAX } from '../parser/sqlStatementSplitter';
+
+describe('MySQL Parser Tests', () => {
+  let parser: MySQLParser;
+
+  beforeEach(() => {
+    parser = new MySQLParser();
+  });
+
+  describe('mysqldump Output', () => {
+    const dump = [
+      '-- MySQL dump 10.13  Distrib 8.0.36, for Linux (x86_64)',
+      '/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */;',
+      'DROP TABLE IF EXISTS `customers`;',
+      'CREATE TABLE `customers` (',
+      '  `id` int unsigned NOT NULL AUTO_INCREMENT,',
+      '  `email` varchar(255) COLLATE utf8mb4_unicode_ci NOT NULL,',
+      "  `name` varchar(100) DEFAULT NULL COMMENT 'Display name; optional',",
+      '  PRIMARY KEY (`id`),',
+      '  UNIQUE KEY `customers_email_unique` (`email`),',
+      '  KEY `customers_name_index` (`name`(20))',
+      ') ENGINE=InnoDB AUTO_INCREMENT=42 DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;',
+      'LOCK TABLES `customers` WRITE;',
+      "INSERT INTO `customers` VALUES (1,'a@example.com','O\\'Brien; Jr.'),(2,'b@example.com',NULL);",
+      'UNLOCK TABLES;',
+      'CREATE TABLE `orders` (',
+      '  `id` bigint NOT NULL AUTO_INCREMENT,',
+      '  `customer_id` int unsigned NOT NULL,',
+      "  `status` enum('new','paid','shipped') NOT NULL DEFAULT 'new',",
+      '  `total` decimal(10,2) NOT NULL DEFAULT 0.00,',
+      '  `created_at` timestamp NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,',
+      '  PRIMARY KEY (`id`),',
+      '  KEY `orders_customer_id_foreign` (`customer_id`),',
+      '  CONSTRAINT `orders_customer_id_foreign` FOREIGN KEY (`customer_id`) REFERENCES `customers` (`id`) ON DELETE CASCADE',
+      ') ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;'
+    ].join('\n');
+
+    it('should extract tables and skip everything else', () => {
+      const tables = parser.extractTables(dump);
+
+      expect(tables.map(t => t.tableName)).toEqual(['customers', 'orders']);
+      expect(tables[0].source).toBe('dump');
+      expect(tables[0].columns).toEqual([
+        { name: 'id', type: 'INT UNSIGNED', nullable: false, primaryKey: false, unique: false, location: { line: 5, column: 3 } },
+        { name: 'email', type: 'VARCHAR(255)', nullable: false, primaryKey: false, unique: false, location: { line: 6, column: 3 } },
+        { name: 'name', type: 'VARCHAR(100)', nullable: true, primaryKey: false, unique: false, location: { line: 7, column: 3 } }
+      ]);
+      expect(tables[0].constraints).toEqual([
+        { type: 'primary_key', columns: ['id'] },
+        { type: 'unique', columns: ['email'] }
+      ]);
+      expect(tables[0].location).toEqual({ line: 4, column: 14 });
+    });
+
+    it('should read foreign keys and enum columns', () => {
+      const [, orders] = parser.extractTables(dump, { file: 'shop.sql' });
+
+      expect(orders.constraints).toContainEqual({
+        type: 'foreign_key',
+        name: 'orders_customer_id_foreign',
+        columns: ['customer_id'],
+        references: { schema: 'public', table: 'customers', columns: ['id'] },
+        onDelete: 'CASCADE'
+      });
+      expect(orders.columns[1].foreignKey).toEqual({ column: 'customer_id', referencesTable: 'customers', referencesColumn: 'id' });
+      expect(orders.columns[2]).toMatchObject({ type: "ENUM('new','paid','shipped')", resolvedKind: 'enum' });
+      expect(orders.columns[3].type).toBe('DECIMAL(10,2)');
+      expect(orders.location).toEqual({ file: 'shop.sql', line: 15, column: 14 });
+    });
+  });
+
+  describe('Scripts', () => {
+    it('should read inline keys, checks and USE databases', () => {
+      const sql = `
+        USE inventory;
+        CREATE TABLE IF NOT EXISTS items (
+          sku CHAR(12) PRIMARY KEY,
+          code VARCHAR(20) UNIQUE,
+          size VARCHAR(2) CHECK (size IN ('S', 'M', 'L')),
+          FULLTEXT INDEX items_code (code)
+        );
+      `;
+
+      const [items] = parser.extractTables(sql);
+
+      expect(items.schema).toBe('inventory');
+      expect(items.columns[0]).toMatchObject({ name: 'sku', primaryKey: true });
+      expect(items.constraints).toEqual([
+        { type: 'primary_key', columns: ['sku'] },
+        { type: 'unique', columns: ['code'] },
+        { type: 'check', columns: ['size'], expression: "size IN ('S', 'M', 'L')", allowedValues: ['S', 'M', 'L'] }
+      ]);
+    });
+
+    it('should split on custom delimiters', () => {
+      const sql = [
+        'CREATE TABLE t (id INT);',
+        'DELIMITER $$',
+        'CREATE TRIGGER t_bi BEFORE INSERT ON t FOR EACH ROW BEGIN SET NEW.id = 1; END$$',
+        'DELIMITER ;',
+        'CREATE TABLE u (id INT);'
+      ].join('\n');
+
+      expect(splitSQLStatements(sql, MYSQL_SYNTAX).map(s => s.text.split(' ')[2])).toEqual(['t', 't_bi', 'u']);
+      expect(parser.extractTables(sql).map(t => t.tableName)).toEqual(['t', 'u']);
+    });
+
+    it('should report syntax errors with their position', () => {
+      const sql = 'CREATE TABLE t (\n  id INT,\n  PRIMARY KEY id\n);';
+
+      expect(() => parser.extractTables(sql)).toThrow('Syntax error at line 3, column 17: Unexpected end of statement');
+
+      const errors: string[] = [];
+      expect(parser.extractTables(sql + '\nCREATE TABLE u (id INT);', { errors }).map(t => t.tableName)).toEqual(['u']);
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe('Analysis', () => {
+    it('should flag SET columns as multi-valued', () => {
+      const tables = parser.extractTables(
+        "CREATE TABLE posts (id INT PRIMARY KEY, tags SET('news','tech','sport') NOT NULL) ENGINE=InnoDB;"
+      );
+
+      const result = new DatabaseAnalyzer().analyze({ tables, metadata: { dialect: 'mysql', sourceType: 'sql' } });
+      const violation = result.schemas[0].violations.find(v => v.column === 'tags');
+
+      expect(tables[0].columns[1]).toMatchObject({ type: "SET('news','tech','sport')", resolvedKind: 'set' });
+      expect(violation).toMatchObject({ normalForm: '1NF', severity: 'ERROR' });
+      expect(violation!.message).toContain('multi-value');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { PrismaParser } from '../parser/prismaParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Prisma Parser Tests', () => {
+  let parser: PrismaParser;
+
+  beforeEach(() => {
+    parser = new PrismaParser();
+  });
+
+  const schema = [
+    'datasource db {',
+    '  provider = "postgresql"',
+    '  url      = env("DATABASE_URL")',
+    '}',
+    '',
+    '/// Registered users',
+    'model User {',
+    '  id      Int      @id @default(autoincrement())',
+    '  email   String   @unique @db.VarChar(255) // login',
+    '  role    Role     @default(USER)',
+    '  tags    String[]',
+    '  profile Json?',
+    '  posts   Post[]',
+    '}',
+    '',
+    'model Post {',
+    '  id       String @id @default(uuid()) @db.Uuid',
+    '  title    String @default("a // b")',
+    '  authorId Int',
+    '  author   User   @relation("Authored", fields: [authorId], references: [id], onDelete: Cascade, map: "post_author_fk")',
+    '',
+    '  @@unique([title, authorId(sort: Desc)], name: "title_author")',
+    '  @@index([authorId])',
+    '}',
+    '',
+    'model Tagging {',
+    '  postId String',
+    '  tag    String',
+    '',
+    '  @@id([postId, tag])',
+    '  @@schema("content")',
+    '}',
+    '',
+    'enum Role {',
+    '  USER',
+    '  ADMIN',
+    '}'
+  ].join('\n');
+
+  describe('Models', () => {
+    it('should map scalar, enum, list and Json fields to columns', () => {
+      const [user] = parser.extractTables(schema, { file: 'schema.prisma' });
+
+      expect(user).toMatchObject({ schema: 'public', tableName: 'User', location: { file: 'schema.prisma', line: 7, column: 7 } });
+      expect(user.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+        ['id', 'INTEGER', false],
+        ['email', 'VARCHAR(255)', false],
+        ['role', 'Role', false],
+        ['tags', 'TEXT[]', false],
+        ['profile', 'JSON', true]
+      ]);
+      expect(user.columns[2]).toMatchObject({ resolvedType: 'Role', resolvedKind: 'enum' });
+      expect(user.constraints).toEqual([
+        { type: 'primary_key', columns: ['id'] },
+        { type: 'unique', columns: ['email'] }
+      ]);
+    });
+
+    it('should read relations and block attributes', () => {
+      const [, post, tagging] = parser.extractTables(schema);
+
+      expect(post.columns.map(c => c.name)).toEqual(['id', 'title', 'authorId']);
+      expect(post.constraints).toEqual([
+        { type: 'primary_key', columns: ['id'] },
+        { type: 'unique', columns: ['title', 'authorId'] },
+        {
+          type: 'foreign_key',
+          name: 'post_author_fk',
+          columns: ['authorId'],
+          references: { schema: 'public', table: 'User', columns: ['id'] },
+          onDelete: 'CASCADE'
+        }
+      ]);
+      expect(post.columns[2].foreignKey).toEqual({ column: 'authorId', referencesTable: 'User', referencesColumn: 'id' });
+      expect(tagging).toMatchObject({ schema: 'content', constraints: [{ type: 'primary_key', columns: ['postId', 'tag'] }] });
+    });
+
+    it('should report unknown types and unclosed blocks', () => {
+      const errors: string[] = [];
+      parser.extractTables('model A {\n  id Intt @id\n}\nmodel B {\n  id Int @id\n}', { errors });
+
+      expect(errors).toEqual(["Syntax error at line 2, column 6: Unknown type 'Intt'"]);
+      expect(() => parser.extractTables('model A {\n  id Int @id\n')).toThrow("Syntax error at line 1, column 7: Block 'model A' is not closed");
+    });
+  });
+
+  describe('Analysis', () => {
+    it('should point violations at model fields', () => {
+      const report = new DatabaseAnalyzer().analyzePrismaSchema(schema, 'schema.prisma');
+      const tags = report.compliance['1NF'].violations.find(v => v.column === 'tags');
+
+      expect(report.analysisNotes).toContain('Extracted 3 models');
+      expect(tags).toMatchObject({ table: 'User', location: { file: 'schema.prisma', line: 11, column: 3 } });
+    });
+  });
+});
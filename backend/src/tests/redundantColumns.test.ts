@@ -0,0 +1,71 @@
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Redundant Column Tests', () => {
+  const shop = `
+    CREATE TABLE regions (id INTEGER PRIMARY KEY, name VARCHAR(40));
+    CREATE TABLE customers (
+      id INTEGER PRIMARY KEY,
+      email TEXT,
+      region_id INTEGER REFERENCES regions (id),
+      created_at TIMESTAMP
+    );
+    CREATE TABLE orders (
+      id INTEGER PRIMARY KEY,
+      customer_id INTEGER REFERENCES customers (id),
+      customer_email VARCHAR(255),
+      region_name TEXT,
+      created_at TIMESTAMP
+    );
+  `;
+  const redundant = (report: ReturnType<DatabaseAnalyzer['analyzeSQL']>) => report.compliance['3NF'].violations
+    .filter(v => v.message.includes('duplicates'))
+    .map(v => [v.table, v.column, v.confidence, v.message]);
+
+  it('should report columns copied from referenced tables along foreign key paths', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(shop);
+
+    expect(redundant(report)).toEqual([
+      ['orders', 'customer_email', 0.8, "Column 'customer_email' duplicates 'customers.email', reached by foreign key customer_id -> customers"],
+      ['orders', 'region_name', 0.7, "Column 'region_name' duplicates 'regions.name', reached by foreign key customer_id -> customers, region_id -> regions"]
+    ]);
+    expect(report.compliance['3NF'].violations[0].suggestion)
+      .toBe("Drop 'orders.customer_email' and read 'customers.email' through the join on customer_id, or replace the copy with a view joining 'customers'");
+  });
+
+  it('should match camelCase copies by their normalized names', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(`
+      CREATE TABLE customers (id INTEGER PRIMARY KEY, email TEXT);
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        "customerId" INTEGER REFERENCES customers (id),
+        "customerEmail" TEXT
+      );
+    `);
+
+    expect(redundant(report)).toEqual([
+      ['orders', 'customerEmail', 0.8, "Column 'customerEmail' duplicates 'customers.email', reached by foreign key customerId -> customers"]
+    ]);
+  });
+
+  it('should not match shared names, other types or unreferenced tables', () => {
+    const report = new DatabaseAnalyzer().analyzeSQL(`
+      CREATE TABLE customers (id INTEGER PRIMARY KEY, email TEXT, score INTEGER);
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER REFERENCES customers (id), customer_score TEXT, email TEXT);
+      CREATE TABLE invoices (id INTEGER PRIMARY KEY, customer_email TEXT);
+    `);
+
+    expect(redundant(report)).toEqual([]);
+  });
+
+  it('should see tables of other schemas when scoring one table at a time', () => {
+    const result = new DatabaseAnalyzer().analyzeSQLWithSchemas(`
+      CREATE TABLE customers (id INTEGER PRIMARY KEY, email TEXT);
+      CREATE SCHEMA sales;
+      CREATE TABLE sales.orders (id INTEGER PRIMARY KEY, customer_id INTEGER REFERENCES customers (id), customer_email TEXT);
+    `);
+    const sales = result.schemas.find(schema => schema.schemaName === 'sales')!;
+
+    expect(sales.violations.map(v => [v.table, v.column, v.normalForm])).toEqual([['orders', 'customer_email', '3NF']]);
+    expect(result.schemas.find(schema => schema.schemaName === 'public')!.violations).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import { SQLParser } from '../parser/sqlParser';
+import { buildSchemaContext } from '../analyzer/schemaContext';
+import { ComplianceCalculator } from '../analyzer/complianceCalculator';
+import { BaseNormalizationRule, RuleResult } from '../rules/normalizationRule';
+import { DatabaseSchema, SchemaContext } from '../types/schema';
+
+describe('Schema Context Tests', () => {
+  const schema = new SQLParser().parse(`
+    CREATE TABLE customers (id INTEGER PRIMARY KEY, email TEXT);
+    CREATE SCHEMA sales;
+    CREATE TABLE sales.orders (
+      id INTEGER PRIMARY KEY,
+      customer_id INTEGER REFERENCES customers (id),
+      email TEXT
+    );
+  `);
+
+  it('should index foreign keys, references and column names across schemas', () => {
+    const context = buildSchemaContext(Object.values(schema.tables));
+
+    expect(Object.keys(context.tables)).toEqual(['public.customers', 'sales.orders']);
+    expect(context.foreignKeys['sales.orders']).toEqual([
+      { from: 'sales.orders', columns: ['customer_id'], to: 'public.customers', referencesColumns: ['id'] }
+    ]);
+    expect(context.references['public.customers']).toEqual(context.foreignKeys['sales.orders']);
+    expect(context.columns.email.map(({ table }) => table)).toEqual(['public.customers', 'sales.orders']);
+  });
+
+  it('should let rules see every table while scoring one', () => {
+    class SharedColumnRule extends BaseNormalizationRule {
+      readonly normalForm = '3NF' as const;
+      readonly name = 'Shared Columns';
+      readonly description = 'Reports columns other tables also hold';
+      readonly weight = 0.5;
+
+      evaluate(scored: DatabaseSchema, context: SchemaContext): RuleResult {
+        const violations = Object.entries(scored.tables).flatMap(([tableName, table]) => Object.keys(table.columns)
+          .filter(column => column !== 'id' && context.columns[column].length > 1)
+          .map(column => this.createViolation(tableName, column, `'${column}' is shared`, '', '')));
+        return { scoreContribution: violations.length > 0 ? 0 : 1, violations, confidence: 1, explanation: '' };
+      }
+
+      getExplanation() {
+        return { whyThisFails: '', whatToFixFirst: '', exampleFixSQL: '', impact: '' };
+      }
+    }
+    const calculator = new ComplianceCalculator();
+    calculator.addRule(new SharedColumnRule());
+    const context = buildSchemaContext(Object.values(schema.tables));
+
+    const report = calculator.calculateCompliance({ tables: { customers: schema.tables.customers } }, context);
+
+    expect(report.compliance['3NF'].violations.map(v => [v.table, v.column])).toEqual([['customers', 'email']]);
+    expect(calculator.calculateCompliance({ tables: { customers: schema.tables.customers } }).compliance['3NF'].violations).toEqual([]);
+  });
+});
@@ -24,32 +24,37 @@ describe('Canonical Schema Contract Tests', () => {
         tables: {
           users: {
             name: 'users',
+            schemaName: 'public',
             columns: {
               id: {
                 name: 'id',
                 type: 'SERIAL',
                 nullable: true,
                 primaryKey: true,
-                unique: false
+                unique: false,
+                location: { line: 3, column: 11 }
               },
               name: {
                 name: 'name',
                 type: 'TEXT',
                 nullable: false,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 4, column: 11 }
               },
               email: {
                 name: 'email',
                 type: 'TEXT',
                 nullable: true,
                 primaryKey: false,
-                unique: true
+                unique: true,
+                location: { line: 5, column: 11 }
               }
             },
             primaryKeys: ['id'],
             foreignKeys: [],
-            uniqueConstraints: [['email']]
+            uniqueConstraints: [['email']],
+            location: { line: 2, column: 22 }
           }
         }
       });
@@ -74,32 +79,37 @@ describe('Canonical Schema Contract Tests', () => {
         tables: {
           enrollment: {
             name: 'enrollment',
+            schemaName: 'public',
             columns: {
               student_id: {
                 name: 'student_id',
                 type: 'INTEGER',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 3, column: 11 }
               },
               course_id: {
                 name: 'course_id',
                 type: 'INTEGER',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 4, column: 11 }
               },
               grade: {
                 name: 'grade',
                 type: 'TEXT',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 5, column: 11 }
               }
             },
             primaryKeys: ['student_id', 'course_id'],
             foreignKeys: [],
-            uniqueConstraints: []
+            uniqueConstraints: [],
+            location: { line: 2, column: 22 }
           }
         }
       });
@@ -124,13 +134,15 @@ describe('Canonical Schema Contract Tests', () => {
         tables: {
           orders: {
             name: 'orders',
+            schemaName: 'public',
             columns: {
               id: {
                 name: 'id',
                 type: 'SERIAL',
                 nullable: true,
                 primaryKey: true,
-                unique: false
+                unique: false,
+                location: { line: 3, column: 11 }
               },
               user_id: {
                 name: 'user_id',
@@ -141,23 +153,29 @@ describe('Canonical Schema Contract Tests', () => {
                 foreignKey: {
                   table: 'users',
                   column: 'id'
-                }
+                },
+                location: { line: 4, column: 11 }
               },
               order_number: {
                 name: 'order_number',
                 type: 'TEXT',
                 nullable: true,
                 primaryKey: false,
-                unique: true
+                unique: true,
+                location: { line: 5, column: 11 }
               }
             },
             primaryKeys: ['id'],
             foreignKeys: [{
               column: 'user_id',
               referencesTable: 'users',
-              referencesColumn: 'id'
+              referencesColumn: 'id',
+              columns: ['user_id'],
+              referencesSchema: 'public',
+              referencesColumns: ['id']
             }],
-            uniqueConstraints: [['order_number']]
+            uniqueConstraints: [['order_number']],
+            location: { line: 2, column: 22 }
           }
         }
       });
@@ -182,39 +200,45 @@ describe('Canonical Schema Contract Tests', () => {
         tables: {
           posts: {
             name: 'posts',
+            schemaName: 'public',
             columns: {
               id: {
                 name: 'id',
                 type: 'SERIAL',
                 nullable: true,
                 primaryKey: true,
-                unique: false
+                unique: false,
+                location: { line: 3, column: 11 }
               },
               title: {
                 name: 'title',
                 type: 'TEXT',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 4, column: 11 }
               },
               tags: {
                 name: 'tags',
                 type: 'TEXT[]',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 5, column: 11 }
               },
               metadata: {
                 name: 'metadata',
                 type: 'JSONB',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 6, column: 11 }
               }
             },
             primaryKeys: ['id'],
             foreignKeys: [],
-            uniqueConstraints: []
+            uniqueConstraints: [],
+            location: { line: 2, column: 22 }
           }
         }
       });
@@ -238,32 +262,37 @@ describe('Canonical Schema Contract Tests', () => {
         tables: {
           'user profiles': {
             name: 'user profiles',
+            schemaName: 'public',
             columns: {
               'ID': {
                 name: 'ID',
                 type: 'SERIAL',
                 nullable: true,
                 primaryKey: true,
-                unique: false
+                unique: false,
+                location: { line: 3, column: 11 }
               },
               'User Name': {
                 name: 'User Name',
                 type: 'TEXT',
                 nullable: false,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 4, column: 11 }
               },
               'Email Address': {
                 name: 'Email Address',
                 type: 'TEXT',
                 nullable: true,
                 primaryKey: false,
-                unique: false
+                unique: false,
+                location: { line: 5, column: 11 }
               }
             },
             primaryKeys: ['ID'],
             foreignKeys: [],
-            uniqueConstraints: []
+            uniqueConstraints: [],
+            location: { line: 2, column: 22 }
           }
         }
       });
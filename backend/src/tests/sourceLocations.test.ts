@@ -0,0 +1,69 @@
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('Source Location Tests', () => {
+  let analyzer: DatabaseAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new DatabaseAnalyzer();
+  });
+
+  describe('SQL Files', () => {
+    const sql = [
+      'CREATE TABLE logs (',
+      '  message TEXT,',
+      '  tags TEXT[]',
+      ');'
+    ].join('\n');
+
+    it('should locate tables and columns in the file', () => {
+      const { logs } = analyzer.analyzeSQL(sql, 'schema.sql').schema.tables;
+
+      expect(logs.location).toEqual({ file: 'schema.sql', line: 1, column: 14 });
+      expect(logs.columns.tags.location).toEqual({ file: 'schema.sql', line: 3, column: 3 });
+    });
+
+    it('should point column violations at the column and table violations at the table', () => {
+      const violations = analyzer.analyzeSQL(sql, 'schema.sql').compliance['1NF'].violations;
+
+      const arrayViolation = violations.find(v => v.column === 'tags');
+      const keyViolation = violations.find(v => v.message.includes('no primary key'));
+
+      expect(arrayViolation?.location).toEqual({ file: 'schema.sql', line: 3, column: 3 });
+      expect(keyViolation?.location).toEqual({ file: 'schema.sql', line: 1, column: 14 });
+    });
+  });
+
+  describe('Dumps', () => {
+    it('should point into a plain-text dump', () => {
+      const dump = [
+        'SET statement_timeout = 0;',
+        '',
+        'CREATE TABLE public.events (',
+        '    id integer NOT NULL,',
+        '    attendees text[]',
+        ');'
+      ].join('\n');
+
+      const result = analyzer.analyzeDumpFileWithSchemas(dump, 'shop.sql');
+      const violation = result.schemas[0].violations.find(v => v.column === 'attendees');
+
+      expect(violation?.location).toEqual({ file: 'shop.sql', line: 5, column: 5 });
+    });
+  });
+
+  describe('Migrations', () => {
+    it('should point at the migration that last touched the column', () => {
+      const report = analyzer.analyzeMigrations([
+        { name: 'V1__init.sql', sql: 'CREATE TABLE orders (\n  id SERIAL PRIMARY KEY,\n  tags TEXT\n);', path: 'db/V1__init.sql' },
+        { name: 'V2__tags.sql', sql: 'ALTER TABLE orders ALTER COLUMN tags TYPE TEXT[];' }
+      ]);
+
+      const { orders } = report.schema.tables;
+      const violation = report.compliance['1NF'].violations.find(v => v.column === 'tags');
+
+      expect(orders.location).toEqual({ file: 'db/V1__init.sql', line: 1, column: 14 });
+      expect(orders.columns.id.location).toEqual({ file: 'db/V1__init.sql', line: 2, column: 3 });
+      expect(violation?.location).toEqual({ file: 'V2__tags.sql', line: 1, column: 33 });
+    });
+  });
+});
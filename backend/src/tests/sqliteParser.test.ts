@@ -0,0 +1,146 @@
+import { SQLiteParser } from '../parser/sqliteParser';
+import { SQLiteFileReader } from '../parser/sqliteFileReader';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+type SchemaRow = { type: string; name: string; sql: string | null };
+
+/**
+ * Build a one-page SQLite database whose sqlite_master holds the given rows
+ */
+function buildDatabase(rows: SchemaRow[]): Buffer {
+  const pageSize = 4096;
+  const varint = (n: number) => n < 0x80 ? [n] : [0x80 | (n >> 7), n & 0x7f];
+  const text = (value: string | null) => value === null
+    ? { type: [0], bytes: Buffer.alloc(0) }
+    : { type: varint(Buffer.byteLength(value) * 2 + 13), bytes: Buffer.from(value) };
+
+  const cells = rows.map((row, i) => {
+    const values = [text(row.type), text(row.name), text(row.name), { type: [1], bytes: Buffer.from([i + 2]) }, text(row.sql)];
+    const types = values.flatMap(value => value.type);
+    const payload = Buffer.concat([Buffer.from([types.length + 1, ...types]), ...values.map(value => value.bytes)]);
+    return Buffer.concat([Buffer.from([...varint(payload.length), i + 1]), payload]);
+  });
+
+  const page = Buffer.alloc(pageSize);
+  page.write('SQLite format 3\0', 0, 'latin1');
+  page.writeUInt16BE(pageSize, 16);
+  page.writeUInt32BE(1, 56);
+
+  let content = pageSize;
+  cells.forEach((cell, i) => {
+    content -= cell.length;
+    cell.copy(page, content);
+    page.writeUInt16BE(content, 108 + 2 * i);
+  });
+  page[100] = 0x0d;
+  page.writeUInt16BE(cells.length, 103);
+  page.writeUInt16BE(content, 105);
+  return page;
+}
+
+describe('SQLite Parser Tests', () => {
+  let parser: SQLiteParser;
+
+  beforeEach(() => {
+    parser = new SQLiteParser();
+  });
+
+  describe('DDL Scripts', () => {
+    it('should read quoted identifiers, free-form types and inline keys', () => {
+      const sql = [
+        'CREATE TABLE IF NOT EXISTS "line items" (',
+        '  [id] INTEGER PRIMARY KEY AUTOINCREMENT,',
+        '  `order_id` INTEGER NOT NULL ON CONFLICT ABORT REFERENCES orders ON DELETE CASCADE,',
+        '  sku VARYING CHARACTER(20) UNIQUE,',
+        '  payload,',
+        '  quantity INT DEFAULT -1 CHECK (quantity > 0)',
+        ') WITHOUT ROWID, STRICT;',
+        'CREATE TABLE orders (order_no INTEGER PRIMARY KEY, placed_at TEXT);',
+        'CREATE INDEX items_sku ON "line items" (sku);'
+      ].join('\n');
+
+      const [items, orders] = parser.extractTables(sql, { file: 'app.sql' });
+
+      expect(items).toMatchObject({ schema: 'main', tableName: 'line items', location: { file: 'app.sql', line: 1, column: 28 } });
+      expect(items.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+        ['id', 'INTEGER', true],
+        ['order_id', 'INTEGER', false],
+        ['sku', 'VARYING CHARACTER(20)', true],
+        ['payload', '', true],
+        ['quantity', 'INT', true]
+      ]);
+      expect(items.constraints).toEqual([
+        { type: 'primary_key', columns: ['id'] },
+        { type: 'unique', columns: ['sku'] },
+        { type: 'foreign_key', columns: ['order_id'], references: { schema: 'main', table: 'orders', columns: ['order_no'] }, onDelete: 'CASCADE' },
+        { type: 'check', columns: ['quantity'], expression: 'quantity > 0' }
+      ]);
+      expect(items.columns[1].foreignKey).toEqual({ column: 'order_id', referencesTable: 'orders', referencesColumn: 'order_no' });
+      expect(orders.columns[1].location).toEqual({ file: 'app.sql', line: 8, column: 52 });
+    });
+
+    it('should read named table constraints', () => {
+      const sql = `
+        CREATE TEMP TABLE enrollments (
+          student_id INTEGER,
+          course_id INTEGER,
+          CONSTRAINT pk_enrollments PRIMARY KEY (student_id, course_id DESC) ON CONFLICT REPLACE,
+          CONSTRAINT fk_course FOREIGN KEY (course_id) REFERENCES courses (id) DEFERRABLE INITIALLY DEFERRED
+        );
+      `;
+
+      const [enrollments] = parser.extractTables(sql);
+
+      expect(enrollments.schema).toBe('temp');
+      expect(enrollments.constraints).toEqual([
+        { type: 'primary_key', columns: ['student_id', 'course_id'] },
+        { type: 'foreign_key', name: 'fk_course', columns: ['course_id'], references: { schema: 'temp', table: 'courses', columns: ['id'] } }
+      ]);
+    });
+  });
+
+  describe('Database Files', () => {
+    const database = buildDatabase([
+      { type: 'table', name: 'contacts', sql: 'CREATE TABLE contacts (id INTEGER PRIMARY KEY, name TEXT, phone_1 TEXT, phone_2 TEXT) -- legacy' },
+      { type: 'table', name: 'sqlite_sequence', sql: 'CREATE TABLE sqlite_sequence(name,seq)' },
+      { type: 'index', name: 'sqlite_autoindex_contacts_1', sql: null },
+      { type: 'table', name: 'notes', sql: 'CREATE TABLE notes (body TEXT)' }
+    ]);
+
+    it('should read sqlite_master', () => {
+      expect(SQLiteFileReader.isDatabase(database)).toBe(true);
+      expect(new SQLiteFileReader(database).readSchema().map(entry => [entry.type, entry.name, entry.rootPage])).toEqual([
+        ['table', 'contacts', 2],
+        ['table', 'sqlite_sequence', 3],
+        ['index', 'sqlite_autoindex_contacts_1', 4],
+        ['table', 'notes', 5]
+      ]);
+    });
+
+    it('should extract user tables without locations', () => {
+      const tables = parser.extractTablesFromDatabase(database);
+
+      expect(tables.map(t => t.tableName)).toEqual(['contacts', 'notes']);
+      expect(tables[0].source).toBe('dump');
+      expect(tables[0].location).toBeUndefined();
+      expect(tables[0].columns[0].location).toBeUndefined();
+    });
+
+    it('should analyze the stored tables as the sqlite dialect', () => {
+      const tables = parser.extractTablesFromDatabase(database);
+      const result = new DatabaseAnalyzer().analyze({ tables, metadata: { dialect: 'sqlite', sourceType: 'dump' } });
+      const messages = result.schemas[0].violations.map(v => v.message);
+
+      expect(result.schemas[0].schemaName).toBe('main');
+      expect(messages.some(m => m.includes('notes') && m.includes('no primary key'))).toBe(true);
+
+      const report = new DatabaseAnalyzer().analyzeSQLiteDatabase(database);
+      expect(report.analysisNotes).toContain('Extracted 2 tables from sqlite_master');
+    });
+
+    it('should reject files that are not SQLite databases', () => {
+      expect(SQLiteFileReader.isDatabase(Buffer.from('CREATE TABLE t (id INT);'))).toBe(false);
+      expect(() => new SQLiteFileReader(Buffer.from('PGDMP'))).toThrow('Not a SQLite 3 database file');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { TSQLParser } from '../parser/tsqlParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+import { splitSQLStatements, TSQL_SYNTAX } from '../parser/sqlStatementSplitter';
+
+describe('T-SQL Parser Tests', () => {
+  let parser: TSQLParser;
+
+  beforeEach(() => {
+    parser = new TSQLParser();
+  });
+
+  describe('SSMS Scripts', () => {
+    const script = [
+      'USE [Shop]',
+      'GO',
+      'SET ANSI_NULLS ON',
+      'GO',
+      'CREATE TABLE [dbo].[Customers](',
+      '\t[Id] [int] IDENTITY(1,1) NOT NULL,',
+      '\t[Email] [nvarchar](256) NOT NULL,',
+      '\t[Notes] [nvarchar](max) NULL,',
+      ' CONSTRAINT [PK_Customers] PRIMARY KEY CLUSTERED ',
+      '(',
+      '\t[Id] ASC',
+      ')WITH (PAD_INDEX = OFF, STATISTICS_NORECOMPUTE = OFF) ON [PRIMARY],',
+      ' CONSTRAINT [UQ_Customers_Email] UNIQUE NONCLUSTERED ([Email] ASC)',
+      ') ON [PRIMARY] TEXTIMAGE_ON [PRIMARY]',
+      'GO',
+      'CREATE TABLE [sales].[Orders](',
+      '\t[Id] [bigint] IDENTITY(1,1) NOT NULL PRIMARY KEY,',
+      '\t[CustomerId] [int] NOT NULL,',
+      '\t[Total] [decimal](18, 2) NOT NULL CONSTRAINT [DF_Orders_Total] DEFAULT ((0)),',
+      "\t[Status] [varchar](10) NOT NULL CHECK ([Status] IN ('open', 'paid')),",
+      '\t[Label] AS (CONCAT([Id], N\'-\', [Status]))',
+      ')',
+      'GO',
+      'ALTER TABLE [sales].[Orders]  WITH CHECK ADD  CONSTRAINT [FK_Orders_Customers] FOREIGN KEY([CustomerId])',
+      'REFERENCES [dbo].[Customers] ([Id])',
+      'ON DELETE CASCADE',
+      'GO',
+      'ALTER TABLE [sales].[Orders] CHECK CONSTRAINT [FK_Orders_Customers]',
+      'GO',
+      'CREATE PROCEDURE dbo.Cleanup AS BEGIN CREATE TABLE #work (id INT); END',
+      'GO'
+    ].join('\n');
+
+    it('should read bracketed tables, keys and options', () => {
+      const [customers] = parser.extractTables(script, { file: 'shop.sql' });
+
+      expect(customers).toMatchObject({ schema: 'dbo', tableName: 'Customers', location: { file: 'shop.sql', line: 5, column: 14 } });
+      expect(customers.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+        ['Id', 'INT', false],
+        ['Email', 'NVARCHAR(256)', false],
+        ['Notes', 'NVARCHAR(MAX)', true]
+      ]);
+      expect(customers.constraints).toEqual([
+        { type: 'primary_key', columns: ['Id'] },
+        { type: 'unique', columns: ['Email'] }
+      ]);
+    });
+
+    it('should add foreign keys from later ALTER TABLE batches and skip routines', () => {
+      const tables = parser.extractTables(script);
+      const orders = tables[1];
+
+      expect(tables.map(t => `${t.schema}.${t.tableName}`)).toEqual(['dbo.Customers', 'sales.Orders']);
+      expect(orders.columns.map(c => c.name)).toEqual(['Id', 'CustomerId', 'Total', 'Status']);
+      expect(orders.columns[2].type).toBe('DECIMAL(18,2)');
+      expect(orders.constraints).toEqual([
+        { type: 'primary_key', columns: ['Id'] },
+        {
+          type: 'foreign_key',
+          name: 'FK_Orders_Customers',
+          columns: ['CustomerId'],
+          references: { schema: 'dbo', table: 'Customers', columns: ['Id'] },
+          onDelete: 'CASCADE'
+        },
+        { type: 'check', columns: ['Status'], expression: "[Status] IN ('open', 'paid')", allowedValues: ['open', 'paid'] }
+      ]);
+      expect(orders.columns[1].foreignKey).toEqual({ column: 'CustomerId', referencesTable: 'Customers', referencesColumn: 'Id' });
+    });
+  });
+
+  describe('Batches', () => {
+    it('should split on GO lines and statements without semicolons', () => {
+      const sql = 'CREATE TABLE a (id INT PRIMARY KEY)\nCREATE TABLE b (id INT, a_id INT REFERENCES a)\ngo 2\nCREATE TABLE c (go INT);';
+
+      expect(splitSQLStatements(sql, TSQL_SYNTAX).map(s => s.line)).toEqual([1, 4]);
+
+      const [, b, c] = parser.extractTables(sql);
+      expect(b.constraints).toContainEqual({ type: 'foreign_key', columns: ['a_id'], references: { schema: 'dbo', table: 'a', columns: ['id'] } });
+      expect(c.columns[0].name).toBe('go');
+    });
+
+    it('should report ALTER TABLE on unknown tables', () => {
+      const errors: string[] = [];
+      parser.extractTables('ALTER TABLE dbo.Missing ADD CONSTRAINT PK_Missing PRIMARY KEY (Id)\nGO', { errors });
+
+      expect(errors).toEqual(['Statement at line 1: Table dbo.Missing is not defined']);
+    });
+  });
+
+  describe('Analysis', () => {
+    it('should analyze extracted tables as the tsql dialect', () => {
+      const tables = parser.extractTables('CREATE TABLE dbo.Contacts (Name NVARCHAR(100), Phone1 VARCHAR(20), Phone2 VARCHAR(20))\nGO');
+      const result = new DatabaseAnalyzer().analyze({ tables, metadata: { dialect: 'tsql', sourceType: 'sql' } });
+
+      expect(result.schemas[0].schemaName).toBe('dbo');
+      expect(result.schemas[0].violations.some(v => v.message.includes('no primary key'))).toBe(true);
+      expect(new DatabaseAnalyzer().getSupportedFeatures().dialects).toContain('SQL Server (T-SQL)');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { TypeORMParser } from '../parser/typeormParser';
+
+describe('TypeORM Parser Tests', () => {
+  let parser: TypeORMParser;
+
+  beforeEach(() => {
+    parser = new TypeORMParser();
+  });
+
+  const account = {
+    path: 'src/account.entity.ts',
+    content: [
+      "import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, OneToOne, JoinColumn, Unique, CreateDateColumn } from 'typeorm';",
+      "import { Organization } from './organization.entity';",
+      '',
+      '@Entity()',
+      "@Unique(['firstName', 'lastName'])",
+      'export class UserAccount {',
+      '  @PrimaryGeneratedColumn()',
+      '  id: number;',
+      '',
+      "  @Column({ name: 'first_name' })",
+      '  firstName: string;',
+      '',
+      '  @Column()',
+      '  lastName: string;',
+      '',
+      "  @Column('varchar', { length: 100, nullable: true, unique: true })",
+      '  email: string | null;',
+      '',
+      "  @Column('simple-array')",
+      '  phones: string[];',
+      '',
+      '  @CreateDateColumn()',
+      '  createdAt: Date;',
+      '',
+      "  @ManyToOne(() => Organization, org => org.users, { onDelete: 'CASCADE', nullable: false })",
+      '  organization: Organization;',
+      '',
+      '  @OneToOne(() => Organization)',
+      "  @JoinColumn({ name: 'home_org_id' })",
+      '  homeOrg: Organization;',
+      '}'
+    ].join('\n')
+  };
+
+  const organization = {
+    path: 'src/organization.entity.ts',
+    content: [
+      "@Entity({ name: 'orgs', schema: 'crm' })",
+      'export class Organization {',
+      "  @PrimaryGeneratedColumn('uuid') id: string;",
+      '  @Column() name: string;',
+      '  @OneToMany(() => UserAccount, account => account.organization) users: UserAccount[];',
+      '}'
+    ].join('\n')
+  };
+
+  it('should read entity columns with default names and types', () => {
+    const [user, org] = parser.extractTables([account, organization]);
+
+    expect(user).toMatchObject({ schema: 'public', tableName: 'user_account', location: { file: 'src/account.entity.ts', line: 6, column: 14 } });
+    expect(org).toMatchObject({ schema: 'crm', tableName: 'orgs' });
+    expect(user.columns.map(c => [c.name, c.type, c.nullable])).toEqual([
+      ['id', 'INTEGER', false],
+      ['first_name', 'VARCHAR', false],
+      ['lastName', 'VARCHAR', false],
+      ['email', 'VARCHAR(100)', true],
+      ['phones', 'SIMPLE-ARRAY', false],
+      ['createdAt', 'TIMESTAMP', false],
+      ['organizationId', 'UUID', false],
+      ['home_org_id', 'UUID', true]
+    ]);
+    expect(user.columns[4].location).toEqual({ file: 'src/account.entity.ts', line: 20, column: 3 });
+  });
+
+  it('should turn owning relations into foreign keys', () => {
+    const [user] = parser.extractTables([account, organization]);
+
+    expect(user.constraints).toEqual([
+      { type: 'primary_key', columns: ['id'] },
+      { type: 'unique', columns: ['email'] },
+      { type: 'unique', columns: ['first_name', 'lastName'] },
+      { type: 'unique', columns: ['home_org_id'] },
+      { type: 'foreign_key', columns: ['organizationId'], references: { schema: 'crm', table: 'orgs', columns: ['id'] }, onDelete: 'CASCADE' },
+      { type: 'foreign_key', columns: ['home_org_id'], references: { schema: 'crm', table: 'orgs', columns: ['id'] } }
+    ]);
+  });
+
+  it('should report relations to unknown entities', () => {
+    const errors: string[] = [];
+
+    expect(parser.extractTables([account], { errors })).toEqual([]);
+    expect(errors[0]).toBe("src/account.entity.ts: Cannot resolve relation 'UserAccount.organization' to an entity");
+  });
+});
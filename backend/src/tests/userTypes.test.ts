@@ -0,0 +1,77 @@
+import { SQLParser } from '../parser/sqlParser';
+import { DumpParser } from '../parser/dumpParser';
+import { DatabaseAnalyzer } from '../analyzer/databaseAnalyzer';
+
+describe('User-Defined Type Tests', () => {
+  const sql = `
+    CREATE TYPE mood AS ENUM ('sad', 'ok');
+    CREATE TYPE address AS (street TEXT, zip VARCHAR(10));
+    CREATE DOMAIN tag_list AS TEXT[] NOT NULL;
+    CREATE DOMAIN payload AS JSONB;
+    CREATE DOMAIN metadata AS payload DEFAULT '{}';
+    ALTER TYPE mood ADD VALUE 'happy';
+
+    CREATE TABLE people (
+      id SERIAL PRIMARY KEY,
+      current_mood mood,
+      home address,
+      tags tag_list,
+      extra metadata
+    );
+  `;
+
+  describe('Type Registry', () => {
+    it('should collect enums, composite types and domains', () => {
+      const schema = new SQLParser().parse(sql);
+
+      expect(schema.types).toEqual({
+        'public.mood': { name: 'mood', schemaName: 'public', kind: 'enum', values: ['sad', 'ok', 'happy'] },
+        'public.address': {
+          name: 'address',
+          schemaName: 'public',
+          kind: 'composite',
+          attributes: [{ name: 'street', type: 'TEXT' }, { name: 'zip', type: 'VARCHAR(10)' }]
+        },
+        'public.tag_list': { name: 'tag_list', schemaName: 'public', kind: 'domain', baseType: 'TEXT[]', notNull: true },
+        'public.payload': { name: 'payload', schemaName: 'public', kind: 'domain', baseType: 'JSONB', notNull: false },
+        'public.metadata': { name: 'metadata', schemaName: 'public', kind: 'domain', baseType: 'PAYLOAD', notNull: false }
+      });
+    });
+
+    it('should keep the declared type and add the resolved base type', () => {
+      const { columns } = new SQLParser().parse(sql).tables.people;
+
+      expect(columns.id.resolvedType).toBeUndefined();
+      expect(columns.current_mood).toMatchObject({ type: 'MOOD', resolvedType: 'MOOD', resolvedKind: 'enum' });
+      expect(columns.home).toMatchObject({ type: 'ADDRESS', resolvedType: 'ADDRESS', resolvedKind: 'composite' });
+      expect(columns.tags).toMatchObject({ type: 'TAG_LIST', resolvedType: 'TEXT[]' });
+      expect(columns.extra).toMatchObject({ type: 'METADATA', resolvedType: 'JSONB' });
+    });
+
+    it('should resolve types declared in a dump', () => {
+      const dump = `
+CREATE DOMAIN public.tag_list AS text[];
+
+CREATE TABLE public.posts (
+    id integer NOT NULL,
+    tags public.tag_list
+);
+`;
+      const result = DumpParser.parseDumpFile(dump);
+
+      expect(result.tables[0].columns[1]).toMatchObject({ type: 'PUBLIC.TAG_LIST', resolvedType: 'TEXT[]' });
+    });
+  });
+
+  describe('1NF Analysis', () => {
+    it('should see arrays and JSON behind domains and flag composite columns', () => {
+      const report = new DatabaseAnalyzer().analyzeSQL(sql);
+      const flagged = report.compliance['1NF'].violations.map(v => [v.column, v.message]);
+
+      expect(flagged).toContainEqual(['tags', "Column 'tags' has array type which violates 1NF"]);
+      expect(flagged).toContainEqual(['extra', "Column 'extra' has JSON type which may violate 1NF"]);
+      expect(flagged).toContainEqual(['home', "Column 'home' has composite type ADDRESS which is not atomic"]);
+      expect(flagged.map(([column]) => column)).not.toContain('current_mood');
+    });
+  });
+});
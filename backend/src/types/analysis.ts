@@ -1,5 +1,9 @@
+import { SourceLocation, NormalForm, ImpliedRelationship } from './schema';
+import { DialectDetection } from './dumpParser';
+import { DecompositionProposal } from './dependency';
+
 export interface NormalizationViolation {
-  normalForm: '1NF' | '2NF' | '3NF';
+  normalForm: NormalForm;
   table: string;
   column?: string;
   severity: 'ERROR' | 'WARNING';
@@ -7,6 +11,8 @@ export interface NormalizationViolation {
   explanation: string;
   suggestion: string;
   confidence: number;
+  location?: SourceLocation;
+  decomposition?: DecompositionProposal;
 }
 
 export interface SchemaAnalysisResult {
@@ -28,8 +34,19 @@ export interface SchemaAnalysisResult {
       violatedTables: number;
       totalTables: number;
     };
+    "BCNF": {
+      score: number;
+      violatedTables: number;
+      totalTables: number;
+    };
+    "4NF": {
+      score: number;
+      violatedTables: number;
+      totalTables: number;
+    };
   };
   violations: NormalizationViolation[];
+  impliedRelationships?: ImpliedRelationship[]; // Set when undeclared foreign keys were inferred
   overallScore: number;
   status: "PERFECT" | "GOOD" | "NEEDS_ATTENTION" | "CRITICAL";
 }
@@ -39,4 +56,5 @@ export interface DatabaseAnalysisResult {
   totalTables: number;
   overallScore: number;
   schemas: SchemaAnalysisResult[];
+  dialect?: DialectDetection;  // Set when the analyzer parsed the SQL itself
 }
@@ -0,0 +1,69 @@
+/**
+ * Functional dependencies
+ *
+ * Dependencies declared for a table, from a sidecar JSON/YAML file or from
+ * `-- @fd` comments in SQL, make the 2NF, 3NF and BCNF checks exact;
+ * multivalued ones (`employee_id ->> skill`) feed the 4NF check.
+ * Dependencies discovered in a dump's row data carry the evidence for them.
+ */
+
+/**
+ * determinant -> dependent, e.g. zip -> city, state
+ */
+export interface FunctionalDependency {
+  determinant: string[];
+  dependent: string[];
+  evidence?: DependencyEvidence; // Discovered dependencies only
+}
+
+/**
+ * determinant ->> dependent: per determinant value, the dependent's values
+ * combine freely with those of the table's remaining columns
+ */
+export interface MultivaluedDependency {
+  determinant: string[];
+  dependent: string[];
+  multivalued: true;
+  evidence?: DependencyEvidence; // Discovered only; `holds` is the share of rows whose determinant value combines freely
+}
+
+export type Dependency = FunctionalDependency | MultivaluedDependency;
+
+/**
+ * How well a discovered dependency holds in the sampled rows
+ */
+export interface DependencyEvidence {
+  rows: number;  // Rows sampled
+  holds: number; // 0-1: share of rows left once the fewest rows that break the dependency are removed
+}
+
+/**
+ * Profiling of row data (COPY blocks and INSERTs) to discover dependencies
+ */
+export interface DataProfileOptions {
+  sampleRows?: number;         // Rows read per table; default 10000
+  maxError?: number;           // 0-1: share of rows allowed to break a dependency; default 0
+  maxDeterminantSize?: number; // Widest determinant searched; default 3
+}
+
+/**
+ * Declared dependencies by table: "table" or "schema.table"
+ */
+export type DeclaredDependencies = Record<string, Dependency[]>;
+
+/**
+ * Tables a violating table can be split into, and the DDL that creates them
+ */
+export interface DecompositionProposal {
+  normalForm: 'BCNF' | '3NF' | '4NF';        // Lossless BCNF decomposition, dependency-preserving 3NF synthesis or a 4NF split
+  tables: ProposedTable[];                   // Referenced tables first
+  lostDependencies: FunctionalDependency[];  // BCNF only: dependencies no single proposed table enforces
+  sql: string;
+}
+
+export interface ProposedTable {
+  name: string;
+  columns: string[];
+  primaryKey: string[];
+  foreignKeys: Array<{ columns: string[]; referencesTable: string; referencesColumns: string[] }>;
+}
@@ -1,3 +1,6 @@
+import { ReferentialAction, SourceLocation } from './schema';
+import { DeclaredDependencies } from './dependency';
+
 /**
  * Single Responsibility: Dump File Table Extraction
  * 
@@ -8,6 +11,8 @@
 export interface ColumnDef {
   name: string;
   type: string;
+  resolvedType?: string;               // Base type behind a domain, enum or composite type
+  resolvedKind?: 'enum' | 'composite' | 'set';
   nullable: boolean;
   primaryKey?: boolean;
   unique?: boolean;
@@ -16,15 +21,24 @@ export interface ColumnDef {
     referencesTable: string;
     referencesColumn: string;
   };
+  autoIncrement?: boolean;             // DBML `increment`
+  note?: string;                       // DBML column note
+  location?: SourceLocation;
 }
 
 export interface ConstraintDef {
-  type: 'primary_key' | 'foreign_key' | 'unique';
+  type: 'primary_key' | 'foreign_key' | 'unique' | 'check';
+  name?: string;
   columns: string[];
   references?: {
+    schema?: string;
     table: string;
     columns: string[];
   };
+  onDelete?: ReferentialAction;
+  onUpdate?: ReferentialAction;
+  expression?: string;      // CHECK condition
+  allowedValues?: string[]; // CHECK value list, e.g. status IN ('a', 'b')
 }
 
 export interface ExtractedTable {
@@ -34,14 +48,46 @@ export interface ExtractedTable {
   constraints: ConstraintDef[];
   source: 'sql' | 'dump';
   createStatement?: string; // Optional for debugging
+  location?: SourceLocation;
+}
+
+export type SQLDialect = 'postgres' | 'mysql' | 'sqlite' | 'tsql';
+
+/**
+ * Dialect picked for an input, by marker scores or by the caller
+ */
+export interface DialectDetection {
+  dialect: SQLDialect;
+  confidence: number;    // 0-1: share of all marker points won by the dialect; 1 when forced or read from a file signature
+  forced: boolean;
+  scores: Record<SQLDialect, number>;
+}
+
+/**
+ * Reads one dialect's DDL into ExtractedTable facts
+ */
+export interface DialectTableParser {
+  extractTables(sqlContent: string, options?: { source?: ExtractedTable['source']; errors?: string[]; file?: string }): ExtractedTable[];
+}
+
+/**
+ * Rows of one table read from COPY ... FROM stdin blocks and INSERT statements
+ */
+export interface TableRows {
+  schema?: string;             // When the statement qualifies the table
+  tableName: string;
+  columns: string[] | null;    // Column list of the statement; null means table order
+  rows: Array<Array<string | null>>;
+  totalRows: number;           // Rows in the input, including those beyond the sample
 }
 
 export interface AnalysisInput {
   tables: ExtractedTable[];
   metadata: {
-    dialect: 'postgres';
+    dialect: SQLDialect;
     sourceType: 'sql' | 'dump';
   };
+  dependencies?: DeclaredDependencies; // Declared or discovered, by "table" or "schema.table"
 }
 
 export interface ForeignKey {
@@ -59,4 +105,44 @@ export interface DumpParseResult {
     extractedSize: number;
     detectedFormat: string;
   };
-}
\ No newline at end of file
+}
+
+/**
+ * pg_dump archive (-Fc / -Fd / -Ft) structures
+ */
+export type PgArchiveFormat = 'custom' | 'tar' | 'directory';
+
+export type PgArchiveCompression = 'none' | 'gzip' | 'lz4' | 'zstd';
+
+export interface PgArchiveHeader {
+  version: string;          // Archive version, e.g. "1.14.0"
+  format: PgArchiveFormat;
+  compression: PgArchiveCompression;
+  intSize: number;
+  offSize: number;
+  databaseName: string | null;
+  serverVersion: string | null;
+  dumpVersion: string | null;
+}
+
+export interface PgArchiveTocEntry {
+  dumpId: number;
+  tag: string;              // Object name, e.g. "customers" or "customers_pkey"
+  desc: string;             // Object kind, e.g. "TABLE", "CONSTRAINT", "FK CONSTRAINT"
+  section: number;
+  defn: string;             // SQL that recreates the object
+  copyStmt: string | null;  // COPY statement for TABLE DATA entries
+  namespace: string | null;
+  owner: string | null;
+  dependencies: number[];
+  dataOffset: number | null; // Custom format: offset of the entry's data block
+  dataFile: string | null;   // Directory/tar formats: file holding the entry's data
+}
+
+export interface SQLiteSchemaEntry {
+  type: 'table' | 'index' | 'view' | 'trigger';
+  name: string;
+  tableName: string;        // Table the entry belongs to (tbl_name)
+  rootPage: number;
+  sql: string | null;       // CREATE statement as stored; null for automatic indexes
+}
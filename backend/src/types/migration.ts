@@ -0,0 +1,41 @@
+/**
+ * Migration folder replay
+ *
+ * Migration files are ordered by their version prefix and applied
+ * cumulatively to a single schema.
+ */
+
+import { AnalysisReport } from './schema';
+
+export type MigrationScheme = 'flyway' | 'golang-migrate' | 'timestamp';
+
+export interface MigrationFile {
+  fileName: string;
+  scheme: MigrationScheme;
+  version: number[] | null; // Numeric version parts; null for Flyway repeatable (R__) migrations
+  description: string;
+}
+
+export interface MigrationScript {
+  name: string;
+  sql: string;
+  path?: string; // File reported in source locations; defaults to name
+}
+
+export interface MigrationStep {
+  migration: string;
+  overallScore: number;
+  scores: {
+    '1NF': number;
+    '2NF': number;
+    '3NF': number;
+    'BCNF': number;
+    '4NF': number;
+  };
+  delta: number; // Change in overall score against the previous migration
+}
+
+export interface MigrationAnalysisReport extends AnalysisReport {
+  migrations: string[];
+  steps: MigrationStep[]; // Empty unless per-migration scores were requested
+}
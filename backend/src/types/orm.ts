@@ -0,0 +1,13 @@
+/**
+ * ORM entity extraction
+ *
+ * Drizzle table definitions and TypeORM entities are read from TypeScript
+ * source files into the same ExtractedTable facts as SQL.
+ */
+
+export type OrmKind = 'drizzle' | 'typeorm';
+
+export interface OrmSourceFile {
+  path: string;    // Reported in source locations
+  content: string;
+}
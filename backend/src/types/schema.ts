@@ -1,6 +1,20 @@
+import { DialectDetection } from './dumpParser';
+import { FunctionalDependency, MultivaluedDependency, DecompositionProposal } from './dependency';
+
+/**
+ * Where a table or column was declared (or last changed, for migrations)
+ */
+export interface SourceLocation {
+  file?: string;  // Absent when the SQL did not come from a named file
+  line: number;   // 1-based
+  column: number; // 1-based
+}
+
 export interface Column {
   name: string;
-  type: string;
+  type: string;                            // Declared type, e.g. TAGS
+  resolvedType?: string;                   // Set for user-defined types: the base type behind domains, e.g. TEXT[]
+  resolvedKind?: 'enum' | 'composite' | 'set'; // Set for user-defined enums and composites, and MySQL ENUM/SET columns
   nullable: boolean;
   primaryKey: boolean;
   foreignKey?: {
@@ -8,6 +22,30 @@ export interface Column {
     column: string;
   };
   unique: boolean;
+  autoIncrement?: boolean; // Set for DBML `increment` columns
+  note?: string;           // Set for DBML columns with a note
+  location?: SourceLocation;
+}
+
+export interface CheckConstraint {
+  name?: string;
+  expression: string;       // Condition as written, without the surrounding parentheses
+  columns: string[];        // Columns the condition references
+  allowedValues?: string[]; // Literal list for "col IN (...)" style conditions on a single column
+}
+
+export type ReferentialAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
+export interface ForeignKeyConstraint {
+  column: string;              // First local column
+  referencesTable: string;
+  referencesColumn: string;    // First referenced column
+  columns: string[];           // All local columns, in key order
+  referencesSchema: string;
+  referencesColumns: string[]; // Paired with `columns` by position
+  name?: string;
+  onDelete?: ReferentialAction; // Set when declared; PostgreSQL defaults to NO ACTION
+  onUpdate?: ReferentialAction;
 }
 
 export interface Table {
@@ -15,20 +53,71 @@ export interface Table {
   schemaName?: string;
   columns: Record<string, Column>;
   primaryKeys: string[];
-  foreignKeys: Array<{
-    column: string;
-    referencesTable: string;
-    referencesColumn: string;
-  }>;
+  foreignKeys: ForeignKeyConstraint[];
   uniqueConstraints: string[][];
+  checkConstraints?: CheckConstraint[];
+  functionalDependencies?: FunctionalDependency[]; // Declared or discovered; when present, even empty, dependency rules are exact for the table
+  multivaluedDependencies?: MultivaluedDependency[]; // Declared or discovered; checked for 4NF
+  location?: SourceLocation;
+}
+
+/**
+ * CREATE TYPE ... AS ENUM, CREATE TYPE ... AS (...) and CREATE DOMAIN
+ */
+export interface UserDefinedType {
+  name: string;
+  schemaName: string;
+  kind: 'enum' | 'composite' | 'domain';
+  values?: string[];                                 // Enum labels
+  attributes?: Array<{ name: string; type: string }>; // Composite fields
+  baseType?: string;                                 // Domain underlying type, as declared
+  notNull?: boolean;                                 // Domain NOT NULL
 }
 
 export interface DatabaseSchema {
   tables: Record<string, Table>; // Key: tableName, Table object has schemaName
+  types?: Record<string, UserDefinedType>; // Key: "schema.type"; present when the script defines types
+}
+
+/**
+ * A foreign key as an edge of the schema's reference graph
+ */
+export interface ForeignKeyEdge {
+  from: string;                // Referencing table, "schema.table"
+  columns: string[];
+  to: string;                  // Referenced table, "schema.table"; may be outside the analyzed tables
+  referencesColumns: string[]; // Paired with `columns` by position
+  name?: string;
+  inferred?: boolean;          // Implied by column naming and types, not declared
+}
+
+/**
+ * A foreign key implied by a column such as user_id matching the primary key
+ * of users, with the statement that would declare it
+ */
+export interface ImpliedRelationship extends ForeignKeyEdge {
+  name: string;
+  inferred: true;
+  confidence: number;
+  sql: string; // ALTER TABLE ... ADD CONSTRAINT ... FOREIGN KEY
 }
 
+/**
+ * Every analyzed table of every schema, for rules that look across tables.
+ * Rules still report violations only for the tables of the schema they score.
+ */
+export interface SchemaContext {
+  tables: Record<string, Table>;                // Key: "schema.table"
+  foreignKeys: Record<string, ForeignKeyEdge[]>; // Outgoing edges, by referencing table; declared, then inferred
+  references: Record<string, ForeignKeyEdge[]>;  // Incoming edges, by referenced table
+  impliedRelationships: ImpliedRelationship[];   // The inferred edges
+  columns: Record<string, Array<{ table: string; column: Column }>>; // Key: lowercased column name
+}
+
+export type NormalForm = '1NF' | '2NF' | '3NF' | 'BCNF' | '4NF';
+
 export interface Violation {
-  normalForm: '1NF' | '2NF' | '3NF';
+  normalForm: NormalForm;
   table: string;
   column?: string;
   severity: 'ERROR' | 'WARNING';
@@ -36,10 +125,12 @@ export interface Violation {
   explanation: string;
   suggestion: string;
   confidence: number;
+  location?: SourceLocation; // The violating column's, or else the table's
+  decomposition?: DecompositionProposal; // Dependency violations of tables with known dependencies
 }
 
 export interface ComplianceScore {
-  normalForm: '1NF' | '2NF' | '3NF';
+  normalForm: NormalForm;
   score: number;
   totalRules: number;
   passedRules: number;
@@ -55,6 +146,8 @@ export interface AnalysisReport {
     '1NF': ComplianceScore;
     '2NF': ComplianceScore;
     '3NF': ComplianceScore;
+    'BCNF': ComplianceScore;
+    '4NF': ComplianceScore;
   };
   overallScore: number;
   summary: {
@@ -62,4 +155,7 @@ export interface AnalysisReport {
     criticalViolations: number;
     warnings: number;
   };
+  dialect?: DialectDetection;  // Set when the analyzer parsed the SQL itself
+  impliedRelationships?: ImpliedRelationship[]; // Set when undeclared foreign keys were inferred
+  analysisNotes?: string[];    // What was read and how, e.g. row profiling results
 }